@@ -1,24 +1,104 @@
 #!/usr/bin/env node
 
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import chalk from 'chalk';
-import ora, { type Ora } from 'ora';
-import { CompactCompiler } from './Compiler.ts';
-import { isPromisifiedChildProcessError } from './types/errors.ts';
+import { basename, join, relative } from 'node:path';
+import { CACHE_MANIFEST_FILE, CompactCompiler } from './Compiler.ts';
+import { type CompactConfig, mergeOptions } from './config.ts';
+import { createReporter } from './reporters/createReporter.ts';
+import { BuildStepRunner } from './services/BuildStepRunner.ts';
+import {
+  CancellationError,
+  isPromisifiedChildProcessError,
+  TypeScriptError,
+} from './types/errors.ts';
 import {
   type BuilderOnlyOptions,
   type BuilderOptions,
+  type BuildHook,
+  type BuildHookPoint,
+  type BuildOperation,
   type BuildStep,
   DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_SRC_DIR,
+  DEFAULT_TSCONFIG,
+  type ExecFunction,
+  type ReporterFormat,
+  type ResolvedSourceRoot,
+  type RunOptions,
+  type WatchOptions,
 } from './types/options.ts';
-import { buildFindExcludes, shellQuote } from './utils.ts';
+import type { Reporter, StepEvent } from './types/reporter.ts';
+import type {
+  BuildPlan,
+  BuildResult,
+  StepResult,
+  StepStatus,
+} from './types/results.ts';
 
 // Re-export public types so consumers keep importing them from './Builder.js'.
-export type { BuilderOnlyOptions, BuilderOptions };
+export type {
+  BuilderOnlyOptions,
+  BuilderOptions,
+  BuildHook,
+  BuildHookPoint,
+  BuildOperation,
+  BuildPlan,
+  BuildResult,
+  BuildStep,
+  StepResult,
+  StepStatus,
+};
+// biome-ignore lint/performance/noBarrelFile: package entrypoint
+export {
+  BuildStepRunner,
+  type StepOutput,
+} from './services/BuildStepRunner.ts';
+export { PackageManifestWriter } from './services/PackageManifestWriter.ts';
+export {
+  type TypeScriptOutput,
+  TypeScriptService,
+} from './services/TypeScriptService.ts';
+export type {
+  BuildHookContext,
+  CleanOperation,
+  CopyGlobOperation,
+  CopyTreeOperation,
+  CustomBuildStep,
+  FunctionOperation,
+  MkdirOperation,
+  PackageManifestOperation,
+  RemoveMatchingOperation,
+  RunCommandOperation,
+  ShellOperation,
+  TypeScriptOperation,
+} from './types/options.ts';
+export type {
+  PlannedAction,
+  PlannedFile,
+  PlannedStep,
+} from './types/results.ts';
+
+/**
+ * Build steps of a build, split around compilation.
+ */
+interface StepPhases {
+  /** Steps run before the `.compact` files are compiled */
+  beforeCompile: BuildStep[];
+  /** Steps run after a successful compile */
+  afterCompile: BuildStep[];
+}
 
-// Promisified exec for async execution
-const execAsync = promisify(exec);
+/** Progress message of a hook, e.g. `afterDist hook: yarn docs`. */
+function describeHook(point: BuildHookPoint, hook: BuildHook): string {
+  const name = typeof hook === 'string' ? hook : hook.name;
+  return name ? `${point} hook: ${name}` : `${point} hook`;
+}
+
+/** The operation running a hook. */
+function hookOperation(hook: BuildHook): BuildOperation {
+  return typeof hook === 'string'
+    ? { type: 'shell', command: hook }
+    : { type: 'function', run: hook };
+}
 
 /**
  * A class to handle the build process for a project.
@@ -29,8 +109,32 @@ const execAsync = promisify(exec);
  * publishable distribution that matches their package conventions
  * (preserve source tree, copy metadata, clean dist, custom excludes).
  *
- * @notice `cmd` scripts discard `stderr` output and fail silently because this is
- * handled in `executeStep`.
+ * Each step is a list of typed operations (clean, copy, remove, run a command)
+ * executed in-process by {@link BuildStepRunner}; a step reports the files it
+ * touched and fails with the underlying error instead of being ignored.
+ * TypeScript (`tsconfig`, default `tsconfig.build.json`; `skipTsc` leaves it
+ * out) is compiled in-process too, and its errors and warnings are reported
+ * as structured diagnostics, like those of the Compact compiler.
+ *
+ * With `packageJson`, the last step writes `dist/package.json` from the
+ * package's manifest, with its entry points remapped to dist and checked to
+ * exist, so the package can be published from `dist/`.
+ *
+ * Hooks (`beforeCompile`, `afterCompile`, `beforeTsc`, `afterDist`) and
+ * named custom `steps` — shell commands or async functions — add steps at
+ * those insertion points, e.g. to generate docs or bundle without forking
+ * the builder.
+ *
+ * {@link CompactBuilder.plan} (`--dry-run`) resolves all of this without
+ * running anything: the files to compile and every copy and removal.
+ *
+ * Progress is reported through a {@link Reporter} (spinners by default),
+ * which is shared with the underlying {@link CompactCompiler}.
+ *
+ * With several `sources` or `workspaces`, every root is compiled first, then
+ * the build steps run once per root, inside the root's package directory
+ * (the package in workspace mode, else the parent of the root's `srcDir`),
+ * so each package gets its own `dist/`.
  *
  * @example
  * ```typescript
@@ -41,23 +145,51 @@ const execAsync = promisify(exec);
  * const builder = new CompactBuilder({
  *   cleanDist: true,
  *   hierarchical: true,
- *   exclude: ['Mock*', '*\/archive\/*'],
+ *   exclude: ['Mock*', 'archive/'],
  *   copyToDist: ['package.json', '../README.md'],
  * });
  * builder.build().catch(err => console.error(err));
+ *
+ * // Build every workspace package holding .compact sources
+ * await new CompactBuilder({ workspaces: true, flags: '--skip-zk' }).build();
+ *
+ * // Generate docs once dist/ is complete
+ * await new CompactBuilder({
+ *   afterDist: 'typedoc --out dist/docs',
+ *   steps: [{ name: 'Bundling', at: 'afterDist', run: async ({ cwd }) => bundle(cwd) }],
+ * }).build();
+ *
+ * // Rebuild on every save
+ * await new CompactBuilder({ flags: '--skip-zk' }).watch();
  * ```
  */
 export class CompactBuilder {
   private readonly options: BuilderOptions;
-  private readonly steps: BuildStep[];
+  private readonly steps: StepPhases;
+  private readonly ui: Reporter;
+  private readonly runner: BuildStepRunner;
+  private result: BuildResult | undefined;
 
   /**
    * Constructs a new CompactBuilder instance.
    * @param options - Compiler + builder options (see {@link BuilderOptions}).
+   * @param reporter - Optional reporter for progress and results (default:
+   *                   the one selected by `options.reporter`).
+   * @param execFn - Function used to run the steps' commands (default:
+   *                 `execFileAsync`).
    */
-  constructor(options: BuilderOptions = {}) {
+  constructor(
+    options: BuilderOptions = {},
+    reporter?: Reporter,
+    execFn?: ExecFunction,
+  ) {
     this.options = options;
-    this.steps = this.buildSteps();
+    this.steps = {
+      beforeCompile: this.hookSteps('beforeCompile'),
+      afterCompile: [...this.hookSteps('afterCompile'), ...this.buildSteps()],
+    };
+    this.ui = reporter ?? createReporter(options.reporter);
+    this.runner = new BuildStepRunner(execFn);
   }
 
   /**
@@ -65,13 +197,15 @@ export class CompactBuilder {
    *
    * @param args - Array of command-line arguments
    * @param env - Environment variables (defaults to process.env)
+   * @param config - Options loaded from a config file; arguments win
    * @returns New CompactBuilder instance configured from arguments
    */
   static fromArgs(
     args: string[],
     env: typeof process.env = process.env,
+    config: CompactConfig = {},
   ): CompactBuilder {
-    const options = CompactBuilder.parseArgs(args, env);
+    const options = mergeOptions(config, CompactBuilder.parseArgs(args, env));
     return new CompactBuilder(options);
   }
 
@@ -82,10 +216,16 @@ export class CompactBuilder {
    *
    * Builder-only flags (compiler flags like `--hierarchical` and `--exclude`
    * are forwarded to {@link CompactCompiler.parseArgs}):
-   * - `--clean-dist`            - rm -rf dist before building
-   * - `--copy <path>`           - copy an extra file into dist/ (repeatable)
+   * - `--clean-dist`            - empty dist/ before building
+   * - `--copy <path>`           - copy an extra file or directory into dist/ (repeatable)
+   * - `--tsconfig <path>`       - TypeScript project to compile (default: tsconfig.build.json)
+   * - `--skip-tsc`              - leave out the TypeScript step
+   * - `--package-json`          - write a publishable dist/package.json
+   *
+   * `--dry-run` is parsed by the compiler into `dryRun`; the CLI then calls
+   * {@link CompactBuilder.plan} instead of building.
    *
-   * @throws {Error} If `--copy` is provided without a value.
+   * @throws {Error} If `--copy` or `--tsconfig` is provided without a value.
    */
   static parseArgs(
     args: string[],
@@ -106,6 +246,17 @@ export class CompactBuilder {
         builderOnly.copyToDist ??= [];
         builderOnly.copyToDist.push(value);
         i++;
+      } else if (arg === '--tsconfig') {
+        const value = args[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+          throw new Error('--tsconfig flag requires a path');
+        }
+        builderOnly.tsconfig = value;
+        i++;
+      } else if (arg === '--skip-tsc') {
+        builderOnly.skipTsc = true;
+      } else if (arg === '--package-json') {
+        builderOnly.packageJson = true;
       } else {
         compilerArgs.push(arg);
       }
@@ -119,96 +270,351 @@ export class CompactBuilder {
    * Executes the full build process: compiles .compact files first, then runs build steps.
    * Displays progress with spinners and outputs results in color.
    *
-   * @returns A promise that resolves when all steps complete successfully
+   * @param options - Abort signal for the build; aborting kills the running
+   *                  compiler or build step and skips the remaining steps
+   * @returns A promise resolving to the compile result and the outcome of
+   *          every build step. When the build fails, the partial result is
+   *          still available from {@link CompactBuilder.lastResult}.
+   * @throws {CancellationError} If `options.signal` aborts
    * @throws Error if compilation or any build step fails
    */
-  public async build(): Promise<void> {
+  public async build(options: RunOptions = {}): Promise<BuildResult> {
+    const startedAt = performance.now();
     // Run compact compilation as a prerequisite. CompactCompiler ignores
     // BuilderOnlyOptions because they aren't in its resolved shape.
-    const compiler = new CompactCompiler(this.options);
-    await compiler.compile();
+    const compiler = new CompactCompiler(this.options, undefined, this.ui);
+    const result: BuildResult = {
+      success: false,
+      durationMs: 0,
+      compile: { success: false, durationMs: 0, files: [] },
+      steps: [],
+    };
+    this.result = result;
+    let steps: readonly BuildStep[] = this.getSteps();
+
+    try {
+      const plan = await this.resolveSteps(compiler);
+      steps = [...plan.beforeCompile, ...plan.afterCompile];
+      await this.runSteps(
+        steps,
+        result.steps,
+        options.signal,
+        0,
+        plan.beforeCompile.length,
+      );
+      try {
+        result.compile = await compiler.compile(options);
+      } catch (error) {
+        result.compile = compiler.lastResult ?? result.compile;
+        throw error;
+      }
+      await this.runSteps(
+        steps,
+        result.steps,
+        options.signal,
+        plan.beforeCompile.length,
+      );
+      result.success = true;
+      return result;
+    } finally {
+      for (const step of steps.slice(result.steps.length)) {
+        result.steps.push({ name: step.msg, status: 'skipped', durationMs: 0 });
+      }
+      result.durationMs = performance.now() - startedAt;
+    }
+  }
 
-    for (const [index, step] of this.steps.entries()) {
-      await this.executeStep(step, index, this.steps.length);
+  /**
+   * Resolves what {@link CompactBuilder.build} would do, without compiling,
+   * running a command or touching the filesystem: the files the compiler
+   * would compile and their output directories, then every build step in
+   * order with its operations expanded to the paths they would copy, clean
+   * or remove (see {@link BuildStepRunner.plan}). With `prune`, the orphaned
+   * artifact directories are listed too. The plan is reported, then
+   * returned.
+   *
+   * @param options - Abort signal for the file lookup
+   * @returns The resolved plan; paths are relative to the working directory
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   * @throws Error if a `--copy` source is missing
+   */
+  public async plan(options: RunOptions = {}): Promise<BuildPlan> {
+    const compiler = new CompactCompiler(
+      { ...this.options, dryRun: true },
+      undefined,
+      this.ui,
+    );
+    const phases = await this.resolveSteps(compiler);
+    const steps = await this.runner.plan([
+      ...phases.beforeCompile,
+      ...phases.afterCompile,
+    ]);
+    const plan: BuildPlan = {
+      beforeCompile: steps.slice(0, phases.beforeCompile.length),
+      files: await compiler.plannedFiles(options.signal),
+      afterCompile: steps.slice(phases.beforeCompile.length),
+    };
+    this.ui.onPlan(plan);
+    if (this.options.prune) {
+      plan.pruned = await compiler.prune();
     }
+    return plan;
+  }
+
+  /**
+   * Whether the `dryRun` option is set. The CLI uses it to call
+   * {@link CompactBuilder.plan} instead of {@link CompactBuilder.build}.
+   */
+  public get dryRun(): boolean {
+    return this.options.dryRun ?? false;
+  }
+
+  /**
+   * Output format selected by the `reporter` option (default: `'spinner'`).
+   */
+  public get reporter(): ReporterFormat {
+    return this.options.reporter ?? 'spinner';
+  }
+
+  /**
+   * Result of the most recent {@link CompactBuilder.build} call, including
+   * the compile result and steps completed before a failure. Undefined until
+   * `build()` runs.
+   */
+  public get lastResult(): BuildResult | undefined {
+    return this.result;
+  }
+
+  /**
+   * Builds once, then watches the source directory: each change recompiles
+   * the affected .compact files and, if that succeeds, re-runs the build steps.
+   * `beforeCompile` hooks run once, before the first build.
+   * Failures are reported without ending the watch; the returned promise
+   * resolves only once `options.signal` aborts.
+   *
+   * @param options - Abort signal, debounce delay and post-compile callback
+   * @throws {CompactCliNotFoundError} If Compact CLI is not available
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   */
+  public async watch(options: WatchOptions = {}): Promise<void> {
+    const compiler = new CompactCompiler(this.options, undefined, this.ui);
+    const plan = await this.resolveSteps(compiler);
+    await this.runSteps(plan.beforeCompile, [], options.signal);
+    await compiler.watch({
+      ...options,
+      onCompiled: async (files) => {
+        await options.onCompiled?.(files);
+        await this.runSteps(plan.afterCompile, [], options.signal);
+      },
+    });
   }
 
   /**
-   * Exposes the resolved build steps. Public for testing/introspection.
+   * Exposes the resolved build steps, those run before compilation first.
+   * Public for testing/introspection.
    */
   public getSteps(): readonly BuildStep[] {
-    return this.steps;
+    return [...this.steps.beforeCompile, ...this.steps.afterCompile];
+  }
+
+  /**
+   * Runs build steps in order, stopping at the first failure.
+   *
+   * @param steps   - Steps of the build, numbered in progress output
+   * @param results - Receives one entry per step that ran
+   * @param signal  - Optional signal that cancels the remaining steps
+   * @param from    - Index of the first step to run
+   * @param to      - Index after the last step to run
+   * @throws {CancellationError} If `signal` aborts
+   */
+  private async runSteps(
+    steps: readonly BuildStep[],
+    results: StepResult[] = [],
+    signal?: AbortSignal,
+    from = 0,
+    to = steps.length,
+  ): Promise<void> {
+    for (let index = from; index < to; index++) {
+      const step = steps[index];
+      if (signal?.aborted) {
+        throw new CancellationError(`Cancelled before step: ${step.msg}`);
+      }
+      await this.executeStep(step, index, steps.length, results, signal);
+    }
+  }
+
+  /**
+   * Build steps of a build: the configured pipeline or, with several source
+   * roots, one pipeline per root. `beforeCompile` and `afterCompile` hooks
+   * run once either way.
+   *
+   * @param compiler - Compiler of the build, which resolves the roots
+   */
+  private async resolveSteps(compiler: CompactCompiler): Promise<StepPhases> {
+    if (!this.options.workspaces && (this.options.sources?.length ?? 0) < 2) {
+      return this.steps;
+    }
+    const roots = await compiler.sourceRoots();
+    return {
+      beforeCompile: this.steps.beforeCompile,
+      afterCompile: [
+        ...this.hookSteps('afterCompile'),
+        ...roots.flatMap((root) => this.buildSteps(root)),
+      ],
+    };
+  }
+
+  /**
+   * Steps of the hooks and custom steps registered for an insertion point:
+   * the point's hook option first, then the matching `steps`, each in the
+   * order declared.
+   *
+   * @param point - Insertion point
+   */
+  private hookSteps(point: BuildHookPoint): BuildStep[] {
+    const hooks = this.options[point] ?? [];
+    const steps = (Array.isArray(hooks) ? hooks : [hooks]).map((hook) => ({
+      msg: describeHook(point, hook),
+      operations: [hookOperation(hook)],
+    }));
+    for (const custom of this.options.steps ?? []) {
+      if (custom.at === point) {
+        steps.push({
+          msg: custom.name,
+          operations: [hookOperation(custom.run)],
+        });
+      }
+    }
+    return steps;
   }
 
   /**
    * Assembles the build-step pipeline from the configured options.
+   *
+   * @param root - Source root to build, in its package directory; the
+   *               working directory and `srcDir` when omitted
    */
-  private buildSteps(): BuildStep[] {
-    const srcDir = this.options.srcDir ?? 'src';
-    const quotedSrc = shellQuote(srcDir);
-    const excludes = buildFindExcludes(
-      this.options.exclude ?? DEFAULT_EXCLUDE_PATTERNS,
-    );
+  private buildSteps(root?: ResolvedSourceRoot): BuildStep[] {
+    const packageDir = root?.packageDir ?? '.';
+    const srcDir = root
+      ? relative(root.packageDir, root.srcDir)
+      : (this.options.srcDir ?? DEFAULT_SRC_DIR);
+    // Steps of a root run in its package and say which package they build
+    const step = (props: BuildStep): BuildStep =>
+      root
+        ? { ...props, msg: `${root.name}: ${props.msg}`, cwd: packageDir }
+        : props;
     const steps: BuildStep[] = [];
 
     if (this.options.cleanDist) {
-      steps.push({
-        cmd: 'rm -rf dist && mkdir -p dist',
-        msg: 'Cleaning dist directory',
-        shell: '/bin/bash',
-      });
+      steps.push(
+        step({
+          msg: 'Cleaning dist directory',
+          operations: [{ type: 'clean', dir: 'dist' }],
+        }),
+      );
     }
 
-    steps.push({
-      cmd: 'tsc --project tsconfig.build.json',
-      msg: 'Compiling TypeScript',
-    });
+    steps.push(...this.hookSteps('beforeTsc').map(step));
 
-    steps.push({
-      cmd: `mkdir -p dist/artifacts && cp -Rf ${quotedSrc}/artifacts/* dist/artifacts/ 2>/dev/null || true`,
-      msg: 'Copying artifacts',
-      shell: '/bin/bash',
-    });
+    if (!this.options.skipTsc) {
+      steps.push(
+        step({
+          msg: 'Compiling TypeScript',
+          operations: [
+            {
+              type: 'typescript',
+              project: this.options.tsconfig ?? DEFAULT_TSCONFIG,
+            },
+          ],
+        }),
+      );
+    }
 
-    steps.push({
-      cmd: 'find dist -type d -name "witnesses" -exec rm -rf {} +',
-      msg: 'Removing witness directories from dist',
-      shell: '/bin/bash',
-    });
+    steps.push(
+      step({
+        msg: 'Copying artifacts',
+        operations: [
+          { type: 'mkdir', dir: join('dist', 'artifacts') },
+          {
+            type: 'copy-tree',
+            from: join(srcDir, 'artifacts'),
+            to: join('dist', 'artifacts'),
+            optional: true,
+            // The compile cache is build state, not part of the package
+            exclude: [`/${CACHE_MANIFEST_FILE}`],
+          },
+        ],
+      }),
+    );
 
-    if (this.options.hierarchical) {
-      steps.push({
-        // biome-ignore-start lint/suspicious/noUselessEscapeInString: shell vars must survive JS template-literal interpolation
-        cmd: `
-          SRC_DIR=${quotedSrc}
-          find "$SRC_DIR" -type f -name '*.compact' ${excludes} | while read -r file; do
-            rel_path="\${file#$SRC_DIR/}"
-            mkdir -p "dist/$(dirname "$rel_path")"
-            cp "$file" "dist/$rel_path"
-          done
-        `,
-        // biome-ignore-end lint/suspicious/noUselessEscapeInString: shell vars must survive JS template-literal interpolation
-        msg: 'Copying .compact files (preserving structure)',
-        shell: '/bin/bash',
-      });
-    } else {
-      steps.push({
-        cmd: `mkdir -p dist && find ${quotedSrc} -type f -name '*.compact' ${excludes} -exec cp {} dist/ \\; 2>/dev/null || true`,
-        msg: 'Copying .compact files',
-        shell: '/bin/bash',
-      });
-    }
+    steps.push(
+      step({
+        msg: 'Removing witness directories from dist',
+        operations: [
+          { type: 'remove-matching', dir: 'dist', patterns: ['witnesses/'] },
+        ],
+      }),
+    );
+
+    // The .compact copy selects files with the same include / exclude
+    // patterns as the compiler's file discovery
+    steps.push(
+      step({
+        msg: this.options.hierarchical
+          ? 'Copying .compact files (preserving structure)'
+          : 'Copying .compact files',
+        operations: [
+          {
+            type: 'copy-glob',
+            from: srcDir,
+            to: 'dist',
+            patterns: ['*.compact'],
+            include: this.options.include,
+            exclude: this.options.exclude ?? DEFAULT_EXCLUDE_PATTERNS,
+            flatten: !this.options.hierarchical,
+          },
+        ],
+      }),
+    );
 
     const copyTargets = this.options.copyToDist ?? [];
     if (copyTargets.length > 0) {
-      const copyCmds = copyTargets
-        .map((path) => `cp ${shellQuote(path)} dist/ 2>/dev/null || true`)
-        .join(' && ');
-      steps.push({
-        cmd: `mkdir -p dist && ${copyCmds}`,
-        msg: 'Copying additional files to dist',
-        shell: '/bin/bash',
-      });
+      steps.push(
+        step({
+          msg: 'Copying additional files to dist',
+          operations: [
+            { type: 'mkdir', dir: 'dist' },
+            ...copyTargets.map(
+              (path): BuildOperation => ({
+                type: 'copy-tree',
+                from: path,
+                to: join('dist', basename(path)),
+              }),
+            ),
+          ],
+        }),
+      );
+    }
+
+    steps.push(...this.hookSteps('afterDist').map(step));
+
+    // Last, so `files` lists everything earlier steps and hooks put in dist
+    if (this.options.packageJson) {
+      steps.push(
+        step({
+          msg: 'Writing dist/package.json',
+          operations: [
+            {
+              type: 'package-manifest',
+              from: 'package.json',
+              dist: 'dist',
+              srcDir,
+            },
+          ],
+        }),
+      );
     }
 
     return steps;
@@ -216,64 +622,76 @@ export class CompactBuilder {
 
   /**
    * Executes a single build step.
-   * Runs the command, shows a spinner, and prints output with indentation.
+   * Runs its operations and reports its progress, output and touched files to the reporter.
    *
    * @param step - The build step containing command and message
    * @param index - Current step index (0-based) for progress display
    * @param total - Total number of steps for progress display
+   * @param results - Receives the step's result
+   * @param signal - Optional signal that kills the command when aborted
    * @returns A promise that resolves when the step completes successfully
+   * @throws {CancellationError} If `signal` aborts while the step runs
    * @throws Error if the step fails
    */
   private async executeStep(
     step: BuildStep,
     index: number,
     total: number,
+    results: StepResult[],
+    signal?: AbortSignal,
   ): Promise<void> {
-    const stepLabel: string = `[${index + 1}/${total}]`;
-    const spinner: Ora = ora(`[BUILD] ${stepLabel} ${step.msg}`).start();
+    const event: StepEvent = { name: step.msg, index, total };
+    const startedAt = performance.now();
+    this.ui.onStepStart(event);
 
     try {
-      const { stdout, stderr }: { stdout: string; stderr: string } =
-        await execAsync(step.cmd, {
-          shell: step.shell, // Only pass shell where needed
-        });
-      spinner.succeed(`[BUILD] ${stepLabel} ${step.msg}`);
-      this.printOutput(stdout, chalk.cyan);
-      this.printOutput(stderr, chalk.yellow); // Show stderr (warnings) in yellow if present
+      const { files, diagnostics, ...output } = await this.runner.run(
+        step,
+        signal,
+      );
+      const result: StepResult = {
+        name: step.msg,
+        status: 'succeeded',
+        durationMs: performance.now() - startedAt,
+        files,
+        ...(diagnostics && { diagnostics }),
+      };
+      results.push(result);
+      this.ui.onStepSuccess(event, result, output);
     } catch (error: unknown) {
-      spinner.fail(`[BUILD] ${stepLabel} ${step.msg}`);
-      if (isPromisifiedChildProcessError(error)) {
-        this.printOutput(error.stdout, chalk.cyan);
-        this.printOutput(error.stderr, chalk.red);
-        // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
-        console.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
-      } else if (error instanceof Error) {
-        // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
-        console.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
-      }
+      const cancelled = signal?.aborted ?? false;
+      const result: StepResult = {
+        name: step.msg,
+        status: cancelled ? 'cancelled' : 'failed',
+        durationMs: performance.now() - startedAt,
+        error: cancelled
+          ? 'Cancelled'
+          : error instanceof Error
+            ? error.message
+            : String(error),
+        ...(error instanceof TypeScriptError && {
+          diagnostics: error.diagnostics,
+        }),
+      };
+      results.push(result);
+      this.ui.onStepFailure(
+        event,
+        result,
+        isPromisifiedChildProcessError(error)
+          ? { stdout: error.stdout, stderr: error.stderr }
+          : undefined,
+      );
 
       // Library code must not call process.exit — let the caller (CLI wrapper
-      // or programmatic consumer) decide how to react. We've already surfaced
-      // the failure to the user via the spinner + printOutput above.
+      // or programmatic consumer) decide how to react. The reporter has
+      // already surfaced the failure to the user.
+      if (cancelled) {
+        throw new CancellationError(`Cancelled build step: ${step.msg}`);
+      }
       if (error instanceof Error) {
         throw error;
       }
       throw new Error('[BUILD] Build failed with a non-Error exception');
     }
   }
-
-  /**
-   * Prints command output with indentation and specified color.
-   * Filters out empty lines and indents each line for readability.
-   *
-   * @param output - The command output string to print (stdout or stderr)
-   * @param colorFn - Chalk color function to style the output (e.g., `chalk.cyan` for success, `chalk.red` for errors)
-   */
-  private printOutput(output: string, colorFn: (text: string) => string): void {
-    const lines: string[] = output
-      .split('\n')
-      .filter((line: string): boolean => line.trim() !== '')
-      .map((line: string): string => `    ${line}`);
-    console.log(colorFn(lines.join('\n')));
-  }
 }
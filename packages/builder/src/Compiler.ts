@@ -1,16 +1,37 @@
 #!/usr/bin/env node
 
 import { existsSync } from 'node:fs';
-import { join } from 'node:path';
-import chalk from 'chalk';
-import ora from 'ora';
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  normalize,
+  relative,
+} from 'node:path';
+import semver from 'semver';
+import { type CompactConfig, mergeOptions } from './config.ts';
+import { createProfile, writeProfile } from './profile.ts';
+import { CompositeReporter } from './reporters/CompositeReporter.ts';
+import { createReporter } from './reporters/createReporter.ts';
+import { ArtifactManifest } from './services/ArtifactManifest.ts';
+import { ArtifactPruner } from './services/ArtifactPruner.ts';
+import { ArtifactVerifier } from './services/ArtifactVerifier.ts';
+import { type CacheEntry, CompileCache } from './services/CompileCache.ts';
 import { CompilerService } from './services/CompilerService.ts';
+import { DependencyGraph } from './services/DependencyGraph.ts';
+import { DiagnosticParser } from './services/DiagnosticParser.ts';
 import { EnvironmentValidator } from './services/EnvironmentValidator.ts';
 import { FileDiscovery } from './services/FileDiscovery.ts';
-import { UIService } from './services/UIService.ts';
+import { GitChangeDetector } from './services/GitChangeDetector.ts';
+import { SourceWatcher } from './services/SourceWatcher.ts';
+import { WorkspaceDiscovery } from './services/WorkspaceDiscovery.ts';
 import {
+  AggregateCompilationError,
+  CancellationError,
   CompilationError,
   DirectoryNotFoundError,
+  FileNotFoundError,
   isPromisifiedChildProcessError,
 } from './types/errors.ts';
 import {
@@ -19,25 +40,180 @@ import {
   DEFAULT_OUT_DIR,
   DEFAULT_SRC_DIR,
   type ExecFunction,
+  type ExecOptions,
+  type FileOverride,
+  REPORTER_FORMATS,
+  type ReporterFormat,
+  type ResolvedSourceRoot,
+  type RunOptions,
+  type SourceRoot,
+  type WatchFunction,
+  type WatchOptions,
 } from './types/options.ts';
+import type { CommandOutput, FileEvent, Reporter } from './types/reporter.ts';
+import type {
+  ArtifactCheck,
+  CompileProfile,
+  CompileResult,
+  FileResult,
+  FileStatus,
+  PlannedFile,
+  VerifyResult,
+} from './types/results.ts';
+import {
+  isReporterFormat,
+  parseDuration,
+  resolveFileFlags,
+  runWithConcurrency,
+} from './utils.ts';
 
 // Re-export public types and services so consumers keep importing them
 // from './Compiler.js' regardless of the internal file layout.
 // biome-ignore lint/performance/noBarrelFile: package entrypoint
+export { CompositeReporter } from './reporters/CompositeReporter.ts';
+export { createReporter } from './reporters/createReporter.ts';
+export { GitHubReporter } from './reporters/GitHubReporter.ts';
+export { JUnitReporter } from './reporters/JUnitReporter.ts';
+export { PlainReporter } from './reporters/PlainReporter.ts';
+export { SilentReporter } from './reporters/SilentReporter.ts';
+export {
+  SpinnerReporter,
+  type SpinnerReporterOptions,
+} from './reporters/SpinnerReporter.ts';
+export {
+  ARTIFACT_MANIFEST_FILE,
+  ArtifactManifest,
+  type ArtifactManifestData,
+  type ContractArtifact,
+} from './services/ArtifactManifest.ts';
+export { ArtifactPruner } from './services/ArtifactPruner.ts';
+export { ArtifactVerifier } from './services/ArtifactVerifier.ts';
+export {
+  CACHE_MANIFEST_FILE,
+  type CacheEntry,
+  type CacheManifest,
+  CompileCache,
+} from './services/CompileCache.ts';
 export { CompilerService } from './services/CompilerService.ts';
+export {
+  DependencyGraph,
+  type ModuleReference,
+} from './services/DependencyGraph.ts';
+export { DiagnosticParser } from './services/DiagnosticParser.ts';
 export { EnvironmentValidator } from './services/EnvironmentValidator.ts';
 export { FileDiscovery } from './services/FileDiscovery.ts';
+export { GitChangeDetector } from './services/GitChangeDetector.ts';
+export { GlobMatcher } from './services/GlobMatcher.ts';
+export {
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  SourceWatcher,
+} from './services/SourceWatcher.ts';
 export { UIService } from './services/UIService.ts';
-export type { CompilerOptions, CompilerServiceOptions, ExecFunction };
+export {
+  WorkspaceDiscovery,
+  type WorkspacePackage,
+} from './services/WorkspaceDiscovery.ts';
+export type {
+  CommandOutput,
+  EnvironmentInfo,
+  FileEvent,
+  Reporter,
+  SourceRootEvent,
+  StepEvent,
+} from './types/reporter.ts';
+export type {
+  ArtifactCheck,
+  CompileProfile,
+  CompileResult,
+  FileResult,
+  FileStatus,
+  PlannedFile,
+  ProfileEntry,
+  VerifyResult,
+} from './types/results.ts';
+export { killProcessGroups } from './utils.ts';
+export type {
+  CompilerOptions,
+  CompilerServiceOptions,
+  ExecFunction,
+  ExecOptions,
+  FileOverride,
+  ReporterFormat,
+  ResolvedSourceRoot,
+  RunOptions,
+  SourceRoot,
+  WatchFunction,
+  WatchOptions,
+};
 
 /** Resolved compiler options with defaults applied */
 type ResolvedCompilerOptions = Required<
   Pick<
     CompilerOptions,
-    'flags' | 'hierarchical' | 'srcDir' | 'outDir' | 'exclude'
+    | 'flags'
+    | 'hierarchical'
+    | 'srcDir'
+    | 'outDir'
+    | 'sources'
+    | 'workspaces'
+    | 'exclude'
+    | 'include'
+    | 'files'
+    | 'overrides'
+    | 'concurrency'
+    | 'force'
+    | 'continueOnError'
+    | 'reporter'
+    | 'prune'
+    | 'dryRun'
   >
 > &
-  Pick<CompilerOptions, 'targetDir' | 'version'>;
+  Pick<
+    CompilerOptions,
+    | 'targetDir'
+    | 'version'
+    | 'toolchain'
+    | 'timeout'
+    | 'changedSince'
+    | 'profile'
+  >;
+
+/** State shared by every file compiled in a single `compile()` run */
+interface CompileRun {
+  /** Number of files in the run, for progress display */
+  total: number;
+  /** Toolchain version recorded in cache entries */
+  toolchainVersion: string;
+  /** Import graph of the whole source tree */
+  graph: DependencyGraph;
+  /** Per-file results, appended as files finish */
+  results: FileResult[];
+  /** Aborts the run, killing the compilers still running */
+  signal?: AbortSignal;
+}
+
+/** True when `path` is `dir` or inside it. */
+function isInside(dir: string, path: string): boolean {
+  const fromDir = relative(dir, path);
+  return !fromDir.startsWith('..') && !isAbsolute(fromDir);
+}
+
+/**
+ * Reporter of one root in a multi-root run. Forwards the root's progress and
+ * drops the run-wide events, which the parent run reports once for all
+ * roots.
+ */
+class SourceRootReporter extends CompositeReporter {
+  constructor(reporter: Reporter) {
+    super([reporter]);
+  }
+
+  override onSummary(_results: readonly FileResult[]): void {}
+  override onProfile(_profile: CompileProfile): void {}
+  override async onComplete(_result: CompileResult): Promise<void> {}
+  override onPrune(_dirs: readonly string[], _dryRun: boolean): void {}
+  override onVerify(_result: VerifyResult): void {}
+}
 
 /**
  * Main compiler class that orchestrates the compilation process.
@@ -51,6 +227,15 @@ type ResolvedCompilerOptions = Required<
  * - Support for compiler flags and toolchain versions
  * - Environment variable integration
  * - Configurable artifact output structure (flattened or hierarchical)
+ * - Parallel compilation with a configurable concurrency limit
+ * - Incremental compilation: unchanged files are skipped via a content-hash cache
+ * - Import-aware ordering: modules compile before the contracts importing them,
+ *   and a change to a module invalidates every contract that imports it
+ * - Watch mode that recompiles only the files affected by each change
+ * - Typed run results (per-file status, timing and diagnostics)
+ * - Per-file flag overrides keyed by glob pattern
+ * - Keep-going mode that compiles every file and reports all failures at once
+ * - Several source roots, or every package of a workspace, in one run
  *
  * @example
  * ```typescript
@@ -70,6 +255,26 @@ type ResolvedCompilerOptions = Required<
  * const compiler = CompactCompiler.fromArgs(['--hierarchical', '--skip-zk']);
  * await compiler.compile();
  *
+ * // Compile up to four files at once
+ * const compiler = CompactCompiler.fromArgs(['--jobs', '4']);
+ * await compiler.compile();
+ *
+ * // Compile two packages of a monorepo, each into its own artifacts
+ * const compiler = CompactCompiler.fromArgs([
+ *   '--src', 'packages/token/src=packages/token/artifacts',
+ *   '--src', 'packages/access/src',
+ * ]);
+ * await compiler.compile();
+ *
+ * // Compile every workspace package holding .compact sources
+ * await CompactCompiler.fromArgs(['--workspaces']).compile();
+ *
+ * // Recompile on save until aborted
+ * const controller = new AbortController();
+ * await new CompactCompiler({ flags: '--skip-zk' }).watch({
+ *   signal: controller.signal,
+ * });
+ *
  * // With environment variables
  * process.env.SKIP_ZK = 'true';
  * const compiler = CompactCompiler.fromArgs(['--dir', 'token']);
@@ -81,37 +286,84 @@ export class CompactCompiler {
   private readonly environmentValidator: EnvironmentValidator;
   /** File discovery service */
   private readonly fileDiscovery: FileDiscovery;
+  /** Lists files changed since a git ref */
+  private readonly git: GitChangeDetector;
   /** Compilation execution service */
   private readonly compilerService: CompilerService;
+  /** Incremental compilation cache */
+  private readonly cache: CompileCache;
+  /** Record of the contracts produced in `outDir` */
+  private readonly manifest: ArtifactManifest;
+  /** Finds and removes orphaned artifact directories */
+  private readonly pruner: ArtifactPruner;
+  /** Receives progress and result events */
+  private readonly ui: Reporter;
+  /** Runs child processes; handed on to the compilers of source roots */
+  private readonly execFn: ExecFunction | undefined;
   /** Compiler options */
   private readonly options: ResolvedCompilerOptions;
+  /** Result of the most recent `compile()` run */
+  private result: CompileResult | undefined;
 
   /**
    * Creates a new CompactCompiler instance with specified configuration.
    *
-   * @param options - Compiler configuration options
-   * @param execFn  - Optional custom exec function for dependency injection
+   * @param options  - Compiler configuration options
+   * @param execFn   - Optional custom exec function for dependency injection
+   * @param reporter - Optional reporter for progress and results (default:
+   *                   the one selected by `options.reporter`)
    */
-  constructor(options: CompilerOptions = {}, execFn?: ExecFunction) {
+  constructor(
+    options: CompilerOptions = {},
+    execFn?: ExecFunction,
+    reporter?: Reporter,
+  ) {
+    // A single source root is just another way to set srcDir and outDir
+    const [root, ...otherRoots] = options.sources ?? [];
+    const singleRoot = otherRoots.length === 0 ? root : undefined;
     this.options = {
       flags: (options.flags ?? '').trim(),
       targetDir: options.targetDir,
-      version: options.version,
+      // An exact pin selects the toolchain when no `+<version>` is given
+      version: options.version ?? semver.valid(options.toolchain) ?? undefined,
+      toolchain: options.toolchain,
       hierarchical: options.hierarchical ?? false,
-      srcDir: options.srcDir ?? DEFAULT_SRC_DIR,
-      outDir: options.outDir ?? DEFAULT_OUT_DIR,
+      srcDir: singleRoot?.srcDir ?? options.srcDir ?? DEFAULT_SRC_DIR,
+      outDir: singleRoot?.outDir ?? options.outDir ?? DEFAULT_OUT_DIR,
+      sources: singleRoot ? [] : (options.sources ?? []),
+      workspaces: options.workspaces ?? false,
       exclude: options.exclude ?? [],
+      include: options.include ?? [],
+      files: options.files ?? [],
+      changedSince: options.changedSince,
+      overrides: options.overrides ?? {},
+      concurrency: Math.max(1, Math.floor(options.concurrency ?? 1)),
+      force: options.force ?? false,
+      continueOnError: options.continueOnError ?? false,
+      reporter: options.reporter ?? 'spinner',
+      prune: options.prune ?? false,
+      dryRun: options.dryRun ?? false,
+      timeout: options.timeout,
+      profile: options.profile,
     };
+    this.execFn = execFn;
     this.environmentValidator = new EnvironmentValidator(execFn);
     this.fileDiscovery = new FileDiscovery(
       this.options.srcDir,
       this.options.exclude,
+      this.options.include,
     );
+    this.git = new GitChangeDetector(execFn);
     this.compilerService = new CompilerService(execFn, {
       hierarchical: this.options.hierarchical,
       srcDir: this.options.srcDir,
       outDir: this.options.outDir,
+      timeout: this.options.timeout,
     });
+    this.cache = new CompileCache(this.options.outDir);
+    this.manifest = new ArtifactManifest(this.options.outDir);
+    this.pruner = new ArtifactPruner(this.options.outDir);
+    this.ui = reporter ?? createReporter(this.options.reporter);
   }
 
   /**
@@ -119,10 +371,28 @@ export class CompactCompiler {
    *
    * Supported argument patterns:
    * - `--dir <directory>` - Target specific subdirectory within srcDir
-   * - `--src <directory>` - Source directory containing .compact files (default: 'src')
+   * - `--src <directory>[=<outDir>]` - Source directory containing .compact
+   *   files (default: 'src'), optionally with its output directory; repeat
+   *   to compile several source roots
    * - `--out <directory>` - Output directory for artifacts (default: 'artifacts')
+   * - `--workspaces` - Compile every workspace package with .compact sources
    * - `--hierarchical` - Preserve source directory structure in artifacts output
    * - `--exclude <pattern>` - Skip `.compact` files matching the glob pattern (repeatable)
+   * - `--include <pattern>` - Only compile `.compact` files matching the glob pattern (repeatable)
+   * - `--changed-since <ref>` - Only compile `.compact` files changed since
+   *   the git ref, plus their dependents
+   * - `<file>.compact` - Only compile the listed files, plus their dependents
+   * - `--jobs <n>` - Compile up to `n` files concurrently (default: 1)
+   * - `--force` - Recompile every file, ignoring the incremental cache
+   * - `--keep-going` - Compile every file even after failures, then report them all
+   * - `--timeout <duration>` - Kill toolchain invocations running longer than
+   *   the duration (e.g. `90s`, `5m`)
+   * - `--reporter <format>` - Output format: `spinner` (default), `json`,
+   *   `plain`, `github` or `junit=<path>`
+   * - `--json` - Shorthand for `--reporter json`
+   * - `--prune` - Delete orphaned artifact directories after compiling
+   * - `--profile <file>` - Write a JSON timing profile of the run
+   * - `--dry-run` - With `--prune`, only list the orphaned directories
    * - `+<version>` - Use specific toolchain version
    * - Other arguments - Treated as compiler flags
    * - `SKIP_ZK=true` environment variable - Adds --skip-zk flag
@@ -130,15 +400,16 @@ export class CompactCompiler {
    * @param args - Array of command-line arguments
    * @param env  - Environment variables (defaults to process.env)
    * @returns Parsed CompilerOptions object
-   * @throws {Error} If --dir, --src, --out, or --exclude is provided without a value
+   * @throws {Error} If --dir, --src, --out, --exclude, --include,
+   *         --changed-since or --profile is provided without a value
+   * @throws {Error} If --jobs is not followed by a positive integer
+   * @throws {Error} If --reporter is not followed by a known format
    */
   static parseArgs(
     args: string[],
     env: typeof process.env = process.env,
   ): CompilerOptions {
-    const options: CompilerOptions = {
-      hierarchical: false,
-    };
+    const options: CompilerOptions = {};
     const flags: string[] = [];
 
     if (env.SKIP_ZK === 'true') {
@@ -159,7 +430,9 @@ export class CompactCompiler {
         const valueExists =
           i + 1 < args.length && !args[i + 1].startsWith('--');
         if (valueExists) {
-          options.srcDir = args[i + 1];
+          const [srcDir, outDir] = args[i + 1].split('=', 2);
+          options.sources ??= [];
+          options.sources.push(outDir ? { srcDir, outDir } : { srcDir });
           i++;
         } else {
           throw new Error('--src flag requires a directory path');
@@ -175,6 +448,8 @@ export class CompactCompiler {
         }
       } else if (args[i] === '--hierarchical') {
         options.hierarchical = true;
+      } else if (args[i] === '--workspaces') {
+        options.workspaces = true;
       } else if (args[i] === '--exclude') {
         const valueExists =
           i + 1 < args.length && !args[i + 1].startsWith('--');
@@ -185,8 +460,73 @@ export class CompactCompiler {
         } else {
           throw new Error('--exclude flag requires a pattern');
         }
+      } else if (args[i] === '--include') {
+        const valueExists =
+          i + 1 < args.length && !args[i + 1].startsWith('--');
+        if (valueExists) {
+          options.include ??= [];
+          options.include.push(args[i + 1]);
+          i++;
+        } else {
+          throw new Error('--include flag requires a pattern');
+        }
+      } else if (args[i] === '--changed-since') {
+        const valueExists =
+          i + 1 < args.length && !args[i + 1].startsWith('--');
+        if (valueExists) {
+          options.changedSince = args[i + 1];
+          i++;
+        } else {
+          throw new Error('--changed-since flag requires a git ref');
+        }
+      } else if (args[i] === '--profile') {
+        const valueExists =
+          i + 1 < args.length && !args[i + 1].startsWith('--');
+        if (valueExists) {
+          options.profile = args[i + 1];
+          i++;
+        } else {
+          throw new Error('--profile flag requires a file path');
+        }
+      } else if (args[i] === '--force') {
+        options.force = true;
+      } else if (args[i] === '--keep-going') {
+        options.continueOnError = true;
+      } else if (args[i] === '--prune') {
+        options.prune = true;
+      } else if (args[i] === '--dry-run') {
+        options.dryRun = true;
+      } else if (args[i] === '--json') {
+        options.reporter = 'json';
+      } else if (args[i] === '--reporter') {
+        const value = args[i + 1];
+        if (!isReporterFormat(value)) {
+          throw new Error(
+            `--reporter flag requires one of: ${REPORTER_FORMATS.join(', ')}`,
+          );
+        }
+        options.reporter = value;
+        i++;
+      } else if (args[i] === '--jobs') {
+        const value = args[i + 1];
+        if (value === undefined || !/^[1-9]\d*$/.test(value)) {
+          throw new Error('--jobs flag requires a positive integer');
+        }
+        options.concurrency = Number(value);
+        i++;
+      } else if (args[i] === '--timeout') {
+        const value = args[i + 1];
+        const timeout = value === undefined ? undefined : parseDuration(value);
+        if (timeout === undefined) {
+          throw new Error('--timeout flag requires a duration (e.g. 90s, 5m)');
+        }
+        options.timeout = timeout;
+        i++;
       } else if (args[i].startsWith('+')) {
         options.version = args[i].slice(1);
+      } else if (!args[i].startsWith('-') && args[i].endsWith('.compact')) {
+        options.files ??= [];
+        options.files.push(args[i]);
       } else {
         // Forward flags in original order, no dedup — repeatable flags
         // (e.g. `--define x=1 --define y=2`) must be preserved as given.
@@ -194,6 +534,16 @@ export class CompactCompiler {
       }
     }
 
+    // One `--src` sets srcDir (and outDir, when mapped) as before
+    if (options.sources?.length === 1) {
+      const [{ srcDir, outDir }] = options.sources;
+      options.srcDir = srcDir;
+      if (outDir) {
+        options.outDir = outDir;
+      }
+      delete options.sources;
+    }
+
     options.flags = flags.join(' ');
     return options;
   }
@@ -201,128 +551,1026 @@ export class CompactCompiler {
   /**
    * Factory method to create a CompactCompiler from command-line arguments.
    * See {@link CompactCompiler.parseArgs} for the supported argument shapes.
+   * Arguments and environment take precedence over `config`; flags from both
+   * are combined.
    *
-   * @param args - Array of command-line arguments
-   * @param env  - Environment variables (defaults to process.env)
+   * @param args   - Array of command-line arguments
+   * @param env    - Environment variables (defaults to process.env)
+   * @param config - Options loaded from a config file (see {@link loadConfig})
    * @returns New CompactCompiler instance configured from arguments
-   * @throws {Error} If --dir, --src, --out, or --exclude is provided without a value
+   * @throws {Error} If --dir, --src, --out, --exclude, --include,
+   *         --changed-since or --profile is provided without a value
+   * @throws {Error} If --jobs is not followed by a positive integer
+   * @throws {Error} If --timeout is not followed by a duration
+   * @throws {Error} If --dry-run is given without --prune
    */
   static fromArgs(
     args: string[],
     env: typeof process.env = process.env,
+    config: CompactConfig = {},
   ): CompactCompiler {
-    const options = CompactCompiler.parseArgs(args, env);
+    const options = mergeOptions(config, CompactCompiler.parseArgs(args, env));
+    if (options.dryRun && !options.prune) {
+      throw new Error('--dry-run requires --prune or the prune command');
+    }
     return new CompactCompiler(options);
   }
 
   /**
    * Validates the compilation environment and displays version information.
    *
+   * @param signal - Optional signal that cancels validation
+   * @returns Promise resolving to the developer tools and toolchain versions
    * @throws {CompactCliNotFoundError} If Compact CLI is not available in PATH
+   * @throws {ToolchainVersionMismatchError} If the toolchain doesn't satisfy
+   *         the `toolchain` option
+   * @throws {CancellationError} If `signal` aborts
    * @throws {Error} If version retrieval or other validation steps fail
    */
-  async validateEnvironment(): Promise<void> {
-    const { devToolsVersion, toolchainVersion } =
-      await this.environmentValidator.validate(this.options.version);
-    UIService.displayEnvInfo(
-      devToolsVersion,
-      toolchainVersion,
-      this.options.targetDir,
+  async validateEnvironment(signal?: AbortSignal): Promise<{
+    devToolsVersion: string;
+    toolchainVersion: string;
+  }> {
+    const versions = await this.environmentValidator.validate(
       this.options.version,
+      this.options.toolchain,
+      signal,
     );
+    this.ui.onEnvironment({
+      devToolsVersion: versions.devToolsVersion,
+      toolchainVersion: versions.toolchainVersion,
+      targetDir: this.options.targetDir,
+      version: this.options.version,
+    });
+    return versions;
   }
 
   /**
    * Main compilation method that orchestrates the entire compilation process.
    *
+   * Files are compiled in dependency order. When the run is narrowed by
+   * `targetDir`, `files` or `changedSince`, every file elsewhere in `srcDir`
+   * that transitively imports a targeted module is compiled too, so
+   * dependents never go stale.
+   *
+   * Files whose source, imported modules, resolved flags and toolchain version
+   * match the cache manifest in `outDir` (and whose artifacts still exist) are
+   * skipped unless `force` is set. The manifest is saved even when a file
+   * fails, so work completed before the failure is not redone on the next run.
+   *
+   * Aborting `options.signal` kills the running compilers and starts no
+   * further files; the unfinished files are recorded as `cancelled`.
+   *
+   * Every run ends with a timing profile — validation vs. compile time and
+   * the toolchain time of each file, slowest first — passed to the reporter
+   * and, with the `profile` option, written to a JSON file.
+   *
+   * With several `sources` or `workspaces`, the environment is validated
+   * once and the roots compile one after another, each with its own cache
+   * and manifest. The result (and the summary reported at the end) covers
+   * every root, with file paths prefixed by their root's `srcDir`.
+   *
+   * @param options - Abort signal for the run
+   * @returns Promise resolving to the run's versions, timing and per-file
+   *          results. When the run fails, the partial result is still
+   *          available from {@link CompactCompiler.lastResult}.
    * @throws {CompactCliNotFoundError} If Compact CLI is not available
    * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   *         (or, with several roots, in any of them)
+   * @throws {GitError} If the files changed since `changedSince` can't be listed
+   * @throws {ConfigError} In workspace mode, if package.json lists no
+   *         workspaces
+   * @throws {Error} If two source roots share an output directory
    * @throws {CompilationError} If any file compilation fails
+   * @throws {AggregateCompilationError} If any file fails with `continueOnError`;
+   *         every other file is still compiled
+   * @throws {CancellationError} If `options.signal` aborts, even with
+   *         `continueOnError`
+   */
+  async compile(options: RunOptions = {}): Promise<CompileResult> {
+    const startedAt = performance.now();
+    const startDate = new Date();
+    const result: CompileResult = { success: false, durationMs: 0, files: [] };
+    this.result = result;
+
+    try {
+      const { devToolsVersion, toolchainVersion } =
+        await this.validateEnvironment(options.signal);
+      result.devToolsVersion = devToolsVersion;
+      result.toolchainVersion = toolchainVersion;
+      result.environmentMs = performance.now() - startedAt;
+      if (this.isMultiRoot) {
+        await this.compileRoots(result, toolchainVersion, options.signal);
+      } else {
+        await this.compileSources(result, toolchainVersion, options.signal);
+      }
+      result.success = true;
+      return result;
+    } finally {
+      result.durationMs = performance.now() - startedAt;
+      if (result.environmentMs !== undefined) {
+        result.compileMs ??= result.durationMs - result.environmentMs;
+      }
+      if (this.isMultiRoot && result.files.length > 0) {
+        this.ui.onSummary(result.files);
+      }
+      await this.reportProfile(result, startDate);
+      await this.ui.onComplete(result);
+    }
+  }
+
+  /**
+   * Lists the files {@link CompactCompiler.compile} would process, in the
+   * order it would compile them, with their output directories. Nothing is
+   * compiled, the environment is not validated and the cache is not
+   * consulted, so files with up-to-date artifacts are listed too.
+   *
+   * With several source roots, file paths are prefixed by their root's
+   * `srcDir`.
+   *
+   * @param signal - Optional signal that cancels the git lookup
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   * @throws {GitError} If the files changed since `changedSince` can't be listed
+   */
+  async plannedFiles(signal?: AbortSignal): Promise<PlannedFile[]> {
+    if (this.isMultiRoot) {
+      const planned: PlannedFile[] = [];
+      for (const root of await this.selectRoots()) {
+        const files = await this.forRoot(root).plannedFiles(signal);
+        planned.push(
+          ...files.map((entry) => ({
+            ...entry,
+            file: join(root.srcDir, entry.file),
+          })),
+        );
+      }
+      return planned;
+    }
+
+    const targetFiles = await this.discoverTargetFiles(signal);
+    if (targetFiles.length === 0) {
+      return [];
+    }
+    const graph = await DependencyGraph.build(this.options.srcDir);
+    const dependents = this.isNarrowed
+      ? await this.findDependents(targetFiles, [graph])
+      : [];
+    return graph
+      .sort([...new Set([...targetFiles, ...dependents])])
+      .map((file) => ({
+        file,
+        outputDir: this.compilerService.getOutputDir(file),
+      }));
+  }
+
+  /**
+   * Compiles the files of `srcDir` selected by the options, then prunes if
+   * asked to. Records per-file results, the compile time and pruned
+   * directories in `result`.
+   *
+   * @param result           - Result of the run, filled in as files finish
+   * @param toolchainVersion - Toolchain version recorded in cache entries
+   * @param signal           - Optional signal that cancels the run
+   */
+  private async compileSources(
+    result: CompileResult,
+    toolchainVersion: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const startedAt = performance.now();
+    const targetFiles = await this.discoverTargetFiles(signal);
+
+    if (targetFiles.length === 0) {
+      this.ui.onDiscovery(0, this.options.targetDir);
+    } else {
+      const graph = await DependencyGraph.build(this.options.srcDir);
+      const dependents = this.isNarrowed
+        ? await this.findDependents(targetFiles, [graph])
+        : [];
+      await this.compileFiles(
+        [...targetFiles, ...dependents],
+        graph,
+        toolchainVersion,
+        result.files,
+        signal,
+      );
+    }
+    result.compileMs = performance.now() - startedAt;
+    if (this.options.prune) {
+      result.pruned = await this.prune();
+    }
+  }
+
+  /**
+   * Compiles every source root of a multi-root run in turn, each with its
+   * own compiler, collecting their results into `result` with file paths
+   * prefixed by the root. With `continueOnError`, a failing root doesn't
+   * stop the next one.
+   *
+   * @param result           - Result of the run, filled in as roots finish
+   * @param toolchainVersion - Toolchain version recorded in cache entries
+   * @param signal           - Optional signal that cancels the run
+   * @throws {AggregateCompilationError} If files failed with `continueOnError`,
+   *         listing the failures of every root
+   */
+  private async compileRoots(
+    result: CompileResult,
+    toolchainVersion: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const startedAt = performance.now();
+    const roots = await this.selectRoots();
+    if (roots.length === 0) {
+      this.ui.onDiscovery(0, this.options.targetDir);
+    }
+
+    const failures: CompilationError[] = [];
+    for (const [index, root] of roots.entries()) {
+      this.ui.onSourceRoot({ ...root, index, total: roots.length });
+      const rootResult: CompileResult = {
+        success: false,
+        durationMs: 0,
+        files: [],
+      };
+      try {
+        await this.forRoot(root).compileSources(
+          rootResult,
+          toolchainVersion,
+          signal,
+        );
+      } catch (error) {
+        if (!(error instanceof AggregateCompilationError)) {
+          throw error;
+        }
+        failures.push(...error.errors);
+      } finally {
+        result.files.push(
+          ...rootResult.files.map((file) => ({
+            ...file,
+            file: join(root.srcDir, file.file),
+          })),
+        );
+        if (rootResult.pruned) {
+          result.pruned = [...(result.pruned ?? []), ...rootResult.pruned];
+        }
+      }
+    }
+    result.compileMs = performance.now() - startedAt;
+
+    if (this.options.prune) {
+      this.ui.onPrune(result.pruned ?? [], this.options.dryRun);
+    }
+    if (failures.length > 0) {
+      throw new AggregateCompilationError(failures, result.files.length);
+    }
+  }
+
+  /**
+   * Finds artifact directories in `outDir` that no current source compiles
+   * to — because the source was renamed, deleted, moved or excluded, or the
+   * layout switched between flattened and hierarchical — and deletes them,
+   * dropping their cache and manifest entries. With the `dryRun` option the
+   * directories are only listed. Expected directories follow the same layout
+   * rules as {@link CompilerService.getOutputDir}, for every source in
+   * `srcDir` regardless of `targetDir`. The toolchain is not invoked.
+   *
+   * With several source roots, each root's `outDir` is pruned.
+   *
+   * @returns The orphaned directories, prefixed with `outDir`
+   * @throws {DirectoryNotFoundError} If `srcDir` doesn't exist (every artifact
+   *         would otherwise look orphaned)
+   */
+  async prune(): Promise<string[]> {
+    if (this.isMultiRoot) {
+      const orphans: string[] = [];
+      for (const root of await this.sourceRoots()) {
+        orphans.push(...(await this.forRoot(root).prune()));
+      }
+      this.ui.onPrune(orphans, this.options.dryRun);
+      return orphans;
+    }
+    if (!existsSync(this.options.srcDir)) {
+      throw new DirectoryNotFoundError(
+        `Source directory ${this.options.srcDir} does not exist`,
+        this.options.srcDir,
+      );
+    }
+
+    const files = await this.fileDiscovery.getCompactFiles(this.options.srcDir);
+    const orphans = await this.pruner.findOrphans(
+      files.map((file) => this.compilerService.getOutputDir(file)),
+    );
+
+    if (!this.options.dryRun) {
+      await this.pruner.remove(orphans);
+      await this.cache.load();
+      if (this.cache.retain(files)) {
+        await this.cache.save();
+      }
+      await this.manifest.load();
+      if (this.manifest.retain(files)) {
+        await this.manifest.save();
+      }
+    }
+
+    this.ui.onPrune(orphans, this.options.dryRun);
+    return orphans;
+  }
+
+  /**
+   * Checks, without invoking the toolchain, that every discovered source
+   * (narrowed by `targetDir`, `files` and `changedSince`, if set) has
+   * complete artifacts built from its
+   * current contents — and, when a toolchain version is pinned, with a
+   * matching toolchain. Relies on the artifact manifest in `outDir`; see
+   * {@link ArtifactVerifier} for the individual checks.
+   *
+   * With several source roots, every root is checked and file paths are
+   * prefixed by their root's `srcDir`.
+   *
+   * @returns One entry per source with its problems; `success` is false when
+   *          any artifact is stale or incomplete
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   * @throws {GitError} If the files changed since `changedSince` can't be listed
+   */
+  async verify(): Promise<VerifyResult> {
+    if (this.isMultiRoot) {
+      const checks: ArtifactCheck[] = [];
+      for (const root of await this.selectRoots()) {
+        const { files } = await this.forRoot(root).verify();
+        checks.push(
+          ...files.map((check) => ({
+            ...check,
+            file: join(root.srcDir, check.file),
+          })),
+        );
+      }
+      const result: VerifyResult = {
+        success: checks.every((check) => check.problems.length === 0),
+        files: checks,
+      };
+      this.ui.onVerify(result);
+      return result;
+    }
+
+    const files = await this.discoverTargetFiles();
+    await this.manifest.load();
+    const verifier = new ArtifactVerifier(this.manifest);
+    const graph = await DependencyGraph.build(this.options.srcDir);
+
+    const checks: ArtifactCheck[] = [];
+    for (const file of files) {
+      const outputDir = this.compilerService.getOutputDir(file);
+      checks.push({
+        file,
+        outputDir,
+        problems: await verifier.verify(
+          file,
+          join(this.options.srcDir, file),
+          outputDir,
+          this.dependencyHashes(graph, file),
+          this.options.toolchain,
+        ),
+      });
+    }
+
+    const result: VerifyResult = {
+      success: checks.every((check) => check.problems.length === 0),
+      files: checks,
+    };
+    this.ui.onVerify(result);
+    return result;
+  }
+
+  /**
+   * Output format selected by the `reporter` option. The CLI uses it to decide
+   * whether to print the run result as JSON.
+   */
+  get reporter(): ReporterFormat {
+    return this.options.reporter;
+  }
+
+  /**
+   * Result of the most recent {@link CompactCompiler.compile} call, including
+   * the files processed before a failure. Undefined until `compile()` runs.
+   */
+  get lastResult(): CompileResult | undefined {
+    return this.result;
+  }
+
+  /**
+   * Compiles once, then watches `srcDir` and recompiles whenever `.compact`
+   * files change. Only the changed files (within `targetDir` and `files`, if
+   * set) and the contracts that transitively import them are recompiled; bursts of saves
+   * are debounced into a single run.
+   *
+   * Compilation errors are reported and watching continues — they never end
+   * the returned promise, which resolves only once `options.signal` aborts.
+   * Aborting also kills a compilation in progress.
+   *
+   * With several source roots, each root is watched and recompiled on its
+   * own; `onCompiled` then receives paths relative to the root that changed.
+   *
+   * @param options - Abort signal, debounce delay and post-compile callback
+   * @throws {CompactCliNotFoundError} If Compact CLI is not available
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
    */
-  async compile(): Promise<void> {
-    await this.validateEnvironment();
+  async watch(options: WatchOptions = {}): Promise<void> {
+    if (this.isMultiRoot) {
+      const roots = await this.selectRoots();
+      await Promise.all(
+        roots.map((root) => this.forRoot(root, this.ui).watch(options)),
+      );
+      return;
+    }
+    const { toolchainVersion } = await this.validateEnvironment();
+    const targetFiles = await this.discoverTargetFiles();
+    let graph = await DependencyGraph.build(this.options.srcDir);
+
+    const recompile = async (select: () => Promise<string[]>) => {
+      try {
+        const files = await select();
+        // A change outside the targets compiles nothing, so nothing follows
+        if (files.length > 0) {
+          await this.compileFiles(
+            files,
+            graph,
+            toolchainVersion,
+            [],
+            options.signal,
+          );
+          await options.onCompiled?.(files);
+        }
+      } catch (error) {
+        if (error instanceof CancellationError) {
+          return;
+        }
+        this.ui.onWatchError(
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+      this.ui.onWatchIdle(this.options.srcDir);
+    };
+
+    await recompile(async () => [
+      ...targetFiles,
+      ...(this.isNarrowed
+        ? await this.findDependents(targetFiles, [graph])
+        : []),
+    ]);
+
+    const watcher = new SourceWatcher(
+      this.options.srcDir,
+      async (changed) => {
+        this.ui.onWatchChange(changed);
+        await recompile(async () => {
+          // Dependents are looked up in the previous graph as well, so
+          // contracts importing a deleted or renamed module get rebuilt.
+          const previous = graph;
+          graph = await DependencyGraph.build(this.options.srcDir);
+          const targets = new Set(
+            this.selectListedFiles(
+              await this.fileDiscovery.getCompactFiles(this.searchDir),
+            ),
+          );
+          return [
+            ...changed.filter((file) => targets.has(file)),
+            ...(await this.findDependents(changed, [previous, graph])),
+          ];
+        });
+      },
+      { debounceMs: options.debounceMs, watchFn: options.watchFn },
+    );
+    watcher.start();
 
-    const searchDir = this.options.targetDir
+    await new Promise<void>((resolve) => {
+      if (options.signal?.aborted) {
+        resolve();
+      }
+      options.signal?.addEventListener('abort', () => resolve(), {
+        once: true,
+      });
+    });
+
+    watcher.close();
+    await watcher.idle();
+  }
+
+  /** Directory searched for files to compile: `srcDir` or `srcDir/targetDir`. */
+  private get searchDir(): string {
+    return this.options.targetDir
       ? join(this.options.srcDir, this.options.targetDir)
       : this.options.srcDir;
+  }
+
+  /**
+   * Resolves the source roots of a run: every workspace package with
+   * `.compact` files in its `srcDir` in workspace mode, else the `sources`
+   * roots, else just `srcDir` and `outDir`.
+   *
+   * @returns The roots, in compile order
+   * @throws {ConfigError} In workspace mode, if package.json lists no
+   *         workspaces
+   * @throws {Error} If two roots share an output directory
+   */
+  async sourceRoots(): Promise<ResolvedSourceRoot[]> {
+    const { srcDir, outDir } = this.options;
+    const roots: ResolvedSourceRoot[] = [];
+    if (this.options.workspaces) {
+      for (const pkg of await new WorkspaceDiscovery().findPackages()) {
+        const packageSrc = join(pkg.dir, srcDir);
+        const discovery = new FileDiscovery(
+          packageSrc,
+          this.options.exclude,
+          this.options.include,
+        );
+        if (
+          existsSync(packageSrc) &&
+          (await discovery.getCompactFiles(packageSrc)).length > 0
+        ) {
+          roots.push({
+            name: pkg.name,
+            packageDir: pkg.dir,
+            srcDir: packageSrc,
+            outDir: join(pkg.dir, outDir),
+          });
+        }
+      }
+    } else if (this.options.sources.length > 0) {
+      for (const root of this.options.sources) {
+        const packageDir = dirname(root.srcDir);
+        roots.push({
+          name: root.srcDir,
+          packageDir,
+          srcDir: root.srcDir,
+          outDir: root.outDir ?? join(packageDir, outDir),
+        });
+      }
+    } else {
+      roots.push({ name: srcDir, packageDir: '.', srcDir, outDir });
+    }
+
+    const owners = new Map<string, string>();
+    for (const root of roots) {
+      const owner = owners.get(normalize(root.outDir));
+      if (owner !== undefined) {
+        throw new Error(
+          `Source roots ${owner} and ${root.srcDir} both compile to ${root.outDir}; ` +
+            'give each its own output directory (--src <dir>=<outDir>)',
+        );
+      }
+      owners.set(normalize(root.outDir), root.srcDir);
+    }
+    return roots;
+  }
 
+  /** True when the run covers several source roots. */
+  private get isMultiRoot(): boolean {
+    return this.options.workspaces || this.options.sources.length > 0;
+  }
+
+  /**
+   * Source roots a multi-root run covers: every root, or only the roots
+   * holding a file of the `files` option.
+   *
+   * @throws {FileNotFoundError} If a file in `files` is in no source root
+   */
+  private async selectRoots(): Promise<ResolvedSourceRoot[]> {
+    const roots = await this.sourceRoots();
+    const { files } = this.options;
+    if (files.length === 0) {
+      return roots;
+    }
+    for (const file of files) {
+      if (!roots.some((root) => isInside(root.srcDir, file))) {
+        throw new FileNotFoundError(
+          `File ${file} is not in any source root (${roots.map((root) => root.srcDir).join(', ')})`,
+          file,
+        );
+      }
+    }
+    return roots.filter((root) =>
+      files.some((file) => isInside(root.srcDir, file)),
+    );
+  }
+
+  /**
+   * Creates the compiler of one root in a multi-root run. It shares every
+   * option except the root's directories and its share of `files`.
+   *
+   * @param root     - Source root to compile
+   * @param reporter - Reporter of the root (default: this compiler's, minus
+   *                   the run-wide events reported once for all roots)
+   */
+  private forRoot(
+    root: ResolvedSourceRoot,
+    reporter: Reporter = new SourceRootReporter(this.ui),
+  ): CompactCompiler {
+    return new CompactCompiler(
+      {
+        ...this.options,
+        srcDir: root.srcDir,
+        outDir: root.outDir,
+        sources: [],
+        workspaces: false,
+        files: this.options.files.filter((file) => isInside(root.srcDir, file)),
+        profile: undefined,
+      },
+      this.execFn,
+      reporter,
+    );
+  }
+
+  /**
+   * Reports the timing profile of a run and writes it to the `profile` file,
+   * if set. The reporter only gets it when the toolchain ran on some file.
+   *
+   * @param result    - Result of the run
+   * @param startDate - When the run started
+   */
+  private async reportProfile(
+    result: CompileResult,
+    startDate: Date,
+  ): Promise<void> {
+    const profile = createProfile(result, startDate, this.options.concurrency);
+    if (profile.files.length > 0) {
+      this.ui.onProfile(profile);
+    }
+    if (this.options.profile) {
+      await writeProfile(this.options.profile, profile);
+    }
+  }
+
+  /** True when the run covers only part of `srcDir`. */
+  private get isNarrowed(): boolean {
+    return (
+      this.options.targetDir !== undefined ||
+      this.options.files.length > 0 ||
+      this.options.changedSince !== undefined
+    );
+  }
+
+  /**
+   * Discovers the files selected by `targetDir` (or all of `srcDir`),
+   * narrowed to the `files` option and to the files changed since
+   * `changedSince`, when set.
+   *
+   * @param signal - Optional signal that cancels the git lookup
+   * @returns Paths relative to `srcDir`
+   * @throws {DirectoryNotFoundError} If target directory doesn't exist
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   * @throws {GitError} If the files changed since `changedSince` can't be listed
+   */
+  private async discoverTargetFiles(signal?: AbortSignal): Promise<string[]> {
     // Validate target directory exists
-    if (this.options.targetDir && !existsSync(searchDir)) {
+    if (this.options.targetDir && !existsSync(this.searchDir)) {
       throw new DirectoryNotFoundError(
-        `Target directory ${searchDir} does not exist`,
-        searchDir,
+        `Target directory ${this.searchDir} does not exist`,
+        this.searchDir,
+      );
+    }
+
+    let files = this.selectListedFiles(
+      await this.fileDiscovery.getCompactFiles(this.searchDir),
+    );
+    if (this.options.changedSince !== undefined) {
+      const changed = new Set(
+        await this.git.changedFiles(
+          this.options.changedSince,
+          this.options.srcDir,
+          signal,
+        ),
       );
+      files = files.filter((file) => changed.has(file));
     }
+    return files;
+  }
 
-    const compactFiles = await this.fileDiscovery.getCompactFiles(searchDir);
+  /**
+   * Keeps the discovered files named by the `files` option; all of them when
+   * it is empty.
+   *
+   * @param files - Paths relative to `srcDir`
+   * @throws {FileNotFoundError} If a file in `files` doesn't exist in `srcDir`
+   */
+  private selectListedFiles(files: readonly string[]): string[] {
+    if (this.options.files.length === 0) {
+      return [...files];
+    }
+    const listed = new Set(
+      this.options.files.map((file) => this.resolveListedFile(file)),
+    );
+    return files.filter((file) => listed.has(file));
+  }
 
-    if (compactFiles.length === 0) {
-      UIService.showNoFiles(this.options.targetDir);
-      return;
+  /**
+   * Resolves a path from the `files` option, given relative to the working
+   * directory or to `srcDir`, to a path relative to `srcDir`.
+   *
+   * @throws {FileNotFoundError} If the file doesn't exist in `srcDir`
+   */
+  private resolveListedFile(file: string): string {
+    const { srcDir } = this.options;
+    if (existsSync(file) && isInside(srcDir, file)) {
+      return relative(srcDir, file);
     }
+    if (!isAbsolute(file) && existsSync(join(srcDir, file))) {
+      return normalize(file);
+    }
+    throw new FileNotFoundError(
+      existsSync(file)
+        ? `File ${file} is outside the source directory ${srcDir}`
+        : `File ${file} does not exist in ${srcDir}`,
+      file,
+    );
+  }
+
+  /**
+   * Compiles `files` in dependency order, consulting and updating the cache.
+   *
+   * @param files            - Paths relative to `srcDir`
+   * @param graph            - Import graph of the source tree
+   * @param toolchainVersion - Toolchain version recorded in cache entries
+   * @param results          - Receives one entry per processed file
+   * @param signal           - Optional signal that cancels the run
+   * @throws {CompilationError} If any file compilation fails
+   * @throws {AggregateCompilationError} If files failed with `continueOnError`
+   * @throws {CancellationError} If `signal` aborts; files not started are
+   *         recorded as `cancelled` without reporter events
+   */
+  private async compileFiles(
+    files: readonly string[],
+    graph: DependencyGraph,
+    toolchainVersion: string,
+    results: FileResult[] = [],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const compactFiles = graph.sort([...new Set(files)]);
 
-    UIService.showCompilationStart(compactFiles.length, this.options.targetDir);
+    this.ui.onDiscovery(compactFiles.length, this.options.targetDir);
+
+    const run: CompileRun = {
+      total: compactFiles.length,
+      toolchainVersion,
+      graph,
+      results,
+      signal,
+    };
+    const failures: CompilationError[] = [];
+    await this.cache.load();
+    await this.manifest.load();
+    try {
+      await runWithConcurrency(
+        compactFiles,
+        this.options.concurrency,
+        async (file, index) => {
+          try {
+            await this.compileFile(file, index, run);
+          } catch (error) {
+            if (
+              !this.options.continueOnError ||
+              !(error instanceof CompilationError)
+            ) {
+              throw error;
+            }
+            failures.push(error);
+          }
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof CancellationError)) {
+        throw error;
+      }
+      const finished = new Set(results.map((result) => result.file));
+      for (const file of compactFiles.filter((f) => !finished.has(f))) {
+        results.push({
+          file,
+          outputDir: this.compilerService.getOutputDir(file),
+          status: 'cancelled',
+          flags: this.flagsOf(file),
+          durationMs: 0,
+          diagnostics: [],
+        });
+      }
+      const cancelled = results
+        .filter((result) => result.status === 'cancelled')
+        .map((result) => result.file);
+      throw new CancellationError(
+        `Cancelled ${cancelled.length} file(s) before they finished compiling`,
+        cancelled,
+      );
+    } finally {
+      await this.cache.save();
+      await this.manifest.save();
+    }
 
-    for (const [index, file] of compactFiles.entries()) {
-      await this.compileFile(file, index, compactFiles.length);
+    if (this.options.continueOnError) {
+      this.ui.onSummary(results);
+      if (failures.length > 0) {
+        throw new AggregateCompilationError(failures, compactFiles.length);
+      }
     }
   }
 
   /**
-   * Compiles a single file with progress reporting and error handling.
+   * Finds compilable files anywhere in `srcDir` that transitively import any
+   * of `files`, according to any of `graphs`. Excluded files are never
+   * returned.
+   *
+   * @param files  - Paths relative to `srcDir`
+   * @param graphs - Import graphs of the source tree to consult
+   * @returns Dependents not already contained in `files`
+   */
+  private async findDependents(
+    files: readonly string[],
+    graphs: readonly DependencyGraph[],
+  ): Promise<string[]> {
+    const compilable = new Set(
+      await this.fileDiscovery.getCompactFiles(this.options.srcDir),
+    );
+    const dependents = new Set(
+      graphs.flatMap((graph) => graph.dependentsOf(files)),
+    );
+    return [...dependents].filter(
+      (file) => compilable.has(file) && !files.includes(file),
+    );
+  }
+
+  /**
+   * Compiles a single file, reporting its progress and outcome to the
+   * reporter.
    *
    * @param file  - Relative path to the .compact file
    * @param index - Current file index (0-based) for progress tracking
-   * @param total - Total number of files being compiled
+   * @param run   - State shared by the current compilation run
    * @throws {CompilationError} If compilation fails
+   * @throws {CancellationError} If the run is cancelled; a file not yet
+   *         started when it is throws without reporter events
    */
   private async compileFile(
     file: string,
     index: number,
-    total: number,
+    run: CompileRun,
   ): Promise<void> {
-    const step = `[${index + 1}/${total}]`;
-    const spinner = ora(
-      chalk.blue(`[COMPILE] ${step} Compiling ${file}`),
-    ).start();
+    if (run.signal?.aborted) {
+      throw new CancellationError(`Cancelled compiling ${file}`, [file]);
+    }
+    const startedAt = performance.now();
+    const flags = this.flagsOf(file);
+    const event: FileEvent = {
+      file,
+      sourcePath: join(this.options.srcDir, file),
+      index,
+      total: run.total,
+      flags,
+      // With overrides in play, show which flags each file actually got
+      label:
+        Object.keys(this.options.overrides).length > 0
+          ? `${file} [flags: ${flags || 'none'}]`
+          : file,
+      concurrent: this.options.concurrency > 1,
+    };
+    const record = (
+      status: FileStatus,
+      extra: Pick<FileResult, 'diagnostics' | 'error' | 'compileMs'> = {
+        diagnostics: [],
+      },
+    ): FileResult => {
+      const result: FileResult = {
+        file,
+        outputDir: this.compilerService.getOutputDir(file),
+        status,
+        flags,
+        durationMs: performance.now() - startedAt,
+        ...extra,
+      };
+      run.results.push(result);
+      return result;
+    };
+    const inputs = {
+      sourceHash:
+        run.graph.hashOf(file) ??
+        (await CompileCache.hashFile(join(this.options.srcDir, file))),
+      dependencies: this.dependencyHashes(run.graph, file),
+      flags,
+      toolchainVersion: run.toolchainVersion,
+      // Part of the key, so a layout change (outDir, hierarchical) recompiles
+      artifacts: [this.compilerService.getOutputDir(file)],
+    };
+
+    if (!this.options.force && this.cache.isFresh(file, inputs)) {
+      await this.recordArtifact(file, inputs);
+      this.ui.onFileSuccess(event, record('skipped'));
+      return;
+    }
+
+    this.ui.onFileStart(event);
+    const compileStartedAt = performance.now();
+    let compileMs: number | undefined;
 
     try {
-      const result = await this.compilerService.compileFile(
+      const output = await this.compilerService.compileFile(
         file,
-        this.options.flags,
+        flags,
         this.options.version,
+        run.signal,
       );
+      compileMs = performance.now() - compileStartedAt;
 
-      spinner.succeed(chalk.green(`[COMPILE] ${step} Compiled ${file}`));
-      // Filter out compactc version output from compact compile
-      const filteredOutput = result.stdout.split('\n').slice(1).join('\n');
-
-      if (filteredOutput) {
-        UIService.printOutput(filteredOutput, chalk.cyan);
-      }
-      UIService.printOutput(result.stderr, chalk.yellow);
+      this.cache.record(file, inputs);
+      await this.recordArtifact(file, inputs);
+      const result = record('compiled', {
+        diagnostics: DiagnosticParser.parse(
+          `${output.stderr}\n${output.stdout}`,
+        ),
+        compileMs,
+      });
+      this.ui.onFileSuccess(event, result, output);
     } catch (error) {
-      spinner.fail(chalk.red(`[COMPILE] ${step} Failed ${file}`));
+      compileMs ??= performance.now() - compileStartedAt;
+      if (error instanceof CancellationError) {
+        this.ui.onFileFailure(
+          event,
+          record('cancelled', {
+            diagnostics: [],
+            error: error.message,
+            compileMs,
+          }),
+        );
+        throw error;
+      }
 
-      // CompilationError wraps the underlying child-process error in `.cause`.
-      // The previous guard `isPromisifiedChildProcessError(error)` on a
-      // CompilationError instance was unreachable — unwrap via `.cause` to
-      // surface compactc's stdout/stderr to the user.
-      const execError = error instanceof CompilationError ? error.cause : error;
-      if (isPromisifiedChildProcessError(execError)) {
-        // Filter out compactc version output from compact compile
-        const filteredOutput = execError.stdout.split('\n').slice(1).join('\n');
+      const result = record('failed', {
+        diagnostics: error instanceof CompilationError ? error.diagnostics : [],
+        error: error instanceof Error ? error.message : String(error),
+        compileMs,
+      });
 
-        if (filteredOutput) {
-          UIService.printOutput(filteredOutput, chalk.cyan);
-        }
-        UIService.printOutput(execError.stderr, chalk.red);
-      }
+      // CompilationError wraps the underlying child-process error in `.cause`
+      // — unwrap it to surface compactc's stdout/stderr to the user.
+      const execError = error instanceof CompilationError ? error.cause : error;
+      const output: CommandOutput | undefined = isPromisifiedChildProcessError(
+        execError,
+      )
+        ? { stdout: execError.stdout, stderr: execError.stderr }
+        : undefined;
+      this.ui.onFileFailure(event, result, output);
 
       throw error;
     }
   }
 
+  /** Compiler flags of a file: the base flags plus matching overrides. */
+  private flagsOf(file: string): string {
+    return resolveFileFlags(
+      file,
+      this.options.srcDir,
+      this.options.flags,
+      this.options.overrides,
+    );
+  }
+
+  /** Current hashes of the modules a file transitively imports or includes. */
+  private dependencyHashes(
+    graph: DependencyGraph,
+    file: string,
+  ): Record<string, string> {
+    return Object.fromEntries(
+      graph
+        .transitiveDependenciesOf(file)
+        .map((dep) => [dep, graph.hashOf(dep) ?? '']),
+    );
+  }
+
+  /**
+   * Adds a compiled (or up-to-date) file to the artifact manifest, inspecting
+   * its output directory for keys, ZK IR and circuit names.
+   *
+   * @param file   - Relative path to the .compact file
+   * @param inputs - Source hash, flags and toolchain version it was built with
+   */
+  private async recordArtifact(
+    file: string,
+    inputs: Omit<CacheEntry, 'artifacts'>,
+  ): Promise<void> {
+    const outputDir = this.compilerService.getOutputDir(file);
+    this.manifest.record(this.options.srcDir, {
+      name: basename(file, '.compact'),
+      source: file,
+      outputDir,
+      sourceHash: inputs.sourceHash,
+      dependencies: inputs.dependencies,
+      flags: inputs.flags,
+      toolchainVersion:
+        semver.coerce(inputs.toolchainVersion)?.version ??
+        inputs.toolchainVersion,
+      ...(await ArtifactManifest.inspect(outputDir)),
+    });
+  }
+
   /**
    * For testing - returns the resolved options object
    */
@@ -0,0 +1,452 @@
+/**
+ * Project configuration file support for the Compact CLI tools.
+ *
+ * A `compact.config.{ts,mjs,js,json}` file in the working directory supplies
+ * defaults for {@link CompilerOptions} and {@link BuilderOnlyOptions}, so
+ * `package.json` scripts don't have to repeat `--src`, `--out`, `--exclude`,
+ * etc. Options are resolved with the following precedence (highest first):
+ *
+ * 1. command-line arguments
+ * 2. environment variables (`SKIP_ZK`)
+ * 3. the configuration file
+ * 4. built-in defaults
+ *
+ * `flags` are the exception: they are concatenated (config, then env, then
+ * CLI) rather than replaced, since compiler flags are additive.
+ *
+ * The required toolchain version may also be pinned outside the config file,
+ * in `.compact-version` or the `compact.toolchain` field of `package.json`
+ * (see {@link findToolchainPin}).
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import semver from 'semver';
+import type ts from 'typescript';
+import { ConfigError } from './types/errors.ts';
+import {
+  BUILD_HOOK_POINTS,
+  type BuilderOptions,
+  REPORTER_FORMATS,
+} from './types/options.ts';
+import { isReporterFormat } from './utils.ts';
+
+/**
+ * Shape of a `compact.config.*` file: every compiler and builder option.
+ */
+export type CompactConfig = BuilderOptions;
+
+/** Config file names searched for, in order of preference. */
+export const CONFIG_FILE_NAMES: readonly string[] = [
+  'compact.config.ts',
+  'compact.config.mjs',
+  'compact.config.js',
+  'compact.config.json',
+];
+
+/** File holding the pinned toolchain version, e.g. `0.26.0`. */
+export const TOOLCHAIN_VERSION_FILE = '.compact-version';
+
+/**
+ * Checks a single option value.
+ * Returns a description of the expected type when the value is invalid.
+ */
+type OptionValidator = (value: unknown) => string | undefined;
+
+const isString: OptionValidator = (value) =>
+  typeof value === 'string' ? undefined : 'a string';
+
+const isBoolean: OptionValidator = (value) =>
+  typeof value === 'boolean' ? undefined : 'a boolean';
+
+const isStringArray: OptionValidator = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+    ? undefined
+    : 'an array of strings';
+
+const isPositiveInteger: OptionValidator = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? undefined
+    : 'a positive integer';
+
+const isReporter: OptionValidator = (value) =>
+  isReporterFormat(value)
+    ? undefined
+    : `one of ${REPORTER_FORMATS.map((f) => `"${f}"`).join(', ')}`;
+
+const isVersionRange: OptionValidator = (value) =>
+  typeof value === 'string' && semver.validRange(value) !== null
+    ? undefined
+    : 'a version or semver range';
+
+const isOverrides: OptionValidator = (value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (override) =>
+      typeof override === 'object' &&
+      override !== null &&
+      Object.entries(override).every(
+        ([key, flags]) => key === 'flags' && typeof flags === 'string',
+      ),
+  )
+    ? undefined
+    : 'an object mapping glob patterns to { "flags": string }';
+
+const isSources: OptionValidator = (value) =>
+  Array.isArray(value) &&
+  value.every(
+    (root) =>
+      typeof root === 'object' &&
+      root !== null &&
+      typeof root.srcDir === 'string' &&
+      Object.entries(root).every(
+        ([key, dir]) =>
+          (key === 'srcDir' || key === 'outDir') && typeof dir === 'string',
+      ),
+  )
+    ? undefined
+    : 'an array of { "srcDir": string, "outDir"?: string }';
+
+/** A shell command or a function. */
+function isHook(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'function';
+}
+
+const isHooks: OptionValidator = (value) =>
+  isHook(value) || (Array.isArray(value) && value.every(isHook))
+    ? undefined
+    : 'a shell command, a function, or an array of them';
+
+const isCustomSteps: OptionValidator = (value) =>
+  Array.isArray(value) &&
+  value.every(
+    (step) =>
+      typeof step === 'object' &&
+      step !== null &&
+      typeof step.name === 'string' &&
+      BUILD_HOOK_POINTS.includes(step.at) &&
+      isHook(step.run) &&
+      Object.keys(step).every((key) => ['name', 'at', 'run'].includes(key)),
+  )
+    ? undefined
+    : `an array of { "name": string, "at": ${BUILD_HOOK_POINTS.map((p) => `"${p}"`).join(' | ')}, "run": string | function }`;
+
+/** Validators for every supported config key. */
+const CONFIG_SCHEMA: Record<keyof CompactConfig, OptionValidator> = {
+  flags: isString,
+  targetDir: isString,
+  version: isString,
+  hierarchical: isBoolean,
+  srcDir: isString,
+  outDir: isString,
+  sources: isSources,
+  workspaces: isBoolean,
+  exclude: isStringArray,
+  include: isStringArray,
+  files: isStringArray,
+  changedSince: isString,
+  overrides: isOverrides,
+  concurrency: isPositiveInteger,
+  force: isBoolean,
+  continueOnError: isBoolean,
+  reporter: isReporter,
+  toolchain: isVersionRange,
+  timeout: isPositiveInteger,
+  prune: isBoolean,
+  profile: isString,
+  dryRun: isBoolean,
+  cleanDist: isBoolean,
+  copyToDist: isStringArray,
+  tsconfig: isString,
+  skipTsc: isBoolean,
+  packageJson: isBoolean,
+  beforeCompile: isHooks,
+  afterCompile: isHooks,
+  beforeTsc: isHooks,
+  afterDist: isHooks,
+  steps: isCustomSteps,
+};
+
+/**
+ * Identity helper that gives `compact.config.ts` files type checking and
+ * editor completion.
+ *
+ * @example
+ * ```typescript
+ * // compact.config.ts
+ * import { defineConfig } from '@openzeppelin/compact-builder';
+ *
+ * export default defineConfig({
+ *   srcDir: 'contracts',
+ *   hierarchical: true,
+ *   exclude: ['Mock*'],
+ * });
+ * ```
+ */
+export function defineConfig(config: CompactConfig): CompactConfig {
+  return config;
+}
+
+/**
+ * Finds the config file in `cwd`.
+ *
+ * @param cwd - Directory to search
+ * @returns Path of the config file, or undefined if there is none
+ * @throws {ConfigError} If more than one config file exists
+ */
+export function findConfigFile(
+  cwd: string = process.cwd(),
+): string | undefined {
+  const found = CONFIG_FILE_NAMES.map((name) => join(cwd, name)).filter(
+    (path) => existsSync(path),
+  );
+
+  if (found.length > 1) {
+    throw new ConfigError(
+      `Found multiple config files (${found.map((path) => basename(path)).join(', ')}); keep only one.`,
+      found[0],
+    );
+  }
+  return found[0];
+}
+
+/**
+ * Validates a parsed config object against the supported options.
+ *
+ * @param config - Value exported by (or parsed from) the config file
+ * @param file   - Config file path, used in error messages
+ * @returns The config, typed
+ * @throws {ConfigError} Listing every unknown key and invalid value
+ */
+export function validateConfig(config: unknown, file: string): CompactConfig {
+  const name = basename(file);
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new ConfigError(`${name} must export an object`, file);
+  }
+
+  const knownKeys = Object.keys(CONFIG_SCHEMA);
+  const issues: string[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    const validate = CONFIG_SCHEMA[key as keyof CompactConfig];
+    if (!validate) {
+      const suggestion = knownKeys.find(
+        (known) => known.toLowerCase() === key.toLowerCase(),
+      );
+      issues.push(
+        suggestion
+          ? `unknown option "${key}" (did you mean "${suggestion}"?)`
+          : `unknown option "${key}" (expected one of: ${knownKeys.join(', ')})`,
+      );
+      continue;
+    }
+    if (value === undefined) {
+      continue;
+    }
+    const expected = validate(value);
+    if (expected) {
+      issues.push(
+        `"${key}" must be ${expected} (got ${JSON.stringify(value)})`,
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(
+      `Invalid ${name}:\n${issues.map((issue) => `  • ${issue}`).join('\n')}`,
+      file,
+      issues,
+    );
+  }
+  return config as CompactConfig;
+}
+
+/**
+ * Reads the raw value exported by a config file.
+ */
+async function readConfigFile(file: string): Promise<unknown> {
+  const name = basename(file);
+
+  if (file.endsWith('.json')) {
+    const raw = await readFile(file, 'utf8');
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new ConfigError(
+        `Invalid JSON in ${name}: ${(error as Error).message}`,
+        file,
+      );
+    }
+  }
+
+  try {
+    if (file.endsWith('.ts') && !canImportTypeScript()) {
+      return await importTranspiled(file);
+    }
+    const module = await import(pathToFileURL(file).href);
+    return module.default ?? module;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    throw new ConfigError(
+      `Failed to load ${name}: ${(error as Error).message}`,
+      file,
+    );
+  }
+}
+
+/** True when Node.js imports `.ts` files itself (22.18 and later). */
+function canImportTypeScript(): boolean {
+  return Boolean(
+    (process.features as { typescript?: string | false }).typescript,
+  );
+}
+
+/**
+ * Imports a TypeScript config file on Node.js versions that cannot: the
+ * file is transpiled with the project's `typescript` package (an optional
+ * peer dependency) into a temporary `.mjs` file next to it, so its imports
+ * resolve as they would from the config itself, then imported and removed.
+ *
+ * @throws {ConfigError} If the typescript package is not installed
+ */
+async function importTranspiled(file: string): Promise<unknown> {
+  let typescript: typeof ts;
+  try {
+    typescript = (await import('typescript')).default;
+  } catch {
+    throw new ConfigError(
+      `Cannot load ${basename(file)}: install the typescript package, use Node.js >= 22.18, or rename it to compact.config.mjs.`,
+      file,
+    );
+  }
+
+  const { outputText } = typescript.transpileModule(
+    await readFile(file, 'utf8'),
+    {
+      compilerOptions: {
+        module: typescript.ModuleKind.ESNext,
+        target: typescript.ScriptTarget.ES2022,
+      },
+      fileName: file,
+    },
+  );
+  const transpiled = join(
+    dirname(file),
+    `.${basename(file, '.ts')}.${process.pid}.${Date.now()}.mjs`,
+  );
+  await writeFile(transpiled, outputText);
+  try {
+    const module = await import(pathToFileURL(transpiled).href);
+    return module.default ?? module;
+  } finally {
+    await rm(transpiled, { force: true });
+  }
+}
+
+/**
+ * Reads the toolchain version pinned by the project: the contents of
+ * `.compact-version`, or else the `compact.toolchain` field of `package.json`.
+ *
+ * @param cwd - Directory to search (defaults to `process.cwd()`)
+ * @returns The pinned version or semver range, or undefined if none is set
+ * @throws {ConfigError} If the pin is not a valid version or semver range
+ */
+export async function findToolchainPin(
+  cwd: string = process.cwd(),
+): Promise<string | undefined> {
+  let pin: string | undefined;
+  let file = join(cwd, TOOLCHAIN_VERSION_FILE);
+
+  if (existsSync(file)) {
+    pin = (await readFile(file, 'utf8')).trim();
+  } else {
+    file = join(cwd, 'package.json');
+    if (!existsSync(file)) {
+      return undefined;
+    }
+    let pkg: { compact?: { toolchain?: unknown } };
+    try {
+      pkg = JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      // Malformed package.json is not ours to report
+      return undefined;
+    }
+    if (pkg.compact?.toolchain === undefined) {
+      return undefined;
+    }
+    pin = String(pkg.compact.toolchain);
+  }
+
+  if (!semver.validRange(pin)) {
+    throw new ConfigError(
+      `Invalid toolchain version in ${basename(file)}: ${JSON.stringify(pin)} is not a version or semver range`,
+      file,
+    );
+  }
+  return pin;
+}
+
+/**
+ * Discovers, loads and validates the project config file, and adds the
+ * pinned toolchain version unless the config file sets `toolchain` itself.
+ *
+ * @param cwd - Directory to search (defaults to `process.cwd()`)
+ * @returns The validated config, or `{}` when no config file or pin exists
+ * @throws {ConfigError} If the file cannot be loaded or is invalid
+ *
+ * @example
+ * ```typescript
+ * const config = await loadConfig();
+ * const compiler = CompactCompiler.fromArgs(process.argv.slice(2), process.env, config);
+ * ```
+ */
+export async function loadConfig(
+  cwd: string = process.cwd(),
+): Promise<CompactConfig> {
+  const file = findConfigFile(cwd);
+  const config = file ? validateConfig(await readConfigFile(file), file) : {};
+
+  if (config.toolchain === undefined) {
+    const toolchain = await findToolchainPin(cwd);
+    if (toolchain !== undefined) {
+      return { ...config, toolchain };
+    }
+  }
+  return config;
+}
+
+/**
+ * Layers command-line (and environment) options over config-file options.
+ * Options set on the command line win; `flags` are concatenated so both
+ * sources reach the compiler. Source roots given on the command line
+ * (`srcDir` or `sources`) replace all of the config's. Defaults are applied
+ * later by the consumers.
+ *
+ * @param config - Options from the config file
+ * @param cli    - Options parsed from argv and the environment
+ * @returns Merged options
+ */
+export function mergeOptions<T extends CompactConfig>(
+  config: CompactConfig,
+  cli: T,
+): T {
+  const explicit = Object.fromEntries(
+    Object.entries(cli).filter(([, value]) => value !== undefined),
+  );
+  const flags = [config.flags, cli.flags]
+    .map((value) => value?.trim())
+    .filter(Boolean)
+    .join(' ');
+  const roots =
+    cli.srcDir !== undefined || cli.sources !== undefined
+      ? { srcDir: undefined, sources: undefined }
+      : {};
+
+  return { ...config, ...roots, ...explicit, flags } as T;
+}
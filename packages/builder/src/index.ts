@@ -1,23 +1,124 @@
-export type { BuilderOnlyOptions, BuilderOptions } from './Builder.js';
+export type {
+  BuilderOnlyOptions,
+  BuilderOptions,
+  BuildHook,
+  BuildHookContext,
+  BuildHookPoint,
+  BuildOperation,
+  BuildPlan,
+  BuildResult,
+  BuildStep,
+  CleanOperation,
+  CopyGlobOperation,
+  CopyTreeOperation,
+  CustomBuildStep,
+  FunctionOperation,
+  MkdirOperation,
+  PackageManifestOperation,
+  PlannedAction,
+  PlannedFile,
+  PlannedStep,
+  RemoveMatchingOperation,
+  RunCommandOperation,
+  ShellOperation,
+  StepOutput,
+  StepResult,
+  StepStatus,
+  TypeScriptOperation,
+  TypeScriptOutput,
+} from './Builder.js';
 // biome-ignore lint/performance/noBarrelFile: package entrypoint
-export { CompactBuilder } from './Builder.js';
+export {
+  BuildStepRunner,
+  CompactBuilder,
+  PackageManifestWriter,
+  TypeScriptService,
+} from './Builder.js';
 export type {
+  ArtifactCheck,
+  ArtifactManifestData,
+  CacheEntry,
+  CacheManifest,
+  CommandOutput,
+  CompileProfile,
+  CompileResult,
   CompilerOptions,
   CompilerServiceOptions,
+  ContractArtifact,
+  EnvironmentInfo,
   ExecFunction,
+  ExecOptions,
+  FileEvent,
+  FileOverride,
+  FileResult,
+  FileStatus,
+  ModuleReference,
+  ProfileEntry,
+  Reporter,
+  ReporterFormat,
+  ResolvedSourceRoot,
+  RunOptions,
+  SourceRoot,
+  SourceRootEvent,
+  SpinnerReporterOptions,
+  StepEvent,
+  VerifyResult,
+  WatchFunction,
+  WatchOptions,
+  WorkspacePackage,
 } from './Compiler.js';
 export {
+  ARTIFACT_MANIFEST_FILE,
+  ArtifactManifest,
+  ArtifactPruner,
+  ArtifactVerifier,
+  CACHE_MANIFEST_FILE,
   CompactCompiler,
+  CompileCache,
   CompilerService,
+  CompositeReporter,
+  createReporter,
+  DEFAULT_WATCH_DEBOUNCE_MS,
+  DependencyGraph,
+  DiagnosticParser,
   EnvironmentValidator,
   FileDiscovery,
+  GitChangeDetector,
+  GitHubReporter,
+  GlobMatcher,
+  JUnitReporter,
+  killProcessGroups,
+  PlainReporter,
+  SilentReporter,
+  SourceWatcher,
+  SpinnerReporter,
   UIService,
+  WorkspaceDiscovery,
 } from './Compiler.js';
-export type { PromisifiedChildProcessError } from './types/errors.js';
+export type { CompactConfig } from './config.js';
+export {
+  CONFIG_FILE_NAMES,
+  defineConfig,
+  findConfigFile,
+  findToolchainPin,
+  loadConfig,
+  TOOLCHAIN_VERSION_FILE,
+  validateConfig,
+} from './config.js';
+export type {
+  Diagnostic,
+  PromisifiedChildProcessError,
+} from './types/errors.js';
 export {
+  AggregateCompilationError,
+  CancellationError,
   CompactCliNotFoundError,
   CompilationError,
+  ConfigError,
   DirectoryNotFoundError,
+  FileNotFoundError,
+  GitError,
   isPromisifiedChildProcessError,
+  ToolchainVersionMismatchError,
+  TypeScriptError,
 } from './types/errors.js';
-export type { BuildStep } from './types/options.js';
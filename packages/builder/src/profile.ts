@@ -0,0 +1,58 @@
+/**
+ * Timing profiles of compile runs.
+ *
+ * A profile separates the time spent validating the environment (spawning
+ * `compact` to check versions) from the time spent compiling, and lists the
+ * time the toolchain took for each file, slowest first. `CompactCompiler`
+ * reports it at the end of every run and, with the `profile` option, writes
+ * it as JSON so runs can be compared across toolchain upgrades.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CompileProfile, CompileResult } from './types/results.ts';
+
+/**
+ * Builds the timing profile of a compile run.
+ *
+ * @param result      - Result of the run, with its phase timings
+ * @param startedAt   - When the run started
+ * @param concurrency - Maximum number of files compiled at the same time
+ */
+export function createProfile(
+  result: CompileResult,
+  startedAt: Date,
+  concurrency: number,
+): CompileProfile {
+  return {
+    startedAt: startedAt.toISOString(),
+    devToolsVersion: result.devToolsVersion,
+    toolchainVersion: result.toolchainVersion,
+    success: result.success,
+    concurrency,
+    durationMs: result.durationMs,
+    // A run that failed validation spent all of its time there
+    environmentMs: result.environmentMs ?? result.durationMs,
+    compileMs: result.compileMs ?? 0,
+    files: result.files
+      .flatMap(({ file, status, compileMs }) =>
+        compileMs === undefined ? [] : [{ file, status, compileMs }],
+      )
+      .sort((a, b) => b.compileMs - a.compileMs),
+  };
+}
+
+/**
+ * Writes a profile as pretty-printed JSON, creating parent directories as
+ * needed.
+ *
+ * @param path    - File to write
+ * @param profile - Profile to write
+ */
+export async function writeProfile(
+  path: string,
+  profile: CompileProfile,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(profile, null, 2)}\n`);
+}
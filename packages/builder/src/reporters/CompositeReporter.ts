@@ -0,0 +1,165 @@
+import type {
+  CommandOutput,
+  EnvironmentInfo,
+  FileEvent,
+  Reporter,
+  SourceRootEvent,
+  StepEvent,
+} from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  CompileResult,
+  FileResult,
+  StepResult,
+  VerifyResult,
+} from '../types/results.ts';
+
+/**
+ * Reporter that forwards every event to several reporters in order, e.g. to
+ * print a log and write a report file from the same run.
+ *
+ * @example
+ * ```typescript
+ * const reporter = new CompositeReporter([
+ *   new PlainReporter(),
+ *   new JUnitReporter('reports/compact.xml'),
+ * ]);
+ * ```
+ */
+export class CompositeReporter implements Reporter {
+  private readonly reporters: readonly Reporter[];
+
+  /**
+   * Creates a new CompositeReporter instance.
+   *
+   * @param reporters - Reporters receiving every event, in order
+   */
+  constructor(reporters: readonly Reporter[]) {
+    this.reporters = reporters;
+  }
+
+  onEnvironment(info: EnvironmentInfo): void {
+    for (const reporter of this.reporters) {
+      reporter.onEnvironment(info);
+    }
+  }
+
+  onSourceRoot(event: SourceRootEvent): void {
+    for (const reporter of this.reporters) {
+      reporter.onSourceRoot(event);
+    }
+  }
+
+  onDiscovery(fileCount: number, targetDir?: string): void {
+    for (const reporter of this.reporters) {
+      reporter.onDiscovery(fileCount, targetDir);
+    }
+  }
+
+  onFileStart(event: FileEvent): void {
+    for (const reporter of this.reporters) {
+      reporter.onFileStart(event);
+    }
+  }
+
+  onFileSuccess(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    for (const reporter of this.reporters) {
+      reporter.onFileSuccess(event, result, output);
+    }
+  }
+
+  onFileFailure(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    for (const reporter of this.reporters) {
+      reporter.onFileFailure(event, result, output);
+    }
+  }
+
+  onStepStart(event: StepEvent): void {
+    for (const reporter of this.reporters) {
+      reporter.onStepStart(event);
+    }
+  }
+
+  onStepSuccess(
+    event: StepEvent,
+    result: StepResult,
+    output: CommandOutput,
+  ): void {
+    for (const reporter of this.reporters) {
+      reporter.onStepSuccess(event, result, output);
+    }
+  }
+
+  onStepFailure(
+    event: StepEvent,
+    result: StepResult,
+    output?: CommandOutput,
+  ): void {
+    for (const reporter of this.reporters) {
+      reporter.onStepFailure(event, result, output);
+    }
+  }
+
+  onSummary(results: readonly FileResult[]): void {
+    for (const reporter of this.reporters) {
+      reporter.onSummary(results);
+    }
+  }
+
+  onProfile(profile: CompileProfile): void {
+    for (const reporter of this.reporters) {
+      reporter.onProfile(profile);
+    }
+  }
+
+  async onComplete(result: CompileResult): Promise<void> {
+    for (const reporter of this.reporters) {
+      await reporter.onComplete(result);
+    }
+  }
+
+  onPrune(dirs: readonly string[], dryRun: boolean): void {
+    for (const reporter of this.reporters) {
+      reporter.onPrune(dirs, dryRun);
+    }
+  }
+
+  onVerify(result: VerifyResult): void {
+    for (const reporter of this.reporters) {
+      reporter.onVerify(result);
+    }
+  }
+
+  onPlan(plan: BuildPlan): void {
+    for (const reporter of this.reporters) {
+      reporter.onPlan(plan);
+    }
+  }
+
+  onWatchIdle(srcDir: string): void {
+    for (const reporter of this.reporters) {
+      reporter.onWatchIdle(srcDir);
+    }
+  }
+
+  onWatchChange(files: readonly string[]): void {
+    for (const reporter of this.reporters) {
+      reporter.onWatchChange(files);
+    }
+  }
+
+  onWatchError(message: string): void {
+    for (const reporter of this.reporters) {
+      reporter.onWatchError(message);
+    }
+  }
+}
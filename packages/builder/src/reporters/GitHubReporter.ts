@@ -0,0 +1,163 @@
+import { isAbsolute, relative, sep } from 'node:path';
+import type { Diagnostic } from '../types/errors.ts';
+import type { CommandOutput, FileEvent, StepEvent } from '../types/reporter.ts';
+import type { FileResult, StepResult } from '../types/results.ts';
+import { formatSeconds } from './format.ts';
+import { PlainReporter } from './PlainReporter.ts';
+
+/** Escapes the message of a workflow command. */
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/** Escapes a property value of a workflow command. */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * Formats a workflow command, e.g. `::error file=src/Token.compact,line=3::…`.
+ *
+ * @param command    - Command name (`error`, `warning`, `group`, …)
+ * @param properties - Properties; undefined values are left out
+ * @param message    - Command message
+ */
+function workflowCommand(
+  command: string,
+  properties: Record<string, string | number | undefined>,
+  message = '',
+): string {
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(',');
+  return `::${command}${props ? ` ${props}` : ''}::${escapeData(message)}`;
+}
+
+/**
+ * Path of a diagnostic's file relative to the working directory (the
+ * repository root in GitHub Actions), with forward slashes.
+ */
+function annotationPath(file: string): string {
+  const path = isAbsolute(file) ? relative(process.cwd(), file) : file;
+  return path.split(sep).join('/');
+}
+
+/**
+ * Reporter for GitHub Actions: {@link PlainReporter} output, with each
+ * compiled file's output folded into a `::group::` block and compiler
+ * diagnostics — of compactc and of the TypeScript step — emitted as
+ * `::error` / `::warning` annotations, which GitHub shows inline on the pull
+ * request diff.
+ *
+ * Groups are printed once a file finishes, so output of files compiling
+ * concurrently never ends up in another file's group.
+ */
+export class GitHubReporter extends PlainReporter {
+  override onFileSuccess(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'skipped') {
+      super.onFileSuccess(event, result, output);
+      return;
+    }
+    this.group(
+      `[COMPILE] ${this.progress(event)} Compiled ${event.label} (${formatSeconds(result.durationMs)})`,
+      event,
+      output,
+    );
+    this.annotate(result.diagnostics, 'compactc');
+  }
+
+  override onFileFailure(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    // A cancelled file is not a compiler error, so it gets no annotation
+    if (result.status === 'cancelled') {
+      super.onFileFailure(event, result, output);
+      return;
+    }
+    this.group(
+      `[COMPILE] ${this.progress(event)} Failed ${event.label} (${formatSeconds(result.durationMs)})`,
+      event,
+      output,
+    );
+    this.annotate(result.diagnostics, 'compactc');
+    // Failures without a parsed error (e.g. a crash) still get an annotation
+    if (!result.diagnostics.some((d) => d.severity === 'error')) {
+      this.line(
+        workflowCommand(
+          'error',
+          {
+            file: annotationPath(event.sourcePath),
+            title: 'Compilation failed',
+          },
+          result.error ?? `Failed to compile ${event.file}`,
+        ),
+      );
+    }
+  }
+
+  override onStepSuccess(
+    event: StepEvent,
+    result: StepResult,
+    output: CommandOutput,
+  ): void {
+    super.onStepSuccess(event, result, output);
+    this.annotate(result.diagnostics ?? [], 'tsc');
+  }
+
+  override onStepFailure(
+    event: StepEvent,
+    result: StepResult,
+    output?: CommandOutput,
+  ): void {
+    super.onStepFailure(event, result, output);
+    if (result.status === 'cancelled') {
+      return;
+    }
+    const diagnostics = result.diagnostics ?? [];
+    this.annotate(diagnostics, 'tsc');
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      return;
+    }
+    this.line(
+      workflowCommand(
+        'error',
+        { title: 'Build step failed' },
+        `${event.name}: ${result.error}`,
+      ),
+    );
+  }
+
+  /** Prints a file's outcome with its compiler output folded below it. */
+  private group(title: string, event: FileEvent, output?: CommandOutput): void {
+    this.line(workflowCommand('group', {}, title));
+    this.fileOutput(event, output);
+    this.line(workflowCommand('endgroup', {}));
+  }
+
+  /** Emits one annotation per diagnostic, titled after the tool. */
+  private annotate(diagnostics: readonly Diagnostic[], tool: string): void {
+    for (const diagnostic of diagnostics) {
+      this.line(
+        workflowCommand(
+          diagnostic.severity,
+          {
+            file: annotationPath(diagnostic.file),
+            line: diagnostic.line,
+            endLine: diagnostic.endLine,
+            col: diagnostic.column,
+            endColumn: diagnostic.endColumn,
+            title: diagnostic.code ? `${tool} ${diagnostic.code}` : tool,
+          },
+          diagnostic.message,
+        ),
+      );
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+import type { CommandOutput, FileEvent } from '../types/reporter.ts';
+import type { CompileResult, FileResult } from '../types/results.ts';
+import { withoutVersionLine } from './format.ts';
+import { SilentReporter } from './SilentReporter.ts';
+
+/** Name of the test suite written to the report. */
+const SUITE_NAME = 'compact-compiler';
+
+/**
+ * Escapes text for use in XML content and attribute values, dropping control
+ * characters (such as ANSI color codes) that XML 1.0 does not allow.
+ */
+function escapeXml(text: string): string {
+  return [...stripVTControlCharacters(text)]
+    .filter(
+      (char) => char >= ' ' || char === '\t' || char === '\n' || char === '\r',
+    )
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Formats a duration in milliseconds as JUnit seconds. */
+function seconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+/**
+ * Reporter that writes a JUnit XML report with one testcase per contract
+ * once `compile()` finishes, for CI systems that display test results.
+ * Compiled contracts pass, contracts skipped as up to date or cancelled are
+ * reported as skipped, and failed contracts carry the error, diagnostics and compiler
+ * output. It prints nothing itself; `createReporter` pairs it with
+ * {@link PlainReporter} for the log.
+ *
+ * @example
+ * ```typescript
+ * const reporter = new JUnitReporter('reports/compact.xml');
+ * await new CompactCompiler({}, undefined, reporter).compile();
+ * ```
+ */
+export class JUnitReporter extends SilentReporter {
+  private readonly path: string;
+  /** Source paths and compiler output of the files seen in the run */
+  private readonly files = new Map<
+    string,
+    { sourcePath: string; output?: CommandOutput }
+  >();
+
+  /**
+   * Creates a new JUnitReporter instance.
+   *
+   * @param path - File the XML report is written to; parent directories are
+   *               created as needed
+   */
+  constructor(path: string) {
+    super();
+    this.path = path;
+  }
+
+  override onFileSuccess(
+    event: FileEvent,
+    _result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    this.files.set(event.file, { sourcePath: event.sourcePath, output });
+  }
+
+  override onFileFailure(
+    event: FileEvent,
+    _result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    this.files.set(event.file, { sourcePath: event.sourcePath, output });
+  }
+
+  override async onComplete(result: CompileResult): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, this.render(result));
+    this.files.clear();
+  }
+
+  /**
+   * Renders the JUnit XML document of a run.
+   *
+   * @param result - Result of the compile run
+   */
+  private render(result: CompileResult): string {
+    const count = (status: FileResult['status']) =>
+      result.files.filter((file) => file.status === status).length;
+    const totals = `tests="${result.files.length}" failures="${count('failed')}" skipped="${count('skipped') + count('cancelled')}" time="${seconds(result.durationMs)}"`;
+    const timestamp = new Date(Date.now() - result.durationMs)
+      .toISOString()
+      .replace(/\.\d+Z$/, '');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${SUITE_NAME}" ${totals}>`,
+      `  <testsuite name="${SUITE_NAME}" ${totals} timestamp="${timestamp}">`,
+      ...result.files.map((file) => this.renderTestcase(file)),
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  /** Renders the testcase of a single contract. */
+  private renderTestcase(file: FileResult): string {
+    const seen = this.files.get(file.file);
+    const sourcePath = seen?.sourcePath ?? file.file;
+    const open = `    <testcase name="${escapeXml(file.file)}" classname="${escapeXml(dirname(sourcePath))}" file="${escapeXml(sourcePath)}" time="${seconds(file.durationMs)}"`;
+
+    if (file.status === 'skipped') {
+      return `${open}>\n      <skipped message="up to date"/>\n    </testcase>`;
+    }
+    if (file.status === 'cancelled') {
+      return `${open}>\n      <skipped message="cancelled"/>\n    </testcase>`;
+    }
+    if (file.status === 'compiled') {
+      return `${open}/>`;
+    }
+
+    // Raw compiler output already contains the diagnostics, so they are only
+    // listed when there is none
+    const details = (
+      seen?.output
+        ? [withoutVersionLine(seen.output.stdout), seen.output.stderr]
+        : file.diagnostics.map(
+            (d) =>
+              `${d.file}:${d.line}:${d.column}: ${d.severity}: ${d.message}`,
+          )
+    )
+      .map((text) => text.trim())
+      .filter((text) => text !== '');
+    const message = file.error ?? `Failed to compile ${file.file}`;
+
+    return [
+      `${open}>`,
+      `      <failure message="${escapeXml(message)}" type="CompilationError">${escapeXml(details.join('\n'))}</failure>`,
+      '    </testcase>',
+    ].join('\n');
+  }
+}
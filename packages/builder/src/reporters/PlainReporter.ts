@@ -0,0 +1,230 @@
+import type {
+  CommandOutput,
+  EnvironmentInfo,
+  FileEvent,
+  Reporter,
+  SourceRootEvent,
+  StepEvent,
+} from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  FileResult,
+  StepResult,
+  VerifyResult,
+} from '../types/results.ts';
+import {
+  describeSourceRoot,
+  directories,
+  formatSeconds,
+  indentOutput,
+  summarizePlan,
+  summarizeProfile,
+  summarizeResults,
+  touchedPaths,
+  withoutVersionLine,
+} from './format.ts';
+
+/**
+ * Reporter for CI and other non-TTY logs: one uncolored line per event on
+ * stdout, no spinners, and compiler output indented below the file it
+ * belongs to. Lines carry the same `[COMPILE]` / `[BUILD]` / `[VERIFY]` /
+ * `[WATCH]` prefixes as the spinner output.
+ */
+export class PlainReporter implements Reporter {
+  onEnvironment(info: EnvironmentInfo): void {
+    if (info.targetDir) {
+      this.line(`[COMPILE] TARGET_DIR: ${info.targetDir}`);
+    }
+    this.line(`[COMPILE] Compact developer tools: ${info.devToolsVersion}`);
+    this.line(`[COMPILE] Compact toolchain: ${info.toolchainVersion}`);
+    if (info.version) {
+      this.line(`[COMPILE] Using toolchain version: ${info.version}`);
+    }
+  }
+
+  onSourceRoot(event: SourceRootEvent): void {
+    this.line(`[COMPILE] ${describeSourceRoot(event)}`);
+  }
+
+  onDiscovery(fileCount: number, targetDir?: string): void {
+    if (fileCount === 0) {
+      this.line(
+        `[COMPILE] No .compact files found in ${targetDir ? `${targetDir}/` : ''}.`,
+      );
+    } else {
+      this.line(
+        `[COMPILE] Found ${fileCount} .compact file(s) to compile${targetDir ? ` in ${targetDir}/` : ''}`,
+      );
+    }
+  }
+
+  onFileStart(event: FileEvent): void {
+    this.line(`[COMPILE] ${this.progress(event)} Compiling ${event.label}`);
+  }
+
+  onFileSuccess(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'skipped') {
+      this.line(
+        `[COMPILE] ${this.progress(event)} Skipped ${event.label} (up to date)`,
+      );
+      return;
+    }
+    this.line(
+      `[COMPILE] ${this.progress(event)} Compiled ${event.label} (${formatSeconds(result.durationMs)})`,
+    );
+    this.fileOutput(event, output);
+  }
+
+  onFileFailure(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'cancelled') {
+      this.line(`[COMPILE] ${this.progress(event)} Cancelled ${event.label}`);
+      return;
+    }
+    this.line(
+      `[COMPILE] ${this.progress(event)} Failed ${event.label} (${formatSeconds(result.durationMs)})`,
+    );
+    this.fileOutput(event, output);
+  }
+
+  onStepStart(event: StepEvent): void {
+    this.line(`[BUILD] ${this.progress(event)} ${event.name}`);
+  }
+
+  onStepSuccess(
+    event: StepEvent,
+    result: StepResult,
+    output: CommandOutput,
+  ): void {
+    const touched = touchedPaths(result.files);
+    this.line(
+      `[BUILD] ${this.progress(event)} ${event.name}: done (${formatSeconds(result.durationMs)}${touched ? `, ${touched}` : ''})`,
+    );
+    this.output(output.stdout);
+    this.output(output.stderr);
+  }
+
+  onStepFailure(
+    event: StepEvent,
+    result: StepResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'cancelled') {
+      this.line(`[BUILD] ${this.progress(event)} ${event.name}: cancelled`);
+      return;
+    }
+    this.line(`[BUILD] ${this.progress(event)} ${event.name}: failed`);
+    if (output) {
+      this.output(output.stdout);
+      this.output(output.stderr);
+    }
+    // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
+    console.error(`[BUILD] Build failed: ${result.error}`);
+  }
+
+  onSummary(results: readonly FileResult[]): void {
+    const { rows, totals } = summarizeResults(results);
+    this.line(`[COMPILE] Summary: ${totals}`);
+    for (const row of rows) {
+      this.line(row.text);
+    }
+  }
+
+  onProfile(profile: CompileProfile): void {
+    const { heading, rows } = summarizeProfile(profile);
+    this.line(`[COMPILE] ${heading}`);
+    for (const row of rows) {
+      this.line(row);
+    }
+  }
+
+  onComplete(): void {}
+
+  onPrune(dirs: readonly string[], dryRun: boolean): void {
+    if (dirs.length === 0) {
+      this.line('[COMPILE] No orphaned artifacts to prune');
+      return;
+    }
+    this.line(
+      `[COMPILE] ${dryRun ? 'Would prune' : 'Pruned'} ${dirs.length} orphaned artifact ${directories(dirs.length)}:`,
+    );
+    for (const dir of dirs) {
+      this.line(`    ${dir}`);
+    }
+  }
+
+  onVerify(result: VerifyResult): void {
+    const failed = result.files.filter((file) => file.problems.length > 0);
+    if (failed.length === 0) {
+      this.line(
+        `[VERIFY] All ${result.files.length} artifact(s) are up to date`,
+      );
+      return;
+    }
+    this.line(
+      `[VERIFY] ${failed.length} of ${result.files.length} artifact(s) are stale or incomplete:`,
+    );
+    for (const file of failed) {
+      this.line(`    ✖ ${file.file} (${file.outputDir})`);
+      for (const problem of file.problems) {
+        this.line(`        ${problem}`);
+      }
+    }
+  }
+
+  onPlan(plan: BuildPlan): void {
+    this.line('[BUILD] Dry run, nothing is executed:');
+    for (const { heading, rows } of summarizePlan(plan)) {
+      this.line(heading);
+      for (const row of rows) {
+        this.line(row);
+      }
+    }
+  }
+
+  onWatchIdle(srcDir: string): void {
+    this.line(`[WATCH] Watching ${srcDir}/ for changes (Ctrl-C to exit)`);
+  }
+
+  onWatchChange(files: readonly string[]): void {
+    this.line(`[WATCH] Changed: ${files.join(', ')}`);
+  }
+
+  onWatchError(message: string): void {
+    this.line(`[WATCH] ${message}`);
+  }
+
+  /** Prints one line to stdout. */
+  protected line(text: string): void {
+    console.log(text);
+  }
+
+  /** Prints indented command output, skipping blank lines. */
+  protected output(output: string, tag?: string): void {
+    for (const line of indentOutput(output, tag)) {
+      this.line(line);
+    }
+  }
+
+  /** Progress marker of a file or step, e.g. `[2/5]`. */
+  protected progress(event: FileEvent | StepEvent): string {
+    return `[${event.index + 1}/${event.total}]`;
+  }
+
+  /** Prints compactc output, tagged with the file name when concurrent. */
+  protected fileOutput(event: FileEvent, output?: CommandOutput): void {
+    if (output) {
+      const tag = event.concurrent ? event.file : undefined;
+      this.output(withoutVersionLine(output.stdout), tag);
+      this.output(output.stderr, tag);
+    }
+  }
+}
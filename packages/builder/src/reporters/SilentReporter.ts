@@ -0,0 +1,68 @@
+import type {
+  CommandOutput,
+  EnvironmentInfo,
+  FileEvent,
+  Reporter,
+  SourceRootEvent,
+  StepEvent,
+} from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  CompileResult,
+  FileResult,
+  StepResult,
+  VerifyResult,
+} from '../types/results.ts';
+
+/**
+ * Reporter that discards every event, for library use where the caller
+ * inspects the returned `CompileResult` / `BuildResult` instead of reading
+ * terminal output. Also a convenient base class for reporters that only
+ * handle some events.
+ *
+ * @example
+ * ```typescript
+ * const result = await new CompactCompiler(
+ *   { continueOnError: true },
+ *   undefined,
+ *   new SilentReporter(),
+ * ).compile();
+ * ```
+ */
+export class SilentReporter implements Reporter {
+  onEnvironment(_info: EnvironmentInfo): void {}
+  onSourceRoot(_event: SourceRootEvent): void {}
+  onDiscovery(_fileCount: number, _targetDir?: string): void {}
+  onFileStart(_event: FileEvent): void {}
+  onFileSuccess(
+    _event: FileEvent,
+    _result: FileResult,
+    _output?: CommandOutput,
+  ): void {}
+  onFileFailure(
+    _event: FileEvent,
+    _result: FileResult,
+    _output?: CommandOutput,
+  ): void {}
+  onStepStart(_event: StepEvent): void {}
+  onStepSuccess(
+    _event: StepEvent,
+    _result: StepResult,
+    _output: CommandOutput,
+  ): void {}
+  onStepFailure(
+    _event: StepEvent,
+    _result: StepResult,
+    _output?: CommandOutput,
+  ): void {}
+  onSummary(_results: readonly FileResult[]): void {}
+  onProfile(_profile: CompileProfile): void {}
+  onComplete(_result: CompileResult): void | Promise<void> {}
+  onPrune(_dirs: readonly string[], _dryRun: boolean): void {}
+  onVerify(_result: VerifyResult): void {}
+  onPlan(_plan: BuildPlan): void {}
+  onWatchIdle(_srcDir: string): void {}
+  onWatchChange(_files: readonly string[]): void {}
+  onWatchError(_message: string): void {}
+}
@@ -0,0 +1,256 @@
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import { UIService } from '../services/UIService.ts';
+import type {
+  CommandOutput,
+  EnvironmentInfo,
+  FileEvent,
+  Reporter,
+  SourceRootEvent,
+  StepEvent,
+} from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  FileResult,
+  StepResult,
+  VerifyResult,
+} from '../types/results.ts';
+import { touchedPaths, withoutVersionLine } from './format.ts';
+
+/**
+ * Options for {@link SpinnerReporter}.
+ */
+export interface SpinnerReporterOptions {
+  /**
+   * Print raw compiler and build-step output, summary tables and the
+   * prune/verify listings on stdout. Disabled for the `json` reporter format,
+   * which leaves stdout to the result document.
+   * @default true
+   */
+  output?: boolean;
+}
+
+/**
+ * Default reporter: ora spinners for files and build steps, colored progress
+ * lines, and indented compiler output.
+ *
+ * When several files compile concurrently, a live spinner per file would
+ * overwrite each other's line, so file progress is printed as static lines
+ * and compiler output is tagged with the file name instead.
+ */
+export class SpinnerReporter implements Reporter {
+  private readonly showOutput: boolean;
+  /** Spinners of the files and steps currently running */
+  private readonly spinners = new Map<string, Ora>();
+
+  /**
+   * Creates a new SpinnerReporter instance.
+   *
+   * @param options - Whether to print raw output (see {@link SpinnerReporterOptions})
+   */
+  constructor(options: SpinnerReporterOptions = {}) {
+    this.showOutput = options.output ?? true;
+  }
+
+  onEnvironment(info: EnvironmentInfo): void {
+    UIService.displayEnvInfo(
+      info.devToolsVersion,
+      info.toolchainVersion,
+      info.targetDir,
+      info.version,
+    );
+  }
+
+  onSourceRoot(event: SourceRootEvent): void {
+    UIService.showSourceRoot(event);
+  }
+
+  onDiscovery(fileCount: number, targetDir?: string): void {
+    if (fileCount === 0) {
+      UIService.showNoFiles(targetDir);
+    } else {
+      UIService.showCompilationStart(fileCount, targetDir);
+    }
+  }
+
+  onFileStart(event: FileEvent): void {
+    const spinner = ora(
+      chalk.blue(`[COMPILE] ${this.progress(event)} Compiling ${event.label}`),
+    );
+    if (event.concurrent) {
+      spinner.info();
+    } else {
+      spinner.start();
+    }
+    this.spinners.set(`file:${event.file}`, spinner);
+  }
+
+  onFileSuccess(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    const step = this.progress(event);
+    if (result.status === 'skipped') {
+      ora().info(
+        chalk.gray(`[COMPILE] ${step} Skipped ${event.label} (up to date)`),
+      );
+      return;
+    }
+
+    this.take(`file:${event.file}`).succeed(
+      chalk.green(`[COMPILE] ${step} Compiled ${event.label}`),
+    );
+    if (output) {
+      this.printFileOutput(event, output, chalk.yellow);
+    }
+  }
+
+  onFileFailure(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'cancelled') {
+      this.take(`file:${event.file}`).warn(
+        chalk.yellow(
+          `[COMPILE] ${this.progress(event)} Cancelled ${event.label}`,
+        ),
+      );
+      return;
+    }
+    this.take(`file:${event.file}`).fail(
+      chalk.red(`[COMPILE] ${this.progress(event)} Failed ${event.label}`),
+    );
+    if (output) {
+      this.printFileOutput(event, output, chalk.red);
+    }
+  }
+
+  onStepStart(event: StepEvent): void {
+    this.spinners.set(
+      `step:${event.index}`,
+      ora(`[BUILD] ${this.progress(event)} ${event.name}`).start(),
+    );
+  }
+
+  onStepSuccess(
+    event: StepEvent,
+    result: StepResult,
+    output: CommandOutput,
+  ): void {
+    const touched = touchedPaths(result.files);
+    this.take(`step:${event.index}`).succeed(
+      `[BUILD] ${this.progress(event)} ${event.name}${touched ? chalk.gray(` (${touched})`) : ''}`,
+    );
+    this.print(output.stdout, chalk.cyan);
+    // Show stderr (warnings) in yellow if present
+    this.print(output.stderr, chalk.yellow);
+  }
+
+  onStepFailure(
+    event: StepEvent,
+    result: StepResult,
+    output?: CommandOutput,
+  ): void {
+    if (result.status === 'cancelled') {
+      this.take(`step:${event.index}`).warn(
+        chalk.yellow(
+          `[BUILD] ${this.progress(event)} ${event.name} (cancelled)`,
+        ),
+      );
+      return;
+    }
+    this.take(`step:${event.index}`).fail(
+      `[BUILD] ${this.progress(event)} ${event.name}`,
+    );
+    if (output) {
+      this.print(output.stdout, chalk.cyan);
+      this.print(output.stderr, chalk.red);
+    }
+    // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
+    console.error(chalk.red('[BUILD] ❌ Build failed:', result.error));
+  }
+
+  onSummary(results: readonly FileResult[]): void {
+    if (this.showOutput) {
+      UIService.showSummary(results);
+    }
+  }
+
+  onProfile(profile: CompileProfile): void {
+    if (this.showOutput) {
+      UIService.showProfile(profile);
+    }
+  }
+
+  onComplete(): void {}
+
+  onPrune(dirs: readonly string[], dryRun: boolean): void {
+    if (this.showOutput) {
+      UIService.showPruned(dirs, dryRun);
+    }
+  }
+
+  onVerify(result: VerifyResult): void {
+    if (this.showOutput) {
+      UIService.showVerification(result);
+    }
+  }
+
+  onPlan(plan: BuildPlan): void {
+    if (this.showOutput) {
+      UIService.showPlan(plan);
+    }
+  }
+
+  onWatchIdle(srcDir: string): void {
+    UIService.showWatching(srcDir);
+  }
+
+  onWatchChange(files: readonly string[]): void {
+    UIService.showChanges(files);
+  }
+
+  onWatchError(message: string): void {
+    UIService.showWatchError(message);
+  }
+
+  /** Progress marker of a file or step, e.g. `[2/5]`. */
+  private progress(event: FileEvent | StepEvent): string {
+    return `[${event.index + 1}/${event.total}]`;
+  }
+
+  /** Removes and returns a running spinner (or a fresh one if none is). */
+  private take(key: string): Ora {
+    const spinner = this.spinners.get(key) ?? ora();
+    this.spinners.delete(key);
+    return spinner;
+  }
+
+  /** Prints compactc output, tagged with the file name when concurrent. */
+  private printFileOutput(
+    event: FileEvent,
+    output: CommandOutput,
+    stderrColorFn: (text: string) => string,
+  ): void {
+    const tag = event.concurrent ? event.file : undefined;
+    const stdout = withoutVersionLine(output.stdout);
+    if (stdout) {
+      this.print(stdout, chalk.cyan, tag);
+    }
+    this.print(output.stderr, stderrColorFn, tag);
+  }
+
+  /** Prints indented command output unless raw output is disabled. */
+  private print(
+    output: string,
+    colorFn: (text: string) => string,
+    tag?: string,
+  ): void {
+    if (this.showOutput) {
+      UIService.printOutput(output, colorFn, tag);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { ReporterFormat } from '../types/options.ts';
+import type { Reporter } from '../types/reporter.ts';
+import { CompositeReporter } from './CompositeReporter.ts';
+import { GitHubReporter } from './GitHubReporter.ts';
+import { JUnitReporter } from './JUnitReporter.ts';
+import { PlainReporter } from './PlainReporter.ts';
+import { SpinnerReporter } from './SpinnerReporter.ts';
+
+/**
+ * Creates the reporter for a {@link ReporterFormat}:
+ * - `spinner`: {@link SpinnerReporter}
+ * - `json`: {@link SpinnerReporter} without raw output on stdout
+ * - `plain`: {@link PlainReporter}
+ * - `github`: {@link GitHubReporter}
+ * - `junit=<path>`: {@link PlainReporter} plus a {@link JUnitReporter}
+ *   writing to `<path>`
+ *
+ * @param format - Output format (default: `'spinner'`)
+ */
+export function createReporter(format: ReporterFormat = 'spinner'): Reporter {
+  if (format.startsWith('junit=')) {
+    return new CompositeReporter([
+      new PlainReporter(),
+      new JUnitReporter(format.slice('junit='.length)),
+    ]);
+  }
+  switch (format) {
+    case 'plain':
+      return new PlainReporter();
+    case 'github':
+      return new GitHubReporter();
+    default:
+      return new SpinnerReporter({ output: format !== 'json' });
+  }
+}
@@ -0,0 +1,179 @@
+import type { SourceRootEvent } from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  FileResult,
+  FileStatus,
+  PlannedAction,
+  PlannedStep,
+} from '../types/results.ts';
+
+/** Number of files listed in the timing summary. */
+const SLOWEST_FILES_SHOWN = 10;
+
+/** Status symbols of the summary table. */
+const STATUS_SYMBOLS: Record<FileStatus, string> = {
+  compiled: '✔',
+  skipped: '-',
+  failed: '✖',
+  cancelled: '○',
+};
+
+/**
+ * Drops the first line of compactc's stdout, which only repeats its version.
+ */
+export function withoutVersionLine(stdout: string): string {
+  return stdout.split('\n').slice(1).join('\n');
+}
+
+/**
+ * Indents every non-empty line of command output, optionally prefixing a tag
+ * (e.g. the file name when several files compile concurrently).
+ *
+ * @returns The indented lines, or an empty array when there is no output
+ */
+export function indentOutput(output: string, tag?: string): string[] {
+  const prefix = tag ? `    [${tag}] ` : '    ';
+  return output
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => `${prefix}${line}`);
+}
+
+/** Formats a duration in milliseconds as seconds, e.g. `1.2s`. */
+export function formatSeconds(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Builds the pass/fail summary of a run: one aligned row per file and the
+ * totals line.
+ *
+ * @param results - Per-file results of the run
+ */
+export function summarizeResults(results: readonly FileResult[]): {
+  rows: { status: FileStatus; text: string }[];
+  totals: string;
+  failed: number;
+} {
+  const width = Math.max(...results.map((result) => result.file.length));
+  const statusWidth = Math.max(
+    8,
+    ...results.map((result) => result.status.length),
+  );
+  const rows = results.map((result) => ({
+    status: result.status,
+    text: `    ${STATUS_SYMBOLS[result.status]} ${result.file.padEnd(width)}  ${result.status.padEnd(statusWidth)}  ${formatSeconds(result.durationMs).padStart(6)}`,
+  }));
+  const count = (status: FileStatus) =>
+    results.filter((result) => result.status === status).length;
+  const failed = count('failed');
+  const cancelled = count('cancelled');
+
+  return {
+    rows,
+    totals: `${count('compiled')} compiled, ${count('skipped')} skipped, ${failed} failed${cancelled > 0 ? `, ${cancelled} cancelled` : ''}`,
+    failed,
+  };
+}
+
+/**
+ * Builds the timing summary of a run: the environment / compile split, then
+ * one row per file the toolchain ran on, slowest first, up to
+ * {@link SLOWEST_FILES_SHOWN} of them.
+ *
+ * @param profile - Timing profile of the run
+ */
+export function summarizeProfile(profile: CompileProfile): {
+  heading: string;
+  rows: string[];
+} {
+  const shown = profile.files.slice(0, SLOWEST_FILES_SHOWN);
+  const rows = shown.map(
+    (entry) =>
+      `    ${formatSeconds(entry.compileMs).padStart(6)}  ${entry.file}${entry.status === 'compiled' ? '' : ` (${entry.status})`}`,
+  );
+  const hidden = profile.files.length - shown.length;
+  if (hidden > 0) {
+    rows.push(`    … ${hidden} more`);
+  }
+
+  return {
+    heading: `Timing: environment ${formatSeconds(profile.environmentMs)}, compile ${formatSeconds(profile.compileMs)}; slowest first:`,
+    rows,
+  };
+}
+
+/** Describes a planned action, e.g. `copy src/Token.compact → dist/Token.compact`. */
+function describeAction(action: PlannedAction): string {
+  switch (action.type) {
+    case 'copy':
+      return `copy ${action.from} → ${action.to}`;
+    case 'write':
+      return `write ${action.to} (rewritten from ${action.from})`;
+    case 'run':
+      return `run ${action.command}`;
+    default:
+      return `${action.type} ${action.path}`;
+  }
+}
+
+/**
+ * Builds the sections of a dry-run listing, in build order: each step with
+ * its actions (`[BUILD] [i/n] …`) and, between the steps that run before
+ * and after compiling, the files that would be compiled (`[COMPILE] …`).
+ *
+ * @param plan - Plan of the build
+ */
+export function summarizePlan(
+  plan: BuildPlan,
+): { heading: string; rows: string[] }[] {
+  const total = plan.beforeCompile.length + plan.afterCompile.length;
+  const step = (planned: PlannedStep, index: number) => ({
+    heading: `[BUILD] [${index + 1}/${total}] ${planned.name}`,
+    rows:
+      planned.actions.length === 0
+        ? ['    (nothing to do)']
+        : planned.actions.map((action) => `    ${describeAction(action)}`),
+  });
+
+  return [
+    ...plan.beforeCompile.map(step),
+    plan.files.length === 0
+      ? { heading: '[COMPILE] No .compact files to compile', rows: [] }
+      : {
+          heading: `[COMPILE] Would compile ${plan.files.length} file(s):`,
+          rows: plan.files.map(
+            ({ file, outputDir }) => `    ${file} → ${outputDir}`,
+          ),
+        },
+    ...plan.afterCompile.map((planned, index) =>
+      step(planned, plan.beforeCompile.length + index),
+    ),
+  ];
+}
+
+/**
+ * Describes a source root of a multi-root run, e.g.
+ * `[1/2] Source root @acme/token: packages/token/src → packages/token/artifacts`.
+ */
+export function describeSourceRoot(event: SourceRootEvent): string {
+  const name = event.name === event.srcDir ? '' : ` ${event.name}:`;
+  return `[${event.index + 1}/${event.total}] Source root${name} ${event.srcDir} → ${event.outDir}`;
+}
+
+/**
+ * Counts the paths a build step touched, e.g. `3 paths`; undefined when the
+ * step touched none (or only ran commands).
+ */
+export function touchedPaths(files?: readonly string[]): string | undefined {
+  if (!files?.length) {
+    return undefined;
+  }
+  return `${files.length} path${files.length === 1 ? '' : 's'}`;
+}
+
+/** `directory` or `directories`, depending on `count`. */
+export function directories(count: number): string {
+  return `director${count === 1 ? 'y' : 'ies'}`;
+}
@@ -0,0 +1,294 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, resolve, sep } from 'node:path';
+import { DEFAULT_OUT_DIR } from '../types/options.ts';
+
+/** File name of the artifact manifest written into `outDir`. */
+export const ARTIFACT_MANIFEST_FILE = 'manifest.json';
+
+/** Schema version of the artifact manifest; bump when the entry shape changes. */
+const ARTIFACT_MANIFEST_VERSION = 2;
+
+/** Type declarations in `contract/index.d.ts` that list circuits. */
+const CIRCUIT_TYPES = ['Circuits', 'ImpureCircuits', 'PureCircuits'];
+
+/**
+ * Description of the artifacts produced for a single `.compact` file.
+ */
+export interface ContractArtifact {
+  /** Contract name (source file name without `.compact`) */
+  name: string;
+  /** Source path relative to `srcDir` */
+  source: string;
+  /** Artifact directory, relative to the directory holding the manifest */
+  outputDir: string;
+  /** SHA-256 of the source file contents */
+  sourceHash: string;
+  /**
+   * SHA-256 of every module the source transitively imports or includes,
+   * keyed by path relative to `srcDir`
+   */
+  dependencies: Record<string, string>;
+  /** Resolved compiler flags the contract was compiled with */
+  flags: string;
+  /** Toolchain version the contract was compiled with, e.g. `0.26.0` */
+  toolchainVersion: string;
+  /** Whether prover/verifier keys were generated into `keys/` */
+  keys: boolean;
+  /** Whether ZK intermediate representations were generated into `zkir/` */
+  zkir: boolean;
+  /** Circuit names exported by the generated `contract/index.d.ts` */
+  circuits: string[];
+}
+
+/**
+ * On-disk shape of `<outDir>/manifest.json`.
+ */
+export interface ArtifactManifestData {
+  version: number;
+  /** Source directory the contracts were compiled from */
+  srcDir: string;
+  /** Contracts keyed by source path relative to `srcDir` */
+  contracts: Record<string, ContractArtifact>;
+}
+
+/**
+ * Extracts the circuit names declared in a generated `contract/index.d.ts`,
+ * in declaration order and without duplicates.
+ *
+ * @param declarations - Contents of `contract/index.d.ts`
+ */
+function parseCircuitNames(declarations: string): string[] {
+  const names = new Set<string>();
+
+  for (const type of CIRCUIT_TYPES) {
+    const block = new RegExp(
+      `export type ${type}(?:<[^>]*>)?\\s*=\\s*\\{([^}]*)\\}`,
+    ).exec(declarations);
+    for (const member of block?.[1].matchAll(/^\s*(\w+)\s*\(/gm) ?? []) {
+      names.add(member[1]);
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Service that records which contracts a compile run produced, and where.
+ * Persists `<outDir>/manifest.json` so downstream packages (and tests) can
+ * locate artifacts by contract name instead of hard-coding their layout.
+ * Entries of contracts not compiled in a run are kept.
+ *
+ * @example
+ * ```typescript
+ * // Downstream: load the manifest written by `compact-compiler`
+ * const manifest = await ArtifactManifest.read('artifacts');
+ * const { Contract } = await import(manifest.resolve('Token', 'contract/index.js'));
+ * ```
+ */
+export class ArtifactManifest {
+  private readonly outDir: string;
+  private readonly manifestPath: string;
+  private srcDir = '';
+  private contracts: Record<string, ContractArtifact> = {};
+
+  /**
+   * Creates a new ArtifactManifest instance.
+   *
+   * @param outDir - Output directory holding the artifacts and the manifest (default: 'artifacts')
+   */
+  constructor(outDir: string = DEFAULT_OUT_DIR) {
+    this.outDir = outDir;
+    this.manifestPath = join(outDir, ARTIFACT_MANIFEST_FILE);
+  }
+
+  /**
+   * Loads an existing manifest for reading.
+   *
+   * @param outDir - Output directory holding the manifest
+   * @returns The loaded manifest
+   * @throws {Error} If the manifest is missing or not a valid manifest
+   */
+  static async read(
+    outDir: string = DEFAULT_OUT_DIR,
+  ): Promise<ArtifactManifest> {
+    const manifest = new ArtifactManifest(outDir);
+    if (!existsSync(manifest.manifestPath)) {
+      throw new Error(
+        `No artifact manifest at ${manifest.manifestPath}; compile the contracts first`,
+      );
+    }
+    if (!(await manifest.load())) {
+      throw new Error(`Invalid artifact manifest at ${manifest.manifestPath}`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Inspects a contract's artifact directory for generated keys, ZK IR and
+   * circuit names.
+   *
+   * @param outputDir - Artifact directory of a single contract
+   */
+  static async inspect(
+    outputDir: string,
+  ): Promise<Pick<ContractArtifact, 'keys' | 'zkir' | 'circuits'>> {
+    let declarations = '';
+    try {
+      declarations = await readFile(
+        join(outputDir, 'contract', 'index.d.ts'),
+        'utf8',
+      );
+    } catch {
+      // No type declarations generated
+    }
+
+    return {
+      keys: existsSync(join(outputDir, 'keys')),
+      zkir: existsSync(join(outputDir, 'zkir')),
+      circuits: parseCircuitNames(declarations),
+    };
+  }
+
+  /**
+   * Loads the manifest from disk. A missing, unreadable, or incompatible
+   * manifest is treated as empty, since it is rewritten on every run.
+   *
+   * @returns True if a valid manifest was loaded
+   */
+  async load(): Promise<boolean> {
+    this.contracts = {};
+    try {
+      const raw = await readFile(this.manifestPath, 'utf8');
+      const manifest = JSON.parse(raw) as Partial<ArtifactManifestData>;
+      if (
+        manifest.version === ARTIFACT_MANIFEST_VERSION &&
+        typeof manifest.contracts === 'object' &&
+        manifest.contracts !== null
+      ) {
+        this.srcDir = manifest.srcDir ?? '';
+        this.contracts = manifest.contracts;
+        return true;
+      }
+    } catch {
+      // No usable manifest yet
+    }
+    return false;
+  }
+
+  /**
+   * Returns every recorded contract, ordered by source path.
+   */
+  list(): ContractArtifact[] {
+    return Object.keys(this.contracts)
+      .sort()
+      .map((source) => this.contracts[source]);
+  }
+
+  /**
+   * Returns the entry for a source file, if any.
+   *
+   * @param source - Source path relative to `srcDir`
+   */
+  get(source: string): ContractArtifact | undefined {
+    return this.contracts[source];
+  }
+
+  /**
+   * Finds a contract by name or by source path.
+   *
+   * @param name - Contract name (e.g. `'Token'`) or source path relative to
+   *               `srcDir` (e.g. `'token/Token.compact'`), to disambiguate
+   *               same-named contracts in hierarchical layouts
+   * @throws {Error} If the name matches more than one contract
+   */
+  find(name: string): ContractArtifact | undefined {
+    if (this.contracts[name]) {
+      return this.contracts[name];
+    }
+    const matches = this.list().filter((entry) => entry.name === name);
+    if (matches.length > 1) {
+      throw new Error(
+        `Contract name ${name} is ambiguous (${matches.map((entry) => entry.source).join(', ')}); use its source path`,
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Resolves the absolute path of a contract's artifact directory, or of a
+   * file inside it.
+   *
+   * @param name - Contract name or source path, as accepted by {@link find}
+   * @param path - Optional path inside the artifact directory
+   * @throws {Error} If the contract is not in the manifest
+   */
+  resolve(name: string, path = ''): string {
+    const entry = this.find(name);
+    if (!entry) {
+      throw new Error(`Contract ${name} is not in ${this.manifestPath}`);
+    }
+    return resolve(this.outDir, entry.outputDir, path);
+  }
+
+  /**
+   * Records (or replaces) the entry for a compiled contract.
+   *
+   * @param srcDir - Source directory the contract was compiled from
+   * @param entry  - Contract description; `outputDir` may be any path and is
+   *                 stored relative to the manifest
+   */
+  record(srcDir: string, entry: ContractArtifact): void {
+    this.srcDir = srcDir;
+    this.contracts[entry.source] = {
+      ...entry,
+      outputDir: relative(this.outDir, entry.outputDir).split(sep).join('/'),
+    };
+  }
+
+  /**
+   * Removes the entry for a source file.
+   *
+   * @param source - Source path relative to `srcDir`
+   */
+  remove(source: string): void {
+    delete this.contracts[source];
+  }
+
+  /**
+   * Drops the entries of every source not in `sources`.
+   *
+   * @param sources - Source paths relative to `srcDir` to keep
+   * @returns True if any entry was dropped
+   */
+  retain(sources: Iterable<string>): boolean {
+    const keep = new Set(sources);
+    const stale = Object.keys(this.contracts).filter(
+      (source) => !keep.has(source),
+    );
+    for (const source of stale) {
+      this.remove(source);
+    }
+    return stale.length > 0;
+  }
+
+  /**
+   * Writes the manifest to disk, creating `outDir` if needed.
+   */
+  async save(): Promise<void> {
+    const manifest: ArtifactManifestData = {
+      version: ARTIFACT_MANIFEST_VERSION,
+      srcDir: this.srcDir,
+      contracts: Object.fromEntries(
+        Object.keys(this.contracts)
+          .sort()
+          .map((source) => [source, this.contracts[source]]),
+      ),
+    };
+    await mkdir(this.outDir, { recursive: true });
+    await writeFile(
+      this.manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { type Dirent, existsSync } from 'node:fs';
+import { readdir, rm, rmdir } from 'node:fs/promises';
+import { dirname, isAbsolute, join, normalize, relative } from 'node:path';
+import { DEFAULT_OUT_DIR } from '../types/options.ts';
+
+/** Subdirectories compactc writes into every artifact directory. */
+const ARTIFACT_MARKERS = ['contract', 'compiler'];
+
+/**
+ * Service that finds and removes artifact directories whose source contract
+ * no longer exists (renamed, deleted, moved, or now excluded).
+ *
+ * A directory in `outDir` is orphaned when it looks like compactc output
+ * (it contains `contract/` or `compiler/`) but is not the output directory
+ * of any current source. Directories on the way to an expected output
+ * directory — the `<subdir>/` levels of the hierarchical layout — are
+ * searched, never removed as a whole.
+ *
+ * @example
+ * ```typescript
+ * const pruner = new ArtifactPruner('artifacts');
+ * const orphans = await pruner.findOrphans(['artifacts/Token']);
+ * await pruner.remove(orphans);
+ * ```
+ */
+export class ArtifactPruner {
+  private readonly outDir: string;
+
+  /**
+   * Creates a new ArtifactPruner instance.
+   *
+   * @param outDir - Output directory holding the artifacts (default: 'artifacts')
+   */
+  constructor(outDir: string = DEFAULT_OUT_DIR) {
+    this.outDir = normalize(outDir);
+  }
+
+  /**
+   * Lists artifact directories that don't belong to any current source.
+   *
+   * @param expected - Output directories of the current sources, as returned
+   *                   by `CompilerService.getOutputDir`
+   * @returns Orphaned directories (prefixed with `outDir`), sorted
+   */
+  async findOrphans(expected: Iterable<string>): Promise<string[]> {
+    const keep = new Set([...expected].map((dir) => normalize(dir)));
+    const ancestors = new Set<string>();
+    for (const dir of keep) {
+      for (
+        let parent = dirname(dir);
+        this.isInside(parent);
+        parent = dirname(parent)
+      ) {
+        ancestors.add(parent);
+      }
+    }
+
+    const orphans: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries: Dirent[];
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (!entry.isDirectory() || keep.has(path)) {
+          continue;
+        }
+        if (
+          !ancestors.has(path) &&
+          ARTIFACT_MARKERS.some((marker) => existsSync(join(path, marker)))
+        ) {
+          orphans.push(path);
+        } else {
+          await walk(path);
+        }
+      }
+    };
+
+    await walk(this.outDir);
+    return orphans.sort();
+  }
+
+  /**
+   * Deletes the given artifact directories, then any parent directories
+   * inside `outDir` left empty by the removal.
+   *
+   * @param dirs - Directories returned by {@link findOrphans}
+   */
+  async remove(dirs: readonly string[]): Promise<void> {
+    for (const dir of dirs) {
+      await rm(dir, { recursive: true, force: true });
+
+      for (
+        let parent = dirname(dir);
+        this.isInside(parent);
+        parent = dirname(parent)
+      ) {
+        if ((await readdir(parent)).length > 0) {
+          break;
+        }
+        await rmdir(parent);
+      }
+    }
+  }
+
+  /** Whether `path` is strictly inside `outDir`. */
+  private isInside(path: string): boolean {
+    const rel = relative(this.outDir, path);
+    return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+  }
+}
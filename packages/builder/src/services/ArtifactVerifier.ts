@@ -0,0 +1,118 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import semver from 'semver';
+import type { ArtifactManifest } from './ArtifactManifest.ts';
+import { CompileCache } from './CompileCache.ts';
+
+/** Files every artifact directory must contain. */
+const REQUIRED_FILES = ['contract/index.js', 'contract/index.d.ts'];
+
+/** Directories that must exist unless the contract was built with `--skip-zk`. */
+const ZK_DIRS = ['keys', 'zkir'];
+
+/**
+ * Service that checks committed artifacts against their sources without
+ * invoking the toolchain, e.g. to reject changes that edit `.compact` files
+ * but not the artifacts generated from them.
+ *
+ * An artifact passes when its directory contains `contract/index.js` and
+ * `contract/index.d.ts` (plus `keys/` and `zkir/` unless its recorded flags
+ * include `--skip-zk`), and the artifact manifest records it as built from
+ * the current source and the current version of every module it imports
+ * and, when a version is pinned, with a toolchain satisfying the pin.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new ArtifactVerifier(await ArtifactManifest.read('artifacts'));
+ * const problems = await verifier.verify(
+ *   'Token.compact',
+ *   'src/Token.compact',
+ *   'artifacts/Token',
+ *   { 'utils/Utils.compact': utilsHash },
+ * );
+ * ```
+ */
+export class ArtifactVerifier {
+  private readonly manifest: ArtifactManifest;
+
+  /**
+   * Creates a new ArtifactVerifier instance.
+   *
+   * @param manifest - Loaded manifest of the output directory
+   */
+  constructor(manifest: ArtifactManifest) {
+    this.manifest = manifest;
+  }
+
+  /**
+   * Checks the artifacts of a single source file.
+   *
+   * @param file         - Source path relative to `srcDir`
+   * @param sourcePath   - Path of the source file to hash
+   * @param outputDir    - Artifact directory the source compiles to
+   * @param dependencies - Current hashes of the modules the source
+   *                       transitively imports, keyed by path relative to
+   *                       `srcDir`
+   * @param toolchain    - Optional pinned toolchain version or semver range
+   * @returns Human-readable problems; empty when the artifacts are current
+   */
+  async verify(
+    file: string,
+    sourcePath: string,
+    outputDir: string,
+    dependencies: Readonly<Record<string, string>>,
+    toolchain?: string,
+  ): Promise<string[]> {
+    if (!existsSync(outputDir)) {
+      return [`missing artifact directory ${outputDir}`];
+    }
+
+    const problems = REQUIRED_FILES.filter(
+      (path) => !existsSync(join(outputDir, path)),
+    ).map((path) => `missing ${join(outputDir, path)}`);
+
+    const entry = this.manifest.get(file);
+    if (!entry) {
+      problems.push('not recorded in the artifact manifest');
+      return problems;
+    }
+
+    if (!entry.flags.split(/\s+/).includes('--skip-zk')) {
+      problems.push(
+        ...ZK_DIRS.filter((dir) => !existsSync(join(outputDir, dir))).map(
+          (dir) =>
+            `missing ${join(outputDir, dir)}/ (not built with --skip-zk)`,
+        ),
+      );
+    }
+
+    if (entry.sourceHash !== (await CompileCache.hashFile(sourcePath))) {
+      problems.push('source changed since the artifacts were built');
+    }
+
+    // Imports added, removed or edited all leave the artifacts stale
+    const recorded = entry.dependencies ?? {};
+    const imported = new Set([
+      ...Object.keys(recorded),
+      ...Object.keys(dependencies),
+    ]);
+    for (const dep of [...imported].sort()) {
+      if (recorded[dep] !== dependencies[dep]) {
+        problems.push(
+          `imported module ${dep} changed since the artifacts were built`,
+        );
+      }
+    }
+
+    if (
+      toolchain &&
+      !semver.satisfies(entry.toolchainVersion, toolchain, { loose: true })
+    ) {
+      problems.push(
+        `built with toolchain ${entry.toolchainVersion}, but ${toolchain} is required`,
+      );
+    }
+
+    return problems;
+  }
+}
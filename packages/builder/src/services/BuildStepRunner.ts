@@ -0,0 +1,564 @@
+import type { Dirent } from 'node:fs';
+import { copyFile, mkdir, readdir, rm, stat } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, relative } from 'node:path';
+import { CancellationError, type Diagnostic } from '../types/errors.ts';
+import type {
+  BuildOperation,
+  BuildStep,
+  CopyGlobOperation,
+  CopyTreeOperation,
+  ExecFunction,
+  RemoveMatchingOperation,
+} from '../types/options.ts';
+import type { CommandOutput } from '../types/reporter.ts';
+import type { PlannedAction, PlannedStep } from '../types/results.ts';
+import { execFileAsync } from '../utils.ts';
+import { GlobMatcher } from './GlobMatcher.ts';
+import { PackageManifestWriter } from './PackageManifestWriter.ts';
+import { TypeScriptService } from './TypeScriptService.ts';
+
+/**
+ * Outcome of a build step: the output of its commands and the paths it
+ * touched.
+ */
+export interface StepOutput extends CommandOutput {
+  /**
+   * Directories cleaned or created, files copied and paths removed, relative
+   * to the working directory, in the order the operations touched them
+   */
+  files: string[];
+  /** Warnings of a `typescript` operation, if the step has one */
+  diagnostics?: Diagnostic[];
+}
+
+/** Resolves an operation path against the step's `cwd`. */
+function within(cwd: string, path: string): string {
+  return isAbsolute(path) ? path : join(cwd, path);
+}
+
+/** True for a filesystem error caused by a missing path. */
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+/**
+ * Lists the files below `dir` recursively, relative to it and sorted; empty
+ * when `dir` does not exist.
+ */
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(join(dir, prefix), { withFileTypes: true });
+  } catch (error) {
+    if (prefix === '' && isMissing(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, path)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/** Argument list running a command line through the system shell. */
+function shellCommand(command: string): string[] {
+  return process.platform === 'win32'
+    ? ['cmd.exe', '/d', '/s', '/c', command]
+    : ['/bin/sh', '-c', command];
+}
+
+/** True when `path` is `dir` or below it. */
+function isWithin(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+/**
+ * Files a `copy-glob` operation selects from a list of paths relative to
+ * its `from` directory.
+ */
+function selectGlob(operation: CopyGlobOperation, files: string[]): string[] {
+  const patterns = new GlobMatcher(operation.patterns, operation.from);
+  const includes = new GlobMatcher(operation.include ?? [], operation.from);
+  const excludes = new GlobMatcher(operation.exclude ?? [], operation.from);
+  return files.filter(
+    (file) =>
+      patterns.matches(file) &&
+      (includes.isEmpty || includes.matches(file)) &&
+      !excludes.matches(file),
+  );
+}
+
+/**
+ * The outermost path of `file` (itself or a parent directory) a
+ * `remove-matching` operation would remove, if any. Directories are tried
+ * with a trailing slash so directory-only patterns (`witnesses/`) match.
+ */
+function outermostMatch(
+  matcher: GlobMatcher,
+  file: string,
+): string | undefined {
+  const segments = file.split(/[\\/]/);
+  for (let i = 1; i <= segments.length; i++) {
+    const path = join(...segments.slice(0, i));
+    if (matcher.matches(i < segments.length ? `${path}/` : path)) {
+      return path;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The files of the working tree as a dry run expects them at some point of
+ * the build: what exists on disk, minus what earlier operations would
+ * remove, plus what they would copy. Paths are relative to the working
+ * directory.
+ */
+class PlannedTree {
+  private readonly created = new Set<string>();
+  private readonly removed: string[] = [];
+
+  /** Files below `dir`, relative to the working directory. */
+  async filesUnder(dir: string): Promise<string[]> {
+    const existing = (await listFiles(dir))
+      .map((file) => join(dir, file))
+      .filter((file) => !this.isRemoved(file));
+    const planned = [...this.created].filter((file) => isWithin(dir, file));
+    return [...new Set([...existing, ...planned])];
+  }
+
+  /** Whether `path` would be a file, a directory, or missing. */
+  async kind(path: string): Promise<'file' | 'directory' | undefined> {
+    if (this.created.has(path)) {
+      return 'file';
+    }
+    if ([...this.created].some((file) => isWithin(path, file))) {
+      return 'directory';
+    }
+    if (this.isRemoved(path)) {
+      return undefined;
+    }
+    try {
+      return (await stat(path)).isDirectory() ? 'directory' : 'file';
+    } catch (error) {
+      if (isMissing(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** Records a file an operation would write. */
+  create(file: string): void {
+    this.created.add(file);
+  }
+
+  /** Records a path an operation would remove, with everything below it. */
+  remove(path: string): void {
+    this.removed.push(path);
+    for (const file of this.created) {
+      if (isWithin(path, file)) {
+        this.created.delete(file);
+      }
+    }
+  }
+
+  private isRemoved(path: string): boolean {
+    return this.removed.some((removed) => isWithin(removed, path));
+  }
+}
+
+/** Copies a file, creating the target's parent directories. */
+async function copyInto(from: string, to: string): Promise<void> {
+  await mkdir(dirname(to), { recursive: true });
+  await copyFile(from, to);
+}
+
+/**
+ * Service that executes the typed operations of a {@link BuildStep}
+ * in-process: directories are cleaned, created, copied and pruned with Node's
+ * filesystem APIs, `typescript` operations compiled with the TypeScript
+ * compiler API, `package-manifest` operations written by
+ * `PackageManifestWriter`, `run-command` operations are spawned without a shell,
+ * `shell` operations through the system shell, and `function` operations
+ * are awaited.
+ *
+ * Nothing is swallowed: a missing `copy-tree` source (unless `optional`), a
+ * permission error, a failing command or a rejected function rejects the
+ * step with the underlying error. Only sources that legitimately may not
+ * exist — the directory of a `copy-glob` or `remove-matching` — count as
+ * empty.
+ *
+ * @example
+ * ```typescript
+ * const runner = new BuildStepRunner();
+ * const { files } = await runner.run({
+ *   msg: 'Copying metadata',
+ *   operations: [{ type: 'copy-tree', from: 'package.json', to: 'dist/package.json' }],
+ * });
+ * // ['dist/package.json']
+ * ```
+ */
+export class BuildStepRunner {
+  private execFn: ExecFunction;
+  private typescript: TypeScriptService;
+  private manifests = new PackageManifestWriter();
+
+  /**
+   * Creates a new BuildStepRunner instance.
+   *
+   * @param execFn     - Function used to run `run-command` and `shell`
+   *                     operations (defaults to `execFileAsync`)
+   * @param typescript - Service compiling `typescript` operations
+   */
+  constructor(
+    execFn: ExecFunction = execFileAsync,
+    typescript: TypeScriptService = new TypeScriptService(),
+  ) {
+    this.execFn = execFn;
+    this.typescript = typescript;
+  }
+
+  /**
+   * Runs the operations of a step in order, stopping at the first failure.
+   *
+   * @param step   - Step to run; its paths are relative to `step.cwd`
+   * @param signal - Optional signal that kills a running command and skips
+   *                 the remaining operations
+   * @returns Combined command output and the paths the step touched,
+   *          relative to the working directory
+   * @throws {CancellationError} If `signal` aborts between operations
+   * @throws {TypeScriptError} If a `typescript` operation reports errors
+   * @throws Error from the filesystem or the command if an operation fails
+   */
+  async run(step: BuildStep, signal?: AbortSignal): Promise<StepOutput> {
+    const cwd = step.cwd ?? '.';
+    const output: StepOutput = { stdout: '', stderr: '', files: [] };
+
+    for (const operation of step.operations) {
+      if (signal?.aborted) {
+        throw new CancellationError(`Cancelled build step: ${step.msg}`);
+      }
+      const touched = await this.perform(operation, cwd, output, signal);
+      output.files.push(...touched.map((path) => within(cwd, path)));
+    }
+    return output;
+  }
+
+  /**
+   * Lists what running the steps in order would do, without touching the
+   * filesystem or running anything. Copies are resolved to every file they
+   * would write, and removals see the files earlier steps would copy; the
+   * effects of commands and functions (e.g. what `tsc` emits) are not
+   * predicted.
+   *
+   * @param steps - Steps of the build, in order
+   * @returns One entry per step, with paths relative to the working directory
+   * @throws Error if a step would fail on a missing `copy-tree` source
+   */
+  async plan(steps: readonly BuildStep[]): Promise<PlannedStep[]> {
+    const tree = new PlannedTree();
+    const planned: PlannedStep[] = [];
+    for (const step of steps) {
+      const actions: PlannedAction[] = [];
+      for (const operation of step.operations) {
+        actions.push(
+          ...(await this.planOperation(operation, step.cwd ?? '.', tree)),
+        );
+      }
+      planned.push({ name: step.msg, actions });
+    }
+    return planned;
+  }
+
+  /**
+   * Performs one operation.
+   *
+   * @param operation - Operation to perform
+   * @param cwd       - Directory its paths are relative to
+   * @param output    - Receives the output of a command or compiler
+   * @param signal    - Optional signal passed to a command
+   * @returns Paths touched, relative to `cwd`
+   */
+  private async perform(
+    operation: BuildOperation,
+    cwd: string,
+    output: StepOutput,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    switch (operation.type) {
+      case 'clean':
+        await rm(within(cwd, operation.dir), { recursive: true, force: true });
+        await mkdir(within(cwd, operation.dir), { recursive: true });
+        return [operation.dir];
+      case 'mkdir':
+        await mkdir(within(cwd, operation.dir), { recursive: true });
+        return [operation.dir];
+      case 'copy-tree':
+        return this.copyTree(operation, cwd);
+      case 'copy-glob':
+        return this.copyGlob(operation, cwd);
+      case 'remove-matching':
+        return this.removeMatching(operation, cwd);
+      case 'run-command': {
+        const { stdout, stderr } = await this.execFn(
+          operation.command,
+          operation.args ?? [],
+          { cwd, signal },
+        );
+        output.stdout += stdout;
+        output.stderr += stderr;
+        return [];
+      }
+      case 'typescript': {
+        const { stdout, diagnostics, files } = await this.typescript.compile(
+          within(cwd, operation.project),
+        );
+        output.stdout += stdout;
+        output.diagnostics = [...(output.diagnostics ?? []), ...diagnostics];
+        return files.map((file) => relative(cwd, file));
+      }
+      case 'package-manifest': {
+        const written = await this.manifests.write(
+          within(cwd, operation.from),
+          within(cwd, operation.dist),
+          within(cwd, operation.srcDir),
+        );
+        return [relative(cwd, written)];
+      }
+      case 'shell': {
+        const [shell, ...args] = shellCommand(operation.command);
+        const { stdout, stderr } = await this.execFn(shell, args, {
+          cwd,
+          signal,
+        });
+        output.stdout += stdout;
+        output.stderr += stderr;
+        return [];
+      }
+      case 'function':
+        await operation.run({ cwd, signal });
+        return [];
+    }
+  }
+
+  /**
+   * Plans one operation, recording its effects in `tree`.
+   *
+   * @param operation - Operation to plan
+   * @param cwd       - Directory its paths are relative to
+   * @param tree      - Expected state of the working tree
+   */
+  private async planOperation(
+    operation: BuildOperation,
+    cwd: string,
+    tree: PlannedTree,
+  ): Promise<PlannedAction[]> {
+    switch (operation.type) {
+      case 'clean':
+        tree.remove(within(cwd, operation.dir));
+        return [{ type: 'clean', path: within(cwd, operation.dir) }];
+      case 'mkdir':
+        return [{ type: 'mkdir', path: within(cwd, operation.dir) }];
+      case 'copy-tree': {
+        const from = within(cwd, operation.from);
+        const to = within(cwd, operation.to);
+        const kind = await tree.kind(from);
+        if (kind === undefined && !operation.optional) {
+          throw new Error(`Cannot copy ${from}: it does not exist`);
+        }
+        const excludes = new GlobMatcher(
+          operation.exclude ?? [],
+          operation.from,
+        );
+        const copies =
+          kind === 'file'
+            ? [{ from, to }]
+            : kind === 'directory'
+              ? (await tree.filesUnder(from))
+                  .filter((file) => !excludes.matches(relative(from, file)))
+                  .map((file) => ({
+                    from: file,
+                    to: join(to, relative(from, file)),
+                  }))
+              : [];
+        return copies.map((copy) => {
+          tree.create(copy.to);
+          return { type: 'copy', ...copy };
+        });
+      }
+      case 'copy-glob': {
+        const from = within(cwd, operation.from);
+        const files = (await tree.filesUnder(from)).map((file) =>
+          relative(from, file),
+        );
+        return selectGlob(operation, files).map((file) => {
+          const to = within(
+            cwd,
+            join(operation.to, operation.flatten ? basename(file) : file),
+          );
+          tree.create(to);
+          return { type: 'copy', from: join(from, file), to };
+        });
+      }
+      case 'remove-matching': {
+        const dir = within(cwd, operation.dir);
+        const matcher = new GlobMatcher(operation.patterns);
+        const removed = new Set<string>();
+        for (const file of await tree.filesUnder(dir)) {
+          const match = outermostMatch(matcher, relative(dir, file));
+          if (match !== undefined) {
+            removed.add(join(dir, match));
+          }
+        }
+        return [...removed].map((path) => {
+          tree.remove(path);
+          return { type: 'remove', path };
+        });
+      }
+      case 'run-command':
+        return [
+          {
+            type: 'run',
+            command: [operation.command, ...(operation.args ?? [])].join(' '),
+          },
+        ];
+      case 'typescript':
+        return [
+          {
+            type: 'run',
+            command: `tsc --project ${within(cwd, operation.project)}`,
+          },
+        ];
+      case 'package-manifest': {
+        const from = within(cwd, operation.from);
+        const to = join(within(cwd, operation.dist), 'package.json');
+        tree.create(to);
+        return [{ type: 'write', from, to }];
+      }
+      case 'shell':
+        return [{ type: 'run', command: operation.command }];
+      case 'function':
+        return [
+          { type: 'run', command: `${operation.run.name || 'function'}()` },
+        ];
+    }
+  }
+
+  /**
+   * Copies a file or a directory tree.
+   *
+   * @returns Files written, relative to `cwd`
+   * @throws Error if `from` does not exist and the copy is not `optional`
+   */
+  private async copyTree(
+    operation: CopyTreeOperation,
+    cwd: string,
+  ): Promise<string[]> {
+    const from = within(cwd, operation.from);
+    const to = within(cwd, operation.to);
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await stat(from)).isDirectory();
+    } catch (error) {
+      if (!isMissing(error)) {
+        throw error;
+      }
+      if (operation.optional) {
+        return [];
+      }
+      throw new Error(`Cannot copy ${from}: it does not exist`);
+    }
+
+    if (!isDirectory) {
+      await copyInto(from, to);
+      return [operation.to];
+    }
+    const excludes = new GlobMatcher(operation.exclude ?? [], operation.from);
+    const files = (await listFiles(from)).filter(
+      (file) => !excludes.matches(file),
+    );
+    for (const file of files) {
+      await copyInto(join(from, file), join(to, file));
+    }
+    return files.map((file) => join(operation.to, file));
+  }
+
+  /**
+   * Copies the files selected by glob patterns.
+   *
+   * @returns Files written, relative to `cwd`
+   */
+  private async copyGlob(
+    operation: CopyGlobOperation,
+    cwd: string,
+  ): Promise<string[]> {
+    const from = within(cwd, operation.from);
+    const copied: string[] = [];
+    for (const file of selectGlob(operation, await listFiles(from))) {
+      const target = join(
+        operation.to,
+        operation.flatten ? basename(file) : file,
+      );
+      await copyInto(join(from, file), within(cwd, target));
+      copied.push(target);
+    }
+    return copied;
+  }
+
+  /**
+   * Removes the files and directories matching glob patterns. A matching
+   * directory is removed as a whole; its contents are not listed.
+   *
+   * @returns Paths removed, relative to `cwd`
+   */
+  private async removeMatching(
+    operation: RemoveMatchingOperation,
+    cwd: string,
+  ): Promise<string[]> {
+    const dir = within(cwd, operation.dir);
+    const matcher = new GlobMatcher(operation.patterns);
+    const removed: string[] = [];
+
+    const visit = async (prefix: string): Promise<void> => {
+      let entries: Dirent[];
+      try {
+        entries = await readdir(join(dir, prefix), {
+          withFileTypes: true,
+        });
+      } catch (error) {
+        if (prefix === '' && isMissing(error)) {
+          return;
+        }
+        throw error;
+      }
+      for (const entry of entries.sort((a, b) =>
+        a.name.localeCompare(b.name),
+      )) {
+        const path = join(prefix, entry.name);
+        // A trailing slash lets directory-only patterns (`witnesses/`) match
+        const candidate = entry.isDirectory() ? `${path}/` : path;
+        if (matcher.matches(candidate)) {
+          await rm(join(dir, path), {
+            recursive: true,
+            force: true,
+          });
+          removed.push(join(operation.dir, path));
+        } else if (entry.isDirectory()) {
+          await visit(path);
+        }
+      }
+    };
+
+    await visit('');
+    return removed;
+  }
+}
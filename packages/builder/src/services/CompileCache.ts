@@ -0,0 +1,202 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { DEFAULT_OUT_DIR } from '../types/options.ts';
+import { hashContents } from '../utils.ts';
+
+/** File name of the cache manifest written into `outDir`. */
+export const CACHE_MANIFEST_FILE = '.compact-cache.json';
+
+/** Schema version of the cache manifest; bump when the entry shape changes. */
+const CACHE_MANIFEST_VERSION = 2;
+
+/**
+ * Inputs and outputs recorded for a single compiled `.compact` file.
+ */
+export interface CacheEntry {
+  /** SHA-256 of the source file contents */
+  sourceHash: string;
+  /**
+   * SHA-256 of every module the file transitively imports or includes,
+   * keyed by path relative to `srcDir`. A change to any of them invalidates
+   * the entry.
+   */
+  dependencies: Record<string, string>;
+  /** Resolved compiler flags the file was compiled with */
+  flags: string;
+  /** Toolchain version reported by `compact compile --version` */
+  toolchainVersion: string;
+  /** Artifact paths produced by the compilation */
+  artifacts: string[];
+}
+
+/**
+ * On-disk shape of the cache manifest.
+ */
+export interface CacheManifest {
+  version: number;
+  /** Entries keyed by source path relative to `srcDir` */
+  entries: Record<string, CacheEntry>;
+}
+
+/** Compares two path → hash maps irrespective of key order. */
+function sameHashes(
+  a: Record<string, string>,
+  b: Record<string, string>,
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+/**
+ * Service responsible for incremental compilation bookkeeping.
+ * Persists a manifest in `outDir` recording, for every compiled file, the
+ * hash of its source and of every module it imports, the flags and toolchain
+ * version used, and the produced artifacts. A file is up to date when all
+ * recorded inputs are unchanged and its artifacts, where the current layout
+ * puts them, still exist.
+ *
+ * @example
+ * ```typescript
+ * const cache = new CompileCache('artifacts');
+ * await cache.load();
+ * const sourceHash = await CompileCache.hashFile('src/Token.compact');
+ * const inputs = {
+ *   sourceHash, dependencies: {}, flags, toolchainVersion,
+ *   artifacts: ['artifacts/Token'],
+ * };
+ * if (!cache.isFresh('Token.compact', inputs)) {
+ *   // ...compile, then:
+ *   cache.record('Token.compact', inputs);
+ * }
+ * await cache.save();
+ * ```
+ */
+export class CompileCache {
+  private readonly manifestPath: string;
+  private entries: Record<string, CacheEntry> = {};
+
+  /**
+   * Creates a new CompileCache instance.
+   *
+   * @param outDir - Output directory holding the artifacts and the manifest (default: 'artifacts')
+   */
+  constructor(outDir: string = DEFAULT_OUT_DIR) {
+    this.manifestPath = join(outDir, CACHE_MANIFEST_FILE);
+  }
+
+  /**
+   * Computes the SHA-256 hex digest of a file's contents.
+   *
+   * @param path - Path to the file to hash
+   * @returns Promise resolving to the hex-encoded digest
+   */
+  static async hashFile(path: string): Promise<string> {
+    return hashContents(await readFile(path));
+  }
+
+  /**
+   * Loads the manifest from disk. A missing, unreadable, or incompatible
+   * manifest is treated as empty so a corrupt cache only costs a rebuild.
+   */
+  async load(): Promise<void> {
+    this.entries = {};
+    try {
+      const raw = await readFile(this.manifestPath, 'utf8');
+      const manifest = JSON.parse(raw) as Partial<CacheManifest>;
+      if (
+        manifest.version === CACHE_MANIFEST_VERSION &&
+        typeof manifest.entries === 'object' &&
+        manifest.entries !== null
+      ) {
+        this.entries = manifest.entries;
+      }
+    } catch {
+      // No usable manifest yet
+    }
+  }
+
+  /**
+   * Returns the recorded entry for a file, if any.
+   *
+   * @param file - Source path relative to `srcDir`
+   */
+  get(file: string): CacheEntry | undefined {
+    return this.entries[file];
+  }
+
+  /**
+   * Checks whether a file's recorded inputs match the given ones and its
+   * recorded artifacts are the expected ones and still exist on disk. Since
+   * the artifacts are where the current layout (`outDir`, `hierarchical`)
+   * puts them, a layout change makes every entry stale.
+   *
+   * @param file   - Source path relative to `srcDir`
+   * @param inputs - Current source and dependency hashes, resolved flags and
+   *                 toolchain version, and the artifact paths the file
+   *                 compiles to
+   * @returns True if the file can be skipped
+   */
+  isFresh(file: string, inputs: CacheEntry): boolean {
+    const entry = this.entries[file];
+    if (!entry) {
+      return false;
+    }
+
+    return (
+      entry.sourceHash === inputs.sourceHash &&
+      entry.flags === inputs.flags &&
+      entry.toolchainVersion === inputs.toolchainVersion &&
+      sameHashes(entry.dependencies ?? {}, inputs.dependencies) &&
+      entry.artifacts.length > 0 &&
+      entry.artifacts.length === inputs.artifacts.length &&
+      entry.artifacts.every(
+        (artifact, index) =>
+          artifact === inputs.artifacts[index] && existsSync(artifact),
+      )
+    );
+  }
+
+  /**
+   * Records (or replaces) the entry for a successfully compiled file.
+   *
+   * @param file  - Source path relative to `srcDir`
+   * @param entry - Inputs and produced artifacts
+   */
+  record(file: string, entry: CacheEntry): void {
+    this.entries[file] = entry;
+  }
+
+  /**
+   * Drops the entries of every file not in `files`.
+   *
+   * @param files - Source paths relative to `srcDir` to keep
+   * @returns True if any entry was dropped
+   */
+  retain(files: Iterable<string>): boolean {
+    const keep = new Set(files);
+    const stale = Object.keys(this.entries).filter((file) => !keep.has(file));
+    for (const file of stale) {
+      delete this.entries[file];
+    }
+    return stale.length > 0;
+  }
+
+  /**
+   * Writes the manifest to disk, creating `outDir` if needed.
+   */
+  async save(): Promise<void> {
+    const manifest: CacheManifest = {
+      version: CACHE_MANIFEST_VERSION,
+      entries: this.entries,
+    };
+    await mkdir(dirname(this.manifestPath), { recursive: true });
+    await writeFile(
+      this.manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+  }
+}
@@ -1,20 +1,24 @@
-import { execFile as execFileCallback } from 'node:child_process';
 import { basename, dirname, join } from 'node:path';
-import { promisify } from 'node:util';
 import { parse as parseShellArgs } from 'shell-quote';
-import { CompilationError } from '../types/errors.ts';
+import {
+  CancellationError,
+  CompilationError,
+  isPromisifiedChildProcessError,
+} from '../types/errors.ts';
 import {
   type CompilerServiceOptions,
   DEFAULT_OUT_DIR,
   DEFAULT_SRC_DIR,
   type ExecFunction,
 } from '../types/options.ts';
+import { execFileAsync } from '../utils.ts';
+import { DiagnosticParser } from './DiagnosticParser.ts';
 
 /** Resolved options for CompilerService with defaults applied */
-type ResolvedCompilerServiceOptions = Required<CompilerServiceOptions>;
-
-const defaultExecFn: ExecFunction = (file, args) =>
-  promisify(execFileCallback)(file, [...args]);
+type ResolvedCompilerServiceOptions = Required<
+  Omit<CompilerServiceOptions, 'timeout'>
+> &
+  Pick<CompilerServiceOptions, 'timeout'>;
 
 /**
  * Tokenizes a user-supplied `flags` string into discrete argv entries using
@@ -55,11 +59,12 @@ export class CompilerService {
    * Creates a new CompilerService instance.
    *
    * @param execFn  - Function to invoke the Compact CLI binary (defaults to
-   *                  a promisified `child_process.execFile` — argv array, no shell).
+   *                  `execFileAsync` — argv array, no shell — which kills
+   *                  the process tree on abort).
    * @param options - Compiler service options
    */
   constructor(
-    execFn: ExecFunction = defaultExecFn,
+    execFn: ExecFunction = execFileAsync,
     options: CompilerServiceOptions = {},
   ) {
     this.execFn = execFn;
@@ -67,9 +72,28 @@ export class CompilerService {
       hierarchical: options.hierarchical ?? false,
       srcDir: options.srcDir ?? DEFAULT_SRC_DIR,
       outDir: options.outDir ?? DEFAULT_OUT_DIR,
+      timeout: options.timeout,
     };
   }
 
+  /**
+   * Resolves the artifact output directory for a source file.
+   *
+   * Flattened (default): `<outDir>/<ContractName>/`.
+   * Hierarchical: `<outDir>/<subdir>/<ContractName>/`.
+   *
+   * @param file - Relative path to the .compact file from srcDir
+   * @returns Output directory path the compiler writes artifacts into
+   */
+  getOutputDir(file: string): string {
+    const fileDir = dirname(file);
+    const fileName = basename(file, '.compact');
+
+    return this.options.hierarchical && fileDir !== '.'
+      ? join(this.options.outDir, fileDir, fileName)
+      : join(this.options.outDir, fileName);
+  }
+
   /**
    * Compiles a single .compact file using the Compact CLI.
    * Builds the argv array (no shell interpolation) and invokes the binary.
@@ -82,24 +106,21 @@ export class CompilerService {
    *                  Tokenized via `shell-quote` so quoted whitespace is preserved
    *                  and shell operators (`;`, `&&`, …) cannot inject commands.
    * @param version - Optional specific toolchain version to use
+   * @param signal  - Optional signal that kills the compiler when aborted
    * @returns Promise resolving to compilation output (stdout/stderr)
-   * @throws {CompilationError} If compilation fails for any reason
+   * @throws {CancellationError} If `signal` aborts before compilation finishes
+   * @throws {CompilationError} If compilation fails for any reason, including
+   *         exceeding the `timeout` option; errors and warnings found in the
+   *         compiler output are attached as `diagnostics`
    */
   async compileFile(
     file: string,
     flags: string,
     version?: string,
+    signal?: AbortSignal,
   ): Promise<{ stdout: string; stderr: string }> {
     const inputPath = join(this.options.srcDir, file);
-    const fileDir = dirname(file);
-    const fileName = basename(file, '.compact');
-
-    // Flattened (default): <outDir>/<ContractName>/
-    // Hierarchical: <outDir>/<subdir>/<ContractName>/
-    const outputDir =
-      this.options.hierarchical && fileDir !== '.'
-        ? join(this.options.outDir, fileDir, fileName)
-        : join(this.options.outDir, fileName);
+    const outputDir = this.getOutputDir(file);
 
     const args: string[] = [
       'compile',
@@ -109,22 +130,53 @@ export class CompilerService {
       outputDir,
     ];
 
+    // One controller per invocation, aborted by the caller's signal or the
+    // timeout, so a timeout only kills this file's compiler
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    const timer =
+      this.options.timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, this.options.timeout);
+
     try {
-      return await this.execFn('compact', args);
+      signal?.throwIfAborted();
+      return await this.execFn('compact', args, {
+        signal: controller.signal,
+      });
     } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw new CancellationError(`Cancelled compiling ${file}`, [file]);
+      }
+
       let message: string;
 
-      if (error instanceof Error) {
+      if (timedOut) {
+        message = `timed out after ${(this.options.timeout ?? 0) / 1000}s`;
+      } else if (error instanceof Error) {
         message = error.message;
       } else {
         message = String(error); // fallback for strings, objects, numbers, etc.
       }
 
+      const diagnostics = isPromisifiedChildProcessError(error)
+        ? DiagnosticParser.parse(`${error.stderr}\n${error.stdout}`)
+        : [];
+
       throw new CompilationError(
         `Failed to compile ${file}: ${message}`,
         file,
         error,
+        diagnostics,
       );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
     }
   }
 }
@@ -0,0 +1,246 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, normalize } from 'node:path';
+import { DEFAULT_SRC_DIR } from '../types/options.ts';
+import { hashContents } from '../utils.ts';
+import { FileDiscovery } from './FileDiscovery.ts';
+
+/**
+ * A module reference found in a `.compact` source.
+ * - `path`: a quoted path (`import "../access/Ownable";`, `include "utils";`),
+ *   resolved relative to the importing file.
+ * - `name`: a bare module name (`import Ownable;`), resolved to
+ *   `<Name>.compact` next to the importing file. Names with no such file
+ *   (e.g. `CompactStandardLibrary`) are treated as external.
+ */
+export interface ModuleReference {
+  kind: 'path' | 'name';
+  specifier: string;
+}
+
+/** `import "path"`, `import Name`, `import { … } from "path" | Name` */
+const IMPORT_PATTERN =
+  /\bimport\s+(?:\{[^}]*\}\s*from\s+)?(?:"([^"]+)"|([A-Za-z_$][\w$]*))/g;
+/** `include "path"` */
+const INCLUDE_PATTERN = /\binclude\s+"([^"]+)"/g;
+
+/**
+ * Service that models import/include relationships between `.compact` files.
+ * Every source under `srcDir` is parsed (regardless of exclude patterns, since
+ * an excluded module can still be imported), producing a graph keyed by paths
+ * relative to `srcDir`. Modules that resolve outside `srcDir` are ignored.
+ *
+ * Used by `CompactCompiler` to order compilation (dependencies first), to
+ * pull dependents of targeted files into a run, and to invalidate cache
+ * entries when an imported module changes.
+ *
+ * @example
+ * ```typescript
+ * const graph = await DependencyGraph.build('src');
+ * graph.dependentsOf(['utils/Utils.compact']); // ['token/Token.compact', …]
+ * graph.sort(['token/Token.compact', 'utils/Utils.compact']);
+ * // ['utils/Utils.compact', 'token/Token.compact']
+ * ```
+ */
+export class DependencyGraph {
+  private readonly dependencies = new Map<string, string[]>();
+  private readonly dependents = new Map<string, string[]>();
+  private readonly hashes = new Map<string, string>();
+
+  /**
+   * Creates a graph from pre-parsed sources. Prefer {@link DependencyGraph.build}.
+   *
+   * @param sources - Source contents keyed by path relative to `srcDir`
+   */
+  constructor(sources: ReadonlyMap<string, string>) {
+    for (const file of sources.keys()) {
+      this.dependents.set(file, []);
+    }
+
+    for (const [file, contents] of sources) {
+      this.hashes.set(file, hashContents(contents));
+      const deps = DependencyGraph.parseReferences(contents)
+        .map((ref) => DependencyGraph.resolve(file, ref))
+        .filter(
+          (dep): dep is string =>
+            dep !== undefined && dep !== file && sources.has(dep),
+        );
+      const uniqueDeps = [...new Set(deps)];
+
+      this.dependencies.set(file, uniqueDeps);
+      for (const dep of uniqueDeps) {
+        this.dependents.get(dep)?.push(file);
+      }
+    }
+  }
+
+  /**
+   * Discovers and parses every `.compact` file under `srcDir`.
+   *
+   * @param srcDir - Source directory to scan (default: 'src')
+   * @returns Promise resolving to the populated graph
+   */
+  static async build(
+    srcDir: string = DEFAULT_SRC_DIR,
+  ): Promise<DependencyGraph> {
+    const files = await new FileDiscovery(srcDir).getCompactFiles(srcDir);
+    const contents = await Promise.all(
+      files.map(async (file) => {
+        try {
+          return await readFile(join(srcDir, file), 'utf8');
+        } catch {
+          // Unreadable files have no known dependencies; compilation will
+          // surface the underlying problem.
+          return '';
+        }
+      }),
+    );
+
+    return new DependencyGraph(
+      new Map(files.map((file, i) => [file, contents[i]])),
+    );
+  }
+
+  /**
+   * Extracts `import` and `include` references from Compact source,
+   * ignoring anything inside comments.
+   *
+   * @param source - Contents of a `.compact` file
+   * @returns References in source order
+   */
+  static parseReferences(source: string): ModuleReference[] {
+    const code = source
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\/\/.*$/gm, '');
+    const refs: ModuleReference[] = [];
+
+    for (const match of code.matchAll(IMPORT_PATTERN)) {
+      refs.push(
+        match[1] !== undefined
+          ? { kind: 'path', specifier: match[1] }
+          : { kind: 'name', specifier: match[2] },
+      );
+    }
+    for (const match of code.matchAll(INCLUDE_PATTERN)) {
+      refs.push({ kind: 'path', specifier: match[1] });
+    }
+
+    return refs;
+  }
+
+  /**
+   * Resolves a reference made by `file` to a path relative to `srcDir`.
+   *
+   * @returns The resolved path, or undefined if it points outside `srcDir`
+   */
+  private static resolve(
+    file: string,
+    ref: ModuleReference,
+  ): string | undefined {
+    if (ref.kind === 'path' && isAbsolute(ref.specifier)) {
+      return undefined;
+    }
+    const target = ref.specifier.endsWith('.compact')
+      ? ref.specifier
+      : `${ref.specifier}.compact`;
+    const resolved = normalize(join(dirname(file), target));
+
+    return resolved.startsWith('..') ? undefined : resolved;
+  }
+
+  /**
+   * Lists every file in the graph.
+   */
+  get files(): string[] {
+    return [...this.dependencies.keys()];
+  }
+
+  /**
+   * Returns the content hash of a file, as read when the graph was built.
+   *
+   * @param file - Path relative to `srcDir`
+   */
+  hashOf(file: string): string | undefined {
+    return this.hashes.get(file);
+  }
+
+  /**
+   * Returns the modules `file` imports or includes directly.
+   *
+   * @param file - Path relative to `srcDir`
+   */
+  dependenciesOf(file: string): string[] {
+    return [...(this.dependencies.get(file) ?? [])];
+  }
+
+  /**
+   * Returns every module `file` depends on, directly or transitively.
+   *
+   * @param file - Path relative to `srcDir`
+   */
+  transitiveDependenciesOf(file: string): string[] {
+    return this.walk([file], this.dependencies);
+  }
+
+  /**
+   * Returns every file that directly or transitively imports any of `files`,
+   * excluding `files` themselves.
+   *
+   * @param files - Paths relative to `srcDir`
+   */
+  dependentsOf(files: readonly string[]): string[] {
+    return this.walk(files, this.dependents);
+  }
+
+  /**
+   * Orders `files` so that every file comes after the modules it depends on.
+   * Unrelated files keep their input order; import cycles (which compactc
+   * rejects anyway) are broken deterministically.
+   *
+   * @param files - Paths relative to `srcDir`
+   * @returns A new, dependency-ordered array containing exactly `files`
+   */
+  sort(files: readonly string[]): string[] {
+    const wanted = new Set(files);
+    const visited = new Set<string>();
+    const ordered: string[] = [];
+
+    const visit = (file: string): void => {
+      if (visited.has(file)) {
+        return;
+      }
+      visited.add(file);
+      for (const dep of this.transitiveDependenciesOf(file)) {
+        if (wanted.has(dep)) {
+          visit(dep);
+        }
+      }
+      ordered.push(file);
+    };
+
+    for (const file of files) {
+      visit(file);
+    }
+    return ordered;
+  }
+
+  /** Breadth-first traversal over `edges`; the start nodes are not included. */
+  private walk(
+    start: readonly string[],
+    edges: ReadonlyMap<string, string[]>,
+  ): string[] {
+    const seen = new Set<string>();
+    const queue = [...start];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const next of edges.get(current) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    return [...seen].filter((f) => !start.includes(f));
+  }
+}
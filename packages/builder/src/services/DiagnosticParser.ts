@@ -0,0 +1,144 @@
+import type { Diagnostic } from '../types/errors.ts';
+
+/**
+ * compactc style:
+ * `Exception: src/Token.compact line 12 char 5:` optionally followed by
+ * `through line 12 char 9`, with the message on the same line and/or on the
+ * indented lines that follow.
+ */
+const COMPACTC_PATTERN =
+  /^(Exception|Error|Warning):\s+(.+?\.compact)\s+line\s+(\d+)\s+char\s+(\d+)(?:\s+(?:through|to)\s+line\s+(\d+)\s+char\s+(\d+))?:?\s*(.*)$/i;
+
+/** Conventional style: `src/Token.compact:12:5: error: message` */
+const LOCATION_PATTERN =
+  /^(.+?\.compact):(\d+):(\d+):\s*(?:(error|warning|exception):\s*)?(.*)$/i;
+
+/** Number of source lines shown above and below the offending line. */
+const DEFAULT_CONTEXT_LINES = 2;
+
+function toSeverity(label: string | undefined): Diagnostic['severity'] {
+  return label?.toLowerCase() === 'warning' ? 'warning' : 'error';
+}
+
+/**
+ * Utility service that turns raw Compact compiler output into structured
+ * {@link Diagnostic}s and renders them against their source.
+ *
+ * @example
+ * ```typescript
+ * const [diagnostic] = DiagnosticParser.parse(execError.stderr);
+ * const source = await readFile(diagnostic.file, 'utf8');
+ * console.log(DiagnosticParser.formatCodeFrame(source, diagnostic));
+ * ```
+ */
+export const DiagnosticParser = {
+  /**
+   * Extracts every located error and warning from compiler output.
+   * Lines that don't start a diagnostic are appended to the message of the
+   * preceding one when indented, and ignored otherwise.
+   *
+   * @param output - Combined stdout/stderr of `compact compile`
+   * @returns Diagnostics in output order; empty if none could be parsed
+   */
+  parse(output: string): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    let current: Diagnostic | undefined;
+
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trimEnd();
+      const compactc = COMPACTC_PATTERN.exec(line.trim());
+      const located = compactc ? null : LOCATION_PATTERN.exec(line.trim());
+
+      if (compactc) {
+        current = {
+          file: compactc[2],
+          line: Number(compactc[3]),
+          column: Number(compactc[4]),
+          ...(compactc[5] !== undefined && {
+            endLine: Number(compactc[5]),
+            endColumn: Number(compactc[6]),
+          }),
+          severity: toSeverity(compactc[1]),
+          message: compactc[7].trim(),
+        };
+        diagnostics.push(current);
+      } else if (located) {
+        current = {
+          file: located[1],
+          line: Number(located[2]),
+          column: Number(located[3]),
+          severity: toSeverity(located[4]),
+          message: located[5].trim(),
+        };
+        diagnostics.push(current);
+      } else if (current && /^\s/.test(line) && line.trim() !== '') {
+        current.message = current.message
+          ? `${current.message}\n${line.trim()}`
+          : line.trim();
+      } else {
+        current = undefined;
+      }
+    }
+
+    return diagnostics;
+  },
+
+  /**
+   * Renders the source lines around a diagnostic with line numbers, marking
+   * the offending line with `>` and underlining the reported span with `^`.
+   *
+   * @param source     - Contents of the file the diagnostic refers to
+   * @param diagnostic - Diagnostic to render
+   * @param options    - Lines of context around the offending line, and an
+   *                     optional function to style the marker line
+   * @returns The code frame, or an empty string if the line is out of range
+   */
+  formatCodeFrame(
+    source: string,
+    diagnostic: Diagnostic,
+    options: {
+      contextLines?: number;
+      highlight?: (text: string) => string;
+    } = {},
+  ): string {
+    const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+    const highlight = options.highlight ?? ((text: string) => text);
+    const lines = source.split(/\r?\n/);
+
+    if (diagnostic.line < 1 || diagnostic.line > lines.length) {
+      return '';
+    }
+
+    const first = Math.max(1, diagnostic.line - contextLines);
+    const last = Math.min(lines.length, diagnostic.line + contextLines);
+    const gutterWidth = String(last).length;
+    const frame: string[] = [];
+
+    for (let n = first; n <= last; n++) {
+      const gutter = String(n).padStart(gutterWidth);
+      const text = lines[n - 1];
+
+      if (n !== diagnostic.line) {
+        frame.push(`  ${gutter} | ${text}`);
+        continue;
+      }
+
+      const start = Math.max(1, diagnostic.column);
+      // The reported end column is inclusive
+      const end =
+        diagnostic.endLine === diagnostic.line &&
+        diagnostic.endColumn !== undefined &&
+        diagnostic.endColumn > start
+          ? diagnostic.endColumn
+          : start;
+      const padding = text.slice(0, start - 1).replace(/[^\t]/g, ' ');
+
+      frame.push(`${highlight('>')} ${gutter} | ${text}`);
+      frame.push(
+        `  ${' '.repeat(gutterWidth)} | ${padding}${highlight('^'.repeat(end - start + 1))}`,
+      );
+    }
+
+    return frame.join('\n');
+  },
+};
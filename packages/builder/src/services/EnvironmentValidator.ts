@@ -1,10 +1,21 @@
-import { execFile as execFileCallback } from 'node:child_process';
-import { promisify } from 'node:util';
-import { CompactCliNotFoundError } from '../types/errors.ts';
+import semver from 'semver';
+import {
+  CancellationError,
+  CompactCliNotFoundError,
+  ToolchainVersionMismatchError,
+} from '../types/errors.ts';
 import type { ExecFunction } from '../types/options.ts';
+import { execFileAsync } from '../utils.ts';
 
-const defaultExecFn: ExecFunction = (file, args) =>
-  promisify(execFileCallback)(file, [...args]);
+/**
+ * Throws a {@link CancellationError} if validation was aborted, so a killed
+ * `compact` process isn't mistaken for a missing or broken toolchain.
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancellationError('Environment validation was cancelled');
+  }
+}
 
 /**
  * Service responsible for validating the Compact CLI environment.
@@ -25,20 +36,22 @@ export class EnvironmentValidator {
    * Creates a new EnvironmentValidator instance.
    *
    * @param execFn - Function to execute the Compact CLI binary (defaults to
-   *                 a promisified `child_process.execFile` — argv array, no shell).
+   *                 `execFileAsync` — argv array, no shell — which kills
+   *                 the process tree on abort).
    */
-  constructor(execFn: ExecFunction = defaultExecFn) {
+  constructor(execFn: ExecFunction = execFileAsync) {
     this.execFn = execFn;
   }
 
   /**
    * Checks if the Compact CLI is available in the system PATH.
    *
+   * @param signal - Optional signal that kills the `compact` process
    * @returns Promise resolving to true if CLI is available, false otherwise
    */
-  async checkCompactAvailable(): Promise<boolean> {
+  async checkCompactAvailable(signal?: AbortSignal): Promise<boolean> {
     try {
-      await this.execFn('compact', ['--version']);
+      await this.execFn('compact', ['--version'], { signal });
       return true;
     } catch {
       return false;
@@ -48,11 +61,14 @@ export class EnvironmentValidator {
   /**
    * Retrieves the version of the Compact developer tools.
    *
+   * @param signal - Optional signal that kills the `compact` process
    * @returns Promise resolving to the version string
    * @throws {Error} If the CLI is not available or command fails
    */
-  async getDevToolsVersion(): Promise<string> {
-    const { stdout } = await this.execFn('compact', ['--version']);
+  async getDevToolsVersion(signal?: AbortSignal): Promise<string> {
+    const { stdout } = await this.execFn('compact', ['--version'], {
+      signal,
+    });
     return stdout.trim();
   }
 
@@ -60,12 +76,16 @@ export class EnvironmentValidator {
    * Retrieves the version of the Compact toolchain/compiler.
    *
    * @param version - Optional specific toolchain version to query
+   * @param signal  - Optional signal that kills the `compact` process
    * @returns Promise resolving to the toolchain version string
    * @throws {Error} If the CLI is not available or command fails
    */
-  async getToolchainVersion(version?: string): Promise<string> {
+  async getToolchainVersion(
+    version?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
     const args = ['compile', ...(version ? [`+${version}`] : []), '--version'];
-    const { stdout } = await this.execFn('compact', args);
+    const { stdout } = await this.execFn('compact', args, { signal });
     return stdout.trim();
   }
 
@@ -73,23 +93,73 @@ export class EnvironmentValidator {
    * Validates the entire Compact environment and ensures it's ready for compilation.
    * Checks CLI availability and retrieves version information.
    *
-   * @param version - Optional specific toolchain version to validate
+   * @param version  - Optional specific toolchain version to validate
+   * @param required - Optional pinned toolchain version or semver range
+   *                   (e.g. `'0.26.0'`, `'^0.26.0'`) the toolchain must satisfy
+   * @param signal   - Optional signal that cancels validation
    * @throws {CompactCliNotFoundError} If the Compact CLI is not available
+   * @throws {ToolchainVersionMismatchError} If the toolchain doesn't satisfy
+   *         `required`, or the pinned version is not installed
+   * @throws {CancellationError} If `signal` aborts
    * @throws {Error} If version commands fail
    */
   async validate(
     version?: string,
+    required?: string,
+    signal?: AbortSignal,
   ): Promise<{ devToolsVersion: string; toolchainVersion: string }> {
-    const isAvailable = await this.checkCompactAvailable();
+    const isAvailable = await this.checkCompactAvailable(signal);
+    throwIfCancelled(signal);
     if (!isAvailable) {
       throw new CompactCliNotFoundError(
         "'compact' CLI not found in PATH. Please install the Compact developer tools.",
       );
     }
 
-    const devToolsVersion = await this.getDevToolsVersion();
-    const toolchainVersion = await this.getToolchainVersion(version);
+    let devToolsVersion: string;
+    try {
+      devToolsVersion = await this.getDevToolsVersion(signal);
+    } catch (error) {
+      throwIfCancelled(signal);
+      throw error;
+    }
+
+    let toolchainVersion: string;
+    try {
+      toolchainVersion = await this.getToolchainVersion(version, signal);
+    } catch (error) {
+      throwIfCancelled(signal);
+      // `compact compile +<version>` fails when that version isn't installed
+      if (required) {
+        throw new ToolchainVersionMismatchError(
+          required,
+          undefined,
+          EnvironmentValidator.installHint(required),
+        );
+      }
+      throw error;
+    }
+
+    if (required) {
+      const installed = semver.coerce(toolchainVersion)?.version;
+      if (!installed || !semver.satisfies(installed, required)) {
+        throw new ToolchainVersionMismatchError(
+          required,
+          installed ?? toolchainVersion,
+          EnvironmentValidator.installHint(required),
+        );
+      }
+    }
 
     return { devToolsVersion, toolchainVersion };
   }
+
+  /**
+   * Builds the command that installs a toolchain satisfying `required`:
+   * the version itself when it is exact, otherwise the lowest matching one.
+   */
+  private static installHint(required: string): string {
+    const version = semver.valid(required) ?? semver.minVersion(required);
+    return version ? `compact update ${version}` : 'compact update';
+  }
 }
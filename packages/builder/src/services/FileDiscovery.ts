@@ -1,38 +1,53 @@
 import { readdir } from 'node:fs/promises';
 import { join, relative } from 'node:path';
 import { DEFAULT_SRC_DIR } from '../types/options.ts';
-import { isExcluded } from '../utils.ts';
+import { GlobMatcher } from './GlobMatcher.ts';
 
 /**
  * Service responsible for discovering .compact files in the source directory.
  * Recursively scans directories and filters for .compact file extensions,
- * applying user-supplied exclude patterns.
+ * applying user-supplied include and exclude patterns.
  *
  * @example
  * ```typescript
- * const discovery = new FileDiscovery('src', ['Mock*']);
- * const files = await discovery.getCompactFiles('src/security');
+ * const discovery = new FileDiscovery('src', ['**\/Mock*'], ['token/**']);
+ * const files = await discovery.getCompactFiles('src');
  * ```
  */
 export class FileDiscovery {
   private srcDir: string;
-  private excludes: readonly string[];
+  private excludes: GlobMatcher;
+  private includes: GlobMatcher;
 
   /**
    * Creates a new FileDiscovery instance.
    *
    * @param srcDir   - Base source directory for relative path calculation (default: 'src')
-   * @param excludes - Glob-style patterns of `.compact` files to skip.
-   *                   Patterns containing `/` match against the full path
-   *                   (as `find <srcDir>` would emit it); others match against
-   *                   the filename only. Default: `[]`.
+   * @param excludes - Patterns of `.compact` files to skip, matched by
+   *                   {@link GlobMatcher} relative to `srcDir`. Default: `[]`.
+   * @param includes - Patterns a file must match to be discovered; all files
+   *                   when empty. Excludes still apply. Default: `[]`.
    */
   constructor(
     srcDir: string = DEFAULT_SRC_DIR,
     excludes: readonly string[] = [],
+    includes: readonly string[] = [],
   ) {
     this.srcDir = srcDir;
-    this.excludes = excludes;
+    this.excludes = new GlobMatcher(excludes, srcDir);
+    this.includes = new GlobMatcher(includes, srcDir);
+  }
+
+  /**
+   * Returns true if a file passes the include and exclude patterns.
+   *
+   * @param file - Path relative to `srcDir`
+   */
+  isSelected(file: string): boolean {
+    return (
+      (this.includes.isEmpty || this.includes.matches(file)) &&
+      !this.excludes.matches(file)
+    );
   }
 
   /**
@@ -54,13 +69,7 @@ export class FileDiscovery {
 
           if (entry.isFile() && fullPath.endsWith('.compact')) {
             const relPath = relative(this.srcDir, fullPath);
-            // Match path-style patterns against fullPath (i.e. the path that
-            // `find srcDir` would emit) so users can write `*/archive/*` etc.,
-            // identical to what they'd pass to `find -path`.
-            if (isExcluded(entry.name, fullPath, this.excludes)) {
-              return [];
-            }
-            return [relPath];
+            return this.isSelected(relPath) ? [relPath] : [];
           }
           return [];
         } catch (err) {
@@ -0,0 +1,118 @@
+import { posix, relative } from 'node:path';
+import {
+  CancellationError,
+  GitError,
+  isPromisifiedChildProcessError,
+} from '../types/errors.ts';
+import type { ExecFunction } from '../types/options.ts';
+import { execFileAsync } from '../utils.ts';
+
+/** Splits NUL-separated `git -z` output into paths. */
+function splitPaths(stdout: string): string[] {
+  return stdout.split('\0').filter((path) => path !== '');
+}
+
+/**
+ * Service that asks the local git repository which `.compact` files changed
+ * since a ref, so a run can be narrowed to them (`--changed-since`).
+ *
+ * A file counts as changed when it differs from `ref` in the working tree:
+ * committed since `ref`, staged, modified but unstaged, or untracked (and not
+ * ignored). Deleted files are listed too; callers drop the ones that no
+ * longer exist.
+ *
+ * @example
+ * ```typescript
+ * const git = new GitChangeDetector();
+ * const files = await git.changedFiles('origin/main', 'src');
+ * // ['token/FungibleToken.compact']
+ * ```
+ */
+export class GitChangeDetector {
+  private execFn: ExecFunction;
+
+  /**
+   * Creates a new GitChangeDetector instance.
+   *
+   * @param execFn - Function used to run `git` (defaults to `execFileAsync`)
+   */
+  constructor(execFn: ExecFunction = execFileAsync) {
+    this.execFn = execFn;
+  }
+
+  /**
+   * Lists the `.compact` files under `dir` that changed since `ref`.
+   *
+   * @param ref    - Any git revision: a branch, tag, commit or `HEAD~3`
+   * @param dir    - Directory to report changes for, relative to the working
+   *                 directory
+   * @param signal - Optional signal that kills the running `git` process
+   * @returns Paths relative to `dir`
+   * @throws {GitError} If git is unavailable, the working directory is not in
+   *         a repository, or `ref` does not exist
+   * @throws {CancellationError} If `signal` aborts
+   */
+  async changedFiles(
+    ref: string,
+    dir: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    // git prints paths relative to the repository root; the prefix is the
+    // working directory's position inside it (e.g. `packages/contracts/`)
+    const prefix = (
+      await this.git(['rev-parse', '--show-prefix'], ref, signal)
+    ).trim();
+    const diffed = await this.git(
+      ['diff', '--name-only', '-z', ref, '--'],
+      ref,
+      signal,
+    );
+    const untracked = await this.git(
+      ['ls-files', '--others', '--exclude-standard', '--full-name', '-z'],
+      ref,
+      signal,
+    );
+
+    const files = new Set<string>();
+    for (const path of [...splitPaths(diffed), ...splitPaths(untracked)]) {
+      if (!path.endsWith('.compact')) {
+        continue;
+      }
+      const file = relative(dir, posix.relative(prefix, path));
+      if (!file.startsWith('..')) {
+        files.add(file);
+      }
+    }
+    return [...files].sort();
+  }
+
+  /**
+   * Runs a git command and returns its stdout.
+   *
+   * @throws {GitError} If the command fails
+   * @throws {CancellationError} If `signal` aborts
+   */
+  private async git(
+    args: string[],
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    try {
+      const { stdout } = await this.execFn('git', args, { signal });
+      return stdout;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancellationError('Listing changed files was cancelled');
+      }
+      const detail = isPromisifiedChildProcessError(error)
+        ? error.stderr.trim() || error.message
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      throw new GitError(
+        `Could not list files changed since ${ref}: ${detail}`,
+        ref,
+      );
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { join, sep } from 'node:path';
+
+/** A single compiled pattern (one brace alternative of a user pattern). */
+interface CompiledPattern {
+  regex: RegExp;
+  negated: boolean;
+}
+
+/** Escapes a literal character for use in a regular expression. */
+function escapeRegex(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char;
+}
+
+/** Converts a path to forward slashes, the separator patterns are written with. */
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+/**
+ * Splits the body of a brace group on its top-level commas, so nested groups
+ * (`{a,b{c,d}}`) stay intact for the next expansion round.
+ */
+function splitAlternatives(body: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      alternatives.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(body.slice(start));
+  return alternatives;
+}
+
+/**
+ * Expands brace groups, e.g. `{access,token}/*.compact` into
+ * `access/*.compact` and `token/*.compact`. Groups without a comma are
+ * kept literally, as in a shell.
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let open = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      if (depth++ === 0) {
+        open = i;
+      }
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      const alternatives = splitAlternatives(pattern.slice(open + 1, i));
+      if (alternatives.length > 1) {
+        const prefix = pattern.slice(0, open);
+        const suffix = pattern.slice(i + 1);
+        return alternatives.flatMap((alternative) =>
+          expandBraces(`${prefix}${alternative}${suffix}`),
+        );
+      }
+    }
+  }
+  return [pattern];
+}
+
+/**
+ * Index of the `]` closing the character class opened at `start`, or -1 when
+ * the class is unterminated (the `[` is then matched literally). A `]` right
+ * after `[` or `[!` belongs to the class.
+ */
+function classEnd(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === '!' || pattern[i] === '^') {
+    i++;
+  }
+  if (pattern[i] === ']') {
+    i++;
+  }
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if (pattern[i] === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Converts the body of a character class (`a-z`, `!0-9`) to regex syntax. */
+function classToRegex(body: string): string {
+  const negated = body.startsWith('!') || body.startsWith('^');
+  let source = '';
+  for (let i = negated ? 1 : 0; i < body.length; i++) {
+    let char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      char = body[++i];
+    }
+    source += char === '-' ? '-' : escapeRegex(char);
+  }
+  // A class never matches a separator, negated or not
+  return negated ? `[^/${source}]` : `(?!/)[${source}]`;
+}
+
+/**
+ * Compiles one brace-free pattern to a regular expression over a
+ * `/`-separated relative path.
+ */
+function patternToRegex(pattern: string): RegExp {
+  const dirOnly = pattern.endsWith('/');
+  let body = pattern.replace(/\/+$/, '');
+  // A slash anywhere but at the end anchors the pattern to the root
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; ) {
+    const char = body[i];
+    if (char === '*') {
+      let end = i;
+      while (body[end] === '*') {
+        end++;
+      }
+      const segmentStart = i === 0 || body[i - 1] === '/';
+      const segmentEnd = end === body.length || body[end] === '/';
+      if (end - i === 2 && segmentStart && segmentEnd) {
+        if (end === body.length) {
+          // Trailing `**`: everything inside
+          source += '.*';
+          i = end;
+        } else {
+          // `**/`: zero or more directories
+          source += '(?:.*/)?';
+          i = end + 1;
+        }
+      } else {
+        source += '[^/]*';
+        i = end;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[' && classEnd(body, i) !== -1) {
+      const end = classEnd(body, i);
+      source += classToRegex(body.slice(i + 1, end));
+      i = end + 1;
+    } else if (char === '\\' && i + 1 < body.length) {
+      source += escapeRegex(body[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegex(char);
+      i++;
+    }
+  }
+
+  // A matching directory matches everything inside it, so `mocks` and
+  // `mocks/` exclude `mocks/Token.compact`; directory-only patterns can only
+  // match that way.
+  const prefix = anchored ? '' : '(?:.*/)?';
+  const suffix = dirOnly ? '/.*' : '(?:/.*)?';
+  return new RegExp(`^${prefix}${source}${suffix}$`);
+}
+
+/**
+ * Compiles a user pattern into one entry per brace alternative. Blank lines
+ * and `#` comments compile to nothing.
+ */
+function compilePattern(pattern: string): CompiledPattern[] {
+  let body = pattern.replace(/(?<!\\)\s+$/, '');
+  if (body === '' || body.startsWith('#')) {
+    return [];
+  }
+  const negated = body.startsWith('!');
+  if (negated) {
+    body = body.slice(1);
+  } else if (body.startsWith('\\!') || body.startsWith('\\#')) {
+    body = body.slice(1);
+  }
+  return expandBraces(body).map((expanded) => ({
+    regex: patternToRegex(expanded),
+    negated,
+  }));
+}
+
+/**
+ * Glob engine shared by every place that selects `.compact` files — file
+ * discovery (`exclude` / `include`), per-file `overrides`, and the builder's
+ * copy into `dist/` — so they all agree on the same set of files.
+ *
+ * Patterns follow `.gitignore` rules, matched against paths relative to
+ * `root`:
+ *
+ * - `*` and `?` match within a single path segment; `[a-z]` and `[!a-z]`
+ *   are character classes.
+ * - `**` matches any number of directories (`**\/Mock*.compact`,
+ *   `archive/**`).
+ * - A pattern without a slash matches a file or directory name at any depth;
+ *   a slash at the start or in the middle anchors it to `root`. A trailing
+ *   slash matches directories only.
+ * - A matching directory matches everything inside it.
+ * - `!pattern` re-includes paths matched by an earlier pattern; the last
+ *   matching pattern wins. Unlike git, a file can be re-included even when
+ *   its directory was matched.
+ * - `{a,b}` expands to alternatives, which git does not support.
+ *
+ * For compatibility with patterns written relative to the working directory
+ * (`src/mocks/**`), paths are also tried with `root` prepended.
+ *
+ * @example
+ * ```typescript
+ * const excludes = new GlobMatcher(['**\/Mock*', 'archive/', '!archive/Keep.compact'], 'src');
+ * excludes.matches('token/MockToken.compact'); // true
+ * excludes.matches('archive/Old.compact');     // true
+ * excludes.matches('archive/Keep.compact');    // false
+ * ```
+ */
+export class GlobMatcher {
+  private readonly patterns: CompiledPattern[];
+  private readonly root: string | undefined;
+
+  /**
+   * Creates a new GlobMatcher instance.
+   *
+   * @param patterns - Patterns in `.gitignore` syntax, applied in order
+   * @param root     - Directory the matched paths are relative to
+   */
+  constructor(patterns: readonly string[], root?: string) {
+    this.patterns = patterns.flatMap(compilePattern);
+    this.root = root;
+  }
+
+  /** True when no pattern was given (blank lines and comments aside). */
+  get isEmpty(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  /**
+   * Returns true if `path` is matched by the last pattern that applies to it
+   * and that pattern is not negated.
+   *
+   * @param path - Path relative to `root`
+   */
+  matches(path: string): boolean {
+    const candidates = [toPosix(path)];
+    if (this.root !== undefined) {
+      candidates.push(toPosix(join(this.root, path)));
+    }
+
+    let matched = false;
+    for (const pattern of this.patterns) {
+      if (
+        matched !== !pattern.negated &&
+        candidates.some((candidate) => pattern.regex.test(candidate))
+      ) {
+        matched = !pattern.negated;
+      }
+    }
+    return matched;
+  }
+}
@@ -0,0 +1,244 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, normalize, relative, sep } from 'node:path';
+import { ConfigError } from '../types/errors.ts';
+
+/** Top-level fields holding a path to an entry point. */
+const ENTRY_FIELDS = ['main', 'module', 'browser', 'types', 'typings'];
+
+/** Fields and export conditions whose paths point at type declarations. */
+const TYPES_KEYS = new Set(['types', 'typings']);
+
+/** Fields only needed to develop the package, dropped from the dist copy. */
+const DEV_FIELDS = [
+  'scripts',
+  'devDependencies',
+  'workspaces',
+  'packageManager',
+  'resolutions',
+];
+
+/** Where the package's sources and build output live, relative to it. */
+interface Layout {
+  srcDir: string;
+  distDir: string;
+}
+
+/** An entry-point path of the rewritten manifest, with where it was found. */
+interface EntryPath {
+  /** Field the path was found in, e.g. `exports["./token"].import` */
+  field: string;
+  /** Path relative to the dist directory, e.g. `./token.js` */
+  path: string;
+}
+
+/** True when `path` is `dir` or below it. */
+function isInside(dir: string, path: string): boolean {
+  const fromDir = relative(dir, path);
+  return !fromDir.startsWith('..') && !isAbsolute(fromDir);
+}
+
+/**
+ * The file TypeScript emits for a source, e.g. `token.js` for `token.ts`
+ * (`token.d.ts` when `types` is set). Other files keep their name.
+ */
+function emittedName(file: string, types: boolean): string {
+  if (/\.d\.[cm]?ts$/.test(file)) {
+    return file;
+  }
+  return file.replace(/\.([cm]?)tsx?$/, (_match, kind: string) =>
+    types ? `.d.${kind}ts` : `.${kind}js`,
+  );
+}
+
+/**
+ * Remaps an entry-point path of the source manifest to the dist directory:
+ * a path in dist loses its prefix, a path in the source directory points at
+ * what TypeScript emits for it, and any other path is kept.
+ *
+ * @param path   - Path relative to the package, e.g. `./src/index.ts`
+ * @param layout - Source and dist directories of the package
+ * @param types  - Whether the path points at type declarations
+ * @returns The path relative to dist, starting with `./`
+ */
+function remapPath(path: string, layout: Layout, types: boolean): string {
+  const file = normalize(path);
+  const mapped = isInside(layout.distDir, file)
+    ? relative(layout.distDir, file)
+    : isInside(layout.srcDir, file)
+      ? emittedName(relative(layout.srcDir, file), types)
+      : file;
+  return `./${mapped.split(sep).join('/')}`;
+}
+
+/**
+ * Remaps every path of an `exports` (or `bin`) value: a path, an array of
+ * fallbacks, `null`, or an object of subpaths or conditions, recursively.
+ *
+ * @param value  - Value to remap
+ * @param field  - Name of the value, for error messages
+ * @param layout - Source and dist directories of the package
+ * @param types  - Whether the paths point at type declarations
+ * @param paths  - Receives every remapped path
+ */
+function remapTargets(
+  value: unknown,
+  field: string,
+  layout: Layout,
+  types: boolean,
+  paths: EntryPath[],
+): unknown {
+  if (typeof value === 'string') {
+    const path = remapPath(value, layout, types);
+    paths.push({ field, path });
+    return path;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      remapTargets(item, `${field}[${index}]`, layout, types, paths),
+    );
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, target]) => [
+        key,
+        remapTargets(
+          target,
+          `${field}[${JSON.stringify(key)}]`,
+          layout,
+          types || TYPES_KEYS.has(key),
+          paths,
+        ),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Checks that an entry-point path exists in dist. For a subpath pattern
+ * (`./*.js`), the directory before the first `*` must exist.
+ */
+function exists(distDir: string, path: string): boolean {
+  const star = path.indexOf('*');
+  return existsSync(
+    join(
+      distDir,
+      star === -1 ? path : path.slice(0, star).replace(/[^/]*$/, ''),
+    ),
+  );
+}
+
+/**
+ * Service that writes the package.json published from `dist/`: a copy of
+ * the package's manifest with
+ * - `main`, `module`, `browser`, `types`, `typings`, `bin` and `exports`
+ *   remapped relative to dist — paths in dist lose their `dist/` prefix and
+ *   paths to TypeScript sources in `srcDir` point at the emitted `.js`
+ *   (or, for `types`, `.d.ts`) files;
+ * - `files` listing what the build put in dist (compiled code, `artifacts`,
+ *   the `.compact` sources and copied files), so nothing else is packed;
+ * - development-only fields (`scripts`, `devDependencies`, `workspaces`,
+ *   `packageManager`, `resolutions`) removed.
+ *
+ * Every remapped path must exist in dist, so a package can't be published
+ * with an entry point the build didn't produce.
+ *
+ * @example
+ * ```typescript
+ * // package.json: { "main": "./dist/index.js", "types": "./src/index.ts" }
+ * await new PackageManifestWriter().write('package.json', 'dist', 'src');
+ * // dist/package.json: { "main": "./index.js", "types": "./index.d.ts", ... }
+ * ```
+ */
+export class PackageManifestWriter {
+  /**
+   * Writes the rewritten manifest to `<distDir>/package.json`. Run it once
+   * dist is complete: `files` lists dist's contents at that point.
+   *
+   * @param from    - Path to the source package.json
+   * @param distDir - Directory published as the package
+   * @param srcDir  - Directory of the package's sources
+   * @returns Path of the written manifest
+   * @throws {ConfigError} If the manifest can't be read, or lists entry
+   *         points missing from dist (every one of them in `issues`)
+   */
+  async write(from: string, distDir: string, srcDir: string): Promise<string> {
+    const manifest = await this.read(from);
+    const packageDir = dirname(from);
+    const layout: Layout = {
+      srcDir: relative(packageDir, srcDir),
+      distDir: relative(packageDir, distDir),
+    };
+
+    const paths: EntryPath[] = [];
+    const rewritten: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(manifest)) {
+      if (DEV_FIELDS.includes(field)) {
+        continue;
+      }
+      rewritten[field] =
+        (ENTRY_FIELDS.includes(field) && typeof value === 'string') ||
+        field === 'bin' ||
+        field === 'exports'
+          ? remapTargets(value, field, layout, TYPES_KEYS.has(field), paths)
+          : value;
+    }
+    rewritten.files = await this.distContents(distDir);
+
+    // `./package.json` is the manifest being written
+    const missing = paths.filter(
+      ({ path }) => path !== './package.json' && !exists(distDir, path),
+    );
+    if (missing.length > 0) {
+      throw new ConfigError(
+        `${from} points at files missing from ${distDir}`,
+        from,
+        missing.map(({ field, path }) => `${field}: ${path} does not exist`),
+      );
+    }
+
+    const to = join(distDir, 'package.json');
+    await mkdir(distDir, { recursive: true });
+    await writeFile(to, `${JSON.stringify(rewritten, null, 2)}\n`);
+    return to;
+  }
+
+  /**
+   * Parses the source manifest.
+   *
+   * @throws {ConfigError} If it is missing, malformed or not a JSON object
+   */
+  private async read(from: string): Promise<Record<string, unknown>> {
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(await readFile(from, 'utf8'));
+    } catch (error) {
+      throw new ConfigError(
+        `Cannot read ${from}: ${(error as Error).message}`,
+        from,
+      );
+    }
+    if (
+      typeof manifest !== 'object' ||
+      manifest === null ||
+      Array.isArray(manifest)
+    ) {
+      throw new ConfigError(`${from} must contain a JSON object`, from);
+    }
+    return manifest as Record<string, unknown>;
+  }
+
+  /**
+   * Top-level entries of dist to publish, sorted: everything but the
+   * manifest itself and TypeScript build info.
+   */
+  private async distContents(distDir: string): Promise<string[]> {
+    const entries = existsSync(distDir) ? await readdir(distDir) : [];
+    return entries
+      .filter(
+        (name) => name !== 'package.json' && !name.endsWith('.tsbuildinfo'),
+      )
+      .sort();
+  }
+}
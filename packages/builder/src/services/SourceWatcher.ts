@@ -0,0 +1,102 @@
+import { watch } from 'node:fs';
+import type { WatchFunction } from '../types/options.ts';
+
+/** Default delay, in milliseconds, used to coalesce bursts of file events. */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+const defaultWatchFn: WatchFunction = (dir, listener) =>
+  watch(dir, { recursive: true }, (_event, filename) => listener(filename));
+
+/**
+ * Service that watches a source directory for `.compact` changes.
+ * Events are debounced so a burst of saves (editors often write a file
+ * several times) results in a single callback, and callbacks never overlap:
+ * changes arriving while one is running are queued for the next.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new SourceWatcher('src', async (files) => {
+ *   console.log('changed:', files);
+ * });
+ * watcher.start();
+ * // ...later
+ * watcher.close();
+ * await watcher.idle();
+ * ```
+ */
+export class SourceWatcher {
+  private readonly srcDir: string;
+  private readonly onChange: (files: string[]) => Promise<void>;
+  private readonly debounceMs: number;
+  private readonly watchFn: WatchFunction;
+  private readonly pending = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running: Promise<void> = Promise.resolve();
+  private handle: { close(): void } | undefined;
+
+  /**
+   * Creates a new SourceWatcher instance.
+   *
+   * @param srcDir   - Directory to watch recursively
+   * @param onChange - Called with the changed `.compact` paths, relative to
+   *                   `srcDir`. Rejections are swallowed; report them inside
+   *                   the callback.
+   * @param options  - Debounce delay and an optional watch function for
+   *                   dependency injection (defaults to recursive `fs.watch`)
+   */
+  constructor(
+    srcDir: string,
+    onChange: (files: string[]) => Promise<void>,
+    options: { debounceMs?: number; watchFn?: WatchFunction } = {},
+  ) {
+    this.srcDir = srcDir;
+    this.onChange = onChange;
+    this.debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+    this.watchFn = options.watchFn ?? defaultWatchFn;
+  }
+
+  /**
+   * Starts watching. Calling it again while already watching is a no-op.
+   */
+  start(): void {
+    this.handle ??= this.watchFn(this.srcDir, (filename) => {
+      if (filename?.endsWith('.compact')) {
+        this.pending.add(filename);
+        this.schedule();
+      }
+    });
+  }
+
+  /**
+   * Stops watching and drops changes that have not been flushed yet.
+   * A callback already in progress is left to finish; see {@link idle}.
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    this.pending.clear();
+    this.handle?.close();
+    this.handle = undefined;
+  }
+
+  /**
+   * Resolves once every queued callback has settled.
+   */
+  idle(): Promise<void> {
+    return this.running;
+  }
+
+  /** (Re)arms the debounce timer. */
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /** Hands the accumulated changes to `onChange` once the previous call settles. */
+  private flush(): void {
+    const files = [...this.pending];
+    this.pending.clear();
+    this.running = this.running
+      .then(() => this.onChange(files))
+      .catch(() => {});
+  }
+}
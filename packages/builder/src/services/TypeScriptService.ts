@@ -0,0 +1,229 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+import type ts from 'typescript';
+import {
+  type Diagnostic,
+  FileNotFoundError,
+  TypeScriptError,
+} from '../types/errors.ts';
+import type { CommandOutput } from '../types/reporter.ts';
+
+/**
+ * Outcome of compiling a TypeScript project: its diagnostics (warnings only,
+ * since errors fail the compilation), their rendering as `stdout`, and the
+ * files written.
+ */
+export interface TypeScriptOutput extends CommandOutput {
+  /** Warnings reported by the compiler */
+  diagnostics: Diagnostic[];
+  /**
+   * Files emitted, including `.tsbuildinfo` files, relative to the working
+   * directory
+   */
+  files: string[];
+}
+
+/** The `typescript` module, loaded on first use. */
+let typescript: Promise<typeof ts> | undefined;
+
+/**
+ * Loads the `typescript` package, an optional peer dependency needed only
+ * by builds that compile TypeScript.
+ *
+ * @throws Error if the package is not installed
+ */
+function loadTypeScript(): Promise<typeof ts> {
+  typescript ??= import('typescript').then(
+    (module) => module.default,
+    (error: unknown) => {
+      typescript = undefined;
+      throw new Error(
+        'Compiling TypeScript needs the typescript package: install it, or skip the step with --skip-tsc',
+        { cause: error },
+      );
+    },
+  );
+  return typescript;
+}
+
+/** A path relative to the working directory when it lies below it. */
+function displayPath(path: string): string {
+  const fromCwd = relative(process.cwd(), path);
+  return fromCwd.startsWith('..') || isAbsolute(fromCwd) ? path : fromCwd;
+}
+
+/**
+ * Converts the errors and warnings among TypeScript diagnostics; messages
+ * and suggestions are dropped. Diagnostics without a file (e.g. invalid
+ * compiler options) are attributed to the first line of the tsconfig.
+ *
+ * @param tsModule    - The `typescript` module
+ * @param diagnostics - Diagnostics reported by the compiler
+ * @param project     - Path to the tsconfig being compiled
+ */
+function toDiagnostics(
+  tsModule: typeof ts,
+  diagnostics: readonly ts.Diagnostic[],
+  project: string,
+): Diagnostic[] {
+  const converted: Diagnostic[] = [];
+  for (const diagnostic of tsModule.sortAndDeduplicateDiagnostics(
+    diagnostics,
+  )) {
+    const { category, file, start, length } = diagnostic;
+    if (
+      category !== tsModule.DiagnosticCategory.Error &&
+      category !== tsModule.DiagnosticCategory.Warning
+    ) {
+      continue;
+    }
+    let location: Pick<
+      Diagnostic,
+      'file' | 'line' | 'column' | 'endLine' | 'endColumn'
+    > = { file: displayPath(project), line: 1, column: 1 };
+    if (file && start !== undefined) {
+      const from = file.getLineAndCharacterOfPosition(start);
+      const to = file.getLineAndCharacterOfPosition(start + (length ?? 0));
+      location = {
+        file: displayPath(file.fileName),
+        line: from.line + 1,
+        column: from.character + 1,
+        endLine: to.line + 1,
+        endColumn: to.character + 1,
+      };
+    }
+    converted.push({
+      ...location,
+      severity:
+        category === tsModule.DiagnosticCategory.Error ? 'error' : 'warning',
+      message: tsModule.flattenDiagnosticMessageText(
+        diagnostic.messageText,
+        '\n',
+      ),
+      code: `TS${diagnostic.code}`,
+    });
+  }
+  return converted;
+}
+
+/**
+ * Renders diagnostics one per line, e.g.
+ * `src/index.ts:3:5: error TS2304: Cannot find name 'x'.`
+ */
+function render(diagnostics: readonly Diagnostic[]): string {
+  return diagnostics
+    .map(
+      (d) =>
+        `${d.file}:${d.line}:${d.column}: ${d.severity} ${d.code}: ${d.message}\n`,
+    )
+    .join('');
+}
+
+/**
+ * Service that compiles a TypeScript project in-process through the
+ * TypeScript compiler API, like `tsc --project <tsconfig>`, returning the
+ * compiler's errors and warnings as structured {@link Diagnostic}s instead
+ * of raw output. A project with `references` is built like
+ * `tsc --build <tsconfig>`: referenced projects are built first, and
+ * projects that are up to date are skipped.
+ *
+ * Files are emitted even when there are errors (unless the project sets
+ * `noEmitOnError`), as `tsc` does, but the compilation fails.
+ *
+ * The `typescript` package is loaded on first use, from the project's
+ * dependencies.
+ *
+ * @example
+ * ```typescript
+ * const { diagnostics, files } = await new TypeScriptService().compile(
+ *   'tsconfig.build.json',
+ * );
+ * ```
+ */
+export class TypeScriptService {
+  /**
+   * Compiles a TypeScript project.
+   *
+   * @param project - Path to its tsconfig, relative to the working directory
+   * @returns Warnings and the files written
+   * @throws {FileNotFoundError} If the tsconfig doesn't exist
+   * @throws {TypeScriptError} If the compiler reports any error
+   * @throws Error if the typescript package is not installed
+   */
+  async compile(project: string): Promise<TypeScriptOutput> {
+    const tsModule = await loadTypeScript();
+    const configPath = resolve(project);
+    if (!tsModule.sys.fileExists(configPath)) {
+      throw new FileNotFoundError(
+        `TypeScript config ${project} does not exist`,
+        project,
+      );
+    }
+
+    const reported: ts.Diagnostic[] = [];
+    const written: string[] = [];
+    const writeFile: ts.WriteFileCallback = (path, data, byteOrderMark) => {
+      tsModule.sys.writeFile(path, data, byteOrderMark);
+      written.push(displayPath(path));
+    };
+
+    const config = tsModule.getParsedCommandLineOfConfigFile(
+      configPath,
+      undefined,
+      {
+        ...tsModule.sys,
+        onUnRecoverableConfigFileDiagnostic: (diagnostic) =>
+          reported.push(diagnostic),
+      },
+    );
+    if (config?.projectReferences?.length) {
+      this.buildReferences(tsModule, configPath, reported, writeFile);
+    } else if (config) {
+      const program = tsModule.createProgram({
+        rootNames: config.fileNames,
+        options: config.options,
+        projectReferences: config.projectReferences,
+        configFileParsingDiagnostics:
+          tsModule.getConfigFileParsingDiagnostics(config),
+      });
+      reported.push(...tsModule.getPreEmitDiagnostics(program));
+      reported.push(...program.emit(undefined, writeFile).diagnostics);
+    }
+
+    const diagnostics = toDiagnostics(tsModule, reported, configPath);
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      throw new TypeScriptError(project, diagnostics, render(diagnostics));
+    }
+    return {
+      stdout: render(diagnostics),
+      stderr: '',
+      diagnostics,
+      files: written,
+    };
+  }
+
+  /**
+   * Builds a project and the projects it references, in dependency order,
+   * like `tsc --build`.
+   *
+   * @param tsModule   - The `typescript` module
+   * @param configPath - Absolute path to the tsconfig
+   * @param reported   - Receives the diagnostics of every project
+   * @param writeFile  - Writes (and records) the emitted files
+   */
+  private buildReferences(
+    tsModule: typeof ts,
+    configPath: string,
+    reported: ts.Diagnostic[],
+    writeFile: ts.WriteFileCallback,
+  ): void {
+    const host = tsModule.createSolutionBuilderHost(
+      tsModule.sys,
+      undefined,
+      (diagnostic) => reported.push(diagnostic),
+      () => {},
+      () => {},
+    );
+    host.writeFile = writeFile;
+    tsModule.createSolutionBuilder(host, [configPath], {}).build();
+  }
+}
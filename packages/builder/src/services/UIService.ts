@@ -1,5 +1,20 @@
 import chalk from 'chalk';
 import ora from 'ora';
+import {
+  describeSourceRoot,
+  directories,
+  summarizePlan,
+  summarizeProfile,
+  summarizeResults,
+} from '../reporters/format.ts';
+import type { SourceRootEvent } from '../types/reporter.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  FileResult,
+  FileStatus,
+  VerifyResult,
+} from '../types/results.ts';
 
 /**
  * Utility service for handling user interface output and formatting.
@@ -18,12 +33,19 @@ export const UIService = {
    *
    * @param output  - Raw output text to format
    * @param colorFn - Chalk color function for styling
+   * @param tag     - Optional label prefixed to every line (e.g. the file name
+   *                  when several files compile concurrently)
    */
-  printOutput(output: string, colorFn: (text: string) => string): void {
+  printOutput(
+    output: string,
+    colorFn: (text: string) => string,
+    tag?: string,
+  ): void {
+    const prefix = tag ? `    [${tag}] ` : '    ';
     const lines = output
       .split('\n')
       .filter((line) => line.trim() !== '')
-      .map((line) => `    ${line}`);
+      .map((line) => `${prefix}${line}`);
     console.log(colorFn(lines.join('\n')));
   },
 
@@ -60,6 +82,15 @@ export const UIService = {
     }
   },
 
+  /**
+   * Displays the source root a multi-root run moved on to.
+   *
+   * @param event - The source root and its position in the run
+   */
+  showSourceRoot(event: SourceRootEvent): void {
+    ora().info(chalk.blue(`[COMPILE] ${describeSourceRoot(event)}`));
+  },
+
   /**
    * Displays compilation start message with file count and optional location.
    *
@@ -88,4 +119,145 @@ export const UIService = {
       chalk.yellow(`[COMPILE] No .compact files found in ${searchLocation}.`),
     );
   },
+
+  /**
+   * Displays a pass/fail table of every file in a run, followed by totals.
+   *
+   * @param results - Per-file results of the run
+   */
+  showSummary(results: readonly FileResult[]): void {
+    const colors: Record<FileStatus, (text: string) => string> = {
+      compiled: chalk.green,
+      skipped: chalk.gray,
+      failed: chalk.red,
+      cancelled: chalk.yellow,
+    };
+    const { rows, totals, failed } = summarizeResults(results);
+
+    const spinner = ora();
+    if (failed > 0) {
+      spinner.fail(chalk.red(`[COMPILE] Summary: ${totals}`));
+    } else if (rows.some((row) => row.status === 'cancelled')) {
+      spinner.warn(chalk.yellow(`[COMPILE] Summary: ${totals}`));
+    } else {
+      spinner.succeed(chalk.green(`[COMPILE] Summary: ${totals}`));
+    }
+    console.log(rows.map((row) => colors[row.status](row.text)).join('\n'));
+  },
+
+  /**
+   * Displays the timing summary of a run: environment vs. compile time and
+   * the slowest files.
+   *
+   * @param profile - Timing profile of the run
+   */
+  showProfile(profile: CompileProfile): void {
+    const { heading, rows } = summarizeProfile(profile);
+    ora().info(chalk.blue(`[COMPILE] ${heading}`));
+    console.log(rows.map((row) => chalk.gray(row)).join('\n'));
+  },
+
+  /**
+   * Displays what a dry run of the build would do: every step with its
+   * actions and the files that would be compiled.
+   *
+   * @param plan - Plan of the build
+   */
+  showPlan(plan: BuildPlan): void {
+    ora().info(chalk.blue('[BUILD] Dry run, nothing is executed:'));
+    for (const { heading, rows } of summarizePlan(plan)) {
+      ora().info(chalk.blue(heading));
+      if (rows.length > 0) {
+        console.log(rows.map((row) => chalk.gray(row)).join('\n'));
+      }
+    }
+  },
+
+  /**
+   * Displays the artifact directories removed (or, in a dry run, found) by
+   * `prune`.
+   *
+   * @param dirs   - Orphaned artifact directories
+   * @param dryRun - Whether the directories were only listed
+   */
+  showPruned(dirs: readonly string[], dryRun: boolean): void {
+    const spinner = ora();
+    if (dirs.length === 0) {
+      spinner.info(chalk.gray('[COMPILE] No orphaned artifacts to prune'));
+      return;
+    }
+    spinner.info(
+      chalk.blue(
+        dryRun
+          ? `[COMPILE] Would prune ${dirs.length} orphaned artifact ${directories(dirs.length)}:`
+          : `[COMPILE] Pruned ${dirs.length} orphaned artifact ${directories(dirs.length)}:`,
+      ),
+    );
+    console.log(dirs.map((dir) => chalk.gray(`    ${dir}`)).join('\n'));
+  },
+
+  /**
+   * Displays the outcome of `verify`: a success line, or every stale or
+   * incomplete artifact with its problems.
+   *
+   * @param result - Result of the verification
+   */
+  showVerification(result: VerifyResult): void {
+    const spinner = ora();
+    const failed = result.files.filter((file) => file.problems.length > 0);
+    if (failed.length === 0) {
+      spinner.succeed(
+        chalk.green(
+          `[VERIFY] All ${result.files.length} artifact(s) are up to date`,
+        ),
+      );
+      return;
+    }
+
+    spinner.fail(
+      chalk.red(
+        `[VERIFY] ${failed.length} of ${result.files.length} artifact(s) are stale or incomplete:`,
+      ),
+    );
+    for (const file of failed) {
+      console.log(chalk.red(`    ✖ ${file.file} (${file.outputDir})`));
+      console.log(
+        file.problems
+          .map((problem) => chalk.gray(`        ${problem}`))
+          .join('\n'),
+      );
+    }
+  },
+
+  /**
+   * Displays the idle message shown while watching for changes.
+   *
+   * @param srcDir - Directory being watched
+   */
+  showWatching(srcDir: string): void {
+    const spinner = ora();
+    spinner.info(
+      chalk.blue(`[WATCH] Watching ${srcDir}/ for changes (Ctrl-C to exit)`),
+    );
+  },
+
+  /**
+   * Displays the files that triggered a watch-mode recompilation.
+   *
+   * @param files - Changed `.compact` files, relative to srcDir
+   */
+  showChanges(files: readonly string[]): void {
+    const spinner = ora();
+    spinner.info(chalk.blue(`[WATCH] Changed: ${files.join(', ')}`));
+  },
+
+  /**
+   * Displays a failure that watch mode recovered from.
+   *
+   * @param message - Error message to show
+   */
+  showWatchError(message: string): void {
+    const spinner = ora();
+    spinner.fail(chalk.red(`[WATCH] ${message}`));
+  },
 };
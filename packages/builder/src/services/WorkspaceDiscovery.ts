@@ -0,0 +1,194 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, normalize } from 'node:path';
+import { ConfigError } from '../types/errors.ts';
+import { GlobMatcher } from './GlobMatcher.ts';
+
+/**
+ * A package listed by the `workspaces` field of a package.json.
+ */
+export interface WorkspacePackage {
+  /** Package name, or its directory when package.json has no `name` */
+  name: string;
+  /** Package directory, relative to the workspace root */
+  dir: string;
+}
+
+/** Directories never searched for workspace packages. */
+function isSearchable(name: string): boolean {
+  return name !== 'node_modules' && !name.startsWith('.');
+}
+
+/**
+ * Service that lists the packages of a Yarn / npm / pnpm-style workspace
+ * from the `workspaces` field of the root package.json — either an array of
+ * patterns or `{ packages: [...] }`.
+ *
+ * Each pattern is matched one path segment at a time against directories
+ * that contain a package.json: `*`, `?`, character classes and braces match
+ * within a segment, `**` matches any number of directories, and a leading
+ * `!` removes matching packages. `node_modules` and dot-directories are
+ * never searched.
+ *
+ * @example
+ * ```typescript
+ * // package.json: { "workspaces": ["packages/*", "!packages/docs"] }
+ * const packages = await new WorkspaceDiscovery().findPackages();
+ * // [{ name: '@acme/token', dir: 'packages/token' }, ...]
+ * ```
+ */
+export class WorkspaceDiscovery {
+  private readonly root: string;
+
+  /**
+   * Creates a new WorkspaceDiscovery instance.
+   *
+   * @param root - Directory holding the workspace's root package.json
+   */
+  constructor(root = '.') {
+    this.root = root;
+  }
+
+  /**
+   * Lists the workspace packages in the order their patterns are declared,
+   * each directory once.
+   *
+   * @returns Packages with their directories relative to `root`
+   * @throws {ConfigError} If package.json is missing, malformed or has no
+   *         `workspaces` patterns
+   */
+  async findPackages(): Promise<WorkspacePackage[]> {
+    const patterns = await this.readPatterns();
+    const excluded = new GlobMatcher(
+      patterns
+        .filter((pattern) => pattern.startsWith('!'))
+        .map((pattern) => `/${normalize(pattern.slice(1))}`),
+    );
+
+    const dirs = new Set<string>();
+    for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+      const segments = normalize(pattern)
+        .split(/[\\/]/)
+        .filter((segment) => segment !== '' && segment !== '.');
+      for (const dir of await this.expand('', segments)) {
+        if (!excluded.matches(dir)) {
+          dirs.add(dir);
+        }
+      }
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of dirs) {
+      const manifest = await this.readManifest(join(this.root, dir));
+      if (manifest !== undefined) {
+        packages.push({
+          name: typeof manifest.name === 'string' ? manifest.name : dir,
+          dir,
+        });
+      }
+    }
+    return packages;
+  }
+
+  /**
+   * Reads the `workspaces` patterns of the root package.json.
+   *
+   * @throws {ConfigError} If the file or the field is missing or invalid
+   */
+  private async readPatterns(): Promise<string[]> {
+    const file = join(this.root, 'package.json');
+    const manifest = await this.readManifest(this.root);
+    if (manifest === undefined) {
+      throw new ConfigError(
+        `Workspace mode needs a readable package.json in ${this.root}`,
+        file,
+      );
+    }
+    const { workspaces } = manifest;
+    const patterns = Array.isArray(workspaces)
+      ? workspaces
+      : (workspaces as { packages?: unknown } | undefined)?.packages;
+    if (
+      !Array.isArray(patterns) ||
+      patterns.length === 0 ||
+      !patterns.every((pattern) => typeof pattern === 'string')
+    ) {
+      throw new ConfigError(
+        `${file} has no "workspaces" patterns to discover packages from`,
+        file,
+      );
+    }
+    return patterns;
+  }
+
+  /**
+   * Parses the package.json in `dir`; undefined when there is none or it is
+   * not a JSON object.
+   */
+  private async readManifest(
+    dir: string,
+  ): Promise<Record<string, unknown> | undefined> {
+    const file = join(dir, 'package.json');
+    if (!existsSync(file)) {
+      return undefined;
+    }
+    try {
+      const manifest: unknown = JSON.parse(await readFile(file, 'utf8'));
+      return typeof manifest === 'object' &&
+        manifest !== null &&
+        !Array.isArray(manifest)
+        ? (manifest as Record<string, unknown>)
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Expands the remaining pattern segments below `dir`.
+   *
+   * @param dir      - Directory matched so far, relative to `root`
+   * @param segments - Pattern segments still to match
+   * @returns Matching directories, relative to `root`
+   */
+  private async expand(dir: string, segments: string[]): Promise<string[]> {
+    if (segments.length === 0) {
+      return dir === '' ? [] : [dir];
+    }
+    const [segment, ...rest] = segments;
+
+    if (segment === '**') {
+      const matches = await this.expand(dir, rest);
+      for (const child of await this.subdirectories(dir)) {
+        matches.push(...(await this.expand(join(dir, child), segments)));
+      }
+      return matches;
+    }
+    if (!/[*?[{]/.test(segment)) {
+      return existsSync(join(this.root, dir, segment))
+        ? this.expand(join(dir, segment), rest)
+        : [];
+    }
+
+    // A slash-free pattern matched against a bare name is a segment match
+    const matcher = new GlobMatcher([segment]);
+    const matches: string[] = [];
+    for (const child of await this.subdirectories(dir)) {
+      if (matcher.matches(child)) {
+        matches.push(...(await this.expand(join(dir, child), rest)));
+      }
+    }
+    return matches;
+  }
+
+  /** Searchable subdirectory names of `dir` (relative to `root`), sorted. */
+  private async subdirectories(dir: string): Promise<string[]> {
+    const entries = await readdir(join(this.root, dir), {
+      withFileTypes: true,
+    });
+    return entries
+      .filter((entry) => entry.isDirectory() && isSearchable(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+  }
+}
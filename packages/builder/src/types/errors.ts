@@ -47,6 +47,70 @@ export class CompactCliNotFoundError extends Error {
   }
 }
 
+/**
+ * A single problem reported by the Compact compiler, parsed from its output,
+ * or by the TypeScript step of a build.
+ *
+ * @interface Diagnostic
+ *
+ * @prop {string} file path of the offending source, as reported by compactc
+ * @prop {number} line 1-based line of the start of the offending span
+ * @prop {number} column 1-based column of the start of the offending span
+ * @prop {number} [endLine] 1-based line of the end of the span, when reported
+ * @prop {number} [endColumn] 1-based column of the end of the span, when reported
+ * @prop {'error' | 'warning'} severity whether the problem fails compilation
+ * @prop {string} message the compiler's description of the problem
+ * @prop {string} [code] the compiler's code for the problem, e.g. `TS2304`
+ */
+export interface Diagnostic {
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: 'error' | 'warning';
+  message: string;
+  code?: string;
+}
+
+/**
+ * Custom error thrown when the installed Compact toolchain does not satisfy
+ * the version pinned by the project (`.compact-version`, `compact.toolchain`
+ * in package.json, or the `toolchain` option). Carries the requirement and a
+ * ready-to-run install command.
+ *
+ * @class ToolchainVersionMismatchError
+ * @extends Error
+ */
+export class ToolchainVersionMismatchError extends Error {
+  public readonly required: string;
+  public readonly installed?: string;
+  public readonly installHint: string;
+
+  /**
+   * Creates a new ToolchainVersionMismatchError instance.
+   *
+   * @param required - Pinned version or semver range
+   * @param installed - Installed toolchain version, if it could be determined
+   * @param installHint - Command that installs a matching toolchain
+   */
+  constructor(
+    required: string,
+    installed: string | undefined,
+    installHint: string,
+  ) {
+    super(
+      installed
+        ? `Compact toolchain ${installed} does not satisfy the required version ${required}`
+        : `Compact toolchain ${required} is required but not installed`,
+    );
+    this.required = required;
+    this.installed = installed;
+    this.installHint = installHint;
+    this.name = 'ToolchainVersionMismatchError';
+  }
+}
+
 /**
  * Custom error thrown when compilation of a .compact file fails.
  * Contains additional context about which file failed to compile,
@@ -57,21 +121,90 @@ export class CompactCliNotFoundError extends Error {
  */
 export class CompilationError extends Error {
   public readonly file?: string;
+  public readonly diagnostics: Diagnostic[];
 
   /**
    * Creates a new CompilationError instance.
    *
    * @param message - Error message describing the compilation failure
    * @param file - Optional relative path to the file that failed to compile
+   * @param cause - Optional underlying error (usually the failed child process)
+   * @param diagnostics - Problems parsed from the compiler output, if any
    */
-  constructor(message: string, file?: string, cause?: unknown) {
+  constructor(
+    message: string,
+    file?: string,
+    cause?: unknown,
+    diagnostics: Diagnostic[] = [],
+  ) {
     super(message, { cause });
 
     this.file = file;
+    this.diagnostics = diagnostics;
     this.name = 'CompilationError';
   }
 }
 
+/**
+ * Custom error thrown when the TypeScript step of a build reports errors.
+ * Besides the diagnostics, it carries their rendering as `stdout` (and an
+ * empty `stderr`), so reporters print it like the output of a failed command.
+ *
+ * @class TypeScriptError
+ * @extends Error
+ */
+export class TypeScriptError extends Error {
+  public readonly project: string;
+  public readonly diagnostics: Diagnostic[];
+  public readonly stdout: string;
+  public readonly stderr = '';
+
+  /**
+   * Creates a new TypeScriptError instance.
+   *
+   * @param project - Path to the tsconfig that failed to compile
+   * @param diagnostics - Problems reported by the TypeScript compiler
+   * @param stdout - The diagnostics rendered one per line
+   */
+  constructor(project: string, diagnostics: Diagnostic[], stdout: string) {
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+    super(
+      `TypeScript compilation of ${project} failed with ${errors} error${errors === 1 ? '' : 's'}`,
+    );
+    this.project = project;
+    this.diagnostics = diagnostics;
+    this.stdout = stdout;
+    this.name = 'TypeScriptError';
+  }
+}
+
+/**
+ * Custom error thrown at the end of a `continueOnError` run in which one or
+ * more files failed to compile. Lists every failure so a single broken
+ * contract doesn't hide the others.
+ *
+ * @class AggregateCompilationError
+ * @extends Error
+ */
+export class AggregateCompilationError extends Error {
+  public readonly errors: CompilationError[];
+  public readonly total: number;
+
+  /**
+   * Creates a new AggregateCompilationError instance.
+   *
+   * @param errors - Every compilation failure, in completion order
+   * @param total - Number of files in the run
+   */
+  constructor(errors: CompilationError[], total: number) {
+    const files = errors.map((error) => error.file ?? 'unknown').join(', ');
+    super(`${errors.length} of ${total} file(s) failed to compile: ${files}`);
+    this.errors = errors;
+    this.total = total;
+    this.name = 'AggregateCompilationError';
+  }
+}
+
 /**
  * Custom error thrown when a specified target directory does not exist.
  * Provides specific information about which directory was not found,
@@ -95,3 +228,101 @@ export class DirectoryNotFoundError extends Error {
     this.name = 'DirectoryNotFoundError';
   }
 }
+
+/**
+ * Custom error thrown when a `.compact` file named on the command line (or in
+ * the `files` option) does not exist or lies outside the source directory.
+ *
+ * @class FileNotFoundError
+ * @extends Error
+ */
+export class FileNotFoundError extends Error {
+  public readonly file: string;
+
+  /**
+   * Creates a new FileNotFoundError instance.
+   *
+   * @param message - Error message describing the file issue
+   * @param file - The file path as it was given
+   */
+  constructor(message: string, file: string) {
+    super(message);
+    this.file = file;
+    this.name = 'FileNotFoundError';
+  }
+}
+
+/**
+ * Custom error thrown when git cannot list the files changed since a ref,
+ * e.g. because the working directory is not inside a git repository or the
+ * ref does not exist.
+ *
+ * @class GitError
+ * @extends Error
+ */
+export class GitError extends Error {
+  public readonly ref: string;
+
+  /**
+   * Creates a new GitError instance.
+   *
+   * @param message - Error message, including git's own error output
+   * @param ref - The ref the changes were requested against
+   */
+  constructor(message: string, ref: string) {
+    super(message);
+    this.ref = ref;
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Custom error thrown when a `compact.config.*` file cannot be loaded or
+ * contains invalid options. Every problem found is listed in `issues` so
+ * users can fix them all in one pass.
+ *
+ * @class ConfigError
+ * @extends Error
+ */
+export class ConfigError extends Error {
+  public readonly file: string;
+  public readonly issues: string[];
+
+  /**
+   * Creates a new ConfigError instance.
+   *
+   * @param message - Error message describing the configuration problem
+   * @param file - Path to the offending config file
+   * @param issues - Individual validation problems, if any
+   */
+  constructor(message: string, file: string, issues: string[] = []) {
+    super(message);
+    this.file = file;
+    this.issues = issues;
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Custom error thrown when a run is cancelled through its `AbortSignal`
+ * (e.g. on Ctrl-C). Running toolchain processes are killed; `files` lists
+ * every file that did not finish — those in progress and those not started.
+ *
+ * @class CancellationError
+ * @extends Error
+ */
+export class CancellationError extends Error {
+  public readonly files: string[];
+
+  /**
+   * Creates a new CancellationError instance.
+   *
+   * @param message - Error message describing what was cancelled
+   * @param files - Paths (relative to `srcDir`) of the unfinished files
+   */
+  constructor(message: string, files: string[] = []) {
+    super(message);
+    this.files = files;
+    this.name = 'CancellationError';
+  }
+}
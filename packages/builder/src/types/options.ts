@@ -13,6 +13,9 @@ export const DEFAULT_SRC_DIR = 'src';
 /** Default output directory for compiled artifacts. */
 export const DEFAULT_OUT_DIR = 'artifacts';
 
+/** Default TypeScript project the builder compiles into `dist/`. */
+export const DEFAULT_TSCONFIG = 'tsconfig.build.json';
+
 /**
  * Default `.compact` glob patterns the builder strips from `dist/` when the
  * user hasn't supplied an explicit `--exclude` list. Covers both common mock
@@ -33,13 +36,75 @@ export const DEFAULT_EXCLUDE_PATTERNS: readonly string[] = [
  *
  * @param file - The binary to invoke (e.g. `'compact'`)
  * @param args - Positional arguments passed verbatim to the binary
+ * @param options - Abort signal for the invocation
  * @returns Promise resolving to the captured stdout/stderr
  */
 export type ExecFunction = (
   file: string,
   args: readonly string[],
+  options?: ExecOptions,
 ) => Promise<{ stdout: string; stderr: string }>;
 
+/**
+ * Per-invocation options passed to an {@link ExecFunction}.
+ */
+export interface ExecOptions {
+  /**
+   * Kills the process (and everything it spawned) when aborted; the returned
+   * promise then rejects.
+   */
+  signal?: AbortSignal;
+  /** Directory the process runs in (default: the working directory) */
+  cwd?: string;
+}
+
+/**
+ * Options for a single `compile()` or `build()` call.
+ */
+export interface RunOptions {
+  /**
+   * Cancels the run when aborted: running toolchain processes are killed, no
+   * further files are started, and the run rejects with a `CancellationError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Function type for watching a directory tree.
+ *
+ * Matches the shape of a recursive `fs.watch`: the listener receives the
+ * changed path relative to `dir` (or null when the platform cannot tell).
+ *
+ * @param dir      - Directory to watch recursively
+ * @param listener - Called for every change event
+ * @returns Handle used to stop watching
+ */
+export type WatchFunction = (
+  dir: string,
+  listener: (filename: string | null) => void,
+) => { close(): void };
+
+/**
+ * Options for `CompactCompiler.watch` and `CompactBuilder.watch`.
+ */
+export interface WatchOptions {
+  /**
+   * Stops watching when aborted, cancelling any compilation in progress;
+   * without it, watching never ends.
+   */
+  signal?: AbortSignal;
+  /** Delay used to coalesce bursts of file events (default: 300ms). */
+  debounceMs?: number;
+  /**
+   * Called after every successful (re)compilation with the files that were
+   * compiled; not called when a change compiles nothing (e.g. a file outside
+   * the targets). Errors thrown here are reported like compile errors.
+   */
+  onCompiled?: (files: string[]) => Promise<void>;
+  /** Custom watch function for dependency injection (default: `fs.watch`). */
+  watchFn?: WatchFunction;
+}
+
 /**
  * Configuration options for the Compact compiler CLI.
  *
@@ -71,27 +136,205 @@ export interface CompilerOptions {
   /** Output directory for compiled artifacts (default: 'artifacts') */
   outDir?: string;
   /**
-   * Glob-style patterns to exclude `.compact` files from both the compiler's
-   * file discovery and the builder's `.compact` copy step.
-   * - Patterns without `/` match against the filename only (e.g. `'Mock*'`).
-   * - Patterns with `/` match against the path as `find <srcDir>` would emit
-   *   it (e.g. `'*\/archive\/*'`, matching `src/archive/Foo.compact`). This is
-   *   the same semantic as `find -path '<pattern>'`.
+   * Several source directories compiled in one run, each into its own output
+   * directory. A root without `outDir` writes to `outDir` resolved against
+   * the root's parent directory, so `packages/token/src` compiles to
+   * `packages/token/artifacts` by default. Every other option applies to
+   * each root, and `srcDir` is ignored. The run reports a single combined
+   * summary in which file paths include their root; `files` must then be
+   * given relative to the working directory.
+   *
+   * A single root is the same as setting `srcDir` (and `outDir`).
+   */
+  sources?: SourceRoot[];
+  /**
+   * Compile every workspace package (from the `workspaces` field of the
+   * package.json in the working directory) that has `.compact` files in its
+   * `srcDir`, each into its own `outDir`, both resolved against the package
+   * directory. Takes precedence over `sources`.
+   * @default false
+   */
+  workspaces?: boolean;
+  /**
+   * Patterns of `.compact` files to leave out of both the compiler's file
+   * discovery and the builder's `.compact` copy step, in `.gitignore` syntax
+   * relative to `srcDir` (see `GlobMatcher`):
+   * - `'Mock*'` matches a file or directory name at any depth.
+   * - `'archive/'` or `'archive/**'` matches everything in `srcDir/archive`.
+   * - `'**\/*.mock.compact'`, `'{access,token}/Test*'` and `'[A-C]*'` work
+   *   as in a shell; `'!archive/Keep.compact'` re-includes a file.
+   *
+   * Patterns may also be written relative to the working directory
+   * (`'src/archive/**'`).
    *
    * Default: `undefined` (no excludes for the compiler). The builder
    * substitutes its own default ({@link DEFAULT_EXCLUDE_PATTERNS}) when
    * undefined; pass an explicit `[]` to disable that too.
    */
   exclude?: string[];
+  /**
+   * Patterns a `.compact` file must match to be compiled and copied to
+   * `dist/`, with the same syntax as {@link CompilerOptions.exclude}.
+   * Excludes still apply to included files.
+   * Default: `undefined` (every file).
+   */
+  include?: string[];
+  /**
+   * Compile only these `.compact` files, plus the contracts elsewhere in
+   * `srcDir` that import them. Paths may be relative to the working
+   * directory (`'src/token/FungibleToken.compact'`) or to `srcDir`
+   * (`'token/FungibleToken.compact'`). Files outside `targetDir` or matched
+   * by `exclude` are left out.
+   * Default: `undefined` (every discovered file).
+   */
+  files?: string[];
+  /**
+   * Compile only the `.compact` files that changed since this git ref
+   * (committed, staged, unstaged or untracked), plus the contracts that
+   * import them. Requires the working directory to be inside a git
+   * repository. Combines with `files` and `targetDir`: a file must match all
+   * of them.
+   */
+  changedSince?: string;
+  /**
+   * Maximum number of `.compact` files compiled at the same time.
+   * Values above 1 switch progress output from a live spinner to one static
+   * line per event, and tag compiler output with the file it belongs to.
+   * @default 1
+   */
+  concurrency?: number;
+  /**
+   * Recompile every file even when the incremental cache reports it as up to
+   * date. The cache manifest is still refreshed.
+   * @default false
+   */
+  force?: boolean;
+  /**
+   * Per-file settings keyed by glob pattern, e.g.
+   * `{ 'src/mocks/**': { flags: '--skip-zk' } }`. Patterns use the same
+   * matching rules as {@link CompilerOptions.exclude}, so they may be written
+   * relative to `srcDir` (`mocks/**`) or to the working directory
+   * (`src/mocks/**`). The flags of every matching entry are appended, in
+   * declaration order, to {@link CompilerOptions.flags} for that file.
+   */
+  overrides?: Record<string, FileOverride>;
+  /**
+   * Keep compiling the remaining files after a failure instead of stopping at
+   * the first one. The run ends with a pass/fail summary table and, if any
+   * file failed, an `AggregateCompilationError` listing every failure.
+   * @default false
+   */
+  continueOnError?: boolean;
+  /**
+   * Output format of a run.
+   * - `'spinner'` (default): human-readable progress and compiler output.
+   * - `'json'`: progress still goes to stderr, but raw compiler and build-step
+   *   output is not printed, leaving stdout free for the result document the
+   *   CLI emits (see `CompileResult` / `BuildResult`).
+   * - `'plain'`: uncolored, line-per-event output without spinners, for CI
+   *   and other non-TTY logs.
+   * - `'github'`: `plain`, with each compiled file's output in a collapsible
+   *   `::group::` block and diagnostics emitted as `::error` / `::warning`
+   *   annotations that GitHub Actions shows inline.
+   * - `'junit=<path>'`: `plain`, and writes a JUnit XML report with one
+   *   testcase per contract to `<path>` when the run ends.
+   * Ignored when a `Reporter` is passed to the constructor.
+   * @default 'spinner'
+   */
+  reporter?: ReporterFormat;
+  /**
+   * Toolchain version (`'0.26.0'`) or semver range (`'^0.26.0'`) the project
+   * requires. Environment validation fails with a
+   * `ToolchainVersionMismatchError` when the toolchain doesn't satisfy it.
+   * An exact version is also used as {@link CompilerOptions.version} when no
+   * `+<version>` is given. `loadConfig` fills this in from `.compact-version`
+   * or the `compact.toolchain` field of package.json.
+   */
+  toolchain?: string;
+  /**
+   * Maximum time, in milliseconds, a single toolchain invocation may run
+   * before it is killed and the file fails with a timeout error.
+   * @default undefined (no limit)
+   */
+  timeout?: number;
+  /**
+   * After a successful compile, delete artifact directories in `outDir` whose
+   * source no longer exists (see `CompactCompiler.prune`).
+   * @default false
+   */
+  prune?: boolean;
+  /**
+   * Write a JSON timing profile of each `compile()` run to this path: the
+   * environment validation and compile times, and the time the toolchain
+   * spent on each file, slowest first (see `CompileProfile`). Parent
+   * directories are created as needed.
+   */
+  profile?: string;
+  /**
+   * Only list what `prune` would delete, without deleting anything. The
+   * builder's `plan()` sets it to preview the whole build (`--dry-run`).
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * A source directory in a multi-root run (see {@link CompilerOptions.sources}).
+ */
+export interface SourceRoot {
+  /** Directory containing .compact files */
+  srcDir: string;
+  /** Output directory for the root's artifacts */
+  outDir?: string;
+}
+
+/**
+ * A source root with its output directory and package resolved.
+ */
+export interface ResolvedSourceRoot {
+  /** Display name: the package name in workspace mode, else `srcDir` */
+  name: string;
+  /** Directory of the package the root belongs to (`.` for a single root) */
+  packageDir: string;
+  /** Directory containing .compact files */
+  srcDir: string;
+  /** Output directory for the root's artifacts */
+  outDir: string;
+}
+
+/**
+ * Settings applied to the files matched by a {@link CompilerOptions.overrides}
+ * pattern.
+ */
+export interface FileOverride {
+  /** Compiler flags appended to the base flags for matching files */
+  flags?: string;
 }
 
+/** Output formats accepted by {@link CompilerOptions.reporter}, as shown in help and errors. */
+export const REPORTER_FORMATS = [
+  'spinner',
+  'json',
+  'plain',
+  'github',
+  'junit=<path>',
+] as const;
+
+/** One of {@link REPORTER_FORMATS}; `junit` carries the report path. */
+export type ReporterFormat =
+  | 'spinner'
+  | 'json'
+  | 'plain'
+  | 'github'
+  | `junit=${string}`;
+
 /**
  * Subset of {@link CompilerOptions} consumed by `CompilerService` when
  * compiling individual files.
  */
 export type CompilerServiceOptions = Pick<
   CompilerOptions,
-  'hierarchical' | 'srcDir' | 'outDir'
+  'hierarchical' | 'srcDir' | 'outDir' | 'timeout'
 >;
 
 /**
@@ -110,18 +353,114 @@ export type CompilerServiceOptions = Pick<
  */
 export interface BuilderOnlyOptions {
   /**
-   * If true, runs `rm -rf dist && mkdir -p dist` before building.
+   * If true, empties `dist/` before building.
    * Use when you want a fully clean `dist/` on every build.
    * @default false
    */
   cleanDist?: boolean;
   /**
    * Additional file paths to copy into `dist/` for distribution
-   * (e.g. `['package.json', '../README.md']`). Paths are relative to cwd.
-   * Each entry is copied individually with `cp <path> dist/`.
+   * (e.g. `['package.json', '../README.md']`). Paths are relative to cwd,
+   * or to each package directory when building several source roots.
+   * Each entry — a file or a whole directory — is copied to
+   * `dist/<name>`; a missing entry fails the build.
    * @default []
    */
   copyToDist?: string[];
+  /**
+   * TypeScript project compiled by the build, relative to cwd (or to each
+   * package directory when building several source roots). A project with
+   * `references` is built like `tsc --build`.
+   * @default 'tsconfig.build.json'
+   */
+  tsconfig?: string;
+  /**
+   * If true, leaves out the TypeScript step, e.g. for packages without
+   * TypeScript sources or that compile them separately.
+   * @default false
+   */
+  skipTsc?: boolean;
+  /**
+   * If true, writes `dist/package.json` from the package's manifest, for
+   * publishing from `dist/`: `main`, `module`, `types`, `bin`, `exports` and
+   * the like are remapped relative to dist (TypeScript sources to their
+   * emitted files), `files` lists what the build put in dist, and
+   * `scripts`, `devDependencies` and other development-only fields are
+   * removed. The build fails if an entry point doesn't exist in dist.
+   * Written last, after the `afterDist` hooks; it replaces a
+   * `package.json` copied with `copyToDist`.
+   * @default false
+   */
+  packageJson?: boolean;
+  /**
+   * Hooks run before the `.compact` files are compiled, in the working
+   * directory. In watch mode they run once, before the first build.
+   */
+  beforeCompile?: BuildHook | BuildHook[];
+  /**
+   * Hooks run after a successful compile, before any other build step, in
+   * the working directory.
+   */
+  afterCompile?: BuildHook | BuildHook[];
+  /**
+   * Hooks run just before TypeScript is compiled (after `cleanDist`), once
+   * per source root in its package directory.
+   */
+  beforeTsc?: BuildHook | BuildHook[];
+  /**
+   * Hooks run once `dist/` is complete (before `packageJson` writes its
+   * manifest), once per source root in its package directory.
+   */
+  afterDist?: BuildHook | BuildHook[];
+  /**
+   * Named custom steps, each run at an insertion point after the hooks of
+   * that point (e.g. `{ name: 'Generating docs', at: 'afterDist', run:
+   * 'yarn docs' }`).
+   * @default []
+   */
+  steps?: CustomBuildStep[];
+}
+
+/** Points of the build pipeline where hooks and custom steps run, in order. */
+export const BUILD_HOOK_POINTS = [
+  'beforeCompile',
+  'afterCompile',
+  'beforeTsc',
+  'afterDist',
+] as const;
+
+/** One of {@link BUILD_HOOK_POINTS}. */
+export type BuildHookPoint = (typeof BUILD_HOOK_POINTS)[number];
+
+/**
+ * Context passed to a function hook.
+ */
+export interface BuildHookContext {
+  /** Directory the hook runs in: the working or the package directory */
+  cwd: string;
+  /** Aborted when the build is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * A build hook: a command line run through the system shell, or a function
+ * (only available in `compact.config.{ts,mjs,js}`). A non-zero exit status
+ * or a rejected promise fails the build.
+ */
+export type BuildHook =
+  | string
+  | ((context: BuildHookContext) => void | Promise<void>);
+
+/**
+ * A named build step added at one of the {@link BUILD_HOOK_POINTS}.
+ */
+export interface CustomBuildStep {
+  /** Progress message of the step */
+  name: string;
+  /** Insertion point the step runs at */
+  at: BuildHookPoint;
+  /** Command line or function the step runs */
+  run: BuildHook;
 }
 
 /**
@@ -130,14 +469,143 @@ export interface BuilderOnlyOptions {
  */
 export type BuilderOptions = CompilerOptions & BuilderOnlyOptions;
 
+/**
+ * Empties a directory: removes it with everything in it, then recreates it.
+ */
+export interface CleanOperation {
+  type: 'clean';
+  dir: string;
+}
+
+/**
+ * Creates a directory and any missing parents.
+ */
+export interface MkdirOperation {
+  type: 'mkdir';
+  dir: string;
+}
+
+/**
+ * Copies a file, or a directory with everything in it, to `to`, overwriting
+ * existing files. A missing `from` is an error unless `optional` is set, in
+ * which case nothing is copied. `exclude` leaves out the files of a
+ * directory matching its patterns (`GlobMatcher` syntax relative to `from`).
+ */
+export interface CopyTreeOperation {
+  type: 'copy-tree';
+  from: string;
+  to: string;
+  optional?: boolean;
+  exclude?: readonly string[];
+}
+
+/**
+ * Copies the files below `from` matching `patterns` into `to`, keeping their
+ * relative paths or, with `flatten`, only their names. `include` and
+ * `exclude` narrow the selection the way they narrow file discovery; all
+ * patterns use `GlobMatcher` syntax relative to `from`. A missing
+ * `from` holds no files.
+ */
+export interface CopyGlobOperation {
+  type: 'copy-glob';
+  from: string;
+  to: string;
+  patterns: readonly string[];
+  include?: readonly string[];
+  exclude?: readonly string[];
+  flatten?: boolean;
+}
+
+/**
+ * Removes every file and directory below `dir` matching `patterns`
+ * (`GlobMatcher` syntax relative to `dir`). A missing `dir` holds
+ * nothing to remove.
+ */
+export interface RemoveMatchingOperation {
+  type: 'remove-matching';
+  dir: string;
+  patterns: readonly string[];
+}
+
+/**
+ * Runs an executable with an argument list, without a shell.
+ */
+export interface RunCommandOperation {
+  type: 'run-command';
+  command: string;
+  args?: readonly string[];
+}
+
+/**
+ * Compiles a TypeScript project in-process through the compiler API, like
+ * `tsc --project`, or `tsc --build` when it has `references`. Errors and
+ * warnings are reported as structured diagnostics.
+ */
+export interface TypeScriptOperation {
+  type: 'typescript';
+  /** Path to the project's tsconfig */
+  project: string;
+}
+
+/**
+ * Writes `<dist>/package.json`: the manifest at `from`, rewritten to be
+ * published from `dist` — entry points remapped, `files` listing dist's
+ * contents and development-only fields removed (see `PackageManifestWriter`).
+ */
+export interface PackageManifestOperation {
+  type: 'package-manifest';
+  /** Path to the source package.json */
+  from: string;
+  /** Directory the package is published from */
+  dist: string;
+  /** Directory of the package's sources, whose entry points are remapped */
+  srcDir: string;
+}
+
+/**
+ * Runs a command line through the system shell (`/bin/sh -c`, or `cmd.exe`
+ * on Windows); used for hooks and custom steps given as strings.
+ */
+export interface ShellOperation {
+  type: 'shell';
+  command: string;
+}
+
+/**
+ * Calls a function in-process; used for hooks and custom steps given as
+ * functions.
+ */
+export interface FunctionOperation {
+  type: 'function';
+  run: (context: BuildHookContext) => void | Promise<void>;
+}
+
+/**
+ * A typed operation of a {@link BuildStep}, executed in-process with Node's
+ * filesystem APIs or the TypeScript compiler API (or, for `run-command` and
+ * `shell`, as a child process).
+ * Paths are relative to the step's `cwd`.
+ */
+export type BuildOperation =
+  | CleanOperation
+  | MkdirOperation
+  | CopyTreeOperation
+  | CopyGlobOperation
+  | RemoveMatchingOperation
+  | RunCommandOperation
+  | TypeScriptOperation
+  | PackageManifestOperation
+  | ShellOperation
+  | FunctionOperation;
+
 /**
  * Single build step executed by `CompactBuilder`.
  */
 export interface BuildStep {
-  /** Shell command to execute. */
-  cmd: string;
   /** Human-readable progress message. */
   msg: string;
-  /** Optional explicit shell (e.g. `'/bin/bash'`) when bash features are required. */
-  shell?: string;
+  /** Operations run in order; the step stops at the first that fails. */
+  operations: BuildOperation[];
+  /** Directory the operations' paths are relative to (default: the working directory). */
+  cwd?: string;
 }
@@ -0,0 +1,164 @@
+import type { ResolvedSourceRoot } from './options.ts';
+import type {
+  BuildPlan,
+  CompileProfile,
+  CompileResult,
+  FileResult,
+  StepResult,
+  VerifyResult,
+} from './results.ts';
+
+/**
+ * Output captured from a child process (the compiler or a build step).
+ */
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Environment details reported once validation succeeds.
+ */
+export interface EnvironmentInfo {
+  /** Version string of the Compact developer tools */
+  devToolsVersion: string;
+  /** Version string of the Compact toolchain/compiler */
+  toolchainVersion: string;
+  /** Target directory being compiled, if any */
+  targetDir?: string;
+  /** Toolchain version explicitly selected for the run, if any */
+  version?: string;
+}
+
+/**
+ * Identifies a file within a compile run.
+ */
+export interface FileEvent {
+  /** Path relative to `srcDir` */
+  file: string;
+  /** Path of the source file, i.e. `file` joined to `srcDir` */
+  sourcePath: string;
+  /** Position of the file in the run (0-based) */
+  index: number;
+  /** Number of files in the run */
+  total: number;
+  /** Resolved compiler flags for the file */
+  flags: string;
+  /** Display name: the file, plus its flags when overrides are configured */
+  label: string;
+  /** Whether several files compile at the same time */
+  concurrent: boolean;
+}
+
+/**
+ * Identifies a build step within a build.
+ */
+export interface StepEvent {
+  /** Human-readable step description */
+  name: string;
+  /** Position of the step in the build (0-based) */
+  index: number;
+  /** Number of steps in the build */
+  total: number;
+}
+
+/**
+ * Identifies a source root within a multi-root run.
+ */
+export interface SourceRootEvent extends ResolvedSourceRoot {
+  /** Position of the root in the run (0-based) */
+  index: number;
+  /** Number of roots in the run */
+  total: number;
+}
+
+/**
+ * Receives the lifecycle events of compile runs and builds, and decides how
+ * (or whether) to present them. `CompactCompiler` and `CompactBuilder` emit
+ * events only through their reporter, so a custom implementation fully
+ * replaces the built-in terminal output.
+ *
+ * Events of a file or step always arrive as start, then success or failure;
+ * a file skipped as up to date gets a success event with status `skipped`
+ * and no start event.
+ *
+ * @example
+ * ```typescript
+ * // Only log failures; extend SilentReporter to ignore the other events
+ * class FailureLogger extends SilentReporter {
+ *   override onFileFailure(event: FileEvent, result: FileResult): void {
+ *     console.log(`${event.file}: ${result.error}`);
+ *   }
+ * }
+ * await new CompactCompiler({}, undefined, new FailureLogger()).compile();
+ * ```
+ */
+export interface Reporter {
+  /** Toolchain versions were validated. */
+  onEnvironment(info: EnvironmentInfo): void;
+  /**
+   * A multi-root run moved on to the next source root; the discovery and
+   * file events that follow belong to it.
+   */
+  onSourceRoot(event: SourceRootEvent): void;
+  /**
+   * Files to compile were discovered; `fileCount` is 0 when there is nothing
+   * to compile.
+   */
+  onDiscovery(fileCount: number, targetDir?: string): void;
+  /** A file started compiling. */
+  onFileStart(event: FileEvent): void;
+  /** A file compiled, or was skipped as up to date (no output then). */
+  onFileSuccess(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void;
+  /** A file failed to compile; `output` is present when compactc ran. */
+  onFileFailure(
+    event: FileEvent,
+    result: FileResult,
+    output?: CommandOutput,
+  ): void;
+  /** A build step started. */
+  onStepStart(event: StepEvent): void;
+  /** A build step succeeded. */
+  onStepSuccess(
+    event: StepEvent,
+    result: StepResult,
+    output: CommandOutput,
+  ): void;
+  /** A build step failed; `output` is present when its command ran. */
+  onStepFailure(
+    event: StepEvent,
+    result: StepResult,
+    output?: CommandOutput,
+  ): void;
+  /**
+   * A run with `continueOnError`, or a multi-root run, finished; one entry
+   * per processed file.
+   */
+  onSummary(results: readonly FileResult[]): void;
+  /**
+   * `compile()` finished after running the toolchain on at least one file;
+   * the profile lists those files slowest first.
+   */
+  onProfile(profile: CompileProfile): void;
+  /**
+   * `compile()` finished, successfully or not. Reporters that write a report
+   * file do so here; the run waits for the returned promise.
+   */
+  onComplete(result: CompileResult): void | Promise<void>;
+  /** Orphaned artifact directories were removed (or, in a dry run, found). */
+  onPrune(dirs: readonly string[], dryRun: boolean): void;
+  /** Committed artifacts were checked against their sources. */
+  onVerify(result: VerifyResult): void;
+  /** A dry run resolved what the build would do (`compact-builder --dry-run`). */
+  onPlan(plan: BuildPlan): void;
+  /** Watch mode is idle and waiting for changes in `srcDir`. */
+  onWatchIdle(srcDir: string): void;
+  /** Watch mode picked up changed `.compact` files. */
+  onWatchChange(files: readonly string[]): void;
+  /** Watch mode recovered from a failure. */
+  onWatchError(message: string): void;
+}
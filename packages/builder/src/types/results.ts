@@ -0,0 +1,222 @@
+/**
+ * Result types returned by `CompactCompiler.compile()`,
+ * `CompactCompiler.verify()`, `CompactBuilder.build()` and
+ * `CompactBuilder.plan()`, and the timing
+ * profile written by the `profile` option.
+ *
+ * These are the machine-readable counterpart of the spinner output: the CLI
+ * serializes them as-is for `--reporter json`, so every field must stay
+ * JSON-friendly (no class instances, no `undefined`-only semantics).
+ */
+
+import type { Diagnostic } from './errors.ts';
+
+/**
+ * Outcome of a single `.compact` file in a compile run.
+ * - `compiled`: the toolchain ran and succeeded
+ * - `skipped`: the incremental cache reported the file as up to date
+ * - `failed`: the toolchain ran and failed
+ * - `cancelled`: the run was aborted before the file finished
+ */
+export type FileStatus = 'compiled' | 'skipped' | 'failed' | 'cancelled';
+
+/**
+ * Result for a single `.compact` file.
+ */
+export interface FileResult {
+  /** Source path relative to `srcDir` */
+  file: string;
+  /** Directory the artifacts are (or would have been) written to */
+  outputDir: string;
+  status: FileStatus;
+  /** Compiler flags resolved for the file, including overrides */
+  flags: string;
+  /** Wall-clock time spent on the file, in milliseconds */
+  durationMs: number;
+  /**
+   * Wall-clock time spent in the toolchain (`CompilerService.compileFile`),
+   * in milliseconds; absent when the toolchain did not run for the file
+   */
+  compileMs?: number;
+  /** Errors and warnings parsed from the compiler output */
+  diagnostics: Diagnostic[];
+  /** Failure message, for `failed` files */
+  error?: string;
+}
+
+/**
+ * Result of a `CompactCompiler.compile()` run.
+ */
+export interface CompileResult {
+  /** True when every file compiled or was up to date */
+  success: boolean;
+  /** Output of `compact --version`; absent if environment validation failed */
+  devToolsVersion?: string;
+  /** Output of `compact compile --version`; absent if environment validation failed */
+  toolchainVersion?: string;
+  /** Wall-clock time of the whole run, in milliseconds */
+  durationMs: number;
+  /** Time spent validating the environment; absent if validation failed */
+  environmentMs?: number;
+  /**
+   * Time spent discovering and compiling files after validation; absent if
+   * validation failed
+   */
+  compileMs?: number;
+  /** One entry per file that was processed, in completion order */
+  files: FileResult[];
+  /** Orphaned artifact directories removed (or, in a dry run, found) by `prune` */
+  pruned?: string[];
+}
+
+/**
+ * Timing of one file in a {@link CompileProfile}.
+ */
+export interface ProfileEntry {
+  /** Source path relative to `srcDir` */
+  file: string;
+  status: FileStatus;
+  /** Wall-clock time spent in the toolchain, in milliseconds */
+  compileMs: number;
+}
+
+/**
+ * Timing profile of a `CompactCompiler.compile()` run, written by the
+ * `profile` option. Runs can be compared across toolchain upgrades, so the
+ * versions are recorded alongside the timings.
+ */
+export interface CompileProfile {
+  /** When the run started, as an ISO 8601 timestamp */
+  startedAt: string;
+  /** Output of `compact --version`; absent if environment validation failed */
+  devToolsVersion?: string;
+  /** Output of `compact compile --version`; absent if environment validation failed */
+  toolchainVersion?: string;
+  /** True when every file compiled or was up to date */
+  success: boolean;
+  /** Maximum number of files compiled at the same time */
+  concurrency: number;
+  /** Wall-clock time of the whole run, in milliseconds */
+  durationMs: number;
+  /** Time spent validating the environment, in milliseconds */
+  environmentMs: number;
+  /** Time spent discovering and compiling files, in milliseconds */
+  compileMs: number;
+  /** Files the toolchain ran on, slowest first */
+  files: ProfileEntry[];
+}
+
+/**
+ * Verification outcome for the artifacts of a single `.compact` file.
+ */
+export interface ArtifactCheck {
+  /** Source path relative to `srcDir` */
+  file: string;
+  /** Artifact directory the source compiles to */
+  outputDir: string;
+  /** Why the artifacts are stale or incomplete; empty when they are current */
+  problems: string[];
+}
+
+/**
+ * Result of a `CompactCompiler.verify()` run.
+ */
+export interface VerifyResult {
+  /** True when every checked artifact is complete and current */
+  success: boolean;
+  /** One entry per discovered source, in discovery order */
+  files: ArtifactCheck[];
+}
+
+/**
+ * Outcome of a single build step.
+ * - `succeeded` / `failed`: the step ran
+ * - `skipped`: an earlier step (or compilation) failed, so it never ran
+ * - `cancelled`: the build was aborted while the step was running
+ */
+export type StepStatus = 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Result for a single build step.
+ */
+export interface StepResult {
+  /** Human-readable step message, as shown in the progress output */
+  name: string;
+  status: StepStatus;
+  /** Wall-clock time spent on the step, in milliseconds */
+  durationMs: number;
+  /** Failure message, for `failed` steps */
+  error?: string;
+  /**
+   * Paths the step cleaned, created, copied or removed, relative to the
+   * working directory, for `succeeded` steps
+   */
+  files?: string[];
+  /**
+   * Problems reported by the TypeScript step: its warnings when it
+   * succeeded, its errors and warnings when it failed
+   */
+  diagnostics?: Diagnostic[];
+}
+
+/**
+ * Result of a `CompactBuilder.build()` run.
+ */
+export interface BuildResult {
+  /** True when compilation and every build step succeeded */
+  success: boolean;
+  /** Wall-clock time of the whole build, in milliseconds */
+  durationMs: number;
+  /** Result of the compilation that precedes the build steps */
+  compile: CompileResult;
+  /** One entry per build step, in execution order */
+  steps: StepResult[];
+}
+
+/**
+ * A file a build would compile, as listed by a dry run.
+ */
+export interface PlannedFile {
+  /** Source path, relative to `srcDir` (prefixed by the root with several) */
+  file: string;
+  /** Directory the toolchain would write the artifacts to */
+  outputDir: string;
+}
+
+/**
+ * Something a build step would do, as listed by a dry run. Paths are
+ * relative to the working directory; `write` is a file generated from
+ * another (the dist package.json), and `run` covers commands and functions,
+ * whose effects are not predicted.
+ */
+export type PlannedAction =
+  | { type: 'clean'; path: string }
+  | { type: 'mkdir'; path: string }
+  | { type: 'copy'; from: string; to: string }
+  | { type: 'write'; from: string; to: string }
+  | { type: 'remove'; path: string }
+  | { type: 'run'; command: string };
+
+/**
+ * A build step of a dry run, with everything it would do.
+ */
+export interface PlannedStep {
+  /** Human-readable step message, as shown in the progress output */
+  name: string;
+  actions: PlannedAction[];
+}
+
+/**
+ * Result of `CompactBuilder.plan()`: what a build would do, in order,
+ * without doing any of it.
+ */
+export interface BuildPlan {
+  /** Steps run before compiling (`beforeCompile` hooks) */
+  beforeCompile: PlannedStep[];
+  /** Files that would be compiled, in compile order */
+  files: PlannedFile[];
+  /** Steps run after a successful compile */
+  afterCompile: PlannedStep[];
+  /** Orphaned artifact directories `prune` would delete, when enabled */
+  pruned?: string[];
+}
@@ -1,70 +1,258 @@
 /**
  * Internal helpers for the Compact CLI tools.
  *
- * - **Glob matching** ({@link globToRegex}, {@link isExcluded}) — used by
- *   `FileDiscovery` to skip `.compact` files matching user-supplied patterns.
- * - **Shell quoting** ({@link shellQuote}, {@link buildFindExcludes}) — used by
- *   `CompactBuilder` to interpolate user-supplied values into bash commands
- *   safely.
+ * - **Flag overrides** ({@link resolveFileFlags}) — used by `CompactCompiler`
+ *   to apply per-file flags, matching patterns with `GlobMatcher`.
+ * - **Concurrency** ({@link runWithConcurrency}) — used by `CompactCompiler`
+ *   to compile several files at once under a fixed limit.
+ * - **Hashing** ({@link hashContents}) — content hashes shared by the
+ *   compilation cache and the dependency graph.
+ * - **Option validation** ({@link isReporterFormat}, {@link parseDuration}) —
+ *   shared by argument parsing and config file validation.
+ * - **Process execution** ({@link execFileAsync}) — the default
+ *   `ExecFunction` of `CompilerService`, `EnvironmentValidator` and
+ *   `BuildStepRunner`; {@link killProcessGroups} kills what it left running
+ *   before the CLI exits.
  */
 
+import { type ChildProcess, spawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { GlobMatcher } from './services/GlobMatcher.ts';
+import {
+  type ExecFunction,
+  REPORTER_FORMATS,
+  type ReporterFormat,
+} from './types/options.ts';
+
+/** Time a killed process tree gets to exit after SIGTERM before SIGKILL. */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Process groups started by {@link execFileAsync} that may still be running:
+ * until the child exits or, once aborted, until the SIGKILL fallback fired.
+ */
+const processGroups = new Set<number>();
+
+/** Milliseconds per unit accepted by {@link parseDuration}. */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
 /**
- * Converts a simple glob pattern to a regular expression.
- * Supports `*` (any sequence) and `?` (single char). All other glob features
- * (brace expansion, character classes) are not supported — keep patterns simple.
+ * Resolves the compiler flags for one file: `baseFlags` followed by the flags
+ * of every override whose pattern matches, in declaration order.
+ *
+ * Patterns are matched by {@link GlobMatcher} relative to `srcDir` (or, for
+ * compatibility, relative to the working directory).
+ *
+ * @param file      - Path relative to `srcDir`
+ * @param srcDir    - Source directory
+ * @param baseFlags - Flags applied to every file
+ * @param overrides - Per-file settings keyed by glob pattern
  */
-export function globToRegex(glob: string): RegExp {
-  const escaped = glob.replace(/[\\^$+|.()[\]{}]/g, '\\$&');
-  const pattern = escaped.replace(/\*/g, '.*').replace(/\?/g, '.');
-  return new RegExp(`^${pattern}$`);
+export function resolveFileFlags(
+  file: string,
+  srcDir: string,
+  baseFlags: string,
+  overrides: Readonly<Record<string, { flags?: string }>>,
+): string {
+  const extraFlags = Object.entries(overrides)
+    .filter(([pattern]) => new GlobMatcher([pattern], srcDir).matches(file))
+    .map(([, override]) => override.flags?.trim() ?? '');
+
+  return [baseFlags, ...extraFlags].filter(Boolean).join(' ');
 }
 
 /**
- * Returns true if `filename`/`fullPath` matches any of the given glob patterns.
+ * Runs `worker` over every item with at most `limit` invocations in flight.
  *
- * - Patterns containing `/` are matched against `fullPath` (the path as
- *   `find srcDir` would emit it, e.g. `'src/archive/Foo.compact'`).
- * - Patterns without `/` are matched against `filename` only.
+ * Fail-fast: after the first rejection no further items are started, the
+ * in-flight invocations are allowed to settle, and the first error is
+ * rethrown. With `limit = 1` this is equivalent to a sequential `for...of`.
  *
- * This mirrors the semantic of `find -name <pattern>` vs `find -path <pattern>`.
+ * @param items  - Items to process, started in order
+ * @param limit  - Maximum number of concurrent invocations (clamped to >= 1)
+ * @param worker - Async function invoked with each item and its index
  */
-export function isExcluded(
-  filename: string,
-  fullPath: string,
-  patterns: readonly string[],
-): boolean {
-  return patterns.some((pattern) => {
-    const target = pattern.includes('/') ? fullPath : filename;
-    return globToRegex(pattern).test(target);
-  });
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const lane = async (): Promise<void> => {
+    while (failure === undefined && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+
+  if (failure !== undefined) {
+    throw failure.error;
+  }
+}
+
+/**
+ * Returns the SHA-256 hex digest of the given contents.
+ */
+export function hashContents(contents: string | Uint8Array): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+/**
+ * Returns true if `value` is a {@link ReporterFormat}: one of
+ * {@link REPORTER_FORMATS}, with `junit` written as `junit=<path>`.
+ */
+export function isReporterFormat(value: unknown): value is ReporterFormat {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  if (value.startsWith('junit=')) {
+    return value.length > 'junit='.length;
+  }
+  return (REPORTER_FORMATS as readonly string[]).includes(value);
 }
 
 /**
- * Shell-quotes a string for safe interpolation into a single-quoted bash arg.
+ * Parses a duration such as `90s`, `5m`, `1h` or `1500ms` into milliseconds.
+ * A bare number is read as seconds.
  *
- * @example
- * shellQuote("foo")       // "'foo'"
- * shellQuote("it's")      // "'it'\\''s'"
+ * @returns The duration in milliseconds, or undefined if `value` is not a
+ *          positive duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const ms = Math.round(Number(match[1]) * DURATION_UNITS[match[2] ?? 's']);
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * Sends `signal` to a child process and, on POSIX, to every process in its
+ * process group. Errors from processes that already exited are ignored.
  */
-export function shellQuote(value: string): string {
-  return `'${value.replace(/'/g, `'\\''`)}'`;
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Already exited
+  }
 }
 
 /**
- * Builds the `find`-compatible exclusion fragment for the given patterns.
- * Patterns containing `/` are emitted as `! -path '<pattern>'`; others as
- * `! -name '<pattern>'`. Single-quoting ensures safe shell interpolation.
+ * Default {@link ExecFunction}: runs a binary with an argv array (no shell)
+ * and resolves with its output. Like `promisify(execFile)`, a failed run
+ * rejects with an error carrying `stdout`, `stderr`, and the exit `code` or
+ * terminating `signal`.
  *
- * @example
- * buildFindExcludes(['Mock*', '*\/archive\/*'])
- * // "! -name 'Mock*' ! -path '*\/archive\/*'"
+ * With an abort signal, the child is started in its own process group, so
+ * aborting kills everything it spawned — including the key-generation
+ * processes of `compact compile` — with SIGTERM, then SIGKILL if they are
+ * still running after a grace period. (`execFile` itself would only kill the
+ * direct child, and ignores `detached`.)
+ */
+export const execFileAsync: ExecFunction = (file, args, options = {}) => {
+  const { signal, cwd } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const detached = signal !== undefined && process.platform !== 'win32';
+    const child = spawn(file, [...args], {
+      cwd,
+      detached,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const group = detached ? child.pid : undefined;
+    if (group !== undefined) {
+      processGroups.add(group);
+    }
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+
+    // Grandchildren may outlive the child itself, so the SIGKILL fallback
+    // fires even when the child has already exited
+    const onAbort = () => {
+      killProcessTree(child, 'SIGTERM');
+      setTimeout(() => {
+        killProcessTree(child, 'SIGKILL');
+        if (group !== undefined) {
+          processGroups.delete(group);
+        }
+      }, KILL_GRACE_MS).unref();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const command = [file, ...args].join(' ');
+    child.on('error', (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (group !== undefined) {
+        processGroups.delete(group);
+      }
+      reject(Object.assign(error, { cmd: command, stdout, stderr }));
+    });
+    child.on('close', (code, exitSignal) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (group !== undefined && !signal?.aborted) {
+        processGroups.delete(group);
+      }
+      if (code === 0) {
+        resolve({ stdout, stderr });
+        return;
+      }
+      reject(
+        Object.assign(
+          new Error(`Command failed: ${command}${stderr ? `\n${stderr}` : ''}`),
+          { code, signal: exitSignal, cmd: command, stdout, stderr },
+        ),
+      );
+    });
+  });
+};
+
+/**
+ * Synchronously SIGKILLs every process group {@link execFileAsync} started
+ * that may still be running. Call it before `process.exit`: exiting drops
+ * the pending SIGKILL fallback of an aborted run, which would leave a
+ * process group that ignored SIGTERM running. No-op on Windows, where
+ * children are not started in their own group.
  */
-export function buildFindExcludes(patterns: readonly string[]): string {
-  return patterns
-    .map((pattern) =>
-      pattern.includes('/')
-        ? `! -path ${shellQuote(pattern)}`
-        : `! -name ${shellQuote(pattern)}`,
-    )
-    .join(' ');
+export function killProcessGroups(): void {
+  for (const group of processGroups) {
+    try {
+      process.kill(-group, 'SIGKILL');
+    } catch {
+      // Already exited
+    }
+  }
+  processGroups.clear();
 }
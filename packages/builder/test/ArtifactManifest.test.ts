@@ -0,0 +1,159 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ARTIFACT_MANIFEST_FILE,
+  ArtifactManifest,
+  type ContractArtifact,
+} from '../src/Compiler.js';
+
+const DECLARATIONS = `import type * as __compactRuntime from '@midnight-ntwrk/compact-runtime';
+
+export type Witnesses<T> = {
+  secretKey(context: __compactRuntime.WitnessContext<Ledger, T>): [T, Uint8Array];
+}
+
+export type ImpureCircuits<T> = {
+  transferOwnership(context: __compactRuntime.CircuitContext<T>, newOwner: Uint8Array): __compactRuntime.CircuitResults<T, []>;
+  renounceOwnership(context: __compactRuntime.CircuitContext<T>): __compactRuntime.CircuitResults<T, []>;
+}
+
+export type PureCircuits = {
+  computeCommitment(id: Uint8Array): Uint8Array;
+}
+
+export type Circuits<T> = {
+  transferOwnership(context: __compactRuntime.CircuitContext<T>, newOwner: Uint8Array): __compactRuntime.CircuitResults<T, []>;
+  renounceOwnership(context: __compactRuntime.CircuitContext<T>): __compactRuntime.CircuitResults<T, []>;
+  computeCommitment(context: __compactRuntime.CircuitContext<T>, id: Uint8Array): __compactRuntime.CircuitResults<T, Uint8Array>;
+}
+`;
+
+describe('ArtifactManifest', () => {
+  let outDir: string;
+
+  function entry(overrides: Partial<ContractArtifact> = {}): ContractArtifact {
+    return {
+      name: 'Token',
+      source: 'Token.compact',
+      outputDir: join(outDir, 'Token'),
+      sourceHash: 'abc123',
+      dependencies: {},
+      flags: '--skip-zk',
+      toolchainVersion: '0.26.0',
+      keys: false,
+      zkir: true,
+      circuits: ['mint'],
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'artifact-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('inspects keys, zkir and circuit names of an artifact directory', async () => {
+    const dir = join(outDir, 'Ownable');
+    await mkdir(join(dir, 'contract'), { recursive: true });
+    await mkdir(join(dir, 'keys'));
+    await writeFile(join(dir, 'contract', 'index.d.ts'), DECLARATIONS);
+
+    expect(await ArtifactManifest.inspect(dir)).toEqual({
+      keys: true,
+      zkir: false,
+      circuits: ['transferOwnership', 'renounceOwnership', 'computeCommitment'],
+    });
+  });
+
+  it('reports no circuits when declarations are missing', async () => {
+    expect(await ArtifactManifest.inspect(join(outDir, 'Missing'))).toEqual({
+      keys: false,
+      zkir: false,
+      circuits: [],
+    });
+  });
+
+  it('stores output directories relative to the manifest', async () => {
+    const writer = new ArtifactManifest(outDir);
+    writer.record('src', entry());
+    writer.record(
+      'src',
+      entry({
+        name: 'Ownable',
+        source: 'access/Ownable.compact',
+        outputDir: join(outDir, 'access', 'Ownable'),
+      }),
+    );
+    await writer.save();
+
+    const raw = JSON.parse(
+      await readFile(join(outDir, ARTIFACT_MANIFEST_FILE), 'utf8'),
+    );
+    expect(raw.version).toBe(2);
+    expect(raw.srcDir).toBe('src');
+    expect(Object.keys(raw.contracts)).toEqual([
+      'Token.compact',
+      'access/Ownable.compact',
+    ]);
+    expect(raw.contracts['access/Ownable.compact'].outputDir).toBe(
+      'access/Ownable',
+    );
+  });
+
+  it('loads a saved manifest and resolves artifact paths by name', async () => {
+    const writer = new ArtifactManifest(outDir);
+    writer.record('src', entry());
+    await writer.save();
+
+    const manifest = await ArtifactManifest.read(outDir);
+
+    expect(manifest.list()).toEqual([{ ...entry(), outputDir: 'Token' }]);
+    expect(manifest.find('Token')?.circuits).toEqual(['mint']);
+    expect(manifest.resolve('Token', 'contract/index.js')).toBe(
+      join(outDir, 'Token', 'contract', 'index.js'),
+    );
+  });
+
+  it('keeps entries from earlier runs and drops removed ones', async () => {
+    const first = new ArtifactManifest(outDir);
+    first.record('src', entry());
+    first.record('src', entry({ name: 'Old', source: 'Old.compact' }));
+    await first.save();
+
+    const second = new ArtifactManifest(outDir);
+    await second.load();
+    second.remove('Old.compact');
+    await second.save();
+
+    const manifest = await ArtifactManifest.read(outDir);
+    expect(manifest.list().map((contract) => contract.name)).toEqual(['Token']);
+  });
+
+  it('requires a source path for ambiguous contract names', () => {
+    const manifest = new ArtifactManifest(outDir);
+    manifest.record('src', entry({ source: 'a/Token.compact' }));
+    manifest.record('src', entry({ source: 'b/Token.compact' }));
+
+    expect(() => manifest.find('Token')).toThrow(
+      'Contract name Token is ambiguous (a/Token.compact, b/Token.compact); use its source path',
+    );
+    expect(manifest.find('b/Token.compact')?.source).toBe('b/Token.compact');
+  });
+
+  it('throws when reading a missing manifest', async () => {
+    await expect(ArtifactManifest.read(outDir)).rejects.toThrow(
+      /No artifact manifest at .*manifest\.json; compile the contracts first/,
+    );
+  });
+
+  it('throws when resolving an unknown contract', () => {
+    expect(() => new ArtifactManifest(outDir).resolve('Nope')).toThrow(
+      /Contract Nope is not in/,
+    );
+  });
+});
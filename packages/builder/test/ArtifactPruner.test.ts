@@ -0,0 +1,170 @@
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ArtifactManifest,
+  ArtifactPruner,
+  CACHE_MANIFEST_FILE,
+  CompactCompiler,
+  CompileCache,
+} from '../src/Compiler.js';
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({ info: vi.fn().mockReturnThis() })),
+}));
+
+/** Creates a directory that looks like compactc output. */
+async function makeArtifact(dir: string): Promise<void> {
+  await mkdir(join(dir, 'contract'), { recursive: true });
+  await writeFile(join(dir, 'contract', 'index.js'), '');
+}
+
+describe('ArtifactPruner', () => {
+  let root: string;
+  let outDir: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'artifact-pruner-'));
+    outDir = join(root, 'artifacts');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('finds flattened artifact directories without a source', async () => {
+    await makeArtifact(join(outDir, 'Token'));
+    await makeArtifact(join(outDir, 'OldToken'));
+    await writeFile(join(outDir, CACHE_MANIFEST_FILE), '{}');
+
+    const pruner = new ArtifactPruner(outDir);
+
+    expect(await pruner.findOrphans([join(outDir, 'Token')])).toEqual([
+      join(outDir, 'OldToken'),
+    ]);
+  });
+
+  it('searches hierarchical subdirectories without removing them whole', async () => {
+    await makeArtifact(join(outDir, 'token', 'Token'));
+    await makeArtifact(join(outDir, 'token', 'Old'));
+    await makeArtifact(join(outDir, 'archive', 'deep', 'Gone'));
+
+    const pruner = new ArtifactPruner(outDir);
+
+    expect(await pruner.findOrphans([join(outDir, 'token', 'Token')])).toEqual([
+      join(outDir, 'archive', 'deep', 'Gone'),
+      join(outDir, 'token', 'Old'),
+    ]);
+  });
+
+  it('treats artifacts of the other layout as orphans', async () => {
+    await makeArtifact(join(outDir, 'Token'));
+
+    const pruner = new ArtifactPruner(outDir);
+
+    expect(await pruner.findOrphans([join(outDir, 'token', 'Token')])).toEqual([
+      join(outDir, 'Token'),
+    ]);
+  });
+
+  it('returns nothing when outDir does not exist', async () => {
+    expect(await new ArtifactPruner(outDir).findOrphans([])).toEqual([]);
+  });
+
+  it('removes orphans and the parent directories they leave empty', async () => {
+    await makeArtifact(join(outDir, 'token', 'Token'));
+    await makeArtifact(join(outDir, 'archive', 'deep', 'Gone'));
+
+    const pruner = new ArtifactPruner(outDir);
+    await pruner.remove([join(outDir, 'archive', 'deep', 'Gone')]);
+
+    expect(existsSync(join(outDir, 'archive'))).toBe(false);
+    expect(existsSync(join(outDir, 'token', 'Token'))).toBe(true);
+    expect(existsSync(outDir)).toBe(true);
+  });
+});
+
+describe('CompactCompiler.prune', () => {
+  let root: string;
+  let srcDir: string;
+  let outDir: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compiler-prune-'));
+    srcDir = join(root, 'src');
+    outDir = join(root, 'artifacts');
+    await mkdir(srcDir);
+    await writeFile(join(srcDir, 'Token.compact'), 'circuit foo(): [] {}');
+    await makeArtifact(join(outDir, 'Token'));
+    await makeArtifact(join(outDir, 'Deleted'));
+
+    const cache = new CompileCache(outDir);
+    const manifest = new ArtifactManifest(outDir);
+    for (const name of ['Token', 'Deleted']) {
+      cache.record(`${name}.compact`, {
+        sourceHash: 'abc',
+        dependencies: {},
+        flags: '',
+        toolchainVersion: '0.26.0',
+        artifacts: [join(outDir, name)],
+      });
+      manifest.record(srcDir, {
+        name,
+        source: `${name}.compact`,
+        outputDir: join(outDir, name),
+        sourceHash: 'abc',
+        dependencies: {},
+        flags: '',
+        toolchainVersion: '0.26.0',
+        keys: false,
+        zkir: false,
+        circuits: [],
+      });
+    }
+    await cache.save();
+    await manifest.save();
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('lists orphans without deleting them in a dry run', async () => {
+    const compiler = new CompactCompiler({ srcDir, outDir, dryRun: true });
+
+    expect(await compiler.prune()).toEqual([join(outDir, 'Deleted')]);
+    expect(existsSync(join(outDir, 'Deleted'))).toBe(true);
+  });
+
+  it('deletes orphans and their cache and manifest entries', async () => {
+    const compiler = new CompactCompiler({ srcDir, outDir });
+
+    expect(await compiler.prune()).toEqual([join(outDir, 'Deleted')]);
+    expect(existsSync(join(outDir, 'Deleted'))).toBe(false);
+    expect(existsSync(join(outDir, 'Token'))).toBe(true);
+
+    const cache = JSON.parse(
+      await readFile(join(outDir, CACHE_MANIFEST_FILE), 'utf8'),
+    );
+    expect(Object.keys(cache.entries)).toEqual(['Token.compact']);
+    const manifest = await ArtifactManifest.read(outDir);
+    expect(manifest.list().map((contract) => contract.name)).toEqual(['Token']);
+  });
+
+  it('refuses to prune when srcDir is missing', async () => {
+    const compiler = new CompactCompiler({
+      srcDir: join(root, 'missing'),
+      outDir,
+    });
+
+    await expect(compiler.prune()).rejects.toThrow(
+      /Source directory .*missing does not exist/,
+    );
+    expect(existsSync(join(outDir, 'Token'))).toBe(true);
+  });
+});
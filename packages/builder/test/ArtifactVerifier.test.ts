@@ -0,0 +1,225 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ArtifactManifest,
+  ArtifactVerifier,
+  CompactCompiler,
+  CompileCache,
+  type ContractArtifact,
+} from '../src/Compiler.js';
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}));
+
+const SOURCE = 'circuit foo(): [] {}';
+
+describe('ArtifactVerifier', () => {
+  let root: string;
+  let srcDir: string;
+  let outDir: string;
+  let manifest: ArtifactManifest;
+
+  /** Writes a complete artifact directory and its manifest entry. */
+  async function build(
+    name: string,
+    options: {
+      flags?: string;
+      toolchainVersion?: string;
+      dependencies?: Record<string, string>;
+    } = {},
+  ): Promise<void> {
+    const outputDir = join(outDir, name);
+    await mkdir(join(outputDir, 'contract'), { recursive: true });
+    await writeFile(join(outputDir, 'contract', 'index.js'), '');
+    await writeFile(join(outputDir, 'contract', 'index.d.ts'), '');
+    if (!options.flags?.includes('--skip-zk')) {
+      await mkdir(join(outputDir, 'keys'), { recursive: true });
+      await mkdir(join(outputDir, 'zkir'), { recursive: true });
+    }
+    manifest.record(srcDir, {
+      name,
+      source: `${name}.compact`,
+      outputDir,
+      sourceHash: await CompileCache.hashFile(join(srcDir, `${name}.compact`)),
+      dependencies: options.dependencies ?? {},
+      flags: options.flags ?? '',
+      toolchainVersion: options.toolchainVersion ?? '0.26.0',
+      keys: !options.flags,
+      zkir: !options.flags,
+      circuits: [],
+    });
+    await manifest.save();
+  }
+
+  function verify(
+    name: string,
+    toolchain?: string,
+    dependencies: Record<string, string> = {},
+  ): Promise<string[]> {
+    return new ArtifactVerifier(manifest).verify(
+      `${name}.compact`,
+      join(srcDir, `${name}.compact`),
+      join(outDir, name),
+      dependencies,
+      toolchain,
+    );
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'artifact-verifier-'));
+    srcDir = join(root, 'src');
+    outDir = join(root, 'artifacts');
+    await mkdir(srcDir);
+    await writeFile(join(srcDir, 'Token.compact'), SOURCE);
+    manifest = new ArtifactManifest(outDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('accepts complete, current artifacts', async () => {
+    await build('Token');
+
+    expect(await verify('Token', '^0.26.0')).toEqual([]);
+  });
+
+  it('reports a missing artifact directory', async () => {
+    expect(await verify('Token')).toEqual([
+      `missing artifact directory ${join(outDir, 'Token')}`,
+    ]);
+  });
+
+  it('does not require keys and zkir for --skip-zk builds', async () => {
+    await build('Token', { flags: '--skip-zk' });
+
+    expect(await verify('Token')).toEqual([]);
+  });
+
+  it('reports missing files and ZK directories', async () => {
+    await build('Token', { flags: '--skip-zk' });
+    manifest.record(srcDir, {
+      ...(manifest.get('Token.compact') as ContractArtifact),
+      outputDir: join(outDir, 'Token'),
+      flags: '',
+    });
+    await rm(join(outDir, 'Token', 'contract', 'index.d.ts'));
+
+    expect(await verify('Token')).toEqual([
+      `missing ${join(outDir, 'Token', 'contract', 'index.d.ts')}`,
+      `missing ${join(outDir, 'Token', 'keys')}/ (not built with --skip-zk)`,
+      `missing ${join(outDir, 'Token', 'zkir')}/ (not built with --skip-zk)`,
+    ]);
+  });
+
+  it('reports a changed source', async () => {
+    await build('Token');
+    await writeFile(join(srcDir, 'Token.compact'), `${SOURCE}\n// edited`);
+
+    expect(await verify('Token')).toEqual([
+      'source changed since the artifacts were built',
+    ]);
+  });
+
+  it('reports imported modules that changed, appeared or went away', async () => {
+    await build('Token', {
+      dependencies: { 'Utils.compact': 'a', 'Old.compact': 'b' },
+    });
+
+    expect(
+      await verify('Token', undefined, {
+        'Utils.compact': 'c',
+        'New.compact': 'd',
+      }),
+    ).toEqual([
+      'imported module New.compact changed since the artifacts were built',
+      'imported module Old.compact changed since the artifacts were built',
+      'imported module Utils.compact changed since the artifacts were built',
+    ]);
+  });
+
+  it('reports artifacts built with a toolchain outside the pin', async () => {
+    await build('Token', { toolchainVersion: '0.25.0' });
+
+    expect(await verify('Token', '0.26.0')).toEqual([
+      'built with toolchain 0.25.0, but 0.26.0 is required',
+    ]);
+  });
+
+  it('reports sources missing from the manifest', async () => {
+    await build('Token');
+    manifest.remove('Token.compact');
+
+    expect(await verify('Token')).toEqual([
+      'not recorded in the artifact manifest',
+    ]);
+  });
+
+  describe('CompactCompiler.verify', () => {
+    it('checks every discovered source without invoking the toolchain', async () => {
+      const exec = vi.fn();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await writeFile(join(srcDir, 'Stale.compact'), SOURCE);
+      await build('Token');
+      await build('Stale');
+      await writeFile(join(srcDir, 'Stale.compact'), `${SOURCE}\n`);
+
+      const result = await new CompactCompiler(
+        { srcDir, outDir, toolchain: '0.26.0' },
+        exec,
+      ).verify();
+
+      expect(exec).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(
+        Object.fromEntries(
+          result.files.map((check) => [check.file, check.problems]),
+        ),
+      ).toEqual({
+        'Stale.compact': ['source changed since the artifacts were built'],
+        'Token.compact': [],
+      });
+    });
+
+    it('reports a source whose imported module changed', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      await writeFile(
+        join(srcDir, 'Token.compact'),
+        `import "./Utils";\n${SOURCE}`,
+      );
+      await writeFile(join(srcDir, 'Utils.compact'), SOURCE);
+      await build('Utils');
+      await build('Token', {
+        dependencies: {
+          'Utils.compact': await CompileCache.hashFile(
+            join(srcDir, 'Utils.compact'),
+          ),
+        },
+      });
+      const compiler = new CompactCompiler({ srcDir, outDir }, vi.fn());
+      expect((await compiler.verify()).success).toBe(true);
+
+      await writeFile(join(srcDir, 'Utils.compact'), `${SOURCE}\n`);
+      await build('Utils');
+      const result = await compiler.verify();
+
+      expect(
+        Object.fromEntries(
+          result.files.map((check) => [check.file, check.problems]),
+        ),
+      ).toEqual({
+        'Token.compact': [
+          'imported module Utils.compact changed since the artifacts were built',
+        ],
+        'Utils.compact': [],
+      });
+    });
+  });
+});
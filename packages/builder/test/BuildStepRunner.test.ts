@@ -0,0 +1,429 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BuildStepRunner } from '../src/services/BuildStepRunner.js';
+import { TypeScriptService } from '../src/services/TypeScriptService.js';
+import { CancellationError, type Diagnostic } from '../src/types/errors.js';
+import type { BuildOperation, BuildStep } from '../src/types/options.js';
+
+describe('BuildStepRunner', () => {
+  let root: string;
+
+  /** Writes a file (and its parent directories) under the root. */
+  function write(file: string, contents = ''): void {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(join(root, file), contents);
+  }
+
+  /** Runs a single-operation step in the root. */
+  function run(operation: BuildOperation, runner = new BuildStepRunner()) {
+    return runner.run({ msg: 'step', operations: [operation], cwd: root });
+  }
+
+  /** Plans steps of the given operations in the root. */
+  function plan(...steps: BuildOperation[][]) {
+    return new BuildStepRunner().plan(
+      steps.map(
+        (operations, index): BuildStep => ({
+          msg: `step ${index + 1}`,
+          operations,
+          cwd: root,
+        }),
+      ),
+    );
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-steps-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('cleans a directory, recreating it empty', async () => {
+    write('dist/old.js');
+
+    const { files } = await run({ type: 'clean', dir: 'dist' });
+
+    expect(files).toEqual([join(root, 'dist')]);
+    expect(existsSync(join(root, 'dist'))).toBe(true);
+    expect(existsSync(join(root, 'dist/old.js'))).toBe(false);
+  });
+
+  it('copies a directory tree and lists the files written', async () => {
+    write('src/artifacts/Token/contract/index.js', 'token');
+    write('src/artifacts/Token/keys/a.prover');
+
+    const { files } = await run({
+      type: 'copy-tree',
+      from: 'src/artifacts',
+      to: 'dist/artifacts',
+    });
+
+    expect(files).toEqual([
+      join(root, 'dist/artifacts/Token/contract/index.js'),
+      join(root, 'dist/artifacts/Token/keys/a.prover'),
+    ]);
+    expect(
+      readFileSync(
+        join(root, 'dist/artifacts/Token/contract/index.js'),
+        'utf8',
+      ),
+    ).toBe('token');
+  });
+
+  it('leaves excluded files out of a directory copy', async () => {
+    write('src/artifacts/.compact-cache.json');
+    write('src/artifacts/Token/.compact-cache.json');
+    write('src/artifacts/Token/contract/index.js');
+
+    const { files } = await run({
+      type: 'copy-tree',
+      from: 'src/artifacts',
+      to: 'dist/artifacts',
+      exclude: ['/.compact-cache.json'],
+    });
+
+    expect(files).toEqual([
+      join(root, 'dist/artifacts/Token/.compact-cache.json'),
+      join(root, 'dist/artifacts/Token/contract/index.js'),
+    ]);
+    expect(existsSync(join(root, 'dist/artifacts/.compact-cache.json'))).toBe(
+      false,
+    );
+  });
+
+  it('copies a single file to its target path', async () => {
+    write('package.json', '{}');
+
+    const { files } = await run({
+      type: 'copy-tree',
+      from: 'package.json',
+      to: 'dist/package.json',
+    });
+
+    expect(files).toEqual([join(root, 'dist/package.json')]);
+    expect(readFileSync(join(root, 'dist/package.json'), 'utf8')).toBe('{}');
+  });
+
+  it('fails when a required copy source is missing', async () => {
+    await expect(
+      run({ type: 'copy-tree', from: 'README.md', to: 'dist/README.md' }),
+    ).rejects.toThrow(
+      `Cannot copy ${join(root, 'README.md')}: it does not exist`,
+    );
+  });
+
+  it('skips a missing optional copy source', async () => {
+    await expect(
+      run({
+        type: 'copy-tree',
+        from: 'src/artifacts',
+        to: 'dist/artifacts',
+        optional: true,
+      }),
+    ).resolves.toEqual({ stdout: '', stderr: '', files: [] });
+  });
+
+  it('copies files matching glob patterns, flattened when asked', async () => {
+    write('src/Token.compact');
+    write('src/MockToken.compact');
+    write('src/access/Ownable.compact');
+    write('src/notes.md');
+
+    const { files } = await run({
+      type: 'copy-glob',
+      from: 'src',
+      to: 'dist',
+      patterns: ['*.compact'],
+      exclude: ['Mock*'],
+      flatten: true,
+    });
+
+    expect(files).toEqual([
+      join(root, 'dist/Ownable.compact'),
+      join(root, 'dist/Token.compact'),
+    ]);
+  });
+
+  it('removes matching directories at any depth', async () => {
+    write('dist/artifacts/Token/witnesses/index.js');
+    write('dist/witnesses.js');
+    write('dist/Other/witnesses/index.js');
+
+    const { files } = await run({
+      type: 'remove-matching',
+      dir: 'dist',
+      patterns: ['witnesses/'],
+    });
+
+    expect(files).toEqual([
+      join(root, 'dist/artifacts/Token/witnesses'),
+      join(root, 'dist/Other/witnesses'),
+    ]);
+    expect(existsSync(join(root, 'dist/witnesses.js'))).toBe(true);
+  });
+
+  it('removes nothing when the directory does not exist', async () => {
+    await expect(
+      run({ type: 'remove-matching', dir: 'dist', patterns: ['witnesses/'] }),
+    ).resolves.toEqual({ stdout: '', stderr: '', files: [] });
+  });
+
+  it('runs commands in the step directory and returns their output', async () => {
+    const execFn = vi.fn().mockResolvedValue({ stdout: 'ok\n', stderr: '' });
+
+    await expect(
+      run(
+        { type: 'run-command', command: 'tsc', args: ['-p', 'tsconfig.json'] },
+        new BuildStepRunner(execFn),
+      ),
+    ).resolves.toEqual({ stdout: 'ok\n', stderr: '', files: [] });
+    expect(execFn).toHaveBeenCalledWith('tsc', ['-p', 'tsconfig.json'], {
+      cwd: root,
+      signal: undefined,
+    });
+  });
+
+  it('compiles TypeScript projects relative to the step directory', async () => {
+    const typescript = new TypeScriptService();
+    const warning: Diagnostic = {
+      file: 'src/index.ts',
+      line: 1,
+      column: 1,
+      severity: 'warning',
+      message: 'deprecated',
+      code: 'TS6385',
+    };
+    const compile = vi.spyOn(typescript, 'compile').mockResolvedValue({
+      stdout: 'src/index.ts:1:1: warning TS6385: deprecated\n',
+      stderr: '',
+      diagnostics: [warning],
+      files: [join(root, 'dist/index.js')],
+    });
+
+    await expect(
+      run(
+        { type: 'typescript', project: 'tsconfig.build.json' },
+        new BuildStepRunner(undefined, typescript),
+      ),
+    ).resolves.toEqual({
+      stdout: 'src/index.ts:1:1: warning TS6385: deprecated\n',
+      stderr: '',
+      files: [join(root, 'dist/index.js')],
+      diagnostics: [warning],
+    });
+    expect(compile).toHaveBeenCalledWith(join(root, 'tsconfig.build.json'));
+  });
+
+  it('writes the dist package.json from the source manifest', async () => {
+    write(
+      'package.json',
+      JSON.stringify({ name: 'token', main: 'dist/index.js' }),
+    );
+    write('dist/index.js');
+
+    const { files } = await run({
+      type: 'package-manifest',
+      from: 'package.json',
+      dist: 'dist',
+      srcDir: 'src',
+    });
+
+    expect(files).toEqual([join(root, 'dist/package.json')]);
+    expect(
+      JSON.parse(readFileSync(join(root, 'dist/package.json'), 'utf8')),
+    ).toEqual({ name: 'token', main: './index.js', files: ['index.js'] });
+  });
+
+  it('runs shell operations through the system shell', async () => {
+    const { stdout } = await run({
+      type: 'shell',
+      command: 'echo "$(basename "$PWD")" && touch made-by-hook',
+    });
+
+    expect(stdout.trim()).toBe(basename(root));
+    expect(existsSync(join(root, 'made-by-hook'))).toBe(true);
+  });
+
+  it('awaits function operations with the step directory', async () => {
+    const hook = vi.fn().mockResolvedValue(undefined);
+
+    await run({ type: 'function', run: hook });
+
+    expect(hook).toHaveBeenCalledWith({ cwd: root, signal: undefined });
+  });
+
+  it('rejects with the error of a failing function', async () => {
+    await expect(
+      run({
+        type: 'function',
+        run: async () => {
+          throw new Error('docs failed');
+        },
+      }),
+    ).rejects.toThrow('docs failed');
+  });
+
+  it('rejects with the command error when a command fails', async () => {
+    const failure = Object.assign(new Error('Command failed: tsc'), {
+      stdout: '',
+      stderr: 'error TS2304',
+    });
+    const runner = new BuildStepRunner(vi.fn().mockRejectedValue(failure));
+
+    await expect(
+      run({ type: 'run-command', command: 'tsc' }, runner),
+    ).rejects.toBe(failure);
+  });
+
+  it('stops before the next operation once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      new BuildStepRunner().run(
+        {
+          msg: 'step',
+          operations: [{ type: 'mkdir', dir: 'dist' }],
+          cwd: root,
+        },
+        controller.signal,
+      ),
+    ).rejects.toThrow(CancellationError);
+    expect(existsSync(join(root, 'dist'))).toBe(false);
+  });
+
+  it('plans every copy without touching the filesystem', async () => {
+    write('src/artifacts/Token/contract/index.js');
+    write('src/Token.compact');
+    write('src/access/Ownable.compact');
+    write('src/MockToken.compact');
+
+    await expect(
+      plan(
+        [
+          { type: 'mkdir', dir: 'dist/artifacts' },
+          { type: 'copy-tree', from: 'src/artifacts', to: 'dist/artifacts' },
+        ],
+        [
+          {
+            type: 'copy-glob',
+            from: 'src',
+            to: 'dist',
+            patterns: ['*.compact'],
+            exclude: ['Mock*'],
+          },
+        ],
+      ),
+    ).resolves.toEqual([
+      {
+        name: 'step 1',
+        actions: [
+          { type: 'mkdir', path: join(root, 'dist/artifacts') },
+          {
+            type: 'copy',
+            from: join(root, 'src/artifacts/Token/contract/index.js'),
+            to: join(root, 'dist/artifacts/Token/contract/index.js'),
+          },
+        ],
+      },
+      {
+        name: 'step 2',
+        actions: [
+          {
+            type: 'copy',
+            from: join(root, 'src/access/Ownable.compact'),
+            to: join(root, 'dist/access/Ownable.compact'),
+          },
+          {
+            type: 'copy',
+            from: join(root, 'src/Token.compact'),
+            to: join(root, 'dist/Token.compact'),
+          },
+        ],
+      },
+    ]);
+    expect(existsSync(join(root, 'dist'))).toBe(false);
+  });
+
+  it('plans the removal of existing and planned matching directories', async () => {
+    write('dist/witnesses/old.js');
+    write('src/artifacts/Token/witnesses/index.js');
+
+    const [, removal] = await plan(
+      [{ type: 'copy-tree', from: 'src/artifacts', to: 'dist/artifacts' }],
+      [{ type: 'remove-matching', dir: 'dist', patterns: ['witnesses/'] }],
+    );
+
+    expect(removal.actions).toEqual([
+      { type: 'remove', path: join(root, 'dist/witnesses') },
+      { type: 'remove', path: join(root, 'dist/artifacts/Token/witnesses') },
+    ]);
+    expect(existsSync(join(root, 'dist/witnesses/old.js'))).toBe(true);
+  });
+
+  it('leaves files out of the plan once a planned clean removes them', async () => {
+    write('dist/witnesses/old.js');
+
+    const [, removal] = await plan(
+      [{ type: 'clean', dir: 'dist' }],
+      [{ type: 'remove-matching', dir: 'dist', patterns: ['witnesses/'] }],
+    );
+
+    expect(removal.actions).toEqual([]);
+  });
+
+  it('fails planning when a required copy source is missing', async () => {
+    await expect(
+      plan([{ type: 'copy-tree', from: 'README.md', to: 'dist/README.md' }]),
+    ).rejects.toThrow(
+      `Cannot copy ${join(root, 'README.md')}: it does not exist`,
+    );
+  });
+
+  it('plans commands, shell hooks and functions without running them', async () => {
+    let called = false;
+    async function bundle() {
+      called = true;
+    }
+
+    const [step] = await plan([
+      { type: 'run-command', command: 'tsc', args: ['-p', 'tsconfig.json'] },
+      { type: 'typescript', project: 'tsconfig.build.json' },
+      {
+        type: 'package-manifest',
+        from: 'package.json',
+        dist: 'dist',
+        srcDir: 'src',
+      },
+      { type: 'shell', command: 'yarn docs' },
+      { type: 'function', run: bundle },
+    ]);
+
+    expect(step.actions).toEqual([
+      { type: 'run', command: 'tsc -p tsconfig.json' },
+      {
+        type: 'run',
+        command: `tsc --project ${join(root, 'tsconfig.build.json')}`,
+      },
+      {
+        type: 'write',
+        from: join(root, 'package.json'),
+        to: join(root, 'dist/package.json'),
+      },
+      { type: 'run', command: 'yarn docs' },
+      { type: 'run', command: 'bundle()' },
+    ]);
+    expect(called).toBe(false);
+  });
+});
@@ -1,5 +1,34 @@
-import { describe, expect, it } from 'vitest';
-import { CompactBuilder } from '../src/Builder.js';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type BuilderOptions,
+  BuildStepRunner,
+  CompactBuilder,
+} from '../src/Builder.js';
+import {
+  CompactCompiler,
+  type CompileResult,
+  SilentReporter,
+} from '../src/Compiler.js';
+import { type Diagnostic, TypeScriptError } from '../src/types/errors.js';
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+  })),
+}));
 
 describe('CompactBuilder.parseArgs', () => {
   it('returns defaults for empty input', () => {
@@ -8,8 +37,8 @@ describe('CompactBuilder.parseArgs', () => {
     expect(options.cleanDist).toBeUndefined();
     expect(options.exclude).toBeUndefined();
     expect(options.copyToDist).toBeUndefined();
-    // Compiler-side defaults still apply
-    expect(options.hierarchical).toBe(false);
+    // Unset options stay undefined so config-file values can fill them in
+    expect(options.hierarchical).toBeUndefined();
     expect(options.flags).toBe('');
   });
 
@@ -65,6 +94,17 @@ describe('CompactBuilder.parseArgs', () => {
     );
   });
 
+  it('parses --tsconfig and --skip-tsc', () => {
+    expect(
+      CompactBuilder.parseArgs(['--tsconfig', 'tsconfig.lib.json']).tsconfig,
+    ).toBe('tsconfig.lib.json');
+    expect(CompactBuilder.parseArgs(['--skip-tsc']).skipTsc).toBe(true);
+    expect(CompactBuilder.parseArgs(['--package-json']).packageJson).toBe(true);
+    expect(() => CompactBuilder.parseArgs(['--tsconfig'])).toThrow(
+      '--tsconfig flag requires a path',
+    );
+  });
+
   it('forwards unknown args to the compiler parser', () => {
     const options = CompactBuilder.parseArgs([
       '--dir',
@@ -116,34 +156,48 @@ describe('CompactBuilder step pipeline', () => {
     ]);
   });
 
-  it('excludes Mock* and *.mock.compact by default in the flat copy step', () => {
-    const builder = new CompactBuilder();
-    const copyStep = builder
-      .getSteps()
-      .find((s) => s.msg === 'Copying .compact files');
-
-    expect(copyStep?.cmd).toContain("! -name 'Mock*'");
-    expect(copyStep?.cmd).toContain("! -name '*.mock.compact'");
-  });
-
   it('prepends a clean-dist step when cleanDist is true', () => {
     const builder = new CompactBuilder({ cleanDist: true });
     const steps = builder.getSteps();
 
     expect(steps[0].msg).toBe('Cleaning dist directory');
-    expect(steps[0].cmd).toBe('rm -rf dist && mkdir -p dist');
+    expect(steps[0].operations).toEqual([{ type: 'clean', dir: 'dist' }]);
     expect(steps).toHaveLength(5);
   });
 
+  it('compiles the configured TypeScript project in-process', () => {
+    const compile = (options: BuilderOptions) =>
+      new CompactBuilder(options)
+        .getSteps()
+        .find((s) => s.msg === 'Compiling TypeScript')?.operations;
+
+    expect(compile({})).toEqual([
+      { type: 'typescript', project: 'tsconfig.build.json' },
+    ]);
+    expect(compile({ tsconfig: 'tsconfig.lib.json' })).toEqual([
+      { type: 'typescript', project: 'tsconfig.lib.json' },
+    ]);
+  });
+
+  it('leaves out the TypeScript step when skipTsc is true', () => {
+    const builder = new CompactBuilder({ skipTsc: true });
+
+    expect(builder.getSteps().map((s) => s.msg)).toEqual([
+      'Copying artifacts',
+      'Removing witness directories from dist',
+      'Copying .compact files',
+    ]);
+  });
+
   it('uses the hierarchical copy step when hierarchical is true', () => {
     const builder = new CompactBuilder({ hierarchical: true });
     const copyStep = builder
       .getSteps()
       .find((s) => s.msg === 'Copying .compact files (preserving structure)');
 
-    expect(copyStep).toBeDefined();
-    expect(copyStep?.cmd).toContain('rel_path=');
-    expect(copyStep?.cmd).toContain('mkdir -p "dist/$(dirname "$rel_path")"');
+    expect(copyStep?.operations).toEqual([
+      expect.objectContaining({ type: 'copy-glob', flatten: false }),
+    ]);
   });
 
   it('appends a copy-to-dist step for each entry in copyToDist', () => {
@@ -153,8 +207,41 @@ describe('CompactBuilder step pipeline', () => {
     const lastStep = builder.getSteps().at(-1);
 
     expect(lastStep?.msg).toBe('Copying additional files to dist');
-    expect(lastStep?.cmd).toContain("cp 'package.json' dist/");
-    expect(lastStep?.cmd).toContain("cp '../README.md' dist/");
+    expect(lastStep?.operations).toEqual([
+      { type: 'mkdir', dir: 'dist' },
+      {
+        type: 'copy-tree',
+        from: 'package.json',
+        to: join('dist', 'package.json'),
+      },
+      {
+        type: 'copy-tree',
+        from: '../README.md',
+        to: join('dist', 'README.md'),
+      },
+    ]);
+  });
+
+  it('writes dist/package.json last when packageJson is true', () => {
+    const builder = new CompactBuilder({
+      packageJson: true,
+      srcDir: 'contracts',
+      afterDist: 'yarn docs',
+    });
+    const steps = builder.getSteps();
+
+    expect(steps.at(-2)?.msg).toBe('afterDist hook: yarn docs');
+    expect(steps.at(-1)).toEqual({
+      msg: 'Writing dist/package.json',
+      operations: [
+        {
+          type: 'package-manifest',
+          from: 'package.json',
+          dist: 'dist',
+          srcDir: 'contracts',
+        },
+      ],
+    });
   });
 
   it('removes witness directories after copying artifacts', () => {
@@ -165,9 +252,9 @@ describe('CompactBuilder step pipeline', () => {
     );
 
     expect(witnessStep).toBeDefined();
-    expect(witnessStep?.cmd).toBe(
-      'find dist -type d -name "witnesses" -exec rm -rf {} +',
-    );
+    expect(witnessStep?.operations).toEqual([
+      { type: 'remove-matching', dir: 'dist', patterns: ['witnesses/'] },
+    ]);
   });
 
   it('runs witness removal after artifact copy and before .compact copy', () => {
@@ -181,42 +268,60 @@ describe('CompactBuilder step pipeline', () => {
     expect(witnessIdx).toBeLessThan(compactIdx);
   });
 
-  it('classifies excludes into -name and -path', () => {
-    const builder = new CompactBuilder({
-      hierarchical: true,
-      exclude: ['Mock*', '*/archive/*'],
-    });
-    const copyStep = builder
-      .getSteps()
-      .find((s) => s.msg === 'Copying .compact files (preserving structure)');
-
-    expect(copyStep?.cmd).toContain("! -name 'Mock*'");
-    expect(copyStep?.cmd).toContain("! -path '*/archive/*'");
-  });
-
-  it('honours an explicit empty exclude list (disables the default Mock*)', () => {
-    const builder = new CompactBuilder({ exclude: [] });
-    const copyStep = builder
-      .getSteps()
-      .find((s) => s.msg === 'Copying .compact files');
-
-    expect(copyStep?.cmd).not.toContain('! -name');
-  });
-
-  it('shell-quotes srcDir into find paths', () => {
+  it('copies the artifacts of srcDir when there are any', () => {
     const builder = new CompactBuilder({ srcDir: 'my src' });
     const copyStep = builder
       .getSteps()
-      .find((s) => s.msg === 'Copying .compact files');
+      .find((s) => s.msg === 'Copying artifacts');
+
+    expect(copyStep?.operations).toEqual([
+      { type: 'mkdir', dir: join('dist', 'artifacts') },
+      {
+        type: 'copy-tree',
+        from: join('my src', 'artifacts'),
+        to: join('dist', 'artifacts'),
+        optional: true,
+        exclude: ['/.compact-cache.json'],
+      },
+    ]);
+  });
 
-    expect(copyStep?.cmd).toContain("find 'my src'");
+  it('leaves the compile cache manifest out of the artifacts copy', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'compact-builder-'));
+    try {
+      for (const file of [
+        '.compact-cache.json',
+        'manifest.json',
+        'Token/contract/index.js',
+      ]) {
+        mkdirSync(dirname(join(root, 'src/artifacts', file)), {
+          recursive: true,
+        });
+        writeFileSync(join(root, 'src/artifacts', file), '');
+      }
+      const step = new CompactBuilder({ srcDir: 'src' })
+        .getSteps()
+        .find((s) => s.msg === 'Copying artifacts');
+      if (!step) {
+        throw new Error('no artifacts copy step');
+      }
+
+      await new BuildStepRunner().run({ ...step, cwd: root });
+
+      expect(readdirSync(join(root, 'dist/artifacts')).sort()).toEqual([
+        'Token',
+        'manifest.json',
+      ]);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
   });
 
   it('produces the full pipeline for a library-publish configuration', () => {
     const builder = new CompactBuilder({
       cleanDist: true,
       hierarchical: true,
-      exclude: ['Mock*', '*/archive/*'],
+      exclude: ['Mock*', 'archive/'],
       copyToDist: ['package.json', '../README.md'],
     });
 
@@ -230,3 +335,489 @@ describe('CompactBuilder step pipeline', () => {
     ]);
   });
 });
+
+describe('CompactBuilder hooks and custom steps', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('inserts hooks and custom steps at their insertion points', () => {
+    const bundle = async () => {};
+    const builder = new CompactBuilder({
+      cleanDist: true,
+      beforeCompile: 'yarn generate',
+      afterCompile: ['yarn check-artifacts'],
+      beforeTsc: async function codegen() {},
+      afterDist: 'yarn docs',
+      steps: [
+        { name: 'Bundling', at: 'afterDist', run: bundle },
+        { name: 'Linting', at: 'beforeCompile', run: 'yarn lint' },
+      ],
+    });
+
+    expect(builder.getSteps().map((s) => s.msg)).toEqual([
+      'beforeCompile hook: yarn generate',
+      'Linting',
+      'afterCompile hook: yarn check-artifacts',
+      'Cleaning dist directory',
+      'beforeTsc hook: codegen',
+      'Compiling TypeScript',
+      'Copying artifacts',
+      'Removing witness directories from dist',
+      'Copying .compact files',
+      'afterDist hook: yarn docs',
+      'Bundling',
+    ]);
+    expect(builder.getSteps().at(-2)?.operations).toEqual([
+      { type: 'shell', command: 'yarn docs' },
+    ]);
+    expect(builder.getSteps().at(-1)?.operations).toEqual([
+      { type: 'function', run: bundle },
+    ]);
+  });
+
+  it('runs beforeCompile steps before compiling and the rest after', async () => {
+    const calls: string[] = [];
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockImplementation(
+      async () => {
+        calls.push('compile');
+        return {
+          success: true,
+          devToolsVersion: 'compact 0.1.0',
+          toolchainVersion: 'Compactc 0.26.0',
+          durationMs: 5,
+          files: [],
+        };
+      },
+    );
+    vi.spyOn(BuildStepRunner.prototype, 'run').mockImplementation(
+      async (step) => {
+        calls.push(step.msg);
+        return { stdout: '', stderr: '', files: [] };
+      },
+    );
+
+    await new CompactBuilder(
+      { beforeCompile: 'yarn generate', afterDist: 'yarn docs' },
+      new SilentReporter(),
+    ).build();
+
+    expect(calls).toEqual([
+      'beforeCompile hook: yarn generate',
+      'compile',
+      'Compiling TypeScript',
+      'Copying artifacts',
+      'Removing witness directories from dist',
+      'Copying .compact files',
+      'afterDist hook: yarn docs',
+    ]);
+  });
+
+  it('runs per-root hooks in every package and the others once', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue({
+      success: true,
+      devToolsVersion: 'compact 0.1.0',
+      toolchainVersion: 'Compactc 0.26.0',
+      durationMs: 5,
+      files: [],
+    });
+    const run = vi
+      .spyOn(BuildStepRunner.prototype, 'run')
+      .mockResolvedValue({ stdout: '', stderr: '', files: [] });
+
+    await new CompactBuilder(
+      {
+        sources: [
+          { srcDir: 'packages/token/src' },
+          { srcDir: 'packages/access/src' },
+        ],
+        afterCompile: 'yarn check',
+        afterDist: 'yarn docs',
+      },
+      new SilentReporter(),
+    ).build();
+
+    const hooks = run.mock.calls
+      .map(([step]) => [step.msg, step.cwd])
+      .filter(([msg]) => msg?.includes('hook'));
+    expect(hooks).toEqual([
+      ['afterCompile hook: yarn check', undefined],
+      ['packages/token/src: afterDist hook: yarn docs', 'packages/token'],
+      ['packages/access/src: afterDist hook: yarn docs', 'packages/access'],
+    ]);
+  });
+});
+
+describe('CompactBuilder .compact copy', () => {
+  let root: string;
+
+  /** Runs the .compact copy step of a builder in the temporary root. */
+  async function runCopy(options: BuilderOptions): Promise<string[]> {
+    const step = new CompactBuilder({ srcDir: 'src', ...options })
+      .getSteps()
+      .find((s) => s.msg.startsWith('Copying .compact files'));
+    if (!step) {
+      throw new Error('no .compact copy step');
+    }
+    const { files } = await new BuildStepRunner().run({ ...step, cwd: root });
+    return files.sort();
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-builder-'));
+    for (const file of [
+      'Token.compact',
+      'MockToken.compact',
+      'README.md',
+      'access/Ownable.compact',
+      'access/archive/Old.compact',
+    ]) {
+      mkdirSync(dirname(join(root, 'src', file)), { recursive: true });
+      writeFileSync(join(root, 'src', file), '');
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('flattens files into dist/ and excludes Mock* by default', async () => {
+    await expect(runCopy({})).resolves.toEqual([
+      join(root, 'dist', 'Old.compact'),
+      join(root, 'dist', 'Ownable.compact'),
+      join(root, 'dist', 'Token.compact'),
+    ]);
+    expect(readdirSync(join(root, 'dist')).sort()).toEqual([
+      'Old.compact',
+      'Ownable.compact',
+      'Token.compact',
+    ]);
+  });
+
+  it('preserves the source tree when hierarchical is true', async () => {
+    await expect(runCopy({ hierarchical: true })).resolves.toEqual([
+      join(root, 'dist', 'Token.compact'),
+      join(root, 'dist', 'access', 'Ownable.compact'),
+      join(root, 'dist', 'access', 'archive', 'Old.compact'),
+    ]);
+  });
+
+  it('selects files with the same glob rules as the compiler', async () => {
+    await expect(
+      runCopy({
+        hierarchical: true,
+        exclude: ['archive/'],
+        include: ['access/**'],
+      }),
+    ).resolves.toEqual([join(root, 'dist', 'access', 'Ownable.compact')]);
+  });
+
+  it('honours an explicit empty exclude list (disables the default Mock*)', async () => {
+    await expect(runCopy({ exclude: [] })).resolves.toContain(
+      join(root, 'dist', 'MockToken.compact'),
+    );
+  });
+
+  it('copies nothing when the source directory does not exist', async () => {
+    await expect(runCopy({ srcDir: 'missing' })).resolves.toEqual([]);
+    expect(existsSync(join(root, 'dist'))).toBe(false);
+  });
+});
+
+describe('CompactBuilder.plan', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-plan-'));
+    for (const file of [
+      'token/package.json',
+      'token/src/Token.compact',
+      'token/src/MockToken.compact',
+      'token/src/access/Ownable.compact',
+      'token/src/archive/Old.compact',
+      'token/dist/witnesses/index.js',
+      'access/package.json',
+      'access/src/Access.compact',
+    ]) {
+      mkdirSync(dirname(join(root, file)), { recursive: true });
+      writeFileSync(join(root, file), '');
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('resolves the files, copies and removals of a build without running it', async () => {
+    const compile = vi.spyOn(CompactCompiler.prototype, 'compile');
+    const run = vi.spyOn(BuildStepRunner.prototype, 'run');
+    const reporter = new SilentReporter();
+    const onPlan = vi.spyOn(reporter, 'onPlan');
+    const token = join(root, 'token');
+
+    const plan = await new CompactBuilder(
+      {
+        sources: [
+          { srcDir: join(token, 'src') },
+          { srcDir: join(root, 'access', 'src') },
+        ],
+        hierarchical: true,
+        exclude: ['Mock*', 'archive/'],
+        copyToDist: ['package.json'],
+      },
+      reporter,
+    ).plan();
+
+    expect(plan.files).toEqual([
+      {
+        file: join(token, 'src', 'Token.compact'),
+        outputDir: join(token, 'artifacts', 'Token'),
+      },
+      {
+        file: join(token, 'src', 'access', 'Ownable.compact'),
+        outputDir: join(token, 'artifacts', 'access', 'Ownable'),
+      },
+      {
+        file: join(root, 'access', 'src', 'Access.compact'),
+        outputDir: join(root, 'access', 'artifacts', 'Access'),
+      },
+    ]);
+    const actions = (name: string) =>
+      plan.afterCompile.find(
+        (step) => step.name === `${join(token, 'src')}: ${name}`,
+      )?.actions;
+    expect(actions('Removing witness directories from dist')).toEqual([
+      { type: 'remove', path: join(token, 'dist', 'witnesses') },
+    ]);
+    expect(actions('Copying .compact files (preserving structure)')).toEqual([
+      {
+        type: 'copy',
+        from: join(token, 'src', 'access', 'Ownable.compact'),
+        to: join(token, 'dist', 'access', 'Ownable.compact'),
+      },
+      {
+        type: 'copy',
+        from: join(token, 'src', 'Token.compact'),
+        to: join(token, 'dist', 'Token.compact'),
+      },
+    ]);
+    expect(actions('Copying additional files to dist')).toEqual([
+      { type: 'mkdir', path: join(token, 'dist') },
+      {
+        type: 'copy',
+        from: join(token, 'package.json'),
+        to: join(token, 'dist', 'package.json'),
+      },
+    ]);
+    expect(onPlan).toHaveBeenCalledWith(plan);
+    expect(compile).not.toHaveBeenCalled();
+    expect(run).not.toHaveBeenCalled();
+    expect(existsSync(join(token, 'dist', 'witnesses'))).toBe(true);
+  });
+});
+
+describe('CompactBuilder.build', () => {
+  const compileResult: CompileResult = {
+    success: true,
+    devToolsVersion: 'compact 0.1.0',
+    toolchainVersion: 'Compactc 0.26.0',
+    durationMs: 5,
+    files: [],
+  };
+
+  /** Makes every step succeed, or fail on the given step (1-based). */
+  function mockSteps(failOnCall?: number) {
+    let calls = 0;
+    return vi
+      .spyOn(BuildStepRunner.prototype, 'run')
+      .mockImplementation(async () => {
+        calls++;
+        if (calls === failOnCall) {
+          throw Object.assign(new Error('step failed'), {
+            stdout: '',
+            stderr: '',
+          });
+        }
+        return { stdout: '', stderr: '', files: [] };
+      });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the compile result and every step outcome', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue(
+      compileResult,
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockSteps();
+
+    const result = await new CompactBuilder().build();
+
+    expect(result.success).toBe(true);
+    expect(result.compile).toBe(compileResult);
+    expect(result.steps.map((step) => step.status)).toEqual([
+      'succeeded',
+      'succeeded',
+      'succeeded',
+      'succeeded',
+    ]);
+  });
+
+  it('records the failed step and skips the rest', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue(
+      compileResult,
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSteps(2);
+
+    const builder = new CompactBuilder();
+    await expect(builder.build()).rejects.toThrow('step failed');
+
+    expect(builder.lastResult?.success).toBe(false);
+    expect(builder.lastResult?.steps).toEqual([
+      expect.objectContaining({
+        name: 'Compiling TypeScript',
+        status: 'succeeded',
+      }),
+      expect.objectContaining({
+        name: 'Copying artifacts',
+        status: 'failed',
+        error: 'step failed',
+      }),
+      {
+        name: 'Removing witness directories from dist',
+        status: 'skipped',
+        durationMs: 0,
+      },
+      { name: 'Copying .compact files', status: 'skipped', durationMs: 0 },
+    ]);
+  });
+
+  it('records the TypeScript diagnostics of a step', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue(
+      compileResult,
+    );
+    const diagnostic: Diagnostic = {
+      file: 'src/index.ts',
+      line: 3,
+      column: 7,
+      severity: 'error',
+      message: "Type 'number' is not assignable to type 'string'.",
+      code: 'TS2322',
+    };
+    vi.spyOn(BuildStepRunner.prototype, 'run').mockRejectedValue(
+      new TypeScriptError('tsconfig.build.json', [diagnostic], ''),
+    );
+    const reporter = new SilentReporter();
+    const onStepFailure = vi.spyOn(reporter, 'onStepFailure');
+
+    const builder = new CompactBuilder({}, reporter);
+    await expect(builder.build()).rejects.toThrow(
+      'TypeScript compilation of tsconfig.build.json failed with 1 error',
+    );
+
+    expect(builder.lastResult?.steps[0]).toMatchObject({
+      name: 'Compiling TypeScript',
+      status: 'failed',
+      diagnostics: [diagnostic],
+    });
+    expect(onStepFailure).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ diagnostics: [diagnostic] }),
+      { stdout: '', stderr: '' },
+    );
+  });
+
+  it('reports step events to an injected reporter', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue(
+      compileResult,
+    );
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSteps(2);
+    const reporter = new SilentReporter();
+    const onStepStart = vi.spyOn(reporter, 'onStepStart');
+    const onStepSuccess = vi.spyOn(reporter, 'onStepSuccess');
+    const onStepFailure = vi.spyOn(reporter, 'onStepFailure');
+
+    await expect(new CompactBuilder({}, reporter).build()).rejects.toThrow(
+      'step failed',
+    );
+
+    expect(onStepStart).toHaveBeenCalledTimes(2);
+    expect(onStepSuccess).toHaveBeenCalledWith(
+      { name: 'Compiling TypeScript', index: 0, total: 4 },
+      expect.objectContaining({ status: 'succeeded' }),
+      { stdout: '', stderr: '' },
+    );
+    expect(onStepFailure).toHaveBeenCalledWith(
+      { name: 'Copying artifacts', index: 1, total: 4 },
+      expect.objectContaining({ status: 'failed', error: 'step failed' }),
+      { stdout: '', stderr: '' },
+    );
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('runs the build steps of every source root in its package', async () => {
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockResolvedValue(
+      compileResult,
+    );
+    const run = mockSteps();
+
+    const result = await new CompactBuilder(
+      {
+        sources: [
+          { srcDir: 'packages/token/src' },
+          { srcDir: 'packages/access/src' },
+        ],
+      },
+      new SilentReporter(),
+    ).build();
+
+    expect(result.steps.map((step) => step.name)).toEqual([
+      'packages/token/src: Compiling TypeScript',
+      'packages/token/src: Copying artifacts',
+      'packages/token/src: Removing witness directories from dist',
+      'packages/token/src: Copying .compact files',
+      'packages/access/src: Compiling TypeScript',
+      'packages/access/src: Copying artifacts',
+      'packages/access/src: Removing witness directories from dist',
+      'packages/access/src: Copying .compact files',
+    ]);
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({
+        msg: 'packages/access/src: Copying artifacts',
+        cwd: 'packages/access',
+        operations: expect.arrayContaining([
+          expect.objectContaining({ from: join('src', 'artifacts') }),
+        ]),
+      }),
+      undefined,
+    );
+  });
+
+  it('keeps the partial compile result when compilation fails', async () => {
+    const run = mockSteps();
+    const failed: CompileResult = { ...compileResult, success: false };
+    vi.spyOn(CompactCompiler.prototype, 'compile').mockRejectedValue(
+      new Error('compile failed'),
+    );
+    vi.spyOn(CompactCompiler.prototype, 'lastResult', 'get').mockReturnValue(
+      failed,
+    );
+
+    const builder = new CompactBuilder();
+    await expect(builder.build()).rejects.toThrow('compile failed');
+
+    expect(builder.lastResult?.compile).toBe(failed);
+    expect(builder.lastResult?.steps.every((s) => s.status === 'skipped')).toBe(
+      true,
+    );
+    expect(run).not.toHaveBeenCalled();
+  });
+});
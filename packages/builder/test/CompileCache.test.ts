@@ -0,0 +1,134 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CACHE_MANIFEST_FILE, CompileCache } from '../src/Compiler.js';
+
+describe('CompileCache', () => {
+  let outDir: string;
+  const inputs = {
+    sourceHash: 'abc123',
+    dependencies: { 'utils/Utils.compact': 'fff000' },
+    flags: '--skip-zk',
+    toolchainVersion: 'Compactc version: 0.26.0',
+  };
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'compile-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('hashes file contents with sha256', async () => {
+    const file = join(outDir, 'Token.compact');
+    await writeFile(file, 'hello');
+
+    expect(await CompileCache.hashFile(file)).toBe(
+      '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+    );
+  });
+
+  it('treats a missing manifest as empty', async () => {
+    const cache = new CompileCache(outDir);
+    await cache.load();
+
+    expect(cache.get('Token.compact')).toBeUndefined();
+    expect(
+      cache.isFresh('Token.compact', {
+        ...inputs,
+        artifacts: [join(outDir, 'Token')],
+      }),
+    ).toBe(false);
+  });
+
+  it('treats a corrupt manifest as empty', async () => {
+    await writeFile(join(outDir, CACHE_MANIFEST_FILE), '{not json');
+    const cache = new CompileCache(outDir);
+    await cache.load();
+
+    expect(
+      cache.isFresh('Token.compact', {
+        ...inputs,
+        artifacts: [join(outDir, 'Token')],
+      }),
+    ).toBe(false);
+  });
+
+  it('round-trips entries through save and load', async () => {
+    const artifact = join(outDir, 'Token');
+    await mkdir(artifact);
+
+    const writer = new CompileCache(outDir);
+    writer.record('Token.compact', { ...inputs, artifacts: [artifact] });
+    await writer.save();
+
+    const reader = new CompileCache(outDir);
+    await reader.load();
+
+    expect(reader.get('Token.compact')).toEqual({
+      ...inputs,
+      artifacts: [artifact],
+    });
+    expect(
+      reader.isFresh('Token.compact', { ...inputs, artifacts: [artifact] }),
+    ).toBe(true);
+
+    const raw = JSON.parse(
+      await readFile(join(outDir, CACHE_MANIFEST_FILE), 'utf8'),
+    );
+    expect(raw.version).toBe(2);
+  });
+
+  it.each([
+    ['source hash', { sourceHash: 'def456' }],
+    [
+      'hash of an imported module',
+      { dependencies: { 'utils/Utils.compact': '000fff' } },
+    ],
+    [
+      'set of imported modules',
+      { dependencies: { 'utils/Utils.compact': 'fff000', 'A.compact': '1' } },
+    ],
+    ['flags', { flags: '' }],
+    ['toolchain version', { toolchainVersion: 'Compactc version: 0.27.0' }],
+  ])('is stale when the %s changes', async (_label, change) => {
+    const artifact = join(outDir, 'Token');
+    await mkdir(artifact);
+    const cache = new CompileCache(outDir);
+    cache.record('Token.compact', { ...inputs, artifacts: [artifact] });
+
+    expect(
+      cache.isFresh('Token.compact', {
+        ...inputs,
+        artifacts: [artifact],
+        ...change,
+      }),
+    ).toBe(false);
+  });
+
+  it('is stale when the layout puts the artifacts elsewhere', async () => {
+    const artifact = join(outDir, 'Token');
+    await mkdir(artifact);
+    const cache = new CompileCache(outDir);
+    cache.record('Token.compact', { ...inputs, artifacts: [artifact] });
+
+    expect(
+      cache.isFresh('Token.compact', {
+        ...inputs,
+        artifacts: [join(outDir, 'token', 'Token')],
+      }),
+    ).toBe(false);
+  });
+
+  it('is stale when a recorded artifact was deleted', () => {
+    const cache = new CompileCache(outDir);
+    const artifacts = [join(outDir, 'Missing')];
+    cache.record('Token.compact', { ...inputs, artifacts });
+
+    expect(cache.isFresh('Token.compact', { ...inputs, artifacts })).toBe(
+      false,
+    );
+  });
+});
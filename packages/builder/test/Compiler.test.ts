@@ -1,5 +1,6 @@
+import { createHash } from 'node:crypto';
 import { existsSync } from 'node:fs';
-import { readdir } from 'node:fs/promises';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
 import {
   beforeEach,
   describe,
@@ -10,18 +11,32 @@ import {
 } from 'vitest';
 import {
   CompactCompiler,
+  type CompilerOptions,
   CompilerService,
   EnvironmentValidator,
   type ExecFunction,
   FileDiscovery,
+  SilentReporter,
   UIService,
 } from '../src/Compiler.js';
 import {
+  AggregateCompilationError,
+  CancellationError,
   CompactCliNotFoundError,
   CompilationError,
   DirectoryNotFoundError,
+  FileNotFoundError,
+  ToolchainVersionMismatchError,
 } from '../src/types/errors.js';
 
+/** ExecFunction that runs until its signal aborts, like a killed process. */
+const hangUntilAborted: ExecFunction = (_file, _args, options) =>
+  new Promise((_resolve, reject) => {
+    options?.signal?.addEventListener('abort', () =>
+      reject(new Error('Command failed: killed')),
+    );
+  });
+
 // Mock Node.js modules
 vi.mock('node:fs');
 vi.mock('node:fs/promises');
@@ -51,6 +66,8 @@ vi.mock('ora', () => ({
 
 const mockExistsSync = vi.mocked(existsSync);
 const mockReaddir = vi.mocked(readdir);
+const mockReadFile = vi.mocked(readFile);
+const mockWriteFile = vi.mocked(writeFile);
 
 describe('EnvironmentValidator', () => {
   let mockExec: MockedFunction<ExecFunction>;
@@ -69,7 +86,9 @@ describe('EnvironmentValidator', () => {
       const result = await validator.checkCompactAvailable();
 
       expect(result).toBe(true);
-      expect(mockExec).toHaveBeenCalledWith('compact', ['--version']);
+      expect(mockExec).toHaveBeenCalledWith('compact', ['--version'], {
+        signal: undefined,
+      });
     });
 
     it('should return false when compact CLI is not available', async () => {
@@ -78,7 +97,9 @@ describe('EnvironmentValidator', () => {
       const result = await validator.checkCompactAvailable();
 
       expect(result).toBe(false);
-      expect(mockExec).toHaveBeenCalledWith('compact', ['--version']);
+      expect(mockExec).toHaveBeenCalledWith('compact', ['--version'], {
+        signal: undefined,
+      });
     });
   });
 
@@ -89,7 +110,9 @@ describe('EnvironmentValidator', () => {
       const version = await validator.getDevToolsVersion();
 
       expect(version).toBe('compact 0.1.0');
-      expect(mockExec).toHaveBeenCalledWith('compact', ['--version']);
+      expect(mockExec).toHaveBeenCalledWith('compact', ['--version'], {
+        signal: undefined,
+      });
     });
 
     it('should throw error when command fails', async () => {
@@ -111,10 +134,11 @@ describe('EnvironmentValidator', () => {
       const version = await validator.getToolchainVersion();
 
       expect(version).toBe('Compactc version: 0.26.0');
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--version',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--version'],
+        { signal: undefined },
+      );
     });
 
     it('should get version with specific version flag', async () => {
@@ -126,11 +150,11 @@ describe('EnvironmentValidator', () => {
       const version = await validator.getToolchainVersion('0.26.0');
 
       expect(version).toBe('Compactc version: 0.26.0');
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '+0.26.0',
-        '--version',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '+0.26.0', '--version'],
+        { signal: undefined },
+      );
     });
   });
 
@@ -148,6 +172,59 @@ describe('EnvironmentValidator', () => {
         CompactCliNotFoundError,
       );
     });
+
+    it('should accept a toolchain satisfying the required range', async () => {
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({
+          stdout: 'Compactc version: 0.26.1',
+          stderr: '',
+        });
+
+      await expect(validator.validate(undefined, '^0.26.0')).resolves.toEqual({
+        devToolsVersion: 'compact 0.1.0',
+        toolchainVersion: 'Compactc version: 0.26.1',
+      });
+    });
+
+    it('should throw ToolchainVersionMismatchError for a mismatched toolchain', async () => {
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({
+          stdout: 'Compactc version: 0.25.0',
+          stderr: '',
+        });
+
+      const error = await validator
+        .validate(undefined, '0.26.0')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ToolchainVersionMismatchError);
+      expect(error).toMatchObject({
+        required: '0.26.0',
+        installed: '0.25.0',
+        installHint: 'compact update 0.26.0',
+        message:
+          'Compact toolchain 0.25.0 does not satisfy the required version 0.26.0',
+      });
+    });
+
+    it('should throw ToolchainVersionMismatchError when the pinned toolchain is not installed', async () => {
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockRejectedValueOnce(new Error('version 0.27.0 not installed'));
+
+      await expect(
+        validator.validate('0.27.0', '>=0.27.0 <0.28.0'),
+      ).rejects.toMatchObject({
+        name: 'ToolchainVersionMismatchError',
+        installed: undefined,
+        installHint: 'compact update 0.27.0',
+      });
+    });
   });
 });
 
@@ -270,9 +347,8 @@ describe('FileDiscovery', () => {
     });
 
     it('should skip files matching path globs', async () => {
-      // Path-style patterns (containing `/`) are matched against the full
-      // path as `find srcDir` would emit it, so `*/archive/*` works the same
-      // way as `find -path '*/archive/*'`.
+      // Patterns are also tried against the path with srcDir prepended, so
+      // `*/archive/*` written for `find srcDir` output keeps working.
       const excludingDiscovery = new FileDiscovery('src', ['*/archive/*']);
       const mockDirents = [
         { name: 'Token.compact', isFile: () => true, isDirectory: () => false },
@@ -294,6 +370,38 @@ describe('FileDiscovery', () => {
 
       expect(files).toEqual(['Token.compact']);
     });
+
+    it('should only keep files matching include patterns', async () => {
+      const includingDiscovery = new FileDiscovery(
+        'src',
+        ['Mock*'],
+        ['Token*.compact'],
+      );
+      const mockDirents = [
+        { name: 'Token.compact', isFile: () => true, isDirectory: () => false },
+        {
+          name: 'TokenMock.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+        {
+          name: 'MockToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+        {
+          name: 'Ownable.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ];
+
+      mockReaddir.mockResolvedValue(mockDirents as any);
+
+      const files = await includingDiscovery.getCompactFiles('src');
+
+      expect(files).toEqual(['Token.compact', 'TokenMock.compact']);
+    });
   });
 });
 
@@ -317,12 +425,11 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '--skip-zk');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/MyToken.compact',
-        'artifacts/MyToken',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--skip-zk', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should compile file with version flag', async () => {
@@ -338,13 +445,17 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '+0.26.0',
-        '--skip-zk',
-        'src/MyToken.compact',
-        'artifacts/MyToken',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '+0.26.0',
+          '--skip-zk',
+          'src/MyToken.compact',
+          'artifacts/MyToken',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should handle empty flags', async () => {
@@ -356,11 +467,11 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        'src/MyToken.compact',
-        'artifacts/MyToken',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should use flattened artifacts output by default', async () => {
@@ -375,12 +486,16 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/access/AccessControl.compact',
-        'artifacts/AccessControl',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--skip-zk',
+          'src/access/AccessControl.compact',
+          'artifacts/AccessControl',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should flatten nested directory structure by default', async () => {
@@ -395,12 +510,16 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/access/test/AccessControl.mock.compact',
-        'artifacts/AccessControl.mock',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--skip-zk',
+          'src/access/test/AccessControl.mock.compact',
+          'artifacts/AccessControl.mock',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should throw CompilationError when compilation fails', async () => {
@@ -433,6 +552,68 @@ describe('CompilerService', () => {
         expect((error as CompilationError).cause).toEqual(mockError);
       }
     });
+
+    it('should attach diagnostics parsed from compiler output', async () => {
+      const mockError = Object.assign(new Error('Command failed'), {
+        stdout: 'Compactc version: 0.26.0',
+        stderr:
+          'Exception: src/MyToken.compact line 7 char 3:\n  unbound identifier foo',
+      });
+      mockExec.mockRejectedValue(mockError);
+
+      await expect(
+        service.compileFile('MyToken.compact', '--skip-zk'),
+      ).rejects.toMatchObject({
+        diagnostics: [
+          {
+            file: 'src/MyToken.compact',
+            line: 7,
+            column: 3,
+            severity: 'error',
+            message: 'unbound identifier foo',
+          },
+        ],
+      });
+    });
+
+    it('should attach no diagnostics when the output has no locations', async () => {
+      mockExec.mockRejectedValue(new Error('spawn compact ENOENT'));
+
+      await expect(
+        service.compileFile('MyToken.compact', '--skip-zk'),
+      ).rejects.toMatchObject({ diagnostics: [] });
+    });
+
+    it('should kill the compiler and throw CancellationError when aborted', async () => {
+      mockExec.mockImplementation(hangUntilAborted);
+      const controller = new AbortController();
+
+      const compiling = service.compileFile(
+        'MyToken.compact',
+        '',
+        undefined,
+        controller.signal,
+      );
+      controller.abort();
+
+      await expect(compiling).rejects.toThrow(CancellationError);
+      await expect(compiling).rejects.toMatchObject({
+        files: ['MyToken.compact'],
+      });
+      expect(mockExec.mock.calls[0][2]?.signal?.aborted).toBe(true);
+    });
+
+    it('should fail with a timeout error when the timeout elapses', async () => {
+      mockExec.mockImplementation(hangUntilAborted);
+      service = new CompilerService(mockExec, { timeout: 10 });
+
+      await expect(service.compileFile('MyToken.compact', '')).rejects.toThrow(
+        new CompilationError(
+          'Failed to compile MyToken.compact: timed out after 0.01s',
+          'MyToken.compact',
+        ),
+      );
+    });
   });
 
   describe('compileFile with hierarchical option', () => {
@@ -452,12 +633,16 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/access/AccessControl.compact',
-        'artifacts/access/AccessControl',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--skip-zk',
+          'src/access/AccessControl.compact',
+          'artifacts/access/AccessControl',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should preserve nested directory structure when hierarchical is true', async () => {
@@ -472,12 +657,16 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/access/test/AccessControl.mock.compact',
-        'artifacts/access/test/AccessControl.mock',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--skip-zk',
+          'src/access/test/AccessControl.mock.compact',
+          'artifacts/access/test/AccessControl.mock',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should use flattened output for root-level files even when hierarchical is true', async () => {
@@ -489,12 +678,11 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '--skip-zk');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'src/MyToken.compact',
-        'artifacts/MyToken',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--skip-zk', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
     });
   });
 
@@ -515,12 +703,11 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '--skip-zk');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'contracts/MyToken.compact',
-        'build/MyToken',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--skip-zk', 'contracts/MyToken.compact', 'build/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should use custom directories with hierarchical option', async () => {
@@ -540,12 +727,16 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith('compact', [
-        'compile',
-        '--skip-zk',
-        'contracts/access/AccessControl.compact',
-        'dist/artifacts/access/AccessControl',
-      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--skip-zk',
+          'contracts/access/AccessControl.compact',
+          'dist/artifacts/access/AccessControl',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
     });
   });
 });
@@ -578,6 +769,16 @@ describe('UIService', () => {
       expect(mockColorFn).toHaveBeenCalledWith('');
       expect(console.log).toHaveBeenCalledWith('colored()');
     });
+
+    it('should prefix every line with the tag when given', () => {
+      const mockColorFn = vi.fn((text: string) => text);
+
+      UIService.printOutput('line 1\nline 2', mockColorFn, 'Token.compact');
+
+      expect(console.log).toHaveBeenCalledWith(
+        '    [Token.compact] line 1\n    [Token.compact] line 2',
+      );
+    });
   });
 
   describe('displayEnvInfo', () => {
@@ -667,6 +868,8 @@ describe('CompactCompiler', () => {
     mockExec = vi.fn().mockResolvedValue({ stdout: 'success', stderr: '' });
     mockExistsSync.mockReturnValue(true);
     mockReaddir.mockResolvedValue([]);
+    // Source contents for hashing; also an unparsable (empty) cache manifest
+    mockReadFile.mockResolvedValue('' as any);
   });
 
   describe('constructor', () => {
@@ -751,6 +954,19 @@ describe('CompactCompiler', () => {
       expect(compiler.testOptions.flags).toBe('--skip-zk --verbose');
     });
 
+    it('should parse --prune and --dry-run', () => {
+      compiler = CompactCompiler.fromArgs(['--prune', '--dry-run']);
+
+      expect(compiler.testOptions.prune).toBe(true);
+      expect(compiler.testOptions.dryRun).toBe(true);
+    });
+
+    it('should reject --dry-run without --prune', () => {
+      expect(() => CompactCompiler.fromArgs(['--dry-run'])).toThrow(
+        '--dry-run requires --prune or the prune command',
+      );
+    });
+
     it('should parse version flag', () => {
       compiler = CompactCompiler.fromArgs(['+0.26.0']);
 
@@ -870,6 +1086,35 @@ describe('CompactCompiler', () => {
       expect(compiler.testOptions.flags).toBe('--skip-zk');
     });
 
+    it('should map a single --src to its output directory', () => {
+      compiler = CompactCompiler.fromArgs(['--src', 'contracts=build']);
+
+      expect(compiler.testOptions.srcDir).toBe('contracts');
+      expect(compiler.testOptions.outDir).toBe('build');
+      expect(compiler.testOptions.sources).toEqual([]);
+    });
+
+    it('should collect repeated --src flags into source roots', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--src',
+        'packages/token/src=build/token',
+        '--src',
+        'packages/access/src',
+      ]);
+
+      expect(compiler.testOptions.sources).toEqual([
+        { srcDir: 'packages/token/src', outDir: 'build/token' },
+        { srcDir: 'packages/access/src' },
+      ]);
+    });
+
+    it('should parse --workspaces flag', () => {
+      compiler = CompactCompiler.fromArgs(['--workspaces']);
+
+      expect(compiler.testOptions.workspaces).toBe(true);
+      expect(CompactCompiler.fromArgs([]).testOptions.workspaces).toBe(false);
+    });
+
     it('should use default srcDir and outDir when not specified', () => {
       compiler = CompactCompiler.fromArgs([]);
 
@@ -925,6 +1170,172 @@ describe('CompactCompiler', () => {
         CompactCompiler.fromArgs(['--exclude', '--skip-zk']),
       ).toThrow('--exclude flag requires a pattern');
     });
+
+    it('should accumulate repeated --include patterns', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--include',
+        'token/**',
+        '--include',
+        'access/*.compact',
+      ]);
+
+      expect(compiler.testOptions.include).toEqual([
+        'token/**',
+        'access/*.compact',
+      ]);
+    });
+
+    it('should collect positional .compact arguments as files', () => {
+      compiler = CompactCompiler.fromArgs([
+        'src/token/Token.compact',
+        '--skip-zk',
+        'access/Ownable.compact',
+      ]);
+
+      expect(compiler.testOptions.files).toEqual([
+        'src/token/Token.compact',
+        'access/Ownable.compact',
+      ]);
+      expect(compiler.testOptions.flags).toBe('--skip-zk');
+    });
+
+    it('should parse --changed-since flag', () => {
+      compiler = CompactCompiler.fromArgs(['--changed-since', 'origin/main']);
+
+      expect(compiler.testOptions.changedSince).toBe('origin/main');
+    });
+
+    it('should throw for --changed-since without a ref', () => {
+      expect(() => CompactCompiler.fromArgs(['--changed-since'])).toThrow(
+        '--changed-since flag requires a git ref',
+      );
+    });
+
+    it('should parse --profile flag', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--profile',
+        'reports/profile.json',
+      ]);
+
+      expect(compiler.testOptions.profile).toBe('reports/profile.json');
+    });
+
+    it('should throw for --profile without a path', () => {
+      expect(() => CompactCompiler.fromArgs(['--profile'])).toThrow(
+        '--profile flag requires a file path',
+      );
+    });
+
+    it('should throw for --include without a pattern', () => {
+      expect(() => CompactCompiler.fromArgs(['--include'])).toThrow(
+        '--include flag requires a pattern',
+      );
+      expect(() =>
+        CompactCompiler.fromArgs(['--include', '--skip-zk']),
+      ).toThrow('--include flag requires a pattern');
+    });
+
+    it('should parse --jobs flag', () => {
+      compiler = CompactCompiler.fromArgs(['--jobs', '4', '--skip-zk']);
+
+      expect(compiler.testOptions.concurrency).toBe(4);
+      expect(compiler.testOptions.flags).toBe('--skip-zk');
+    });
+
+    it('should default concurrency to 1', () => {
+      compiler = CompactCompiler.fromArgs([]);
+      expect(compiler.testOptions.concurrency).toBe(1);
+    });
+
+    it('should parse --force flag', () => {
+      compiler = CompactCompiler.fromArgs(['--force']);
+
+      expect(compiler.testOptions.force).toBe(true);
+      expect(compiler.testOptions.flags).toBe('');
+    });
+
+    it('should default force to false', () => {
+      compiler = CompactCompiler.fromArgs([]);
+      expect(compiler.testOptions.force).toBe(false);
+    });
+
+    it('should throw for --jobs without a positive integer', () => {
+      expect(() => CompactCompiler.fromArgs(['--jobs'])).toThrow(
+        '--jobs flag requires a positive integer',
+      );
+      expect(() => CompactCompiler.fromArgs(['--jobs', '0'])).toThrow(
+        '--jobs flag requires a positive integer',
+      );
+      expect(() => CompactCompiler.fromArgs(['--jobs', 'many'])).toThrow(
+        '--jobs flag requires a positive integer',
+      );
+    });
+
+    it('should parse --timeout durations', () => {
+      expect(
+        CompactCompiler.fromArgs(['--timeout', '90s']).testOptions.timeout,
+      ).toBe(90_000);
+      expect(
+        CompactCompiler.fromArgs(['--timeout', '5m']).testOptions.timeout,
+      ).toBe(300_000);
+      expect(CompactCompiler.fromArgs([]).testOptions.timeout).toBeUndefined();
+    });
+
+    it('should throw for --timeout without a duration', () => {
+      for (const args of [
+        ['--timeout'],
+        ['--timeout', '0'],
+        ['--timeout', 'soon'],
+      ]) {
+        expect(() => CompactCompiler.fromArgs(args)).toThrow(
+          '--timeout flag requires a duration (e.g. 90s, 5m)',
+        );
+      }
+    });
+
+    it('should parse --reporter and --json', () => {
+      expect(CompactCompiler.fromArgs([]).reporter).toBe('spinner');
+      expect(CompactCompiler.fromArgs(['--json']).reporter).toBe('json');
+      compiler = CompactCompiler.fromArgs(['--reporter', 'json', '--skip-zk']);
+
+      expect(compiler.reporter).toBe('json');
+      expect(compiler.testOptions.flags).toBe('--skip-zk');
+    });
+
+    it('should parse --keep-going flag', () => {
+      compiler = CompactCompiler.fromArgs(['--keep-going', '--skip-zk']);
+
+      expect(compiler.testOptions.continueOnError).toBe(true);
+      expect(compiler.testOptions.flags).toBe('--skip-zk');
+      expect(CompactCompiler.fromArgs([]).testOptions.continueOnError).toBe(
+        false,
+      );
+    });
+
+    it('should parse the CI reporters', () => {
+      expect(CompactCompiler.fromArgs(['--reporter', 'plain']).reporter).toBe(
+        'plain',
+      );
+      expect(CompactCompiler.fromArgs(['--reporter', 'github']).reporter).toBe(
+        'github',
+      );
+      expect(
+        CompactCompiler.fromArgs(['--reporter', 'junit=reports/compact.xml'])
+          .reporter,
+      ).toBe('junit=reports/compact.xml');
+    });
+
+    it('should throw for --reporter without a known format', () => {
+      const message =
+        '--reporter flag requires one of: spinner, json, plain, github, junit=<path>';
+      expect(() => CompactCompiler.fromArgs(['--reporter'])).toThrow(message);
+      expect(() => CompactCompiler.fromArgs(['--reporter', 'xml'])).toThrow(
+        message,
+      );
+      expect(() => CompactCompiler.fromArgs(['--reporter', 'junit='])).toThrow(
+        message,
+      );
+    });
   });
 
   describe('validateEnvironment', () => {
@@ -953,13 +1364,18 @@ describe('CompactCompiler', () => {
 
       // Check steps
       expect(mockExec).toHaveBeenCalledTimes(3);
-      expect(mockExec).toHaveBeenNthCalledWith(1, 'compact', ['--version']); // validate() calls
-      expect(mockExec).toHaveBeenNthCalledWith(2, 'compact', ['--version']); // getDevToolsVersion()
-      expect(mockExec).toHaveBeenNthCalledWith(3, 'compact', [
-        'compile',
-        '+0.26.0',
-        '--version',
-      ]); // getToolchainVersion()
+      expect(mockExec).toHaveBeenNthCalledWith(1, 'compact', ['--version'], {
+        signal: undefined,
+      }); // validate() calls
+      expect(mockExec).toHaveBeenNthCalledWith(2, 'compact', ['--version'], {
+        signal: undefined,
+      }); // getDevToolsVersion()
+      expect(mockExec).toHaveBeenNthCalledWith(
+        3,
+        'compact',
+        ['compile', '+0.26.0', '--version'],
+        { signal: undefined },
+      ); // getToolchainVersion()
 
       // Verify passed args
       expect(displaySpy).toHaveBeenCalledWith(
@@ -972,6 +1388,44 @@ describe('CompactCompiler', () => {
       displaySpy.mockRestore();
     });
 
+    it('should run and enforce an exact toolchain pin', async () => {
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({
+          stdout: 'Compactc version: 0.26.0',
+          stderr: '',
+        });
+      compiler = new CompactCompiler({ toolchain: 'v0.26.0' }, mockExec);
+      vi.spyOn(UIService, 'displayEnvInfo').mockImplementation(() => {});
+
+      await compiler.validateEnvironment();
+
+      expect(compiler.testOptions.version).toBe('0.26.0');
+      expect(mockExec).toHaveBeenNthCalledWith(
+        3,
+        'compact',
+        ['compile', '+0.26.0', '--version'],
+        { signal: undefined },
+      );
+    });
+
+    it('should reject a toolchain outside the pinned range', async () => {
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({
+          stdout: 'Compactc version: 0.27.0',
+          stderr: '',
+        });
+      compiler = new CompactCompiler({ toolchain: '~0.26.0' }, mockExec);
+
+      expect(compiler.testOptions.version).toBeUndefined();
+      await expect(compiler.validateEnvironment()).rejects.toThrow(
+        ToolchainVersionMismatchError,
+      );
+    });
+
     it('should handle CompactCliNotFoundError with installation instructions', async () => {
       mockExec.mockRejectedValue(new Error('Command not found'));
       compiler = new CompactCompiler({}, mockExec);
@@ -1032,11 +1486,12 @@ describe('CompactCompiler', () => {
       await compiler.validateEnvironment();
 
       // Verify version-specific toolchain call
-      expect(mockExec).toHaveBeenNthCalledWith(3, 'compact', [
-        'compile',
-        '+0.26.0',
-        '--version',
-      ]);
+      expect(mockExec).toHaveBeenNthCalledWith(
+        3,
+        'compact',
+        ['compile', '+0.26.0', '--version'],
+        { signal: undefined },
+      );
       expect(displaySpy).toHaveBeenCalledWith(
         'compact 0.1.0',
         'Compactc version: 0.26.0',
@@ -1064,10 +1519,12 @@ describe('CompactCompiler', () => {
       await compiler.validateEnvironment();
 
       // Verify default toolchain call (no version flag)
-      expect(mockExec).toHaveBeenNthCalledWith(3, 'compact', [
-        'compile',
-        '--version',
-      ]);
+      expect(mockExec).toHaveBeenNthCalledWith(
+        3,
+        'compact',
+        ['compile', '--version'],
+        { signal: undefined },
+      );
       expect(displaySpy).toHaveBeenCalledWith(
         'compact 0.1.0',
         'Compactc version: 0.26.0',
@@ -1115,6 +1572,7 @@ describe('CompactCompiler', () => {
       expect(mockExec).toHaveBeenCalledWith(
         'compact',
         expect.arrayContaining(['compile', '--skip-zk']),
+        { signal: expect.any(AbortSignal) },
       );
     });
 
@@ -1153,6 +1611,970 @@ describe('CompactCompiler', () => {
       );
       expect(testMockExec).toHaveBeenCalledTimes(4);
     });
+
+    it('should return per-file results', async () => {
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({}, mockExec);
+      const result = await compiler.compile();
+
+      expect(result).toMatchObject({
+        success: true,
+        devToolsVersion: 'compact 0.1.0',
+        toolchainVersion: 'Compactc 0.26.0',
+        files: [
+          {
+            file: 'MyToken.compact',
+            outputDir: 'artifacts/MyToken',
+            status: 'compiled',
+            diagnostics: [],
+          },
+        ],
+      });
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+      expect(compiler.lastResult).toBe(result);
+    });
+
+    it('should write an artifact manifest for compiled contracts', async () => {
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExistsSync.mockImplementation(
+        (path) => !String(path).endsWith('keys'),
+      );
+      mockReadFile.mockImplementation((async (path: string) =>
+        path.endsWith('index.d.ts')
+          ? 'export type Circuits<T> = {\n  mint(context: C<T>): R;\n}\n'
+          : '') as any);
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ flags: '--skip-zk' }, mockExec);
+      await compiler.compile();
+
+      const write = mockWriteFile.mock.calls.find(
+        ([path]) => path === 'artifacts/manifest.json',
+      );
+      expect(JSON.parse(String(write?.[1]))).toMatchObject({
+        srcDir: 'src',
+        contracts: {
+          'MyToken.compact': {
+            name: 'MyToken',
+            source: 'MyToken.compact',
+            outputDir: 'MyToken',
+            flags: '--skip-zk',
+            toolchainVersion: '0.26.0',
+            keys: false,
+            zkir: true,
+            circuits: ['mint'],
+          },
+        },
+      });
+    });
+
+    it('should expose the partial result when compilation fails', async () => {
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'Broken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' })
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Command failed'), {
+            stdout: '',
+            stderr:
+              'Exception: src/Broken.compact line 2 char 1:\n  parse error',
+          }),
+        );
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({}, mockExec);
+      await expect(compiler.compile()).rejects.toThrow(CompilationError);
+
+      expect(compiler.lastResult).toMatchObject({
+        success: false,
+        files: [
+          {
+            file: 'Broken.compact',
+            status: 'failed',
+            error: 'Failed to compile Broken.compact: Command failed',
+            diagnostics: [
+              { file: 'src/Broken.compact', line: 2, message: 'parse error' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should compile every file and aggregate failures with continueOnError', async () => {
+      const file = (name: string) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      });
+      mockReaddir.mockResolvedValue([
+        file('A.compact'),
+        file('B.compact'),
+        file('C.compact'),
+      ] as any);
+      mockExec.mockImplementation(async (_file, args) => {
+        const input = args.at(-2) ?? '';
+        if (input.endsWith('A.compact') || input.endsWith('C.compact')) {
+          throw new Error(`cannot compile ${input}`);
+        }
+        return { stdout: 'success', stderr: '' };
+      });
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ continueOnError: true }, mockExec);
+      const error = await compiler.compile().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AggregateCompilationError);
+      const aggregate = error as AggregateCompilationError;
+      expect(aggregate.errors.map((e) => e.file)).toEqual([
+        'A.compact',
+        'C.compact',
+      ]);
+      expect(aggregate.total).toBe(3);
+      expect(aggregate.message).toBe(
+        '2 of 3 file(s) failed to compile: A.compact, C.compact',
+      );
+      expect(compiler.lastResult?.files.map((f) => [f.file, f.status])).toEqual(
+        [
+          ['A.compact', 'failed'],
+          ['B.compact', 'compiled'],
+          ['C.compact', 'failed'],
+        ],
+      );
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Summary: 1 compiled, 0 skipped, 2 failed',
+      );
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('✖ A.compact  failed'),
+      );
+    });
+
+    it('should cancel running and pending files when the signal aborts', async () => {
+      const file = (name: string) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      });
+      mockReaddir.mockResolvedValue([
+        file('A.compact'),
+        file('B.compact'),
+        file('C.compact'),
+      ] as any);
+      const controller = new AbortController();
+      mockExec.mockImplementation(async (file, args, options) => {
+        if ((args.at(-2) ?? '').endsWith('B.compact')) {
+          const compiling = hangUntilAborted(file, args, options);
+          controller.abort();
+          return compiling;
+        }
+        return { stdout: 'success', stderr: '' };
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      // Cancellation is never collected as a failure, even with continueOnError
+      compiler = new CompactCompiler({ continueOnError: true }, mockExec);
+      const error = await compiler
+        .compile({ signal: controller.signal })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CancellationError);
+      expect((error as CancellationError).files).toEqual([
+        'B.compact',
+        'C.compact',
+      ]);
+      expect(compiler.lastResult?.files.map((f) => [f.file, f.status])).toEqual(
+        [
+          ['A.compact', 'compiled'],
+          ['B.compact', 'cancelled'],
+          ['C.compact', 'cancelled'],
+        ],
+      );
+      expect(mockSpinner.warn).toHaveBeenCalledWith(
+        '[COMPILE] [2/3] Cancelled B.compact',
+      );
+      expect(mockExec).not.toHaveBeenCalledWith(
+        'compact',
+        expect.arrayContaining(['src/C.compact']),
+        expect.anything(),
+      );
+    });
+
+    it('should apply per-file flag overrides', async () => {
+      mockReaddir.mockImplementation((async (dir: string) =>
+        dir === 'src'
+          ? [
+              {
+                name: 'Token.compact',
+                isFile: () => true,
+                isDirectory: () => false,
+              },
+              { name: 'mocks', isFile: () => false, isDirectory: () => true },
+            ]
+          : [
+              {
+                name: 'MockToken.compact',
+                isFile: () => true,
+                isDirectory: () => false,
+              },
+            ]) as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler(
+        {
+          flags: '--verbose',
+          overrides: { 'src/mocks/**': { flags: '--skip-zk' } },
+        },
+        mockExec,
+      );
+      const result = await compiler.compile();
+
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--verbose', 'src/Token.compact', 'artifacts/Token'],
+        { signal: expect.any(AbortSignal) },
+      );
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '--verbose',
+          '--skip-zk',
+          'src/mocks/MockToken.compact',
+          'artifacts/MockToken',
+        ],
+        { signal: expect.any(AbortSignal) },
+      );
+      expect(result.files.map((f) => [f.file, f.flags])).toEqual([
+        ['Token.compact', '--verbose'],
+        ['mocks/MockToken.compact', '--verbose --skip-zk'],
+      ]);
+    });
+
+    it('should not print compiler output with the json reporter', async () => {
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExec.mockResolvedValue({
+        stdout: 'Compactc 0.26.0\nCompiling circuits',
+        stderr: 'warning',
+      });
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ reporter: 'json' }, mockExec);
+      await compiler.compile();
+
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+
+    it('should skip files recorded as up to date in the cache', async () => {
+      const source = 'circuit foo(): [] {}';
+      const sourceHash = createHash('sha256').update(source).digest('hex');
+      const manifest = {
+        version: 2,
+        entries: {
+          'MyToken.compact': {
+            sourceHash,
+            dependencies: {},
+            flags: '--skip-zk',
+            toolchainVersion: 'Compactc 0.26.0',
+            artifacts: ['artifacts/MyToken'],
+          },
+        },
+      };
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockReadFile.mockImplementation((async (path: string) =>
+        path.endsWith('.compact-cache.json')
+          ? JSON.stringify(manifest)
+          : source) as any);
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' });
+
+      compiler = new CompactCompiler({ flags: '--skip-zk' }, mockExec);
+      await compiler.compile();
+
+      // Only the three environment checks — no `compact compile` invocation
+      expect(mockExec).toHaveBeenCalledTimes(3);
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] [1/1] Skipped MyToken.compact (up to date)',
+      );
+    });
+
+    it('should recompile up-to-date files when force is set', async () => {
+      const source = 'circuit foo(): [] {}';
+      const manifest = {
+        version: 2,
+        entries: {
+          'MyToken.compact': {
+            sourceHash: createHash('sha256').update(source).digest('hex'),
+            dependencies: {},
+            flags: '',
+            toolchainVersion: 'success',
+            artifacts: ['artifacts/MyToken'],
+          },
+        },
+      };
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockReadFile.mockImplementation((async (path: string) =>
+        path.endsWith('.compact-cache.json')
+          ? JSON.stringify(manifest)
+          : source) as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ force: true }, mockExec);
+      await compiler.compile();
+
+      expect(mockExec).toHaveBeenCalledTimes(4);
+      expect(mockExec).toHaveBeenLastCalledWith(
+        'compact',
+        ['compile', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
+    });
+
+    it('should recompile up-to-date files when the artifact layout changes', async () => {
+      const source = 'circuit foo(): [] {}';
+      const manifest = {
+        version: 2,
+        entries: {
+          'token/MyToken.compact': {
+            sourceHash: createHash('sha256').update(source).digest('hex'),
+            dependencies: {},
+            flags: '',
+            toolchainVersion: 'success',
+            artifacts: ['artifacts/MyToken'],
+          },
+        },
+      };
+      const tree: Record<string, unknown[]> = {
+        src: [{ name: 'token', isFile: () => false, isDirectory: () => true }],
+        'src/token': [
+          {
+            name: 'MyToken.compact',
+            isFile: () => true,
+            isDirectory: () => false,
+          },
+        ],
+      };
+      mockReaddir.mockImplementation(
+        (async (path: string) => tree[path] ?? []) as any,
+      );
+      mockReadFile.mockImplementation((async (path: string) =>
+        path.endsWith('.compact-cache.json')
+          ? JSON.stringify(manifest)
+          : source) as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      // Flattened, as recorded: up to date
+      await new CompactCompiler({}, mockExec).compile();
+      expect(mockExec).not.toHaveBeenCalledWith(
+        'compact',
+        expect.arrayContaining(['src/token/MyToken.compact']),
+        expect.anything(),
+      );
+
+      // Hierarchical: the old artifacts still exist, but in the wrong place
+      await new CompactCompiler({ hierarchical: true }, mockExec).compile();
+      expect(mockExec).toHaveBeenLastCalledWith(
+        'compact',
+        ['compile', 'src/token/MyToken.compact', 'artifacts/token/MyToken'],
+        { signal: expect.any(AbortSignal) },
+      );
+    });
+
+    it('should compile dependents of a target directory in dependency order', async () => {
+      const file = (name: string) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      });
+      const dir = (name: string) => ({
+        name,
+        isFile: () => false,
+        isDirectory: () => true,
+      });
+      const tree: Record<string, unknown[]> = {
+        src: [dir('token'), dir('utils')],
+        'src/token': [file('Token.compact')],
+        'src/utils': [file('Utils.compact')],
+      };
+      mockReaddir.mockImplementation(
+        (async (path: string) => tree[path] ?? []) as any,
+      );
+      mockReadFile.mockImplementation((async (path: string) =>
+        path === 'src/token/Token.compact'
+          ? 'import "../utils/Utils";'
+          : '') as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ targetDir: 'utils' }, mockExec);
+      await compiler.compile();
+
+      const compiled = mockExec.mock.calls
+        .map(([, args]) => args)
+        .filter((args) => args[0] === 'compile' && !args.includes('--version'))
+        .map((args) => args.at(-2));
+      expect(compiled).toEqual([
+        'src/utils/Utils.compact',
+        'src/token/Token.compact',
+      ]);
+    });
+
+    /**
+     * Mocks `src/` with `token/Token.compact` importing `utils/Utils.compact`
+     * and an unrelated `access/Ownable.compact`, and returns the files
+     * compiled by `compile()`, in order.
+     */
+    async function compiledFiles(options: CompilerOptions): Promise<string[]> {
+      const file = (name: string) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      });
+      const dir = (name: string) => ({
+        name,
+        isFile: () => false,
+        isDirectory: () => true,
+      });
+      const tree: Record<string, unknown[]> = {
+        src: [dir('access'), dir('token'), dir('utils')],
+        'src/access': [file('Ownable.compact')],
+        'src/token': [file('Token.compact')],
+        'src/utils': [file('Utils.compact')],
+      };
+      mockReaddir.mockImplementation(
+        (async (path: string) => tree[path] ?? []) as any,
+      );
+      mockReadFile.mockImplementation((async (path: string) =>
+        path === 'src/token/Token.compact'
+          ? 'import "../utils/Utils";'
+          : '') as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler(options, mockExec);
+      await compiler.compile();
+
+      return mockExec.mock.calls
+        .map(([, args]) => args)
+        .filter((args) => args[0] === 'compile' && !args.includes('--version'))
+        .map((args) => args.at(-2) as string);
+    }
+
+    it('should compile listed files and their dependents', async () => {
+      // Paths may be relative to the working directory or to srcDir
+      await expect(
+        compiledFiles({ files: ['src/utils/Utils.compact'] }),
+      ).resolves.toEqual([
+        'src/utils/Utils.compact',
+        'src/token/Token.compact',
+      ]);
+      mockExec.mockClear();
+      await expect(
+        compiledFiles({ files: ['access/Ownable.compact'] }),
+      ).resolves.toEqual(['src/access/Ownable.compact']);
+    });
+
+    it('should throw FileNotFoundError for a listed file that does not exist', async () => {
+      mockExistsSync.mockImplementation((path) => path === 'src');
+
+      await expect(
+        compiledFiles({ files: ['Missing.compact'] }),
+      ).rejects.toThrow(
+        new FileNotFoundError(
+          'File Missing.compact does not exist in src',
+          'Missing.compact',
+        ),
+      );
+    });
+
+    it('should compile files changed since a git ref and their dependents', async () => {
+      mockExec.mockImplementation(async (file, args) => {
+        if (file !== 'git') {
+          return { stdout: 'success', stderr: '' };
+        }
+        if (args[0] === 'rev-parse') {
+          return { stdout: '\n', stderr: '' };
+        }
+        return {
+          stdout:
+            args[0] === 'diff' ? 'src/utils/Utils.compact\0README.md\0' : '',
+          stderr: '',
+        };
+      });
+
+      await expect(
+        compiledFiles({ changedSince: 'origin/main' }),
+      ).resolves.toEqual([
+        'src/utils/Utils.compact',
+        'src/token/Token.compact',
+      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'git',
+        ['diff', '--name-only', '-z', 'origin/main', '--'],
+        { signal: undefined },
+      );
+    });
+
+    describe('with several source roots', () => {
+      const file = (name: string) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      });
+      const dir = (name: string) => ({
+        name,
+        isFile: () => false,
+        isDirectory: () => true,
+      });
+      const sources = [
+        { srcDir: 'packages/token/src' },
+        { srcDir: 'packages/access/contracts', outDir: 'build/access' },
+      ];
+
+      /** `[source, outputDir]` of every toolchain compile call, in order. */
+      const compileCalls = () =>
+        mockExec.mock.calls
+          .map(([, args]) => args)
+          .filter(
+            (args) => args[0] === 'compile' && !args.includes('--version'),
+          )
+          .map((args) => args.slice(-2));
+
+      beforeEach(() => {
+        const tree: Record<string, unknown[]> = {
+          packages: [dir('access'), dir('docs'), dir('token')],
+          'packages/token/src': [file('Token.compact')],
+          'packages/access/src': [file('Ownable.compact')],
+          'packages/access/contracts': [file('Ownable.compact')],
+        };
+        mockReaddir.mockImplementation(
+          (async (path: string) => tree[path] ?? []) as any,
+        );
+      });
+
+      it('should compile each root into its own outDir and summarize them together', async () => {
+        const reporter = new SilentReporter();
+        const onEnvironment = vi.spyOn(reporter, 'onEnvironment');
+        const onSourceRoot = vi.spyOn(reporter, 'onSourceRoot');
+        const onSummary = vi.spyOn(reporter, 'onSummary');
+
+        compiler = new CompactCompiler({ sources }, mockExec, reporter);
+        const result = await compiler.compile();
+
+        expect(compileCalls()).toEqual([
+          [
+            'packages/token/src/Token.compact',
+            'packages/token/artifacts/Token',
+          ],
+          ['packages/access/contracts/Ownable.compact', 'build/access/Ownable'],
+        ]);
+        expect(onEnvironment).toHaveBeenCalledTimes(1);
+        expect(onSourceRoot).toHaveBeenLastCalledWith({
+          name: 'packages/access/contracts',
+          packageDir: 'packages/access',
+          srcDir: 'packages/access/contracts',
+          outDir: 'build/access',
+          index: 1,
+          total: 2,
+        });
+        expect(result.files.map((f) => f.file)).toEqual([
+          'packages/token/src/Token.compact',
+          'packages/access/contracts/Ownable.compact',
+        ]);
+        expect(onSummary).toHaveBeenCalledTimes(1);
+        expect(onSummary).toHaveBeenCalledWith(result.files);
+      });
+
+      it('should keep compiling the next roots with continueOnError', async () => {
+        mockExec.mockImplementation(async (_file, args) => {
+          if (args.includes('packages/token/src/Token.compact')) {
+            throw new Error('Command failed: compact compile');
+          }
+          return { stdout: 'success', stderr: '' };
+        });
+
+        compiler = new CompactCompiler(
+          { sources, continueOnError: true },
+          mockExec,
+          new SilentReporter(),
+        );
+
+        await expect(compiler.compile()).rejects.toThrow(
+          AggregateCompilationError,
+        );
+        expect(
+          compiler.lastResult?.files.map((f) => [f.file, f.status]),
+        ).toEqual([
+          ['packages/token/src/Token.compact', 'failed'],
+          ['packages/access/contracts/Ownable.compact', 'compiled'],
+        ]);
+      });
+
+      it('should only compile the roots holding listed files', async () => {
+        compiler = new CompactCompiler(
+          { sources, files: ['packages/access/contracts/Ownable.compact'] },
+          mockExec,
+          new SilentReporter(),
+        );
+        await compiler.compile();
+
+        expect(compileCalls()).toEqual([
+          ['packages/access/contracts/Ownable.compact', 'build/access/Ownable'],
+        ]);
+
+        compiler = new CompactCompiler(
+          { sources, files: ['Token.compact'] },
+          mockExec,
+          new SilentReporter(),
+        );
+        await expect(compiler.compile()).rejects.toThrow(
+          'File Token.compact is not in any source root',
+        );
+      });
+
+      it('should plan the files of every root without running the toolchain', async () => {
+        compiler = new CompactCompiler(
+          { sources },
+          mockExec,
+          new SilentReporter(),
+        );
+
+        await expect(compiler.plannedFiles()).resolves.toEqual([
+          {
+            file: 'packages/token/src/Token.compact',
+            outputDir: 'packages/token/artifacts/Token',
+          },
+          {
+            file: 'packages/access/contracts/Ownable.compact',
+            outputDir: 'build/access/Ownable',
+          },
+        ]);
+        expect(mockExec).not.toHaveBeenCalled();
+      });
+
+      it('should reject roots that share an output directory', async () => {
+        compiler = new CompactCompiler(
+          {
+            sources: [
+              { srcDir: 'packages/token/src' },
+              { srcDir: 'packages/token/contracts' },
+            ],
+          },
+          mockExec,
+          new SilentReporter(),
+        );
+
+        await expect(compiler.compile()).rejects.toThrow(
+          'Source roots packages/token/src and packages/token/contracts both compile to packages/token/artifacts',
+        );
+      });
+
+      it('should compile every workspace package with .compact sources', async () => {
+        mockReadFile.mockImplementation((async (path: string) => {
+          if (path === 'package.json') {
+            return JSON.stringify({ workspaces: ['packages/*'] });
+          }
+          const match = /^packages\/(\w+)\/package\.json$/.exec(path);
+          return match ? JSON.stringify({ name: `@acme/${match[1]}` }) : '';
+        }) as any);
+        const reporter = new SilentReporter();
+        const onSourceRoot = vi.spyOn(reporter, 'onSourceRoot');
+
+        compiler = new CompactCompiler(
+          { workspaces: true },
+          mockExec,
+          reporter,
+        );
+        await compiler.compile();
+
+        // packages/docs has no .compact files and is left out
+        expect(compileCalls()).toEqual([
+          [
+            'packages/access/src/Ownable.compact',
+            'packages/access/artifacts/Ownable',
+          ],
+          [
+            'packages/token/src/Token.compact',
+            'packages/token/artifacts/Token',
+          ],
+        ]);
+        expect(onSourceRoot.mock.calls.map(([event]) => event.name)).toEqual([
+          '@acme/access',
+          '@acme/token',
+        ]);
+      });
+    });
+
+    it('should time environment validation apart from compilation', async () => {
+      mockReaddir.mockResolvedValue([
+        { name: 'Token.compact', isFile: () => true, isDirectory: () => false },
+      ] as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({}, mockExec);
+      const result = await compiler.compile();
+
+      expect(result.environmentMs).toEqual(expect.any(Number));
+      expect(result.compileMs).toEqual(expect.any(Number));
+      expect(result.files[0].compileMs).toEqual(expect.any(Number));
+      expect(result.files[0].compileMs).toBeLessThanOrEqual(
+        result.files[0].durationMs,
+      );
+    });
+
+    it('should compile up to `concurrency` files at once', async () => {
+      const mockDirents = ['A', 'B', 'C', 'D', 'E'].map((name) => ({
+        name: `${name}.compact`,
+        isFile: () => true,
+        isDirectory: () => false,
+      }));
+      mockReaddir.mockResolvedValue(mockDirents as any);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const slowExec = vi.fn(async (_file: string, args: readonly string[]) => {
+        if (args[0] === 'compile' && !args.includes('--version')) {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+        }
+        return { stdout: 'success', stderr: '' };
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ concurrency: 2 }, slowExec);
+      await compiler.compile();
+
+      expect(maxInFlight).toBe(2);
+      // 3 environment calls + 5 compilations
+      expect(slowExec).toHaveBeenCalledTimes(8);
+    });
+
+    it('should stop scheduling files after a parallel failure', async () => {
+      const mockDirents = ['A', 'B', 'C', 'D'].map((name) => ({
+        name: `${name}.compact`,
+        isFile: () => true,
+        isDirectory: () => false,
+      }));
+      mockReaddir.mockResolvedValue(mockDirents as any);
+
+      const testMockExec = vi
+        .fn()
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' })
+        .mockRejectedValueOnce(new Error('Compilation failed'))
+        .mockResolvedValue({ stdout: 'success', stderr: '' });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      compiler = new CompactCompiler({ concurrency: 2 }, testMockExec);
+
+      await expect(compiler.compile()).rejects.toThrow(
+        'Failed to compile A.compact: Compilation failed',
+      );
+      // A fails while B is in flight; C and D are never started
+      expect(testMockExec).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('watch', () => {
+    const file = (name: string) => ({
+      name,
+      isFile: () => true,
+      isDirectory: () => false,
+    });
+    const compiledFiles = (exec: MockedFunction<ExecFunction>) =>
+      exec.mock.calls
+        .map(([, args]) => args)
+        .filter((args) => args[0] === 'compile' && !args.includes('--version'))
+        .map((args) => args.at(-2));
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('compiles once, then recompiles changed files and their dependents', async () => {
+      mockReaddir.mockResolvedValue([
+        file('Token.compact'),
+        file('Utils.compact'),
+        file('Other.compact'),
+      ] as any);
+      mockReadFile.mockImplementation((async (path: string) =>
+        path === 'src/Token.compact' ? 'import "Utils";' : '') as any);
+
+      const controller = new AbortController();
+      let emit: (filename: string | null) => void = () => {};
+      const watchFn = vi.fn((_dir: string, listener: typeof emit) => {
+        emit = listener;
+        // Watching starts after the initial compile; simulate a save
+        queueMicrotask(() => emit('Utils.compact'));
+        return { close: vi.fn() };
+      });
+      const compiled: string[][] = [];
+      const onCompiled = vi.fn(async (files: string[]) => {
+        compiled.push(files);
+        if (compiled.length === 2) {
+          controller.abort();
+        }
+      });
+
+      compiler = new CompactCompiler({}, mockExec);
+      await compiler.watch({
+        signal: controller.signal,
+        debounceMs: 0,
+        watchFn,
+        onCompiled,
+      });
+
+      expect(watchFn).toHaveBeenCalledWith('src', expect.any(Function));
+      expect(compiled).toEqual([
+        ['Token.compact', 'Utils.compact', 'Other.compact'],
+        ['Utils.compact', 'Token.compact'],
+      ]);
+      expect(compiledFiles(mockExec)).toEqual([
+        'src/Utils.compact',
+        'src/Token.compact',
+        'src/Other.compact',
+        'src/Utils.compact',
+        'src/Token.compact',
+      ]);
+    });
+
+    it('skips onCompiled when a change compiles nothing', async () => {
+      mockReaddir.mockResolvedValue([
+        file('Token.compact'),
+        file('Other.compact'),
+      ] as any);
+
+      const controller = new AbortController();
+      const watchFn = vi.fn(
+        (_dir: string, listener: (filename: string | null) => void) => {
+          // A save outside the targets, once the initial compile is done
+          queueMicrotask(() => listener('Other.compact'));
+          return { close: vi.fn() };
+        },
+      );
+      let idle = 0;
+      vi.spyOn(UIService, 'showWatching').mockImplementation(() => {
+        if (++idle === 2) {
+          controller.abort();
+        }
+      });
+      const onCompiled = vi.fn(async () => {});
+
+      compiler = new CompactCompiler({ files: ['Token.compact'] }, mockExec);
+      await compiler.watch({
+        signal: controller.signal,
+        debounceMs: 0,
+        watchFn,
+        onCompiled,
+      });
+
+      expect(onCompiled).toHaveBeenCalledTimes(1);
+      expect(onCompiled).toHaveBeenCalledWith(['Token.compact']);
+      expect(compiledFiles(mockExec)).toEqual(['src/Token.compact']);
+    });
+
+    it('keeps watching after a compilation error', async () => {
+      mockReaddir.mockResolvedValue([file('Broken.compact')] as any);
+      mockExec.mockImplementation(async (_file, args) => {
+        if (args[0] === 'compile' && !args.includes('--version')) {
+          throw new Error('syntax error');
+        }
+        return { stdout: 'success', stderr: '' };
+      });
+
+      const controller = new AbortController();
+      let emit: (filename: string | null) => void = () => {};
+      const watchFn = vi.fn((_dir: string, listener: typeof emit) => {
+        emit = listener;
+        // Trigger a change as soon as the initial (failing) compile is done
+        queueMicrotask(() => emit('Broken.compact'));
+        return { close: vi.fn() };
+      });
+      let watchErrors = 0;
+      mockSpinner.fail.mockImplementation((text: string) => {
+        if (text.startsWith('[WATCH]') && ++watchErrors === 2) {
+          controller.abort();
+        }
+      });
+
+      compiler = new CompactCompiler({}, mockExec);
+      await compiler.watch({
+        signal: controller.signal,
+        debounceMs: 0,
+        watchFn,
+      });
+
+      expect(compiledFiles(mockExec)).toEqual([
+        'src/Broken.compact',
+        'src/Broken.compact',
+      ]);
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[WATCH] Failed to compile Broken.compact: syntax error',
+      );
+      mockSpinner.fail.mockReset();
+    });
+
+    it('returns immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const close = vi.fn();
+
+      compiler = new CompactCompiler({}, mockExec);
+      await compiler.watch({
+        signal: controller.signal,
+        watchFn: () => ({ close }),
+      });
+
+      expect(close).toHaveBeenCalled();
+    });
   });
 
   describe('Real-world scenarios', () => {
@@ -0,0 +1,151 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DependencyGraph } from '../src/Compiler.js';
+
+const graphOf = (sources: Record<string, string>) =>
+  new DependencyGraph(new Map(Object.entries(sources)));
+
+describe('DependencyGraph', () => {
+  describe('parseReferences', () => {
+    it('parses path, name, selective and include references', () => {
+      const refs = DependencyGraph.parseReferences(`
+        pragma language_version >= 0.20.0;
+        import CompactStandardLibrary;
+        import { Either, Maybe } from CompactStandardLibrary;
+        import "../access/Ownable" prefix Ownable_;
+        import { foo } from "./Utils";
+        include "helpers";
+      `);
+
+      expect(refs).toEqual([
+        { kind: 'name', specifier: 'CompactStandardLibrary' },
+        { kind: 'name', specifier: 'CompactStandardLibrary' },
+        { kind: 'path', specifier: '../access/Ownable' },
+        { kind: 'path', specifier: './Utils' },
+        { kind: 'path', specifier: 'helpers' },
+      ]);
+    });
+
+    it('ignores references inside comments', () => {
+      const refs = DependencyGraph.parseReferences(`
+        // import "./Old";
+        /* include "legacy";
+           import Gone; */
+        import "./New";
+      `);
+
+      expect(refs).toEqual([{ kind: 'path', specifier: './New' }]);
+    });
+  });
+
+  describe('graph queries', () => {
+    const graph = graphOf({
+      'token/Token.compact': 'import "../access/Ownable";',
+      'access/Ownable.compact':
+        'import "../utils/Utils"; import CompactStandardLibrary;',
+      'utils/Utils.compact': '',
+      'utils/Math.compact': 'include "Utils";',
+      'Standalone.compact': 'import "../outside/Thing";',
+    });
+
+    it('resolves direct dependencies relative to the importing file', () => {
+      expect(graph.dependenciesOf('token/Token.compact')).toEqual([
+        'access/Ownable.compact',
+      ]);
+      expect(graph.dependenciesOf('utils/Math.compact')).toEqual([
+        'utils/Utils.compact',
+      ]);
+    });
+
+    it('ignores external modules and paths outside srcDir', () => {
+      expect(graph.dependenciesOf('access/Ownable.compact')).toEqual([
+        'utils/Utils.compact',
+      ]);
+      expect(graph.dependenciesOf('Standalone.compact')).toEqual([]);
+    });
+
+    it('collects transitive dependencies', () => {
+      expect(graph.transitiveDependenciesOf('token/Token.compact')).toEqual([
+        'access/Ownable.compact',
+        'utils/Utils.compact',
+      ]);
+    });
+
+    it('collects transitive dependents, excluding the inputs', () => {
+      expect(graph.dependentsOf(['utils/Utils.compact']).sort()).toEqual([
+        'access/Ownable.compact',
+        'token/Token.compact',
+        'utils/Math.compact',
+      ]);
+    });
+
+    it('sorts dependencies before their dependents', () => {
+      expect(
+        graph.sort([
+          'token/Token.compact',
+          'Standalone.compact',
+          'utils/Utils.compact',
+          'access/Ownable.compact',
+        ]),
+      ).toEqual([
+        'utils/Utils.compact',
+        'access/Ownable.compact',
+        'token/Token.compact',
+        'Standalone.compact',
+      ]);
+    });
+
+    it('terminates on import cycles', () => {
+      const cyclic = graphOf({
+        'A.compact': 'import "B";',
+        'B.compact': 'import "A";',
+      });
+
+      expect(cyclic.sort(['A.compact', 'B.compact']).sort()).toEqual([
+        'A.compact',
+        'B.compact',
+      ]);
+      expect(cyclic.dependentsOf(['A.compact'])).toEqual(['B.compact']);
+    });
+
+    it('exposes a content hash per file', () => {
+      expect(graph.hashOf('utils/Utils.compact')).toBe(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+      );
+      expect(graph.hashOf('Missing.compact')).toBeUndefined();
+    });
+  });
+
+  describe('build', () => {
+    let srcDir: string;
+
+    beforeEach(async () => {
+      srcDir = await mkdtemp(join(tmpdir(), 'dependency-graph-'));
+    });
+
+    afterEach(async () => {
+      await rm(srcDir, { recursive: true, force: true });
+    });
+
+    it('discovers and parses every .compact file under srcDir', async () => {
+      await mkdir(join(srcDir, 'token'));
+      await writeFile(join(srcDir, 'Utils.compact'), '');
+      await writeFile(
+        join(srcDir, 'token', 'Token.compact'),
+        'import "../Utils";',
+      );
+
+      const graph = await DependencyGraph.build(srcDir);
+
+      expect(graph.files.sort()).toEqual([
+        'Utils.compact',
+        'token/Token.compact',
+      ]);
+      expect(graph.dependentsOf(['Utils.compact'])).toEqual([
+        'token/Token.compact',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticParser } from '../src/Compiler.js';
+import type { Diagnostic } from '../src/types/errors.js';
+
+describe('DiagnosticParser.parse', () => {
+  it('parses compactc exceptions with indented messages', () => {
+    const output = [
+      'Compactc version: 0.26.0',
+      'Exception: src/token/Token.compact line 12 char 5:',
+      '  expected a value of type Uint<64>',
+      '  but received Field',
+    ].join('\n');
+
+    expect(DiagnosticParser.parse(output)).toEqual([
+      {
+        file: 'src/token/Token.compact',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        message: 'expected a value of type Uint<64>\nbut received Field',
+      },
+    ]);
+  });
+
+  it('parses spans and same-line messages', () => {
+    const output =
+      'Exception: src/Token.compact line 3 char 10 through line 3 char 14: unbound identifier total';
+
+    expect(DiagnosticParser.parse(output)).toEqual([
+      {
+        file: 'src/Token.compact',
+        line: 3,
+        column: 10,
+        endLine: 3,
+        endColumn: 14,
+        severity: 'error',
+        message: 'unbound identifier total',
+      },
+    ]);
+  });
+
+  it('parses file:line:column diagnostics and warnings', () => {
+    const output = [
+      'src/A.compact:1:2: warning: unused import',
+      'src/B.compact:4:8: error: parse error',
+    ].join('\n');
+
+    expect(DiagnosticParser.parse(output)).toEqual([
+      {
+        file: 'src/A.compact',
+        line: 1,
+        column: 2,
+        severity: 'warning',
+        message: 'unused import',
+      },
+      {
+        file: 'src/B.compact',
+        line: 4,
+        column: 8,
+        severity: 'error',
+        message: 'parse error',
+      },
+    ]);
+  });
+
+  it('returns an empty list for unlocated output', () => {
+    expect(DiagnosticParser.parse('compact: command not found')).toEqual([]);
+  });
+});
+
+describe('DiagnosticParser.formatCodeFrame', () => {
+  const source = [
+    'pragma language_version >= 0.16;',
+    '',
+    'export circuit add(a: Field): Field {',
+    '  return a + total;',
+    '}',
+  ].join('\n');
+  const diagnostic: Diagnostic = {
+    file: 'src/Token.compact',
+    line: 4,
+    column: 14,
+    endLine: 4,
+    endColumn: 18,
+    severity: 'error',
+    message: 'unbound identifier total',
+  };
+
+  it('marks the offending line and underlines the span', () => {
+    expect(DiagnosticParser.formatCodeFrame(source, diagnostic)).toBe(
+      [
+        '  2 | ',
+        '  3 | export circuit add(a: Field): Field {',
+        '> 4 |   return a + total;',
+        '    |              ^^^^^',
+        '  5 | }',
+      ].join('\n'),
+    );
+  });
+
+  it('applies the highlight function and context size', () => {
+    const frame = DiagnosticParser.formatCodeFrame(source, diagnostic, {
+      contextLines: 0,
+      highlight: (text) => `<${text}>`,
+    });
+
+    expect(frame).toBe(
+      ['<>> 4 |   return a + total;', '    |              <^^^^^>'].join('\n'),
+    );
+  });
+
+  it('returns an empty string when the line is out of range', () => {
+    expect(
+      DiagnosticParser.formatCodeFrame(source, { ...diagnostic, line: 99 }),
+    ).toBe('');
+  });
+});
@@ -0,0 +1,89 @@
+import { join } from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import type { ExecFunction } from '../src/Compiler.js';
+import { GitChangeDetector } from '../src/services/GitChangeDetector.js';
+import { CancellationError, GitError } from '../src/types/errors.js';
+
+/** ExecFunction answering the three git commands the detector runs. */
+function mockGit(output: {
+  prefix?: string;
+  diff?: string[];
+  untracked?: string[];
+}): ExecFunction {
+  return vi.fn(async (_file: string, args: readonly string[]) => {
+    const paths =
+      args[0] === 'diff'
+        ? output.diff
+        : args[0] === 'ls-files'
+          ? output.untracked
+          : undefined;
+    return {
+      stdout:
+        args[0] === 'rev-parse'
+          ? `${output.prefix ?? ''}\n`
+          : (paths ?? []).map((path) => `${path}\0`).join(''),
+      stderr: '',
+    };
+  });
+}
+
+describe('GitChangeDetector', () => {
+  it('lists changed and untracked .compact files relative to dir', async () => {
+    const git = new GitChangeDetector(
+      mockGit({
+        diff: ['src/token/Token.compact', 'README.md', 'test/Mock.compact'],
+        untracked: ['src/access/Ownable.compact', 'src/token/Token.compact'],
+      }),
+    );
+
+    await expect(git.changedFiles('origin/main', 'src')).resolves.toEqual([
+      join('access', 'Ownable.compact'),
+      join('token', 'Token.compact'),
+    ]);
+  });
+
+  it('maps repository paths through the working directory prefix', async () => {
+    const git = new GitChangeDetector(
+      mockGit({
+        prefix: 'packages/contracts/',
+        diff: [
+          'packages/contracts/src/Token.compact',
+          'packages/other/src/Other.compact',
+        ],
+      }),
+    );
+
+    await expect(git.changedFiles('HEAD~1', 'src')).resolves.toEqual([
+      'Token.compact',
+    ]);
+  });
+
+  it('throws GitError with git stderr when a command fails', async () => {
+    const execFn = vi.fn().mockRejectedValue(
+      Object.assign(new Error('Command failed: git diff'), {
+        stdout: '',
+        stderr: "fatal: bad revision 'nope'\n",
+      }),
+    );
+    const git = new GitChangeDetector(execFn);
+
+    await expect(git.changedFiles('nope', 'src')).rejects.toThrow(
+      new GitError(
+        "Could not list files changed since nope: fatal: bad revision 'nope'",
+        'nope',
+      ),
+    );
+  });
+
+  it('throws CancellationError when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const git = new GitChangeDetector(
+      vi.fn().mockRejectedValue(new Error('Command failed: killed')),
+    );
+
+    await expect(
+      git.changedFiles('HEAD', 'src', controller.signal),
+    ).rejects.toThrow(CancellationError);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { GlobMatcher } from '../src/services/GlobMatcher.js';
+
+describe('GlobMatcher', () => {
+  it('keeps * and ? within a single path segment', () => {
+    const matcher = new GlobMatcher(['token/*.compact', 'v?/*']);
+
+    expect(matcher.matches('token/Token.compact')).toBe(true);
+    expect(matcher.matches('token/erc20/Token.compact')).toBe(false);
+    expect(matcher.matches('v1/Token.compact')).toBe(true);
+    expect(matcher.matches('v10/Token.compact')).toBe(false);
+  });
+
+  it('matches any number of directories with **', () => {
+    const matcher = new GlobMatcher(['**/Mock*.compact', 'archive/**']);
+
+    expect(matcher.matches('MockToken.compact')).toBe(true);
+    expect(matcher.matches('a/b/MockToken.compact')).toBe(true);
+    expect(matcher.matches('archive/v1/Old.compact')).toBe(true);
+    expect(matcher.matches('token/archive/Old.compact')).toBe(false);
+  });
+
+  it('matches names without a slash at any depth', () => {
+    const matcher = new GlobMatcher(['Mock*']);
+
+    expect(matcher.matches('MockToken.compact')).toBe(true);
+    expect(matcher.matches('token/MockToken.compact')).toBe(true);
+    expect(matcher.matches('token/TokenMock.compact')).toBe(false);
+  });
+
+  it('anchors patterns with a leading or middle slash to the root', () => {
+    const matcher = new GlobMatcher([
+      '/Token.compact',
+      'access/Ownable.compact',
+    ]);
+
+    expect(matcher.matches('Token.compact')).toBe(true);
+    expect(matcher.matches('token/Token.compact')).toBe(false);
+    expect(matcher.matches('access/Ownable.compact')).toBe(true);
+    expect(matcher.matches('lib/access/Ownable.compact')).toBe(false);
+  });
+
+  it('matches the contents of a matching directory', () => {
+    const matcher = new GlobMatcher(['mocks', 'archive/']);
+
+    expect(matcher.matches('mocks/Token.compact')).toBe(true);
+    expect(matcher.matches('token/archive/Old.compact')).toBe(true);
+    // A directory-only pattern never matches a file of that name
+    expect(new GlobMatcher(['Token.compact/']).matches('Token.compact')).toBe(
+      false,
+    );
+  });
+
+  it('supports character classes', () => {
+    const matcher = new GlobMatcher(['Token[0-9].compact', 'v[!0-9]*']);
+
+    expect(matcher.matches('Token2.compact')).toBe(true);
+    expect(matcher.matches('TokenA.compact')).toBe(false);
+    expect(matcher.matches('vNext/Token.compact')).toBe(true);
+    expect(matcher.matches('v2/Token.compact')).toBe(false);
+  });
+
+  it('expands brace alternatives', () => {
+    const matcher = new GlobMatcher(['{access,token}/*.compact']);
+
+    expect(matcher.matches('access/Ownable.compact')).toBe(true);
+    expect(matcher.matches('token/Token.compact')).toBe(true);
+    expect(matcher.matches('utils/Utils.compact')).toBe(false);
+  });
+
+  it('lets the last matching pattern win, so ! re-includes', () => {
+    const matcher = new GlobMatcher([
+      'archive/',
+      '!archive/Keep.compact',
+      'archive/Keep.compact',
+      '!archive/Keep.compact',
+    ]);
+
+    expect(matcher.matches('archive/Old.compact')).toBe(true);
+    expect(matcher.matches('archive/Keep.compact')).toBe(false);
+  });
+
+  it('ignores blank lines and comments, and honours escapes', () => {
+    const matcher = new GlobMatcher([
+      '',
+      '# comment',
+      '\\#Hash.compact',
+      '\\!Bang.compact',
+    ]);
+
+    expect(matcher.isEmpty).toBe(false);
+    expect(matcher.matches('#Hash.compact')).toBe(true);
+    expect(matcher.matches('!Bang.compact')).toBe(true);
+    expect(new GlobMatcher(['', '# only a comment']).isEmpty).toBe(true);
+  });
+
+  it('also matches paths written relative to the working directory', () => {
+    const matcher = new GlobMatcher(['src/mocks/**', '*/archive/*'], 'src');
+
+    expect(matcher.matches('mocks/Token.compact')).toBe(true);
+    expect(matcher.matches('archive/Old.compact')).toBe(true);
+    expect(matcher.matches('token/Token.compact')).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PackageManifestWriter } from '../src/services/PackageManifestWriter.js';
+import { ConfigError } from '../src/types/errors.js';
+
+describe('PackageManifestWriter', () => {
+  let root: string;
+
+  /** Writes a file (and its parent directories) under the root. */
+  function write(file: string, contents = ''): void {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(join(root, file), contents);
+  }
+
+  /** Writes `manifest` as the package.json and returns the dist copy. */
+  async function rewrite(manifest: unknown): Promise<unknown> {
+    write('package.json', JSON.stringify(manifest));
+    await new PackageManifestWriter().write(
+      join(root, 'package.json'),
+      join(root, 'dist'),
+      join(root, 'src'),
+    );
+    return JSON.parse(readFileSync(join(root, 'dist/package.json'), 'utf8'));
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-manifest-'));
+    write('dist/index.js');
+    write('dist/index.d.ts');
+    write('dist/token/index.mjs');
+    write('dist/token/index.d.mts');
+    write('dist/cli.js');
+    write('dist/artifacts/Token/contract/index.js');
+    write('dist/Token.compact');
+    write('dist/tsconfig.build.tsbuildinfo');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('remaps entry points in dist or src relative to dist', async () => {
+    await expect(
+      rewrite({
+        name: '@acme/token',
+        version: '1.0.0',
+        main: './dist/index.js',
+        types: 'src/index.ts',
+        bin: { token: './src/cli.ts' },
+        dependencies: { '@acme/access': '^1.0.0' },
+      }),
+    ).resolves.toEqual({
+      name: '@acme/token',
+      version: '1.0.0',
+      main: './index.js',
+      types: './index.d.ts',
+      bin: { token: './cli.js' },
+      dependencies: { '@acme/access': '^1.0.0' },
+      files: [
+        'Token.compact',
+        'artifacts',
+        'cli.js',
+        'index.d.ts',
+        'index.js',
+        'token',
+      ],
+    });
+  });
+
+  it('remaps nested export conditions, with declarations for types', async () => {
+    const manifest = (await rewrite({
+      exports: {
+        '.': { types: './src/index.ts', default: './src/index.ts' },
+        './token': {
+          import: {
+            types: './src/token/index.mts',
+            default: './src/token/index.mts',
+          },
+        },
+        './artifacts/*': './dist/artifacts/*/contract/index.js',
+        './package.json': './package.json',
+        './internal': null,
+      },
+    })) as { exports: unknown };
+
+    expect(manifest.exports).toEqual({
+      '.': { types: './index.d.ts', default: './index.js' },
+      './token': {
+        import: {
+          types: './token/index.d.mts',
+          default: './token/index.mjs',
+        },
+      },
+      './artifacts/*': './artifacts/*/contract/index.js',
+      './package.json': './package.json',
+      './internal': null,
+    });
+  });
+
+  it('strips development-only fields', async () => {
+    const manifest = await rewrite({
+      name: 'token',
+      scripts: { build: 'compact-builder' },
+      devDependencies: { typescript: '^5.0.0' },
+      workspaces: ['packages/*'],
+      packageManager: 'yarn@4.1.0',
+      resolutions: { typescript: '5.4.0' },
+    });
+
+    expect(Object.keys(manifest as object)).toEqual(['name', 'files']);
+  });
+
+  it('lists every missing entry point and writes nothing', async () => {
+    const error = await rewrite({
+      main: './src/index.ts',
+      types: './dist/missing.d.ts',
+      exports: { './lib/*': { import: './src/lib/*.ts' } },
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toEqual([
+      'types: ./missing.d.ts does not exist',
+      'exports["./lib/*"]["import"]: ./lib/*.js does not exist',
+    ]);
+    expect(() => readFileSync(join(root, 'dist/package.json'))).toThrow();
+  });
+
+  it('rejects a manifest that is not a JSON object', async () => {
+    await expect(rewrite(['token'])).rejects.toThrow(
+      'must contain a JSON object',
+    );
+  });
+});
@@ -0,0 +1,607 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CompactCompiler,
+  type CompileProfile,
+  createReporter,
+  type FileEvent,
+  type FileResult,
+  GitHubReporter,
+  JUnitReporter,
+  PlainReporter,
+  SilentReporter,
+  SpinnerReporter,
+} from '../src/Compiler.js';
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    info: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+  })),
+}));
+
+/** Records the name of every event it receives. */
+class RecordingReporter extends SilentReporter {
+  readonly events: string[] = [];
+
+  override onEnvironment(): void {
+    this.events.push('environment');
+  }
+
+  override onDiscovery(fileCount: number): void {
+    this.events.push(`discovery ${fileCount}`);
+  }
+
+  override onFileStart(event: FileEvent): void {
+    this.events.push(`start ${event.file}`);
+  }
+
+  override onFileSuccess(event: FileEvent, result: FileResult): void {
+    this.events.push(`${result.status} ${event.file}`);
+  }
+
+  override onFileFailure(event: FileEvent): void {
+    this.events.push(`failed ${event.file}`);
+  }
+
+  override onSummary(results: readonly FileResult[]): void {
+    this.events.push(`summary ${results.length}`);
+  }
+
+  override onProfile(profile: CompileProfile): void {
+    this.events.push(`profile ${profile.files.length}`);
+  }
+}
+
+describe('Reporter', () => {
+  let root: string;
+  let srcDir: string;
+  let outDir: string;
+
+  /** Exec mock: environment checks succeed, then each compile in `outcomes`. */
+  function mockExec(...outcomes: ('ok' | 'fail')[]) {
+    const exec = vi
+      .fn()
+      .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+      .mockResolvedValueOnce({ stdout: 'compact 0.1.0', stderr: '' })
+      .mockResolvedValueOnce({ stdout: 'Compactc 0.26.0', stderr: '' });
+    for (const outcome of outcomes) {
+      if (outcome === 'ok') {
+        exec.mockResolvedValueOnce({
+          stdout: 'Compactc 0.26.0\nCompiled',
+          stderr: '',
+        });
+      } else {
+        exec.mockRejectedValueOnce(
+          Object.assign(new Error('Compilation failed'), {
+            stdout: 'Compactc 0.26.0',
+            stderr: 'Exception: Token.compact line 1 char 1: boom',
+          }),
+        );
+      }
+    }
+    return exec;
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'reporter-'));
+    srcDir = join(root, 'src');
+    outDir = join(root, 'artifacts');
+    await mkdir(srcDir);
+    await writeFile(join(srcDir, 'Counter.compact'), 'circuit foo(): [] {}');
+    await writeFile(join(srcDir, 'Token.compact'), 'circuit bar(): [] {}');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('receives lifecycle events from an injected reporter', async () => {
+    const reporter = new RecordingReporter();
+    const compiler = new CompactCompiler(
+      { srcDir, outDir, continueOnError: true },
+      mockExec('ok', 'fail'),
+      reporter,
+    );
+
+    await expect(compiler.compile()).rejects.toThrow();
+
+    expect(reporter.events).toEqual([
+      'environment',
+      'discovery 2',
+      'start Counter.compact',
+      'compiled Counter.compact',
+      'start Token.compact',
+      'failed Token.compact',
+      'summary 2',
+      'profile 2',
+    ]);
+  });
+
+  it('reports cached files as skipped without a start event', async () => {
+    await new CompactCompiler(
+      { srcDir, outDir },
+      mockExec('ok', 'ok'),
+      new SilentReporter(),
+    ).compile();
+    await mkdir(join(outDir, 'Counter'), { recursive: true });
+    await mkdir(join(outDir, 'Token'), { recursive: true });
+
+    const reporter = new RecordingReporter();
+    await new CompactCompiler(
+      { srcDir, outDir },
+      mockExec(),
+      reporter,
+    ).compile();
+
+    expect(reporter.events).toEqual([
+      'environment',
+      'discovery 2',
+      'skipped Counter.compact',
+      'skipped Token.compact',
+    ]);
+  });
+
+  it('writes a timing profile with the profile option', async () => {
+    const path = join(root, 'reports', 'profile.json');
+
+    await new CompactCompiler(
+      { srcDir, outDir, profile: path },
+      mockExec('ok', 'ok'),
+      new SilentReporter(),
+    ).compile();
+
+    const profile: CompileProfile = JSON.parse(await readFile(path, 'utf8'));
+    expect(profile).toMatchObject({
+      toolchainVersion: 'Compactc 0.26.0',
+      success: true,
+      concurrency: 1,
+      environmentMs: expect.any(Number),
+      compileMs: expect.any(Number),
+    });
+    expect(profile.files.map((entry) => entry.file).sort()).toEqual([
+      'Counter.compact',
+      'Token.compact',
+    ]);
+    expect(profile.files[0].compileMs).toBeGreaterThanOrEqual(
+      profile.files[1].compileMs,
+    );
+  });
+
+  it('prints nothing with the silent reporter', async () => {
+    const log = vi.spyOn(console, 'log');
+    const error = vi.spyOn(console, 'error');
+
+    const result = await new CompactCompiler(
+      { srcDir, outDir, continueOnError: true },
+      mockExec('ok', 'fail'),
+      new SilentReporter(),
+    )
+      .compile()
+      .catch(() => undefined);
+
+    expect(result).toBeUndefined();
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('prints compiler output with the spinner reporter', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await new CompactCompiler(
+      { srcDir, outDir },
+      mockExec('ok', 'ok'),
+      new SpinnerReporter(),
+    ).compile();
+
+    expect(log).toHaveBeenCalledWith('    Compiled');
+  });
+
+  it('keeps stdout clean for the json format', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await new CompactCompiler(
+      { srcDir, outDir, continueOnError: true },
+      mockExec('ok', 'ok'),
+      createReporter('json'),
+    ).compile();
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
+
+/** Event of the first of two files, compiled one at a time. */
+const tokenEvent: FileEvent = {
+  file: 'Token.compact',
+  sourcePath: 'src/Token.compact',
+  index: 0,
+  total: 2,
+  flags: '',
+  label: 'Token.compact',
+  concurrent: false,
+};
+
+const failedToken: FileResult = {
+  file: 'Token.compact',
+  outputDir: 'artifacts/Token',
+  status: 'failed',
+  flags: '',
+  durationMs: 1200,
+  diagnostics: [
+    {
+      file: 'src/Token.compact',
+      line: 3,
+      column: 5,
+      severity: 'error',
+      message: 'unbound identifier "x", did you mean "y"?',
+    },
+  ],
+  error: 'Failed to compile Token.compact',
+};
+
+const compactcOutput = {
+  stdout: 'Compactc 0.26.0',
+  stderr: 'Exception: src/Token.compact line 3 char 5: unbound identifier',
+};
+
+describe('PlainReporter', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function lines(): string[] {
+    return log.mock.calls.map((call) => String(call[0]));
+  }
+
+  it('prints one uncolored line per event with indented output', () => {
+    const reporter = new PlainReporter();
+
+    reporter.onFileStart(tokenEvent);
+    reporter.onFileFailure(tokenEvent, failedToken, compactcOutput);
+
+    expect(lines()).toEqual([
+      '[COMPILE] [1/2] Compiling Token.compact',
+      '[COMPILE] [1/2] Failed Token.compact (1.2s)',
+      '    Exception: src/Token.compact line 3 char 5: unbound identifier',
+    ]);
+  });
+
+  it('names the source root each part of a multi-root run belongs to', () => {
+    const reporter = new PlainReporter();
+    const root = {
+      packageDir: 'packages/token',
+      srcDir: 'packages/token/src',
+      outDir: 'packages/token/artifacts',
+      total: 2,
+    };
+
+    reporter.onSourceRoot({ ...root, name: '@acme/token', index: 0 });
+    reporter.onSourceRoot({ ...root, name: root.srcDir, index: 1 });
+
+    expect(lines()).toEqual([
+      '[COMPILE] [1/2] Source root @acme/token: packages/token/src → packages/token/artifacts',
+      '[COMPILE] [2/2] Source root packages/token/src → packages/token/artifacts',
+    ]);
+  });
+
+  it('counts the paths a build step touched', () => {
+    const reporter = new PlainReporter();
+    const event = { name: 'Copying artifacts', index: 1, total: 4 };
+    const output = { stdout: '', stderr: '' };
+
+    reporter.onStepSuccess(
+      event,
+      {
+        name: event.name,
+        status: 'succeeded',
+        durationMs: 100,
+        files: ['dist/a.js', 'dist/b.js'],
+      },
+      output,
+    );
+    reporter.onStepSuccess(
+      event,
+      { name: event.name, status: 'succeeded', durationMs: 100, files: [] },
+      output,
+    );
+
+    expect(lines()).toEqual([
+      '[BUILD] [2/4] Copying artifacts: done (0.1s, 2 paths)',
+      '[BUILD] [2/4] Copying artifacts: done (0.1s)',
+    ]);
+  });
+
+  it('prints the summary table without colors', () => {
+    new PlainReporter().onSummary([
+      { ...failedToken, status: 'compiled', durationMs: 500 },
+    ]);
+
+    expect(lines()).toEqual([
+      '[COMPILE] Summary: 1 compiled, 0 skipped, 0 failed',
+      '    ✔ Token.compact  compiled    0.5s',
+    ]);
+  });
+
+  it('prints the timing split and the slowest files first', () => {
+    const files = Array.from({ length: 11 }, (_, i) => ({
+      file: `C${i}.compact`,
+      status: i === 1 ? ('failed' as const) : ('compiled' as const),
+      compileMs: (11 - i) * 1000,
+    }));
+
+    new PlainReporter().onProfile({
+      startedAt: '2026-01-01T00:00:00.000Z',
+      success: false,
+      concurrency: 1,
+      durationMs: 67_000,
+      environmentMs: 1000,
+      compileMs: 66_000,
+      files,
+    });
+
+    expect(lines()).toEqual([
+      '[COMPILE] Timing: environment 1.0s, compile 66.0s; slowest first:',
+      '     11.0s  C0.compact',
+      '     10.0s  C1.compact (failed)',
+      ...[9, 8, 7, 6, 5, 4, 3, 2].map(
+        (seconds) => `      ${seconds}.0s  C${11 - seconds}.compact`,
+      ),
+      '    … 1 more',
+    ]);
+  });
+
+  it('prints the plan of a dry run step by step', () => {
+    new PlainReporter().onPlan({
+      beforeCompile: [
+        {
+          name: 'beforeCompile hook: yarn gen',
+          actions: [{ type: 'run', command: 'yarn gen' }],
+        },
+      ],
+      files: [{ file: 'Token.compact', outputDir: 'artifacts/Token' }],
+      afterCompile: [
+        {
+          name: 'Copying .compact files',
+          actions: [
+            {
+              type: 'copy',
+              from: 'src/Token.compact',
+              to: 'dist/Token.compact',
+            },
+          ],
+        },
+        { name: 'Removing witness directories from dist', actions: [] },
+      ],
+    });
+
+    expect(lines()).toEqual([
+      '[BUILD] Dry run, nothing is executed:',
+      '[BUILD] [1/3] beforeCompile hook: yarn gen',
+      '    run yarn gen',
+      '[COMPILE] Would compile 1 file(s):',
+      '    Token.compact → artifacts/Token',
+      '[BUILD] [2/3] Copying .compact files',
+      '    copy src/Token.compact → dist/Token.compact',
+      '[BUILD] [3/3] Removing witness directories from dist',
+      '    (nothing to do)',
+    ]);
+  });
+
+  it('reports cancelled files without output and counts them in the summary', () => {
+    const reporter = new PlainReporter();
+    const cancelled = {
+      ...failedToken,
+      status: 'cancelled' as const,
+      diagnostics: [],
+      durationMs: 0,
+    };
+
+    reporter.onFileFailure(tokenEvent, cancelled, compactcOutput);
+    reporter.onSummary([cancelled]);
+
+    expect(lines()).toEqual([
+      '[COMPILE] [1/2] Cancelled Token.compact',
+      '[COMPILE] Summary: 0 compiled, 0 skipped, 0 failed, 1 cancelled',
+      '    ○ Token.compact  cancelled    0.0s',
+    ]);
+  });
+});
+
+describe('GitHubReporter', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function lines(): string[] {
+    return log.mock.calls.map((call) => String(call[0]));
+  }
+
+  it('groups file output and annotates diagnostics', () => {
+    new GitHubReporter().onFileFailure(tokenEvent, failedToken, compactcOutput);
+
+    expect(lines()).toEqual([
+      '::group::[COMPILE] [1/2] Failed Token.compact (1.2s)',
+      '    Exception: src/Token.compact line 3 char 5: unbound identifier',
+      '::endgroup::',
+      '::error file=src/Token.compact,line=3,col=5,title=compactc::unbound identifier "x", did you mean "y"?',
+    ]);
+  });
+
+  it('annotates failures without diagnostics at the source file', () => {
+    new GitHubReporter().onFileFailure(tokenEvent, {
+      ...failedToken,
+      diagnostics: [],
+      error: 'compactc crashed\n100%',
+    });
+
+    expect(lines()).toContain(
+      '::error file=src/Token.compact,title=Compilation failed::compactc crashed%0A100%25',
+    );
+  });
+
+  it('annotates the TypeScript errors of a failed step', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const output =
+      "src/index.ts:3:7: error TS2322: Type 'number' is not assignable to type 'string'.\n";
+
+    new GitHubReporter().onStepFailure(
+      { name: 'Compiling TypeScript', index: 0, total: 4 },
+      {
+        name: 'Compiling TypeScript',
+        status: 'failed',
+        durationMs: 900,
+        error: 'TypeScript compilation of tsconfig.build.json failed',
+        diagnostics: [
+          {
+            file: 'src/index.ts',
+            line: 3,
+            column: 7,
+            endLine: 3,
+            endColumn: 13,
+            severity: 'error',
+            message: "Type 'number' is not assignable to type 'string'.",
+            code: 'TS2322',
+          },
+        ],
+      },
+      { stdout: output, stderr: '' },
+    );
+
+    expect(lines()).toEqual([
+      '[BUILD] [1/4] Compiling TypeScript: failed',
+      `    ${output.trim()}`,
+      "::error file=src/index.ts,line=3,endLine=3,col=7,endColumn=13,title=tsc TS2322::Type 'number' is not assignable to type 'string'.",
+    ]);
+  });
+
+  it('escapes annotation properties', () => {
+    new GitHubReporter().onFileSuccess(
+      tokenEvent,
+      {
+        ...failedToken,
+        status: 'compiled',
+        diagnostics: [
+          {
+            file: 'src/a,b:c.compact',
+            line: 1,
+            column: 2,
+            severity: 'warning',
+            message: 'unused',
+          },
+        ],
+      },
+      { stdout: '', stderr: '' },
+    );
+
+    expect(lines()).toContain(
+      '::warning file=src/a%2Cb%3Ac.compact,line=1,col=2,title=compactc::unused',
+    );
+  });
+});
+
+describe('JUnitReporter', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'junit-reporter-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('writes one testcase per contract', async () => {
+    const path = join(root, 'reports', 'compact.xml');
+    const reporter = new JUnitReporter(path);
+    const counterEvent = {
+      ...tokenEvent,
+      file: 'Counter.compact',
+      sourcePath: 'src/Counter.compact',
+      index: 1,
+    };
+    const counter: FileResult = {
+      file: 'Counter.compact',
+      outputDir: 'artifacts/Counter',
+      status: 'skipped',
+      flags: '',
+      durationMs: 1,
+      diagnostics: [],
+    };
+
+    reporter.onFileFailure(tokenEvent, failedToken, compactcOutput);
+    reporter.onFileSuccess(counterEvent, counter);
+    await reporter.onComplete({
+      success: false,
+      durationMs: 1500,
+      files: [failedToken, counter],
+    });
+
+    const xml = await readFile(path, 'utf8');
+    expect(xml).toContain(
+      '<testsuite name="compact-compiler" tests="2" failures="1" skipped="1" time="1.500"',
+    );
+    expect(xml).toContain(
+      '<testcase name="Token.compact" classname="src" file="src/Token.compact" time="1.200">',
+    );
+    expect(xml).toContain(
+      '<failure message="Failed to compile Token.compact" type="CompilationError">Exception: src/Token.compact line 3 char 5: unbound identifier</failure>',
+    );
+    expect(xml).toContain(
+      '<testcase name="Counter.compact" classname="src" file="src/Counter.compact" time="0.001">\n      <skipped message="up to date"/>',
+    );
+  });
+
+  it('escapes XML and drops color codes', async () => {
+    const path = join(root, 'compact.xml');
+    const reporter = new JUnitReporter(path);
+
+    reporter.onFileFailure(tokenEvent, failedToken, {
+      stdout: '',
+      stderr: '\x1b[31m<Token> & "x"\x1b[39m',
+    });
+    await reporter.onComplete({
+      success: false,
+      durationMs: 1,
+      files: [failedToken],
+    });
+
+    expect(await readFile(path, 'utf8')).toContain(
+      '&lt;Token&gt; &amp; &quot;x&quot;</failure>',
+    );
+  });
+
+  it('is written by createReporter for junit=<path> after compile()', async () => {
+    const path = join(root, 'report.xml');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const exec = vi.fn().mockRejectedValue(new Error('compact not found'));
+
+    await expect(
+      new CompactCompiler(
+        { srcDir: root },
+        exec,
+        createReporter(`junit=${path}`),
+      ).compile(),
+    ).rejects.toThrow();
+
+    expect(await readFile(path, 'utf8')).toContain('tests="0"');
+    vi.restoreAllMocks();
+  });
+});
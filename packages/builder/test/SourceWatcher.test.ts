@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SourceWatcher, type WatchFunction } from '../src/Compiler.js';
+
+describe('SourceWatcher', () => {
+  let emit: (filename: string | null) => void;
+  let close: ReturnType<typeof vi.fn>;
+  let watchFn: WatchFunction;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    close = vi.fn();
+    watchFn = vi.fn((_dir, listener) => {
+      emit = listener;
+      return { close };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('watches the source directory once', () => {
+    const watcher = new SourceWatcher('src', vi.fn(), { watchFn });
+
+    watcher.start();
+    watcher.start();
+
+    expect(watchFn).toHaveBeenCalledTimes(1);
+    expect(watchFn).toHaveBeenCalledWith('src', expect.any(Function));
+  });
+
+  it('debounces a burst of events into one call with unique files', async () => {
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    const watcher = new SourceWatcher('src', onChange, {
+      debounceMs: 100,
+      watchFn,
+    });
+    watcher.start();
+
+    emit('Token.compact');
+    vi.advanceTimersByTime(50);
+    emit('Token.compact');
+    emit('utils/Utils.compact');
+    vi.advanceTimersByTime(99);
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    await watcher.idle();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([
+      'Token.compact',
+      'utils/Utils.compact',
+    ]);
+  });
+
+  it('ignores non-.compact files and unknown filenames', async () => {
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    const watcher = new SourceWatcher('src', onChange, {
+      debounceMs: 10,
+      watchFn,
+    });
+    watcher.start();
+
+    emit('README.md');
+    emit(null);
+    vi.advanceTimersByTime(10);
+    await watcher.idle();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('never runs callbacks concurrently', async () => {
+    let release: () => void = () => {};
+    const calls: string[][] = [];
+    const onChange = vi.fn(async (files: string[]) => {
+      calls.push(files);
+      if (calls.length === 1) {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+    });
+    const watcher = new SourceWatcher('src', onChange, {
+      debounceMs: 10,
+      watchFn,
+    });
+    watcher.start();
+
+    emit('A.compact');
+    vi.advanceTimersByTime(10);
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+
+    emit('B.compact');
+    vi.advanceTimersByTime(10);
+    await Promise.resolve();
+    expect(calls).toHaveLength(1);
+
+    release();
+    await watcher.idle();
+    expect(calls).toEqual([['A.compact'], ['B.compact']]);
+  });
+
+  it('keeps watching after a callback rejects', async () => {
+    const onChange = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+    const watcher = new SourceWatcher('src', onChange, {
+      debounceMs: 10,
+      watchFn,
+    });
+    watcher.start();
+
+    emit('A.compact');
+    vi.advanceTimersByTime(10);
+    await watcher.idle();
+    emit('A.compact');
+    vi.advanceTimersByTime(10);
+    await watcher.idle();
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops pending changes and stops watching on close', async () => {
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    const watcher = new SourceWatcher('src', onChange, {
+      debounceMs: 10,
+      watchFn,
+    });
+    watcher.start();
+
+    emit('A.compact');
+    watcher.close();
+    vi.advanceTimersByTime(10);
+    await watcher.idle();
+
+    expect(close).toHaveBeenCalled();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TypeScriptService } from '../src/services/TypeScriptService.js';
+import { FileNotFoundError, TypeScriptError } from '../src/types/errors.js';
+
+// Loading and running the TypeScript compiler takes a few seconds
+describe('TypeScriptService', { timeout: 30_000 }, () => {
+  let root: string;
+
+  /** Writes a file (and its parent directories) under the root. */
+  function write(file: string, contents: unknown): void {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(
+      join(root, file),
+      typeof contents === 'string' ? contents : JSON.stringify(contents),
+    );
+  }
+
+  /** Writes a tsconfig compiling `src/` into `dist/`. */
+  function writeProject(dir: string, extra: object = {}): void {
+    write(join(dir, 'tsconfig.json'), {
+      compilerOptions: {
+        outDir: 'dist',
+        rootDir: 'src',
+        strict: true,
+        skipLibCheck: true,
+      },
+      include: ['src'],
+      ...extra,
+    });
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-tsc-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('compiles a project and lists the files it emitted', async () => {
+    writeProject('.');
+    write('src/index.ts', 'export const answer: number = 42;\n');
+
+    await expect(
+      new TypeScriptService().compile(join(root, 'tsconfig.json')),
+    ).resolves.toEqual({
+      stdout: '',
+      stderr: '',
+      diagnostics: [],
+      files: [join(root, 'dist', 'index.js')],
+    });
+  });
+
+  it('fails with the located errors of the project', async () => {
+    writeProject('.');
+    write('src/index.ts', 'export const answer: string = 42;\n');
+
+    const error = await new TypeScriptService()
+      .compile(join(root, 'tsconfig.json'))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TypeScriptError);
+    const { diagnostics, stdout } = error as TypeScriptError;
+    const file = join(root, 'src', 'index.ts');
+    expect(diagnostics).toEqual([
+      {
+        file,
+        line: 1,
+        column: 14,
+        endLine: 1,
+        endColumn: 20,
+        severity: 'error',
+        message: "Type 'number' is not assignable to type 'string'.",
+        code: 'TS2322',
+      },
+    ]);
+    expect(stdout).toBe(
+      `${file}:1:14: error TS2322: Type 'number' is not assignable to type 'string'.\n`,
+    );
+    // Like tsc, files are still emitted
+    expect(existsSync(join(root, 'dist', 'index.js'))).toBe(true);
+  });
+
+  it('reports invalid compiler options against the tsconfig', async () => {
+    write('tsconfig.json', { compilerOptions: { target: 'es1' } });
+    write('index.ts', '');
+
+    await expect(
+      new TypeScriptService().compile(join(root, 'tsconfig.json')),
+    ).rejects.toMatchObject({
+      diagnostics: [
+        expect.objectContaining({
+          file: join(root, 'tsconfig.json'),
+          severity: 'error',
+          code: 'TS6046',
+        }),
+      ],
+    });
+  });
+
+  it('builds referenced projects first, like tsc --build', async () => {
+    writeProject('core', {
+      compilerOptions: {
+        outDir: 'dist',
+        rootDir: 'src',
+        composite: true,
+        skipLibCheck: true,
+      },
+    });
+    write('core/src/index.ts', 'export const base = 1;\n');
+    writeProject('app', { references: [{ path: '../core' }] });
+    write(
+      'app/src/index.ts',
+      "import { base } from '../../core/src/index.js';\nexport const next = base + 1;\n",
+    );
+
+    const { files } = await new TypeScriptService().compile(
+      join(root, 'app', 'tsconfig.json'),
+    );
+
+    expect(files).toEqual(
+      expect.arrayContaining([
+        join(root, 'core', 'dist', 'index.js'),
+        join(root, 'core', 'dist', 'index.d.ts'),
+        join(root, 'app', 'dist', 'index.js'),
+      ]),
+    );
+    expect(files.indexOf(join(root, 'core', 'dist', 'index.js'))).toBeLessThan(
+      files.indexOf(join(root, 'app', 'dist', 'index.js')),
+    );
+  });
+
+  it('throws FileNotFoundError for a missing tsconfig', async () => {
+    await expect(
+      new TypeScriptService().compile(join(root, 'tsconfig.build.json')),
+    ).rejects.toThrow(FileNotFoundError);
+  });
+});
@@ -0,0 +1,77 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkspaceDiscovery } from '../src/services/WorkspaceDiscovery.js';
+import { ConfigError } from '../src/types/errors.js';
+
+describe('WorkspaceDiscovery', () => {
+  let root: string;
+
+  /** Writes a package.json (or any JSON value) into `dir` under the root. */
+  function writeManifest(dir: string, manifest: unknown): void {
+    mkdirSync(join(root, dir), { recursive: true });
+    writeFileSync(join(root, dir, 'package.json'), JSON.stringify(manifest));
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'compact-workspaces-'));
+    writeManifest('packages/token', { name: '@acme/token' });
+    writeManifest('packages/access', { name: '@acme/access' });
+    writeManifest('packages/docs', { name: 'docs' });
+    writeManifest('packages/token/node_modules/dep', { name: 'dep' });
+    writeManifest('tools/nested/cli', { name: 'cli' });
+    mkdirSync(join(root, 'packages/empty'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('lists the packages matched by the workspaces patterns', async () => {
+    writeManifest('.', { workspaces: ['packages/*', 'tools/**'] });
+
+    await expect(new WorkspaceDiscovery(root).findPackages()).resolves.toEqual([
+      { name: '@acme/access', dir: join('packages', 'access') },
+      { name: 'docs', dir: join('packages', 'docs') },
+      { name: '@acme/token', dir: join('packages', 'token') },
+      { name: 'cli', dir: join('tools', 'nested', 'cli') },
+    ]);
+  });
+
+  it('drops packages matched by negated patterns', async () => {
+    writeManifest('.', {
+      workspaces: { packages: ['packages/{token,docs}', '!packages/docs'] },
+    });
+
+    await expect(new WorkspaceDiscovery(root).findPackages()).resolves.toEqual([
+      { name: '@acme/token', dir: join('packages', 'token') },
+    ]);
+  });
+
+  it('names a package without a name after its directory', async () => {
+    writeManifest('.', { workspaces: ['packages/token'] });
+    writeManifest('packages/token', { private: true });
+
+    await expect(new WorkspaceDiscovery(root).findPackages()).resolves.toEqual([
+      {
+        name: join('packages', 'token'),
+        dir: join('packages', 'token'),
+      },
+    ]);
+  });
+
+  it('throws ConfigError without a workspaces field', async () => {
+    writeManifest('.', { name: 'root' });
+
+    await expect(new WorkspaceDiscovery(root).findPackages()).rejects.toThrow(
+      ConfigError,
+    );
+  });
+
+  it('throws ConfigError without a package.json', async () => {
+    await expect(
+      new WorkspaceDiscovery(join(root, 'packages/empty')).findPackages(),
+    ).rejects.toThrow('Workspace mode needs a readable package.json');
+  });
+});
@@ -0,0 +1,350 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CompactBuilder } from '../src/Builder.js';
+import { CompactCompiler } from '../src/Compiler.js';
+import {
+  defineConfig,
+  findConfigFile,
+  findToolchainPin,
+  loadConfig,
+  validateConfig,
+} from '../src/config.js';
+import { ConfigError } from '../src/types/errors.js';
+
+describe('loadConfig', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'compact-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('returns an empty config when no file exists', async () => {
+    expect(findConfigFile(cwd)).toBeUndefined();
+    expect(await loadConfig(cwd)).toEqual({});
+  });
+
+  it('loads compact.config.json', async () => {
+    await writeFile(
+      join(cwd, 'compact.config.json'),
+      JSON.stringify({ srcDir: 'contracts', exclude: ['Mock*'] }),
+    );
+
+    expect(await loadConfig(cwd)).toEqual({
+      srcDir: 'contracts',
+      exclude: ['Mock*'],
+    });
+  });
+
+  it('loads the default export of compact.config.mjs', async () => {
+    await writeFile(
+      join(cwd, 'compact.config.mjs'),
+      'export default { hierarchical: true, concurrency: 2 };\n',
+    );
+
+    expect(await loadConfig(cwd)).toEqual({
+      hierarchical: true,
+      concurrency: 2,
+    });
+  });
+
+  it('loads compact.config.ts on any supported Node.js version', async () => {
+    await writeFile(
+      join(cwd, 'compact.config.ts'),
+      [
+        "import type { CompactConfig } from '@openzeppelin/compact-builder';",
+        "const srcDir: string = 'contracts';",
+        'export default { srcDir, exclude: ["Mock*"] } satisfies CompactConfig;',
+        '',
+      ].join('\n'),
+    );
+
+    expect(await loadConfig(cwd)).toEqual({
+      srcDir: 'contracts',
+      exclude: ['Mock*'],
+    });
+    // No transpiled copy is left behind
+    expect(await readdir(cwd)).toEqual(['compact.config.ts']);
+  });
+
+  it('rejects malformed JSON', async () => {
+    await writeFile(join(cwd, 'compact.config.json'), '{ "srcDir": ');
+
+    await expect(loadConfig(cwd)).rejects.toThrow(
+      /Invalid JSON in compact\.config\.json/,
+    );
+  });
+
+  it('rejects more than one config file', async () => {
+    await writeFile(join(cwd, 'compact.config.json'), '{}');
+    await writeFile(join(cwd, 'compact.config.mjs'), 'export default {};\n');
+
+    expect(() => findConfigFile(cwd)).toThrow(ConfigError);
+    expect(() => findConfigFile(cwd)).toThrow(/multiple config files/);
+  });
+
+  it('adds the toolchain pinned in .compact-version', async () => {
+    await writeFile(join(cwd, '.compact-version'), '0.26.0\n');
+    await writeFile(
+      join(cwd, 'compact.config.json'),
+      JSON.stringify({ srcDir: 'contracts' }),
+    );
+
+    expect(await loadConfig(cwd)).toEqual({
+      srcDir: 'contracts',
+      toolchain: '0.26.0',
+    });
+  });
+
+  it('lets the config file override the pinned toolchain', async () => {
+    await writeFile(join(cwd, '.compact-version'), '0.26.0');
+    await writeFile(
+      join(cwd, 'compact.config.json'),
+      JSON.stringify({ toolchain: '^0.27.0' }),
+    );
+
+    expect(await loadConfig(cwd)).toEqual({ toolchain: '^0.27.0' });
+  });
+});
+
+describe('findToolchainPin', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'compact-pin-'));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('returns undefined when nothing is pinned', async () => {
+    await writeFile(join(cwd, 'package.json'), JSON.stringify({ name: 'x' }));
+
+    expect(await findToolchainPin(cwd)).toBeUndefined();
+  });
+
+  it('reads compact.toolchain from package.json', async () => {
+    await writeFile(
+      join(cwd, 'package.json'),
+      JSON.stringify({ compact: { toolchain: '>=0.26.0 <0.28.0' } }),
+    );
+
+    expect(await findToolchainPin(cwd)).toBe('>=0.26.0 <0.28.0');
+  });
+
+  it('prefers .compact-version over package.json', async () => {
+    await writeFile(join(cwd, '.compact-version'), '0.26.0');
+    await writeFile(
+      join(cwd, 'package.json'),
+      JSON.stringify({ compact: { toolchain: '0.25.0' } }),
+    );
+
+    expect(await findToolchainPin(cwd)).toBe('0.26.0');
+  });
+
+  it('rejects a pin that is not a version or range', async () => {
+    await writeFile(join(cwd, '.compact-version'), 'latest');
+
+    await expect(findToolchainPin(cwd)).rejects.toThrow(
+      'Invalid toolchain version in .compact-version: "latest" is not a version or semver range',
+    );
+  });
+});
+
+describe('validateConfig', () => {
+  it('accepts every supported option', () => {
+    const config = {
+      flags: '--skip-zk',
+      targetDir: 'token',
+      version: '0.26.0',
+      hierarchical: true,
+      srcDir: 'src',
+      outDir: 'build',
+      sources: [{ srcDir: 'packages/token/src', outDir: 'build/token' }],
+      workspaces: false,
+      exclude: ['Mock*'],
+      concurrency: 4,
+      force: false,
+      continueOnError: true,
+      reporter: 'json' as const,
+      toolchain: '^0.26.0',
+      overrides: { 'src/mocks/**': { flags: '--skip-zk' } },
+      cleanDist: true,
+      copyToDist: ['README.md'],
+      tsconfig: 'tsconfig.lib.json',
+      skipTsc: false,
+      packageJson: true,
+      beforeCompile: 'yarn generate',
+      afterCompile: [async () => {}],
+      beforeTsc: ['yarn codegen', () => {}],
+      afterDist: 'yarn docs',
+      steps: [
+        { name: 'Bundling', at: 'afterDist' as const, run: 'yarn bundle' },
+      ],
+    };
+
+    expect(validateConfig(config, 'compact.config.json')).toBe(config);
+  });
+
+  it('reports every invalid value and unknown key at once', () => {
+    let error: unknown;
+    try {
+      validateConfig(
+        { srcdir: 'src', concurrency: 0, exclude: 'Mock*', bogus: 1 },
+        '/project/compact.config.json',
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const configError = error as ConfigError;
+    expect(configError.file).toBe('/project/compact.config.json');
+    expect(configError.issues).toEqual([
+      'unknown option "srcdir" (did you mean "srcDir"?)',
+      '"concurrency" must be a positive integer (got 0)',
+      '"exclude" must be an array of strings (got "Mock*")',
+      expect.stringContaining('unknown option "bogus" (expected one of:'),
+    ]);
+    expect(configError.message).toMatch(/^Invalid compact\.config\.json:/);
+  });
+
+  it('accepts junit=<path> but not a bare junit reporter', () => {
+    expect(
+      validateConfig({ reporter: 'junit=report.xml' }, 'compact.config.json'),
+    ).toEqual({ reporter: 'junit=report.xml' });
+    expect(() =>
+      validateConfig({ reporter: 'junit' }, 'compact.config.json'),
+    ).toThrow(
+      '"reporter" must be one of "spinner", "json", "plain", "github", "junit=<path>" (got "junit")',
+    );
+  });
+
+  it('rejects malformed overrides', () => {
+    expect(() =>
+      validateConfig(
+        { overrides: { 'Mock*': { flag: '--skip-zk' } } },
+        'compact.config.json',
+      ),
+    ).toThrow(
+      '"overrides" must be an object mapping glob patterns to { "flags": string }',
+    );
+  });
+
+  it('rejects malformed source roots', () => {
+    expect(() =>
+      validateConfig(
+        { sources: [{ srcDir: 'a/src' }, { src: 'b/src' }] },
+        'compact.config.json',
+      ),
+    ).toThrow(
+      '"sources" must be an array of { "srcDir": string, "outDir"?: string }',
+    );
+  });
+
+  it('rejects malformed hooks and custom steps', () => {
+    expect(() =>
+      validateConfig(
+        {
+          afterDist: ['yarn docs', 1],
+          steps: [{ name: 'Bundling', at: 'afterBuild', run: 'yarn bundle' }],
+        },
+        'compact.config.json',
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        issues: [
+          '"afterDist" must be a shell command, a function, or an array of them (got ["yarn docs",1])',
+          expect.stringContaining(
+            '"steps" must be an array of { "name": string, "at": "beforeCompile" | "afterCompile" | "beforeTsc" | "afterDist", "run": string | function }',
+          ),
+        ],
+      }),
+    );
+  });
+
+  it('rejects non-object configs', () => {
+    expect(() => validateConfig([], 'compact.config.json')).toThrow(
+      'compact.config.json must export an object',
+    );
+  });
+
+  it('defineConfig returns its argument', () => {
+    const config = { srcDir: 'contracts' };
+    expect(defineConfig(config)).toBe(config);
+  });
+});
+
+describe('config precedence', () => {
+  const config = {
+    srcDir: 'contracts',
+    outDir: 'build',
+    hierarchical: true,
+    flags: '--trace-passes',
+    cleanDist: true,
+  };
+
+  it('applies config values the command line does not set', () => {
+    const compiler = CompactCompiler.fromArgs([], {}, config);
+
+    expect(compiler.testOptions.srcDir).toBe('contracts');
+    expect(compiler.testOptions.outDir).toBe('build');
+    expect(compiler.testOptions.hierarchical).toBe(true);
+    expect(compiler.testOptions.flags).toBe('--trace-passes');
+  });
+
+  it('lets command-line arguments override config values', () => {
+    const compiler = CompactCompiler.fromArgs(
+      ['--src', 'src', '--out', 'artifacts'],
+      {},
+      config,
+    );
+
+    expect(compiler.testOptions.srcDir).toBe('src');
+    expect(compiler.testOptions.outDir).toBe('artifacts');
+  });
+
+  it('lets --src replace every source root of the config', () => {
+    const compiler = CompactCompiler.fromArgs(
+      ['--src', 'contracts'],
+      {},
+      {
+        sources: [{ srcDir: 'a/src' }, { srcDir: 'b/src' }],
+      },
+    );
+
+    expect(compiler.testOptions.srcDir).toBe('contracts');
+    expect(compiler.testOptions.sources).toEqual([]);
+  });
+
+  it('appends environment and command-line flags to config flags', () => {
+    const compiler = CompactCompiler.fromArgs(
+      ['--verbose'],
+      { SKIP_ZK: 'true' },
+      config,
+    );
+
+    expect(compiler.testOptions.flags).toBe(
+      '--trace-passes --skip-zk --verbose',
+    );
+  });
+
+  it('falls back to defaults when neither source sets a value', () => {
+    const compiler = CompactCompiler.fromArgs([], {}, {});
+
+    expect(compiler.testOptions.srcDir).toBe('src');
+    expect(compiler.testOptions.hierarchical).toBe(false);
+  });
+
+  it('applies builder-only options from config', () => {
+    const builder = CompactBuilder.fromArgs([], {}, config);
+
+    expect(builder.getSteps()[0].msg).toBe('Cleaning dist directory');
+  });
+});
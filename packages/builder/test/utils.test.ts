@@ -0,0 +1,110 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  execFileAsync,
+  killProcessGroups,
+  parseDuration,
+  resolveFileFlags,
+} from '../src/utils.js';
+
+describe('resolveFileFlags', () => {
+  const overrides = {
+    'src/mocks/**': { flags: '--skip-zk' },
+    'Mock*': { flags: '--trace-passes' },
+    'token/*': { flags: '--no-communications-commitment' },
+  };
+
+  it('returns the base flags when nothing matches', () => {
+    expect(
+      resolveFileFlags('access/Ownable.compact', 'src', '--verbose', overrides),
+    ).toBe('--verbose');
+  });
+
+  it('appends every matching override in declaration order', () => {
+    expect(
+      resolveFileFlags('mocks/MockToken.compact', 'src', '', overrides),
+    ).toBe('--skip-zk --trace-passes');
+  });
+
+  it('matches path patterns relative to srcDir', () => {
+    expect(
+      resolveFileFlags('token/Token.compact', 'src', '--verbose', overrides),
+    ).toBe('--verbose --no-communications-commitment');
+  });
+});
+
+describe('parseDuration', () => {
+  it('parses durations with units', () => {
+    expect(parseDuration('250ms')).toBe(250);
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('1.5m')).toBe(90_000);
+    expect(parseDuration('2h')).toBe(7_200_000);
+  });
+
+  it('reads bare numbers as seconds', () => {
+    expect(parseDuration('30')).toBe(30_000);
+  });
+
+  it('rejects zero, negative and malformed durations', () => {
+    for (const value of ['0', '0s', '-5s', '5 minutes', 'soon', '']) {
+      expect(parseDuration(value)).toBeUndefined();
+    }
+  });
+});
+
+describe('execFileAsync', () => {
+  const node = process.execPath;
+
+  it('resolves with the output of the process', async () => {
+    await expect(
+      execFileAsync(node, ['-e', 'process.stdout.write("ok")']),
+    ).resolves.toEqual({ stdout: 'ok', stderr: '' });
+  });
+
+  it('rejects with stdout and stderr attached when the process fails', async () => {
+    await expect(
+      execFileAsync(node, ['-e', 'console.error("bad"); process.exit(2)']),
+    ).rejects.toMatchObject({ code: 2, stdout: '', stderr: 'bad\n' });
+  });
+
+  it('kills the process when the signal aborts', async () => {
+    const controller = new AbortController();
+    const running = execFileAsync(node, ['-e', 'setTimeout(() => {}, 60000)'], {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(running).rejects.toMatchObject({ signal: 'SIGTERM' });
+  });
+
+  it.skipIf(process.platform === 'win32')(
+    'kills process groups that ignored SIGTERM on demand',
+    async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'compact-exec-'));
+      const ready = join(dir, 'ready');
+      const controller = new AbortController();
+      const running = execFileAsync(
+        node,
+        [
+          '-e',
+          `process.on('SIGTERM', () => {});
+           require('fs').writeFileSync(${JSON.stringify(ready)}, '');
+           setInterval(() => {}, 1000);`,
+        ],
+        { signal: controller.signal },
+      );
+      const outcome = running.catch((error: unknown) => error);
+      while (!existsSync(ready)) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      controller.abort();
+      killProcessGroups();
+
+      await expect(outcome).resolves.toMatchObject({ signal: 'SIGKILL' });
+      rmSync(dir, { recursive: true, force: true });
+    },
+  );
+});
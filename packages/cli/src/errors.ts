@@ -0,0 +1,287 @@
+import { readFileSync } from 'node:fs';
+import {
+  type AggregateCompilationError,
+  type CancellationError,
+  type CompilationError,
+  type ConfigError,
+  type Diagnostic,
+  DiagnosticParser,
+  type GitError,
+  isPromisifiedChildProcessError,
+  type ToolchainVersionMismatchError,
+  type TypeScriptError,
+} from '@openzeppelin/compact-builder';
+import chalk from 'chalk';
+import type { Ora } from 'ora';
+
+/**
+ * How a CLI presents its errors.
+ */
+export interface ErrorOutputOptions {
+  /** Tag starting every line, e.g. `[COMPILE]` or `[BUILD]` */
+  prefix: string;
+  /** Prints the command's usage after an argument error, if it has one */
+  showUsageHelp?: () => void;
+}
+
+/**
+ * Extracts a printable message from an unknown thrown value.
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Centralized error handling with specific error types and user-friendly
+ * messages, shared by `compact-compiler` and `compact-builder`.
+ *
+ * Handles different error types with appropriate user feedback:
+ *
+ * - `CompactCliNotFoundError`: Shows installation instructions.
+ * - `ToolchainVersionMismatchError`: Shows how to install the pinned toolchain.
+ * - `DirectoryNotFoundError`: Shows available directories.
+ * - `FileNotFoundError`: Names the file that could not be found.
+ * - `GitError`: Shows git's error and how to make the ref available.
+ * - `ConfigError`: Lists every problem found in the config file.
+ * - `CompilationError`: Shows each parsed diagnostic with a code frame, or the
+ *   raw compiler output when none could be parsed.
+ * - `TypeScriptError`: Shows each TypeScript diagnostic with a code frame.
+ * - `AggregateCompilationError`: Lists every failed file (`--keep-going`).
+ * - `CancellationError`: Lists the files that were cancelled (Ctrl-C).
+ * - Environment validation errors: Shows troubleshooting tips.
+ * - Argument parsing errors: Shows usage help.
+ * - Generic errors: Shows general troubleshooting guidance.
+ *
+ * @param error - The error that ended the run
+ * @param spinner - Ora spinner instance for consistent UI messaging
+ * @param options - Prefix and usage help of the running CLI
+ */
+export function handleError(
+  error: unknown,
+  spinner: Ora,
+  options: ErrorOutputOptions,
+): void {
+  const { prefix } = options;
+
+  // CompactCliNotFoundError
+  if (error instanceof Error && error.name === 'CompactCliNotFoundError') {
+    spinner.fail(chalk.red(`${prefix} Error: ${error.message}`));
+    spinner.info(
+      chalk.blue(
+        `${prefix} Install with: curl --proto '=https' --tlsv1.2 -LsSf https://github.com/midnightntwrk/compact/releases/latest/download/compact-installer.sh | sh`,
+      ),
+    );
+    return;
+  }
+
+  // ToolchainVersionMismatchError
+  if (
+    error instanceof Error &&
+    error.name === 'ToolchainVersionMismatchError'
+  ) {
+    const mismatchError = error as ToolchainVersionMismatchError;
+    spinner.fail(chalk.red(`${prefix} Error: ${mismatchError.message}`));
+    spinner.info(
+      chalk.blue(`${prefix} Install it with: ${mismatchError.installHint}`),
+    );
+    return;
+  }
+
+  // DirectoryNotFoundError
+  if (error instanceof Error && error.name === 'DirectoryNotFoundError') {
+    spinner.fail(chalk.red(`${prefix} Error: ${error.message}`));
+    showAvailableDirectories();
+    return;
+  }
+
+  // FileNotFoundError
+  if (error instanceof Error && error.name === 'FileNotFoundError') {
+    spinner.fail(chalk.red(`${prefix} Error: ${error.message}`));
+    return;
+  }
+
+  // GitError (--changed-since)
+  if (error instanceof Error && error.name === 'GitError') {
+    const gitError = error as GitError;
+    spinner.fail(chalk.red(`${prefix} Error: ${gitError.message}`));
+    console.log(
+      chalk.gray(
+        `\nRun inside a git repository and make sure ${gitError.ref} exists locally (in CI, fetch enough history, e.g. fetch-depth: 0).`,
+      ),
+    );
+    return;
+  }
+
+  // ConfigError
+  if (error instanceof Error && error.name === 'ConfigError') {
+    const configError = error as ConfigError;
+    spinner.fail(chalk.red(`${prefix} Error: ${configError.message}`));
+    console.log(chalk.gray(`\nConfig file: ${configError.file}`));
+    return;
+  }
+
+  // CompilationError
+  if (error instanceof Error && error.name === 'CompilationError') {
+    // The compilation error details (file name, stdout/stderr) are already displayed
+    // by `compileFile`; therefore, this just handles the final err state
+    showCompilationFailure(error as CompilationError, spinner, prefix);
+    return;
+  }
+
+  // TypeScriptError (the builder's TypeScript step)
+  if (error instanceof Error && error.name === 'TypeScriptError') {
+    const typeScriptError = error as TypeScriptError;
+    spinner.fail(chalk.red(`${prefix} ${typeScriptError.message}`));
+    for (const diagnostic of typeScriptError.diagnostics) {
+      showDiagnostic(diagnostic);
+    }
+    return;
+  }
+
+  // AggregateCompilationError (--keep-going)
+  if (error instanceof Error && error.name === 'AggregateCompilationError') {
+    const aggregateError = error as AggregateCompilationError;
+    spinner.fail(chalk.red(`${prefix} ${aggregateError.message}`));
+    for (const compilationError of aggregateError.errors) {
+      showCompilationFailure(compilationError, spinner, prefix);
+    }
+    return;
+  }
+
+  // CancellationError (SIGINT / SIGTERM)
+  if (error instanceof Error && error.name === 'CancellationError') {
+    const cancellationError = error as CancellationError;
+    spinner.warn(chalk.yellow(`${prefix} ${cancellationError.message}`));
+    for (const file of cancellationError.files) {
+      console.log(chalk.yellow(`    ${file}`));
+    }
+    return;
+  }
+
+  // Env validation errors (non-CLI errors)
+  if (isPromisifiedChildProcessError(error)) {
+    spinner.fail(
+      chalk.red(`${prefix} Environment validation failed: ${error.message}`),
+    );
+    console.log(chalk.gray('\nTroubleshooting:'));
+    console.log(
+      chalk.gray('  • Check that Compact CLI is installed and in PATH'),
+    );
+    console.log(chalk.gray('  • Verify the specified Compact version exists'));
+    console.log(chalk.gray('  • Ensure you have proper permissions'));
+    return;
+  }
+
+  // Arg parsing — recognize all parser-emitted "flag requires a value" errors,
+  // not just --dir, so users get usage help for any malformed invocation.
+  const message = errorMessage(error);
+  const parserErrors = [
+    '--dir flag requires a directory name',
+    '--src flag requires a directory path',
+    '--out flag requires a directory path',
+    '--exclude flag requires a pattern',
+    '--include flag requires a pattern',
+    '--changed-since flag requires a git ref',
+    '--profile flag requires a file path',
+    '--jobs flag requires a positive integer',
+    '--timeout flag requires a duration',
+    '--reporter flag requires one of',
+    '--watch cannot be combined with --reporter json',
+    '--dry-run requires --prune or the prune command',
+    '--copy flag requires a path',
+    '--tsconfig flag requires a path',
+    '--watch cannot be combined with --dry-run',
+  ];
+  if (parserErrors.some((msg) => message.includes(msg))) {
+    spinner.fail(chalk.red(`${prefix} Error: ${message}`));
+    options.showUsageHelp?.();
+    return;
+  }
+
+  // Unexpected errors
+  spinner.fail(chalk.red(`${prefix} Unexpected error: ${message}`));
+  console.log(chalk.gray('\nIf this error persists, please check:'));
+  console.log(chalk.gray('  • Compact CLI is installed and in PATH'));
+  console.log(chalk.gray('  • Source files exist and are readable'));
+  console.log(chalk.gray('  • Specified Compact version exists'));
+  console.log(chalk.gray('  • File system permissions are correct'));
+}
+
+/**
+ * Reports a single failed file: its diagnostics with code frames when they
+ * could be parsed, the raw compiler stderr otherwise.
+ *
+ * @param compilationError - The failure to report
+ * @param spinner - Ora spinner instance for consistent UI messaging
+ * @param prefix - Tag starting the failure line
+ */
+function showCompilationFailure(
+  compilationError: CompilationError,
+  spinner: Ora,
+  prefix: string,
+): void {
+  spinner.fail(
+    chalk.red(
+      `${prefix} Compilation failed for file: ${compilationError.file || 'unknown'}`,
+    ),
+  );
+
+  if (compilationError.diagnostics?.length) {
+    for (const diagnostic of compilationError.diagnostics) {
+      showDiagnostic(diagnostic);
+    }
+  } else if (isPromisifiedChildProcessError(compilationError.cause)) {
+    const execError = compilationError.cause;
+    if (
+      execError.stderr &&
+      !execError.stderr.includes('stdout') &&
+      !execError.stderr.includes('stderr')
+    ) {
+      console.log(
+        chalk.red(`    Additional error details: ${execError.stderr}`),
+      );
+    }
+  }
+}
+
+/**
+ * Prints a compiler diagnostic followed by a code frame of the offending
+ * source. The frame is omitted when the source file can't be read.
+ *
+ * @param diagnostic - Diagnostic parsed from the compiler output
+ */
+function showDiagnostic(diagnostic: Diagnostic): void {
+  const colorFn = diagnostic.severity === 'warning' ? chalk.yellow : chalk.red;
+  console.log(
+    colorFn(
+      `\n${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.severity}: ${diagnostic.message}`,
+    ),
+  );
+
+  let source: string;
+  try {
+    source = readFileSync(diagnostic.file, 'utf8');
+  } catch {
+    return;
+  }
+  const frame = DiagnosticParser.formatCodeFrame(source, diagnostic, {
+    highlight: colorFn,
+  });
+  if (frame) {
+    console.log(frame);
+  }
+}
+
+/**
+ * Shows available directories when `DirectoryNotFoundError` occurs.
+ */
+function showAvailableDirectories(): void {
+  console.log(chalk.yellow('\nAvailable directories:'));
+  console.log(
+    chalk.yellow('  --dir access    # Compile access control contracts'),
+  );
+  console.log(chalk.yellow('  --dir archive   # Compile archive contracts'));
+  console.log(chalk.yellow('  --dir security  # Compile security contracts'));
+  console.log(chalk.yellow('  --dir token     # Compile token contracts'));
+  console.log(chalk.yellow('  --dir utils     # Compile utility contracts'));
+}
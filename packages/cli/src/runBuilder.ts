@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 
-import { CompactBuilder } from '@openzeppelin/compact-builder';
+import { CompactBuilder, loadConfig } from '@openzeppelin/compact-builder';
 import chalk from 'chalk';
 import ora from 'ora';
+import { errorMessage, handleError } from './errors.js';
+import { handleInterrupts } from './signals.js';
 
 /**
  * Executes the Compact builder CLI.
@@ -12,34 +14,142 @@ import ora from 'ora';
  * - `--dir <directory>`  - Compile specific subdirectory within srcDir
  * - `--src <directory>`  - Source directory (default: src)
  * - `--out <directory>`  - Output directory for artifacts (default: artifacts)
+ * - `--src <dir>=<out>`  - Repeat to compile several source roots, each into
+ *                          its own output directory; the build steps then run
+ *                          once per root, in the root's parent directory
+ * - `--workspaces`       - Compile every workspace package with .compact
+ *                          sources, then run the build steps in each package
  * - `--hierarchical`     - Preserve source directory structure in BOTH the
  *                          compiler artifacts output AND the builder's
  *                          .compact copy into dist/ (default off: flat in both)
- * - `--exclude <glob>`   - Skip .compact files matching pattern, in BOTH the
- *                          compiler's file discovery AND the builder's
- *                          .compact copy (repeatable). When unset, the builder
- *                          falls back to ['Mock*', '*.mock.compact']; the
- *                          compiler defaults to no excludes.
+ * - `--exclude <glob>`   - Skip .compact files matching the gitignore-style
+ *                          pattern, in BOTH the compiler's file discovery AND
+ *                          the builder's .compact copy (repeatable). When
+ *                          unset, the builder falls back to
+ *                          ['Mock*', '*.mock.compact']; the compiler defaults
+ *                          to no excludes.
+ * - `--include <glob>`   - Only compile and copy .compact files matching the
+ *                          pattern (repeatable)
+ * - `<file>.compact`     - Only compile the listed files and their dependents;
+ *                          build steps still run over the whole tree
+ * - `--changed-since <ref>` - Only compile files changed since the git ref and
+ *                          their dependents
+ * - `--jobs <n>`         - Compile up to n .compact files concurrently
+ * - `--force`            - Recompile every file, ignoring the incremental cache
+ * - `--keep-going`       - Compile every file even after failures; build steps
+ *                          still only run if all of them succeed
+ * - `--reporter json`    - Print the build result (per-file status, timing,
+ *                          diagnostics and each step's outcome) as one JSON
+ *                          document on stdout; `--json` is an alias
+ * - `--reporter <fmt>`   - `plain` for non-TTY logs, `github` for GitHub Actions
+ *                          annotations and `::group::` blocks, or
+ *                          `junit=<path>` to also write a JUnit XML report
+ * - `--timeout <dur>`    - Kill any toolchain invocation running longer than
+ *                          the duration (e.g. `90s`, `5m`)
+ * - `--profile <file>`   - Write a JSON timing profile of the compile run
  * - `+<version>`         - Use specific toolchain version
  *
+ * Watch mode:
+ * - `--watch`            - Build once, then recompile affected .compact files on
+ *                          save and re-run the build steps after each success
+ *
+ * Dry run:
+ * - `--dry-run`          - Print the build plan without executing anything: the
+ *                          files that would be compiled and their output
+ *                          directories, then every step with the paths it would
+ *                          copy, clean or remove (with `--prune`, also the
+ *                          orphaned artifacts). With `--reporter json` the plan
+ *                          is printed as JSON.
+ *
  * Builder-only options (control dist/ layout):
- * - `--clean-dist`       - rm -rf dist before building (default off)
- * - `--copy <path>`      - copy an extra file into dist/ for distribution (repeatable; e.g. package.json)
+ * - `--clean-dist`       - empty dist/ before building (default off)
+ * - `--copy <path>`      - copy an extra file or directory into dist/ for distribution (repeatable; e.g. package.json)
+ * - `--tsconfig <path>`  - TypeScript project compiled in-process (default: tsconfig.build.json);
+ *                          one with `references` is built like `tsc --build`
+ * - `--skip-tsc`         - leave out the TypeScript step
+ * - `--package-json`     - write a publishable dist/package.json, with entry
+ *                          points remapped to dist and checked to exist
+ *
+ * Ctrl-C (SIGINT) or SIGTERM kills the running compiler or build step, skips
+ * the remaining steps and exits with 130 / 143; a second signal exits
+ * immediately.
+ *
+ * Any of the above may also be set in `compact.config.{ts,mjs,js,json}` in the
+ * working directory; command-line arguments and `SKIP_ZK` take precedence.
+ * The config file may also add build hooks (`beforeCompile`, `afterCompile`,
+ * `beforeTsc`, `afterDist`) and named custom `steps`.
  *
  * See `packages/cli/README.md` for usage examples.
  */
 async function runBuilder(): Promise<void> {
   const spinner = ora(chalk.blue('[BUILD] Compact Builder started')).info();
+  const interrupt = handleInterrupts((name) =>
+    spinner.warn(chalk.yellow(`[BUILD] Received ${name}, cancelling...`)),
+  );
+  const { signal } = interrupt;
 
+  let builder: CompactBuilder | undefined;
   try {
     const args = process.argv.slice(2);
-    const builder = CompactBuilder.fromArgs(args);
-    await builder.build();
-  } catch (err) {
-    spinner.fail(
-      chalk.red('[BUILD] Unexpected error:', (err as Error).message),
+    const watch = args.includes('--watch');
+    const config = await loadConfig();
+    builder = CompactBuilder.fromArgs(
+      args.filter((arg) => arg !== '--watch'),
+      process.env,
+      config,
     );
-    process.exit(1);
+    if (watch && builder.dryRun) {
+      throw new Error('--watch cannot be combined with --dry-run');
+    }
+    if (builder.dryRun) {
+      const plan = await builder.plan({ signal });
+      if (builder.reporter === 'json') {
+        console.log(JSON.stringify(plan, null, 2));
+      }
+    } else if (watch) {
+      if (builder.reporter === 'json') {
+        throw new Error('--watch cannot be combined with --reporter json');
+      }
+      await builder.watch({ signal });
+    } else {
+      const result = await builder.build({ signal });
+      if (builder.reporter === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+      }
+    }
+    if (interrupt.exitCode() !== undefined) {
+      process.exit(interrupt.exitCode());
+    }
+  } catch (err) {
+    if (builder?.reporter === 'json') {
+      spinner.fail(chalk.red(`[BUILD] Error: ${errorMessage(err)}`));
+      const error = {
+        name: err instanceof Error ? err.name : 'Error',
+        message: errorMessage(err),
+      };
+      console.log(
+        JSON.stringify(
+          { ...(builder.lastResult ?? { success: false }), error },
+          null,
+          2,
+        ),
+      );
+    } else {
+      const failedStep = builder?.lastResult?.steps.find(
+        (step) => step.status === 'failed',
+      );
+      if (failedStep && err instanceof Error && err.name === 'Error') {
+        // A command or hook failed; the reporter has already shown its output
+        spinner.fail(
+          chalk.red(`[BUILD] ${failedStep.name} failed: ${err.message}`),
+        );
+      } else {
+        handleError(err, spinner, { prefix: '[BUILD]' });
+      }
+    }
+    process.exit(interrupt.exitCode() ?? 1);
+  } finally {
+    interrupt.dispose();
   }
 }
 
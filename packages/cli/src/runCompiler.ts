@@ -1,12 +1,10 @@
 #!/usr/bin/env node
 
-import {
-  CompactCompiler,
-  type CompilationError,
-  isPromisifiedChildProcessError,
-} from '@openzeppelin/compact-builder';
+import { CompactCompiler, loadConfig } from '@openzeppelin/compact-builder';
 import chalk from 'chalk';
-import ora, { type Ora } from 'ora';
+import ora from 'ora';
+import { errorMessage, handleError } from './errors.js';
+import { handleInterrupts } from './signals.js';
 
 /**
  * Executes the Compact compiler CLI with improved error handling and user feedback.
@@ -16,14 +14,20 @@ import ora, { type Ora } from 'ora';
  * This CLI follows a layered error handling approach:
  *
  * - Business logic (Compiler.ts) throws structured errors with context.
- * - CLI layer (runCompiler.ts) handles all user-facing error presentation.
+ * - CLI layer (errors.ts, shared with runBuilder.ts) handles all user-facing
+ *   error presentation.
  * - Custom error types (types/errors.ts) provide semantic meaning and context.
  *
  * Benefits: Better testability, consistent UI, separation of concerns.
  *
- * Note: This compiler uses fail-fast error handling.
+ * Note: This compiler uses fail-fast error handling by default.
  * Compilation stops on the first error encountered.
- * This provides immediate feedback but doesn't attempt to compile remaining files after a failure.
+ * Pass `--keep-going` to compile every file and report all failures at the end.
+ * In `--watch` mode errors are reported and watching continues instead.
+ *
+ * Ctrl-C (SIGINT) or SIGTERM kills the running toolchain processes, reports
+ * the files that did not finish and exits with 130 / 143; a second signal
+ * exits immediately.
  *
  * @example Individual module compilation
  * ```bash
@@ -42,137 +46,158 @@ import ora, { type Ora } from 'ora';
  * ```bash
  * npx compact-compiler --dir security --skip-zk +<version>
  * ```
+ *
+ * @example Project defaults from compact.config.json (CLI arguments win)
+ * ```bash
+ * echo '{ "srcDir": "contracts", "hierarchical": true }' > compact.config.json
+ * npx compact-compiler --skip-zk
+ * ```
+ *
+ * @example Machine-readable result on stdout (progress goes to stderr)
+ * ```bash
+ * npx compact-compiler --json --skip-zk > compile-result.json
+ * ```
+ *
+ * @example CI logs: inline annotations on GitHub, or a JUnit report
+ * ```bash
+ * npx compact-compiler --reporter github --keep-going
+ * npx compact-compiler --reporter junit=reports/compact.xml
+ * ```
+ *
+ * @example Pre-commit hook / PR pipeline: only what changed, plus dependents
+ * ```bash
+ * npx compact-compiler src/token/FungibleToken.compact --skip-zk
+ * npx compact-compiler --changed-since origin/main --skip-zk
+ * ```
+ *
+ * @example Compile only the token contracts, skipping the archive
+ * ```bash
+ * npx compact-compiler --include 'token/**' --exclude 'archive/'
+ * ```
+ *
+ * @example Kill any toolchain invocation that runs longer than 5 minutes
+ * ```bash
+ * npx compact-compiler --timeout 5m
+ * ```
+ *
+ * @example Find the slowest contracts and keep the timings for comparison
+ * ```bash
+ * npx compact-compiler --profile reports/compile-profile.json
+ * ```
+ *
+ * @example Recompile on save
+ * ```bash
+ * npx compact-compiler --watch --skip-zk
+ * ```
+ *
+ * @example Remove artifacts of deleted or renamed contracts
+ * ```bash
+ * npx compact-compiler prune --dry-run   # list only
+ * npx compact-compiler --prune           # compile, then prune
+ * ```
+ *
+ * @example Check in CI that committed artifacts match their sources
+ * ```bash
+ * npx compact-compiler verify
+ * ```
  */
 async function runCompiler(): Promise<void> {
   const spinner = ora(chalk.blue('[COMPILE] Compact compiler started')).info();
+  const interrupt = handleInterrupts((name) =>
+    spinner.warn(chalk.yellow(`[COMPILE] Received ${name}, cancelling...`)),
+  );
+  const { signal } = interrupt;
 
+  let compiler: CompactCompiler | undefined;
   try {
     const args = process.argv.slice(2);
-    const compiler = CompactCompiler.fromArgs(args);
-    await compiler.compile();
-  } catch (error) {
-    handleError(error, spinner);
-    process.exit(1);
-  }
-}
-
-/**
- * Centralized error handling with specific error types and user-friendly messages.
- *
- * Handles different error types with appropriate user feedback:
- *
- * - `CompactCliNotFoundError`: Shows installation instructions.
- * - `DirectoryNotFoundError`: Shows available directories.
- * - `CompilationError`: Shows file-specific error details with context.
- * - Environment validation errors: Shows troubleshooting tips.
- * - Argument parsing errors: Shows usage help.
- * - Generic errors: Shows general troubleshooting guidance.
- *
- * @param error - The error that occurred during compilation
- * @param spinner - Ora spinner instance for consistent UI messaging
- */
-function handleError(error: unknown, spinner: Ora): void {
-  // CompactCliNotFoundError
-  if (error instanceof Error && error.name === 'CompactCliNotFoundError') {
-    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
-    spinner.info(
-      chalk.blue(
-        `[COMPILE] Install with: curl --proto '=https' --tlsv1.2 -LsSf https://github.com/midnightntwrk/compact/releases/latest/download/compact-installer.sh | sh`,
-      ),
-    );
-    return;
-  }
-
-  // DirectoryNotFoundError
-  if (error instanceof Error && error.name === 'DirectoryNotFoundError') {
-    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
-    showAvailableDirectories();
-    return;
-  }
-
-  // CompilationError
-  if (error instanceof Error && error.name === 'CompilationError') {
-    // The compilation error details (file name, stdout/stderr) are already displayed
-    // by `compileFile`; therefore, this just handles the final err state
-    const compilationError = error as CompilationError;
-    spinner.fail(
-      chalk.red(
-        `[COMPILE] Compilation failed for file: ${compilationError.file || 'unknown'}`,
-      ),
-    );
-
-    if (isPromisifiedChildProcessError(compilationError.cause)) {
-      const execError = compilationError.cause;
-      if (
-        execError.stderr &&
-        !execError.stderr.includes('stdout') &&
-        !execError.stderr.includes('stderr')
-      ) {
-        console.log(
-          chalk.red(`    Additional error details: ${execError.stderr}`),
-        );
+    const prune = args[0] === 'prune';
+    const verify = args[0] === 'verify';
+    const watch = args.includes('--watch');
+    const config = await loadConfig();
+    let compilerArgs = args.filter((arg) => arg !== '--watch');
+    if (prune) {
+      compilerArgs = [...args.slice(1), '--prune'];
+    } else if (verify) {
+      compilerArgs = args.slice(1);
+    }
+    compiler = CompactCompiler.fromArgs(compilerArgs, process.env, config);
+    if (verify) {
+      const result = await compiler.verify();
+      if (compiler.reporter === 'json') {
+        printJson(result);
+      }
+      if (!result.success) {
+        process.exit(1);
+      }
+    } else if (prune) {
+      const pruned = await compiler.prune();
+      if (compiler.reporter === 'json') {
+        printJson({ success: true, pruned });
+      }
+    } else if (watch) {
+      if (compiler.reporter === 'json') {
+        throw new Error('--watch cannot be combined with --reporter json');
+      }
+      await compiler.watch({ signal });
+    } else {
+      const result = await compiler.compile({ signal });
+      if (compiler.reporter === 'json') {
+        printJson(result);
       }
     }
-    return;
-  }
-
-  // Env validation errors (non-CLI errors)
-  if (isPromisifiedChildProcessError(error)) {
-    spinner.fail(
-      chalk.red(`[COMPILE] Environment validation failed: ${error.message}`),
-    );
-    console.log(chalk.gray('\nTroubleshooting:'));
-    console.log(
-      chalk.gray('  • Check that Compact CLI is installed and in PATH'),
-    );
-    console.log(chalk.gray('  • Verify the specified Compact version exists'));
-    console.log(chalk.gray('  • Ensure you have proper permissions'));
-    return;
-  }
-
-  // Arg parsing — recognize all parser-emitted "flag requires a value" errors,
-  // not just --dir, so users get usage help for any malformed invocation.
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  const parserErrors = [
-    '--dir flag requires a directory name',
-    '--src flag requires a directory path',
-    '--out flag requires a directory path',
-    '--exclude flag requires a pattern',
-  ];
-  if (parserErrors.some((msg) => errorMessage.includes(msg))) {
-    spinner.fail(chalk.red(`[COMPILE] Error: ${errorMessage}`));
-    showUsageHelp();
-    return;
+    if (interrupt.exitCode() !== undefined) {
+      process.exit(interrupt.exitCode());
+    }
+  } catch (error) {
+    if (compiler?.reporter === 'json') {
+      spinner.fail(chalk.red(`[COMPILE] Error: ${errorMessage(error)}`));
+      printJson({
+        ...(compiler.lastResult ?? { success: false }),
+        error: {
+          name: error instanceof Error ? error.name : 'Error',
+          message: errorMessage(error),
+        },
+      });
+    } else {
+      handleError(error, spinner, { prefix: '[COMPILE]', showUsageHelp });
+    }
+    process.exit(interrupt.exitCode() ?? 1);
+  } finally {
+    interrupt.dispose();
   }
-
-  // Unexpected errors
-  spinner.fail(chalk.red(`[COMPILE] Unexpected error: ${errorMessage}`));
-  console.log(chalk.gray('\nIf this error persists, please check:'));
-  console.log(chalk.gray('  • Compact CLI is installed and in PATH'));
-  console.log(chalk.gray('  • Source files exist and are readable'));
-  console.log(chalk.gray('  • Specified Compact version exists'));
-  console.log(chalk.gray('  • File system permissions are correct'));
 }
 
 /**
- * Shows available directories when `DirectoryNotFoundError` occurs.
+ * Writes the machine-readable run result to stdout as a single JSON document.
+ * Progress output goes to stderr, so stdout can be piped straight to a parser.
+ *
+ * @param document - The run result, plus `error` when the run failed
  */
-function showAvailableDirectories(): void {
-  console.log(chalk.yellow('\nAvailable directories:'));
-  console.log(
-    chalk.yellow('  --dir access    # Compile access control contracts'),
-  );
-  console.log(chalk.yellow('  --dir archive   # Compile archive contracts'));
-  console.log(chalk.yellow('  --dir security  # Compile security contracts'));
-  console.log(chalk.yellow('  --dir token     # Compile token contracts'));
-  console.log(chalk.yellow('  --dir utils     # Compile utility contracts'));
+function printJson(document: object): void {
+  console.log(JSON.stringify(document, null, 2));
 }
 
 /**
  * Shows usage help with examples for different scenarios.
  */
 function showUsageHelp(): void {
-  console.log(chalk.yellow('\nUsage: compact-compiler [options]'));
+  console.log(
+    chalk.yellow(
+      '\nUsage: compact-compiler [prune | verify] [options] [files...]',
+    ),
+  );
+  console.log(chalk.yellow('\nCommands:'));
+  console.log(
+    chalk.yellow(
+      '  prune             Delete artifacts of removed sources, without compiling',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  verify            Check that artifacts are complete and match their sources',
+    ),
+  );
   console.log(chalk.yellow('\nOptions:'));
   console.log(
     chalk.yellow(
@@ -185,6 +210,16 @@ function showUsageHelp(): void {
   console.log(
     chalk.yellow('  --out <directory> Output directory (default: artifacts)'),
   );
+  console.log(
+    chalk.yellow(
+      '  --src <dir>=<out> Compile a source root into its own output directory (repeatable)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --workspaces      Compile every workspace package with .compact sources',
+    ),
+  );
   console.log(
     chalk.yellow(
       '  --hierarchical    Preserve source directory structure in artifacts output',
@@ -192,7 +227,65 @@ function showUsageHelp(): void {
   );
   console.log(
     chalk.yellow(
-      '  --exclude <glob>  Skip .compact files matching the glob (repeatable)',
+      '  --exclude <glob>  Skip .compact files matching the glob (gitignore syntax, repeatable)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --include <glob>  Only compile .compact files matching the glob (repeatable)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --changed-since <ref>  Only compile files changed since the git ref, plus dependents',
+    ),
+  );
+  console.log(
+    chalk.yellow('  --jobs <n>        Compile up to n files concurrently'),
+  );
+  console.log(
+    chalk.yellow(
+      '  --force           Recompile all files, ignoring the incremental cache',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --timeout <dur>   Kill toolchain runs exceeding the duration (e.g. 90s, 5m)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --profile <file>  Write a JSON timing profile (environment vs. compile, per file)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --watch           Recompile affected files whenever sources change',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --keep-going      Compile every file, then report all failures',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --reporter <fmt>  Output format: spinner (default), json (alias: --json),',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '                    plain, github or junit=<path> (JUnit XML report)',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --prune           Delete artifacts of removed sources after compiling',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  --dry-run         With prune, list orphaned artifacts without deleting',
     ),
   );
   console.log(
@@ -201,6 +294,11 @@ function showUsageHelp(): void {
   console.log(
     chalk.yellow('  +<version>        Pin the Compact toolchain version'),
   );
+  console.log(
+    chalk.yellow(
+      '\nDefaults can be set in compact.config.{ts,mjs,js,json}; arguments take precedence.',
+    ),
+  );
   console.log(chalk.yellow('\nArtifact Output Structure:'));
   console.log(chalk.yellow('  Default (flattened): <out>/<ContractName>/'));
   console.log(
@@ -232,6 +330,31 @@ function showUsageHelp(): void {
       '  compact-compiler --src contracts --out build  # Custom directories',
     ),
   );
+  console.log(
+    chalk.yellow(
+      '  compact-compiler --workspaces --skip-zk     # Compile every workspace package',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  compact-compiler --jobs 4                   # Compile 4 files at a time',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  compact-compiler --watch --skip-zk          # Recompile on save',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  compact-compiler --json > result.json       # Machine-readable result',
+    ),
+  );
+  console.log(
+    chalk.yellow(
+      '  compact-compiler --reporter github          # GitHub Actions annotations',
+    ),
+  );
   console.log(
     chalk.yellow(
       '  SKIP_ZK=true compact-compiler --dir token   # Use environment variable',
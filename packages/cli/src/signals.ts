@@ -0,0 +1,66 @@
+import { constants } from 'node:os';
+import { killProcessGroups } from '@openzeppelin/compact-builder';
+
+/** Signals that cancel a run. */
+const INTERRUPT_SIGNALS: readonly NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Cancellation state of a CLI run, driven by SIGINT / SIGTERM.
+ */
+export interface Interrupt {
+  /** Aborted by the first SIGINT or SIGTERM */
+  signal: AbortSignal;
+  /**
+   * Conventional exit code for the received signal (130 for SIGINT, 143 for
+   * SIGTERM), or undefined if none was received.
+   */
+  exitCode(): number | undefined;
+  /** Removes the signal handlers. */
+  dispose(): void;
+}
+
+/**
+ * Installs SIGINT / SIGTERM handlers that abort the returned signal instead of
+ * exiting, so the library can kill running toolchain processes and report
+ * which files were cancelled. A second signal exits immediately.
+ *
+ * Aborted toolchain processes get SIGTERM, then SIGKILL after a grace period
+ * that exiting cuts short; so whenever the process exits while the handlers
+ * are installed, process groups still running are SIGKILLed first.
+ *
+ * @param onInterrupt - Called with the signal name when the first one arrives
+ */
+export function handleInterrupts(
+  onInterrupt: (name: NodeJS.Signals) => void,
+): Interrupt {
+  const controller = new AbortController();
+  let received: NodeJS.Signals | undefined;
+
+  const exitCode = () =>
+    received === undefined ? undefined : 128 + constants.signals[received];
+  const listeners = INTERRUPT_SIGNALS.map((name) => {
+    const listener = () => {
+      if (received !== undefined) {
+        killProcessGroups();
+        process.exit(exitCode());
+      }
+      received = name;
+      onInterrupt(name);
+      controller.abort();
+    };
+    process.on(name, listener);
+    return { name, listener };
+  });
+  process.on('exit', killProcessGroups);
+
+  return {
+    signal: controller.signal,
+    exitCode,
+    dispose: () => {
+      for (const { name, listener } of listeners) {
+        process.off(name, listener);
+      }
+      process.off('exit', killProcessGroups);
+    },
+  };
+}
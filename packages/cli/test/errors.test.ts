@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, TypeScriptError } from '@openzeppelin/compact-builder';
+import type { Ora } from 'ora';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleError } from '../src/errors.js';
+
+// Mock chalk
+vi.mock('chalk', () => ({
+  default: {
+    blue: (text: string) => text,
+    red: (text: string) => text,
+    yellow: (text: string) => text,
+    gray: (text: string) => text,
+  },
+}));
+
+const mockSpinner = {
+  info: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  warn: vi.fn().mockReturnThis(),
+};
+const spinner = mockSpinner as unknown as Ora;
+
+describe('handleError', () => {
+  let mockConsoleLog: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+  });
+
+  it('should render TypeScript diagnostics with a code frame', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cli-errors-'));
+    const file = join(dir, 'index.ts');
+    writeFileSync(file, 'const a: number = "a";\n');
+    const error = new TypeScriptError(
+      'tsconfig.build.json',
+      [
+        {
+          file,
+          line: 1,
+          column: 7,
+          severity: 'error',
+          message: "Type 'string' is not assignable to type 'number'.",
+        },
+      ],
+      '',
+    );
+
+    try {
+      handleError(error, spinner, { prefix: '[BUILD]' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      '[BUILD] TypeScript compilation of tsconfig.build.json failed with 1 error',
+    );
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      `\n${file}:1:7 - error: Type 'string' is not assignable to type 'number'.`,
+    );
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      ['> 1 | const a: number = "a";', '    |       ^', '  2 | '].join('\n'),
+    );
+    expect(mockSpinner.fail).not.toHaveBeenCalledWith(
+      expect.stringContaining('Unexpected error'),
+    );
+  });
+
+  it('should tag known errors with the given prefix', () => {
+    handleError(
+      new ConfigError('Invalid config', 'compact.config.json'),
+      spinner,
+      { prefix: '[BUILD]' },
+    );
+
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      '[BUILD] Error: Invalid config',
+    );
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      '\nConfig file: compact.config.json',
+    );
+  });
+
+  it('should show usage help for argument errors only when given', () => {
+    const showUsageHelp = vi.fn();
+
+    handleError(new Error('--copy flag requires a path'), spinner, {
+      prefix: '[BUILD]',
+    });
+    handleError(new Error('--copy flag requires a path'), spinner, {
+      prefix: '[BUILD]',
+      showUsageHelp,
+    });
+
+    expect(mockSpinner.fail).toHaveBeenCalledTimes(2);
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      '[BUILD] Error: --copy flag requires a path',
+    );
+    expect(showUsageHelp).toHaveBeenCalledTimes(1);
+  });
+
+  it('should label anything else as unexpected', () => {
+    handleError(new Error('boom'), spinner, { prefix: '[BUILD]' });
+
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      '[BUILD] Unexpected error: boom',
+    );
+  });
+});
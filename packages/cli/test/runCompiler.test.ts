@@ -1,10 +1,19 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
+  AggregateCompilationError,
+  CancellationError,
   CompactCliNotFoundError,
   CompactCompiler,
   CompilationError,
+  ConfigError,
   DirectoryNotFoundError,
+  GitError,
   isPromisifiedChildProcessError,
+  loadConfig,
   type PromisifiedChildProcessError,
+  ToolchainVersionMismatchError,
 } from '@openzeppelin/compact-builder';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -19,6 +28,7 @@ vi.mock('@openzeppelin/compact-builder', async () => {
       fromArgs: vi.fn(),
     },
     isPromisifiedChildProcessError: vi.fn(),
+    loadConfig: vi.fn(),
   };
 });
 
@@ -37,6 +47,7 @@ const mockSpinner = {
   info: vi.fn().mockReturnThis(),
   fail: vi.fn().mockReturnThis(),
   succeed: vi.fn().mockReturnThis(),
+  warn: vi.fn().mockReturnThis(),
 };
 vi.mock('ora', () => ({
   default: vi.fn(() => mockSpinner),
@@ -52,6 +63,9 @@ const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
 
 describe('runCompiler CLI', () => {
   let mockCompile: ReturnType<typeof vi.fn>;
+  let mockWatch: ReturnType<typeof vi.fn>;
+  let mockPrune: ReturnType<typeof vi.fn>;
+  let mockVerify: ReturnType<typeof vi.fn>;
   let mockFromArgs: ReturnType<typeof vi.fn>;
   let originalArgv: string[];
 
@@ -63,17 +77,25 @@ describe('runCompiler CLI', () => {
     vi.resetModules();
 
     mockCompile = vi.fn();
+    mockWatch = vi.fn();
+    mockPrune = vi.fn();
+    mockVerify = vi.fn();
     mockFromArgs = vi.mocked(CompactCompiler.fromArgs);
+    vi.mocked(loadConfig).mockResolvedValue({});
 
     // Mock CompactCompiler instance
     mockFromArgs.mockReturnValue({
       compile: mockCompile,
+      watch: mockWatch,
+      prune: mockPrune,
+      verify: mockVerify,
     } as any);
 
     // Clear all mock calls
     mockSpinner.info.mockClear();
     mockSpinner.fail.mockClear();
     mockSpinner.succeed.mockClear();
+    mockSpinner.warn.mockClear();
     mockConsoleLog.mockClear();
     mockExit.mockClear();
   });
@@ -90,8 +112,10 @@ describe('runCompiler CLI', () => {
       // Import and run the CLI
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
-      expect(mockCompile).toHaveBeenCalled();
+      expect(mockFromArgs).toHaveBeenCalledWith([], process.env, {});
+      expect(mockCompile).toHaveBeenCalledWith({
+        signal: expect.any(AbortSignal),
+      });
       expect(mockExit).not.toHaveBeenCalled();
     });
 
@@ -107,16 +131,216 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'security',
-        '--skip-zk',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security', '--skip-zk'],
+        process.env,
+        {},
+      );
       expect(mockCompile).toHaveBeenCalled();
       expect(mockExit).not.toHaveBeenCalled();
     });
   });
 
+  describe('config file', () => {
+    it('should pass the loaded config to CompactCompiler.fromArgs', async () => {
+      process.argv = ['node', 'runCompiler.js', '--skip-zk'];
+      const config = { srcDir: 'contracts', hierarchical: true };
+      vi.mocked(loadConfig).mockResolvedValue(config);
+      mockCompile.mockResolvedValue(undefined);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--skip-zk'],
+        process.env,
+        config,
+      );
+      expect(mockCompile).toHaveBeenCalled();
+    });
+
+    it('should report an invalid config file', async () => {
+      vi.mocked(loadConfig).mockRejectedValue(
+        new ConfigError(
+          'Invalid compact.config.json:\n  • "srcDir" must be a string (got 1)',
+          '/project/compact.config.json',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Invalid compact.config.json:\n  • "srcDir" must be a string (got 1)',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nConfig file: /project/compact.config.json',
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('prune command', () => {
+    it('should prune without compiling', async () => {
+      process.argv = ['node', 'runCompiler.js', 'prune', '--dry-run'];
+      mockPrune.mockResolvedValue(['artifacts/Old']);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dry-run', '--prune'],
+        process.env,
+        {},
+      );
+      expect(mockPrune).toHaveBeenCalled();
+      expect(mockCompile).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should show usage help for --dry-run without --prune', async () => {
+      process.argv = ['node', 'runCompiler.js', '--dry-run'];
+      mockFromArgs.mockImplementation(() => {
+        throw new Error('--dry-run requires --prune or the prune command');
+      });
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: --dry-run requires --prune or the prune command',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nUsage: compact-compiler [prune | verify] [options] [files...]',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('verify command', () => {
+    it('should verify without compiling and exit 0 when artifacts are current', async () => {
+      process.argv = ['node', 'runCompiler.js', 'verify', '--src', 'contracts'];
+      mockVerify.mockResolvedValue({ success: true, files: [] });
+
+      await import('../src/runCompiler.js');
+
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--src', 'contracts'],
+        process.env,
+        {},
+      );
+      expect(mockVerify).toHaveBeenCalled();
+      expect(mockCompile).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should exit 1 when any artifact is stale', async () => {
+      process.argv = ['node', 'runCompiler.js', 'verify'];
+      mockVerify.mockResolvedValue({
+        success: false,
+        files: [
+          {
+            file: 'Token.compact',
+            outputDir: 'artifacts/Token',
+            problems: ['source changed since the artifacts were built'],
+          },
+        ],
+      });
+
+      await import('../src/runCompiler.js');
+
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('json reporter', () => {
+    it('should print the compile result as JSON', async () => {
+      const result = { success: true, durationMs: 3, files: [] };
+      mockFromArgs.mockReturnValue({
+        compile: mockCompile.mockResolvedValue(result),
+        watch: mockWatch,
+        reporter: 'json',
+      } as any);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual(result);
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should print the partial result and error as JSON on failure', async () => {
+      const lastResult = {
+        success: false,
+        durationMs: 3,
+        files: [{ file: 'Broken.compact', status: 'failed' }],
+      };
+      mockFromArgs.mockReturnValue({
+        compile: mockCompile.mockRejectedValue(
+          new CompilationError(
+            'Failed to compile Broken.compact',
+            'Broken.compact',
+          ),
+        ),
+        watch: mockWatch,
+        reporter: 'json',
+        lastResult,
+      } as any);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual({
+        ...lastResult,
+        error: {
+          name: 'CompilationError',
+          message: 'Failed to compile Broken.compact',
+        },
+      });
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject --watch with the json reporter', async () => {
+      process.argv = ['node', 'runCompiler.js', '--watch', '--json'];
+      mockFromArgs.mockReturnValue({
+        compile: mockCompile,
+        watch: mockWatch,
+        reporter: 'json',
+      } as any);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockWatch).not.toHaveBeenCalled();
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: --watch cannot be combined with --reporter json',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('watch mode', () => {
+    it('should watch instead of compiling once with --watch', async () => {
+      process.argv = ['node', 'runCompiler.js', '--watch', '--skip-zk'];
+      mockWatch.mockResolvedValue(undefined);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockFromArgs).toHaveBeenCalledWith(['--skip-zk'], process.env, {});
+      expect(mockWatch).toHaveBeenCalled();
+      expect(mockCompile).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should exit when watching cannot start', async () => {
+      process.argv = ['node', 'runCompiler.js', '--watch'];
+      mockWatch.mockRejectedValue(new CompactCliNotFoundError('CLI not found'));
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: CLI not found',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle CompactCliNotFoundError with installation instructions', async () => {
       const error = new CompactCliNotFoundError('CLI not found');
@@ -133,6 +357,45 @@ describe('runCompiler CLI', () => {
       expect(mockExit).toHaveBeenCalledWith(1);
     });
 
+    it('should handle ToolchainVersionMismatchError with an install command', async () => {
+      mockCompile.mockRejectedValue(
+        new ToolchainVersionMismatchError(
+          '0.26.0',
+          '0.25.0',
+          'compact update 0.26.0',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Compact toolchain 0.25.0 does not satisfy the required version 0.26.0',
+      );
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] Install it with: compact update 0.26.0',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should handle GitError with a hint about fetching the ref', async () => {
+      mockCompile.mockRejectedValue(
+        new GitError(
+          "Could not list files changed since origin/main: fatal: bad revision 'origin/main'",
+          'origin/main',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        "[COMPILE] Error: Could not list files changed since origin/main: fatal: bad revision 'origin/main'",
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nRun inside a git repository and make sure origin/main exists locally (in CI, fetch enough history, e.g. fetch-depth: 0).',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
     it('should handle DirectoryNotFoundError with helpful message', async () => {
       const error = new DirectoryNotFoundError(
         'Directory not found',
@@ -210,6 +473,107 @@ describe('runCompiler CLI', () => {
       expect(mockExit).toHaveBeenCalledWith(1);
     });
 
+    it('should list every failure of an AggregateCompilationError', async () => {
+      const error = new AggregateCompilationError(
+        [
+          new CompilationError('Failed to compile A.compact', 'A.compact'),
+          new CompilationError('Failed to compile C.compact', 'C.compact'),
+        ],
+        3,
+      );
+      mockCompile.mockRejectedValue(error);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] 2 of 3 file(s) failed to compile: A.compact, C.compact',
+      );
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation failed for file: A.compact',
+      );
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation failed for file: C.compact',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should cancel the run on SIGINT and list the cancelled files', async () => {
+      mockCompile.mockImplementation(
+        ({ signal }: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(
+                new CancellationError(
+                  'Cancelled 2 file(s) before they finished compiling',
+                  ['B.compact', 'C.compact'],
+                ),
+              ),
+            );
+          }),
+      );
+
+      await import('../src/runCompiler.js');
+      await vi.waitFor(() => expect(mockCompile).toHaveBeenCalled());
+      process.emit('SIGINT');
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalled());
+
+      expect(mockSpinner.warn).toHaveBeenCalledWith(
+        '[COMPILE] Received SIGINT, cancelling...',
+      );
+      expect(mockSpinner.warn).toHaveBeenCalledWith(
+        '[COMPILE] Cancelled 2 file(s) before they finished compiling',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith('    B.compact');
+      expect(mockConsoleLog).toHaveBeenCalledWith('    C.compact');
+      expect(mockExit).toHaveBeenCalledWith(130);
+      expect(process.listenerCount('SIGINT')).toBe(0);
+    });
+
+    it('should render diagnostics with a code frame', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'run-compiler-'));
+      const file = join(dir, 'Token.compact');
+      writeFileSync(
+        file,
+        'pragma language_version >= 0.16;\nexport circuit f(): Field {\n  return y;\n}\n',
+      );
+      const error = new CompilationError(
+        'Compilation failed',
+        'Token.compact',
+        undefined,
+        [
+          {
+            file,
+            line: 3,
+            column: 10,
+            severity: 'error',
+            message: 'unbound identifier y',
+          },
+        ],
+      );
+      mockCompile.mockRejectedValue(error);
+
+      try {
+        await import('../src/runCompiler.js');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        `\n${file}:3:10 - error: unbound identifier y`,
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        [
+          '  1 | pragma language_version >= 0.16;',
+          '  2 | export circuit f(): Field {',
+          '> 3 |   return y;',
+          '    |          ^',
+          '  4 | }',
+          '  5 | ',
+        ].join('\n'),
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
     it('should handle argument parsing errors', async () => {
       const error = new Error('--dir flag requires a directory name');
       mockFromArgs.mockImplementation(() => {
@@ -222,7 +586,7 @@ describe('runCompiler CLI', () => {
         '[COMPILE] Error: --dir flag requires a directory name',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '\nUsage: compact-compiler [options]',
+        '\nUsage: compact-compiler [prune | verify] [options] [files...]',
       );
       expect(mockExit).toHaveBeenCalledWith(1);
     });
@@ -317,7 +681,7 @@ describe('runCompiler CLI', () => {
 
       // Verify all sections of help are shown
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '\nUsage: compact-compiler [options]',
+        '\nUsage: compact-compiler [prune | verify] [options] [files...]',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith('\nOptions:');
       expect(mockConsoleLog).toHaveBeenCalledWith(
@@ -329,11 +693,20 @@ describe('runCompiler CLI', () => {
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  --out <directory> Output directory (default: artifacts)',
       );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  --src <dir>=<out> Compile a source root into its own output directory (repeatable)',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  --workspaces      Compile every workspace package with .compact sources',
+      );
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  --hierarchical    Preserve source directory structure in artifacts output',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  --exclude <glob>  Skip .compact files matching the glob (repeatable)',
+        '  --exclude <glob>  Skip .compact files matching the glob (gitignore syntax, repeatable)',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  --include <glob>  Only compile .compact files matching the glob (repeatable)',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  --skip-zk         Skip zero-knowledge proof generation',
@@ -366,6 +739,9 @@ describe('runCompiler CLI', () => {
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  compact-compiler --src contracts --out build  # Custom directories',
       );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  compact-compiler --workspaces --skip-zk     # Compile every workspace package',
+      );
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  SKIP_ZK=true compact-compiler --dir token   # Use environment variable',
       );
@@ -424,7 +800,7 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
+      expect(mockFromArgs).toHaveBeenCalledWith([], process.env, {});
     });
 
     it('should handle turbo compact:security', async () => {
@@ -432,7 +808,11 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(['--dir', 'security']);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security'],
+        process.env,
+        {},
+      );
     });
 
     it('should handle turbo compact:access -- --skip-zk', async () => {
@@ -440,11 +820,11 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'access',
-        '--skip-zk',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'access', '--skip-zk'],
+        process.env,
+        {},
+      );
     });
 
     it('should handle version specification', async () => {
@@ -452,7 +832,11 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(['+0.26.0', '--skip-zk']);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['+0.26.0', '--skip-zk'],
+        process.env,
+        {},
+      );
     });
 
     it('should handle complex command', async () => {
@@ -468,13 +852,11 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'security',
-        '--skip-zk',
-        '--verbose',
-        '+0.26.0',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security', '--skip-zk', '--verbose', '+0.26.0'],
+        process.env,
+        {},
+      );
     });
   });
 
@@ -486,7 +868,7 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(args);
+      expect(mockFromArgs).toHaveBeenCalledWith(args, process.env, {});
       expect(mockFromArgs).toHaveBeenCalledTimes(1);
       expect(mockCompile).toHaveBeenCalledTimes(1);
     });
@@ -497,7 +879,7 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
+      expect(mockFromArgs).toHaveBeenCalledWith([], process.env, {});
     });
   });
 });
@@ -0,0 +1,22 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { ArtifactManifest } from '@openzeppelin/compact-builder';
+
+/** Output directory of the sample contracts compiled by the test setup. */
+export const ARTIFACTS_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'artifacts',
+);
+
+/**
+ * @description Imports the generated contract module of a sample contract,
+ *              located through the artifact manifest written by the test setup.
+ * @param name Contract name or source path, e.g. `SampleZOwnable`.
+ * @returns The module exporting the contract's `Contract`, `ledger` and types.
+ */
+export const loadContract = async <T>(name: string): Promise<T> => {
+  const manifest = await ArtifactManifest.read(ARTIFACTS_DIR);
+  const contract = manifest.resolve(name, 'contract/index.js');
+  return (await import(pathToFileURL(contract).href)) as T;
+};
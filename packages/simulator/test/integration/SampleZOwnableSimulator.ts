@@ -1,15 +1,13 @@
 import { type BaseSimulatorOptions, createSimulator } from '../../src/index';
-import {
-  type ContractAddress,
-  type Either,
-  ledger,
-  Contract as SampleZOwnable,
-  type ZswapCoinPublicKey,
-} from '../fixtures/artifacts/SampleZOwnable/contract/index.js';
+import type * as SampleZOwnableArtifact from '../fixtures/artifacts/SampleZOwnable/contract/index.js';
 import {
   SampleZOwnablePrivateState,
   SampleZOwnableWitnesses,
 } from '../fixtures/sample-contracts/witnesses/SampleZOwnableWitnesses';
+import { loadContract } from '../fixtures/utils/artifacts';
+
+const { ledger, Contract: SampleZOwnable } =
+  await loadContract<typeof SampleZOwnableArtifact>('SampleZOwnable');
 
 /** Type constructor args */
 type SampleZOwnableArgs = readonly [
@@ -27,7 +25,7 @@ const SampleZOwnableSimulatorBase = createSimulator<
   SampleZOwnablePrivateState,
   ReturnType<typeof ledger>,
   ReturnType<typeof SampleZOwnableWitnesses>,
-  SampleZOwnable<SampleZOwnablePrivateState>,
+  SampleZOwnableArtifact.Contract<SampleZOwnablePrivateState>,
   SampleZOwnableArgs
 >({
   contractFactory: (witnesses) =>
@@ -109,7 +107,10 @@ export class SampleZOwnableSimulator extends SampleZOwnableSimulatorBase {
    * @returns The computed owner ID.
    */
   public _computeOwnerId(
-    pk: Either<ZswapCoinPublicKey, ContractAddress>,
+    pk: SampleZOwnableArtifact.Either<
+      SampleZOwnableArtifact.ZswapCoinPublicKey,
+      SampleZOwnableArtifact.ContractAddress
+    >,
     nonce: Uint8Array,
   ): Uint8Array {
     return this.circuits.pure._computeOwnerId(pk, nonce);
@@ -1,12 +1,13 @@
 import { type BaseSimulatorOptions, createSimulator } from '../../src/index';
-import {
-  ledger,
-  Contract as SimpleContract,
-} from '../fixtures/artifacts/Simple/contract/index.js';
+import type * as SimpleArtifact from '../fixtures/artifacts/Simple/contract/index.js';
 import {
   SimplePrivateState,
   SimpleWitnesses,
 } from '../fixtures/sample-contracts/witnesses/SimpleWitnesses';
+import { loadContract } from '../fixtures/utils/artifacts';
+
+const { ledger, Contract: SimpleContract } =
+  await loadContract<typeof SimpleArtifact>('Simple');
 
 /**
  * Base simulator
@@ -15,7 +16,7 @@ const SimpleSimulatorBase = createSimulator<
   SimplePrivateState,
   ReturnType<typeof ledger>,
   ReturnType<typeof SimpleWitnesses>,
-  SimpleContract<SimplePrivateState>
+  SimpleArtifact.Contract<SimplePrivateState>
 >({
   contractFactory: (witnesses) =>
     new SimpleContract<SimplePrivateState>(witnesses),
@@ -1,12 +1,13 @@
 import { type BaseSimulatorOptions, createSimulator } from '../../src/index';
-import {
-  ledger,
-  Contract as WitnessContract,
-} from '../fixtures/artifacts/Witness/contract/index.js';
+import type * as WitnessArtifact from '../fixtures/artifacts/Witness/contract/index.js';
 import {
   WitnessPrivateState,
   WitnessWitnesses,
 } from '../fixtures/sample-contracts/witnesses/WitnessWitnesses';
+import { loadContract } from '../fixtures/utils/artifacts';
+
+const { ledger, Contract: WitnessContract } =
+  await loadContract<typeof WitnessArtifact>('Witness');
 
 /** Type constructor args */
 type WitnessArgs = readonly [];
@@ -21,7 +22,7 @@ const WitnessSimulatorBase = createSimulator<
   WitnessPrivateState,
   ReturnType<typeof ledger>,
   ReturnType<typeof WitnessWitnesses>,
-  WitnessContract<WitnessPrivateState>,
+  WitnessArtifact.Contract<WitnessPrivateState>,
   WitnessArgs
 >({
   contractFactory: (witnesses) =>
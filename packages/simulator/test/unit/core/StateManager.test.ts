@@ -11,19 +11,23 @@ import {
 } from '@midnight-ntwrk/compact-runtime';
 import { beforeEach, describe, expect, it } from 'vitest';
 import { CircuitContextManager } from '../../../src/core/CircuitContextManager';
-import { Contract as MockSimple } from '../../fixtures/artifacts/Simple/contract/index.js';
+import type * as SimpleArtifact from '../../fixtures/artifacts/Simple/contract/index.js';
 import {
   type SimplePrivateState,
   SimpleWitnesses,
 } from '../../fixtures/sample-contracts/witnesses/SimpleWitnesses';
 import { encodeToAddress, toHexPadded } from '../../fixtures/utils/address';
+import { loadContract } from '../../fixtures/utils/artifacts';
+
+const { Contract: MockSimple } =
+  await loadContract<typeof SimpleArtifact>('Simple');
 
 // Constants
 const DEPLOYER = 'DEPLOYER';
 const deployer = toHexPadded(DEPLOYER);
 
 // Mut vars
-let mockContract: MockSimple<SimplePrivateState>;
+let mockContract: SimpleArtifact.Contract<SimplePrivateState>;
 let initialPrivateState: SimplePrivateState;
 let circuitCtxManager: CircuitContextManager<SimplePrivateState>;
 let ctx: CircuitContext<SimplePrivateState>;